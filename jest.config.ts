@@ -13,6 +13,16 @@ const config: JestConfigWithTsJest = {
 	testTimeout: 10000,
 	moduleNameMapper: {
 		"^openai$": "<rootDir>/test/__mocks__/openai.ts",
+		"^@anthropic-ai/sdk$": "<rootDir>/test/__mocks__/anthropic.ts",
+		"^@google/genai$": "<rootDir>/test/__mocks__/google-genai.ts",
+		"^@aws-sdk/client-bedrock-runtime$":
+			"<rootDir>/test/__mocks__/bedrock-runtime.ts",
+		"^@mistralai/mistralai$": "<rootDir>/test/__mocks__/mistral.ts",
+		"^cohere-ai$": "<rootDir>/test/__mocks__/cohere.ts",
+		"^groq-sdk$": "<rootDir>/test/__mocks__/groq.ts",
+		"^(llamaindex|@llamaindex/core/global)$":
+			"<rootDir>/test/__mocks__/llamaindex.ts",
+		"^@mastra/core$": "<rootDir>/test/__mocks__/mastra.ts",
 	},
 };
 
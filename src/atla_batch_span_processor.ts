@@ -0,0 +1,118 @@
+import { TraceFlags } from "@opentelemetry/api";
+import {
+	type ExportResult,
+	getEnv,
+	globalErrorHandler,
+} from "@opentelemetry/core";
+import {
+	BatchSpanProcessor,
+	type ReadableSpan,
+	type SpanExporter,
+} from "@opentelemetry/sdk-trace-node";
+
+export interface BatchOptions {
+	/** The maximum number of spans buffered before new spans are dropped. */
+	maxQueueSize?: number;
+	/** The maximum number of spans sent in a single export request. */
+	maxExportBatchSize?: number;
+	/** The delay between two consecutive exports, in milliseconds. */
+	scheduledDelayMillis?: number;
+	/** How long an export may run before it is cancelled, in milliseconds. */
+	exportTimeoutMillis?: number;
+}
+
+/**
+ * Exporter reporting the spans taken from the queue of the batch processor,
+ * which are all handed to the exporter as they are taken.
+ */
+class DequeueReportingExporter implements SpanExporter {
+	onDequeue: (count: number) => void = () => {};
+
+	constructor(private exporter: SpanExporter) {}
+
+	export(
+		spans: ReadableSpan[],
+		resultCallback: (result: ExportResult) => void,
+	): void {
+		this.onDequeue(spans.length);
+		this.exporter.export(spans, resultCallback);
+	}
+
+	shutdown(): Promise<void> {
+		return this.exporter.shutdown();
+	}
+
+	forceFlush(): Promise<void> {
+		return this.exporter.forceFlush?.() ?? Promise.resolve();
+	}
+}
+
+/**
+ * Batch span processor that counts the spans it drops.
+ *
+ * Spans are dropped when the queue is full, i.e. when spans end faster than
+ * they can be exported. The processor keeps track of the queue itself and
+ * refuses those spans before they reach the underlying processor. The count
+ * can be read with `getDroppedSpanCount`.
+ */
+export class AtlaBatchSpanProcessor extends BatchSpanProcessor {
+	private maxQueueSize: number;
+	private queuedSpanCount = 0;
+	private droppedSpanCount = 0;
+	private isShutdown = false;
+
+	constructor(exporter: SpanExporter, options: BatchOptions = {}) {
+		const reportingExporter = new DequeueReportingExporter(exporter);
+		super(reportingExporter, options);
+		reportingExporter.onDequeue = (count) => {
+			this.queuedSpanCount -= count;
+		};
+		this.maxQueueSize =
+			options.maxQueueSize ?? getEnv().OTEL_BSP_MAX_QUEUE_SIZE;
+	}
+
+	onEnd(span: ReadableSpan): void {
+		if (
+			this.isShutdown ||
+			(span.spanContext().traceFlags & TraceFlags.SAMPLED) === 0
+		) {
+			return;
+		}
+
+		// The underlying processor loses the whole batch of a span whose
+		// resource fails to resolve before export, so resolve it first
+		const { resource } = span;
+		if (resource.asyncAttributesPending && resource.waitForAsyncAttributes) {
+			resource.waitForAsyncAttributes().then(
+				() => this.enqueue(span),
+				(error) => globalErrorHandler(error),
+			);
+			return;
+		}
+		this.enqueue(span);
+	}
+
+	shutdown(): Promise<void> {
+		this.isShutdown = true;
+		return super.shutdown();
+	}
+
+	/**
+	 * Get the number of spans dropped because the queue was full.
+	 */
+	getDroppedSpanCount(): number {
+		return this.droppedSpanCount;
+	}
+
+	private enqueue(span: ReadableSpan): void {
+		if (this.isShutdown) {
+			return;
+		}
+		if (this.queuedSpanCount >= this.maxQueueSize) {
+			this.droppedSpanCount++;
+			return;
+		}
+		this.queuedSpanCount++;
+		super.onEnd(span);
+	}
+}
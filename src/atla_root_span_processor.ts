@@ -26,16 +26,43 @@ import {
 	currentGitCommitTimestamp,
 } from "./utils";
 import { getAtlaContext } from "./context";
+import {
+	applyOpenInferenceInstrumentationName,
+	sanitizeAttributes,
+} from "./internal/utils";
+import {
+	isVercelAISpan,
+	translateVercelAIAttributes,
+} from "./frameworks/vercel-ai/attributes";
+import {
+	MASTRA_OPENINFERENCE_SCOPE,
+	translateMastraAttributes,
+} from "./frameworks/mastra/attributes";
 
-const INSTRUMENTATION_SCOPE_MAPPINGS: Record<string, string> = {
+export const INSTRUMENTATION_SCOPE_MAPPINGS: Record<string, string> = {
 	"@arizeai/openinference-instrumentation-openai":
 		"openinference.instrumentation.openai",
 	"@arizeai/openinference-instrumentation-langchain":
 		"openinference.instrumentation.langchain",
+	"@atla-ai/instrumentation-anthropic":
+		"openinference.instrumentation.anthropic",
+	"@atla-ai/instrumentation-google-genai":
+		"openinference.instrumentation.google_genai",
+	"@atla-ai/instrumentation-bedrock": "openinference.instrumentation.bedrock",
+	"@atla-ai/instrumentation-mistral": "openinference.instrumentation.mistral",
+	"@atla-ai/instrumentation-cohere": "openinference.instrumentation.cohere",
+	"@atla-ai/instrumentation-groq": "openinference.instrumentation.groq",
+	"@atla-ai/instrumentation-llamaindex":
+		"openinference.instrumentation.llama_index",
+	"@atla-ai/instrumentation-mcp": "openinference.instrumentation.mcp",
+	"@atla-ai/instrumentation-mastra": MASTRA_OPENINFERENCE_SCOPE,
 };
 
 export class AtlaRootSpanProcessor implements SpanProcessor {
-	constructor(private metadata?: Record<string, string>) {}
+	constructor(
+		private metadata?: Record<string, string>,
+		private environment?: string,
+	) {}
 
 	onStart(span: Span, parentContext: Context): void {
 		this.renameInstrumentationScopeToOpenInferenceStandard(span);
@@ -70,10 +97,18 @@ export class AtlaRootSpanProcessor implements SpanProcessor {
 
 		// Handle experiments
 		const atlaContext = getAtlaContext(parentContext);
-		if (atlaContext?.experiment) {
+		const environment = atlaContext?.environment ?? this.environment;
+		if (
+			atlaContext?.experiment &&
+			atlaContext.experiment.forceDevEnvironment !== false
+		) {
 			// Force environment to "dev" for experiments
 			span.setAttribute(ENVIRONMENT_MARK, "dev");
+		} else if (environment) {
+			span.setAttribute(ENVIRONMENT_MARK, environment);
+		}
 
+		if (atlaContext?.experiment) {
 			// Add experiment attributes
 			span.setAttribute(
 				`${EXPERIMENT_NAMESPACE}.name`,
@@ -93,8 +128,18 @@ export class AtlaRootSpanProcessor implements SpanProcessor {
 		}
 	}
 
-	onEnd(_span: ReadableSpan): void {
-		// No processing needed on end
+	onEnd(span: ReadableSpan): void {
+		if (span.instrumentationLibrary.name === MASTRA_OPENINFERENCE_SCOPE) {
+			// The Mastra scope has already been renamed when the span started
+			translateMastraAttributes(span);
+			sanitizeAttributes(span);
+		} else if (isVercelAISpan(span)) {
+			// The Vercel AI SDK records its own attributes, which are only
+			// complete once the span has ended
+			translateVercelAIAttributes(span);
+			applyOpenInferenceInstrumentationName(span);
+			sanitizeAttributes(span);
+		}
 	}
 
 	shutdown(): Promise<void> {
@@ -0,0 +1,140 @@
+import {
+	type Attributes,
+	type Context,
+	isSpanContextValid,
+	type Link,
+	type SpanKind,
+	TraceFlags,
+	trace,
+} from "@opentelemetry/api";
+import {
+	type Sampler,
+	SamplingDecision,
+	type SamplingResult,
+} from "@opentelemetry/sdk-trace-node";
+import { getAtlaContext } from "./context";
+import {
+	SAMPLING_DECISION_MARK,
+	SAMPLING_RATE_MARK,
+} from "./internal/constants";
+import type { TailSamplingOptions } from "./atla_tail_sampling_processor";
+
+export interface SamplingOptions {
+	/**
+	 * The fraction of traces to keep, between 0 and 1. The decision is keyed on
+	 * the trace ID so that every span of a trace shares it. Defaults to 1.
+	 */
+	ratio?: number;
+	/**
+	 * Always keep traces created within `runExperiment`. Defaults to true.
+	 */
+	alwaysSampleExperiments?: boolean;
+	/**
+	 * Buffer whole traces and decide whether to keep them once they end. Traces
+	 * that errored, were marked as failed or were slow are always kept, the
+	 * others are kept according to `ratio`. See {@link TailSamplingOptions}.
+	 */
+	tail?: boolean | TailSamplingOptions;
+}
+
+/**
+ * Validate a sampling ratio.
+ */
+export function validateSamplingRatio(ratio: number): number {
+	if (
+		typeof ratio !== "number" ||
+		Number.isNaN(ratio) ||
+		ratio < 0 ||
+		ratio > 1
+	) {
+		throw new Error("Atla Insights: Sampling ratio must be between 0 and 1");
+	}
+	return ratio;
+}
+
+/**
+ * Decide whether a trace is kept by a ratio-based sampler.
+ *
+ * Uses the same trace ID accumulation as the OpenTelemetry
+ * `TraceIdRatioBasedSampler`, so that the decision is deterministic for a
+ * given trace ID.
+ *
+ * @param traceId - The trace ID.
+ * @param ratio - The fraction of traces to keep.
+ * @returns Whether the trace is kept.
+ */
+export function isSampledByRatio(traceId: string, ratio: number): boolean {
+	if (ratio >= 1) {
+		return true;
+	}
+	if (ratio <= 0) {
+		return false;
+	}
+
+	let accumulation = 0;
+	for (let i = 0; i < traceId.length / 8; i++) {
+		const position = i * 8;
+		const part = Number.parseInt(traceId.slice(position, position + 8), 16);
+		accumulation = (accumulation ^ part) >>> 0;
+	}
+	return accumulation <= Math.floor(ratio * 0xffffffff);
+}
+
+/**
+ * Head sampler deciding whether to keep a trace when its root span starts.
+ *
+ * Child spans follow the decision of their parent. The decision is recorded on
+ * the root span so that dashboards can re-weight counts.
+ */
+export class AtlaSampler implements Sampler {
+	constructor(
+		private ratio: number,
+		private alwaysSampleExperiments = true,
+	) {}
+
+	shouldSample(
+		context: Context,
+		traceId: string,
+		_spanName: string,
+		_spanKind: SpanKind,
+		_attributes: Attributes,
+		_links: Link[],
+	): SamplingResult {
+		const parentSpanContext = trace.getSpanContext(context);
+		if (parentSpanContext && isSpanContextValid(parentSpanContext)) {
+			const parentSampled =
+				(parentSpanContext.traceFlags & TraceFlags.SAMPLED) !== 0;
+			return {
+				decision: parentSampled
+					? SamplingDecision.RECORD_AND_SAMPLED
+					: SamplingDecision.NOT_RECORD,
+			};
+		}
+
+		if (this.alwaysSampleExperiments && getAtlaContext(context)?.experiment) {
+			return {
+				decision: SamplingDecision.RECORD_AND_SAMPLED,
+				attributes: {
+					[SAMPLING_DECISION_MARK]: "experiment",
+					[SAMPLING_RATE_MARK]: 1,
+				},
+			};
+		}
+
+		if (isSampledByRatio(traceId, this.ratio)) {
+			return {
+				decision: SamplingDecision.RECORD_AND_SAMPLED,
+				attributes: {
+					[SAMPLING_DECISION_MARK]: "ratio",
+					[SAMPLING_RATE_MARK]: this.ratio,
+				},
+			};
+		}
+
+		return { decision: SamplingDecision.NOT_RECORD };
+	}
+
+	toString(): string {
+		return `AtlaSampler{ratio=${this.ratio}}`;
+	}
+}
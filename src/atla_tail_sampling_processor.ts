@@ -0,0 +1,226 @@
+import {
+	type Attributes,
+	type Context,
+	SpanStatusCode,
+	trace,
+} from "@opentelemetry/api";
+import type {
+	ReadableSpan,
+	Span,
+	SpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import {
+	DEFAULT_TAIL_SAMPLING_MAX_BUFFERED_TRACES,
+	EXPERIMENT_NAMESPACE,
+	SAMPLING_DECISION_MARK,
+	SAMPLING_RATE_MARK,
+	SUCCESS_MARK,
+} from "./internal/constants";
+import { isSampledByRatio } from "./atla_sampler";
+
+export interface TailSamplingOptions {
+	/**
+	 * Keep traces in which a span errored or recorded an exception. Defaults to
+	 * true.
+	 */
+	keepErrors?: boolean;
+	/**
+	 * Keep traces marked as failed with `markFailure`. Defaults to true.
+	 */
+	keepFailures?: boolean;
+	/**
+	 * Keep traces whose root span took longer than this, in milliseconds.
+	 */
+	latencyThresholdMillis?: number;
+	/**
+	 * The maximum number of traces buffered at once. When exceeded, a decision
+	 * is made for the oldest trace with the spans received so far. Defaults to
+	 * 1000.
+	 */
+	maxBufferedTraces?: number;
+}
+
+type SamplingReason = "experiment" | "error" | "failure" | "latency" | "ratio";
+
+function getDurationMillis(span: ReadableSpan): number {
+	const [seconds, nanos] = span.duration;
+	return seconds * 1e3 + nanos / 1e6;
+}
+
+/**
+ * Get a view of an ended span with extra attributes, leaving the span as is.
+ */
+function withAttributes(
+	span: ReadableSpan,
+	attributes: Attributes,
+): ReadableSpan {
+	return Object.create(span, {
+		attributes: { value: { ...span.attributes, ...attributes } },
+	});
+}
+
+/**
+ * Span processor buffering whole traces and keeping them only if they are
+ * interesting.
+ *
+ * Spans are held back until the local root span of their trace ends, at which
+ * point the trace is either forwarded to the export processors or dropped. The
+ * local root span is the span without a parent, or whose parent is remote when
+ * the trace continues a distributed trace. The reason for keeping a trace is
+ * recorded on its local root span. Spans ending after the decision follow it.
+ */
+export class AtlaTailSamplingProcessor implements SpanProcessor {
+	private traces = new Map<string, ReadableSpan[]>();
+	private localRootSpans = new WeakSet<Span>();
+	/** Whether each decided trace was kept, oldest first. */
+	private decisions = new Map<string, boolean>();
+	private keepErrors: boolean;
+	private keepFailures: boolean;
+	private latencyThresholdMillis?: number;
+	private maxBufferedTraces: number;
+
+	constructor(
+		private processors: SpanProcessor[],
+		private ratio: number,
+		private alwaysSampleExperiments: boolean,
+		options: TailSamplingOptions = {},
+	) {
+		this.keepErrors = options.keepErrors ?? true;
+		this.keepFailures = options.keepFailures ?? true;
+		this.latencyThresholdMillis = options.latencyThresholdMillis;
+		this.maxBufferedTraces =
+			options.maxBufferedTraces ?? DEFAULT_TAIL_SAMPLING_MAX_BUFFERED_TRACES;
+	}
+
+	onStart(span: Span, parentContext: Context): void {
+		if (!span.parentSpanId || trace.getSpanContext(parentContext)?.isRemote) {
+			this.localRootSpans.add(span);
+		}
+		for (const processor of this.processors) {
+			processor.onStart(span, parentContext);
+		}
+	}
+
+	onEnd(span: ReadableSpan): void {
+		const { traceId } = span.spanContext();
+		const kept = this.decisions.get(traceId);
+		if (kept !== undefined) {
+			if (kept) {
+				this.forward(span);
+			}
+			return;
+		}
+
+		const spans = this.traces.get(traceId);
+		if (spans) {
+			spans.push(span);
+		} else {
+			this.traces.set(traceId, [span]);
+		}
+
+		if (this.localRootSpans.has(span as Span)) {
+			this.decide(traceId, span);
+			return;
+		}
+
+		// Decide early for the oldest traces to bound memory usage
+		while (this.traces.size > this.maxBufferedTraces) {
+			const oldestTraceId = this.traces.keys().next().value;
+			if (oldestTraceId === undefined) {
+				break;
+			}
+			this.decide(oldestTraceId);
+		}
+	}
+
+	async forceFlush(): Promise<void> {
+		await Promise.all(
+			this.processors.map((processor) => processor.forceFlush()),
+		);
+	}
+
+	async shutdown(): Promise<void> {
+		// Traces whose root span never ended are decided on what we have
+		for (const traceId of Array.from(this.traces.keys())) {
+			this.decide(traceId);
+		}
+		await Promise.all(this.processors.map((processor) => processor.shutdown()));
+	}
+
+	private decide(traceId: string, rootSpan?: ReadableSpan): void {
+		const spans = this.traces.get(traceId) ?? [];
+		this.traces.delete(traceId);
+
+		const reason = this.getSamplingReason(traceId, spans, rootSpan);
+		this.decisions.set(traceId, reason !== undefined);
+		while (this.decisions.size > this.maxBufferedTraces) {
+			const oldestTraceId = this.decisions.keys().next().value;
+			if (oldestTraceId === undefined) {
+				break;
+			}
+			this.decisions.delete(oldestTraceId);
+		}
+		if (!reason) {
+			return;
+		}
+
+		for (const span of spans) {
+			this.forward(
+				span === rootSpan
+					? withAttributes(span, {
+							[SAMPLING_DECISION_MARK]: reason,
+							[SAMPLING_RATE_MARK]: reason === "ratio" ? this.ratio : 1,
+						})
+					: span,
+			);
+		}
+	}
+
+	private forward(span: ReadableSpan): void {
+		for (const processor of this.processors) {
+			processor.onEnd(span);
+		}
+	}
+
+	private getSamplingReason(
+		traceId: string,
+		spans: ReadableSpan[],
+		rootSpan?: ReadableSpan,
+	): SamplingReason | undefined {
+		if (
+			this.alwaysSampleExperiments &&
+			rootSpan?.attributes[`${EXPERIMENT_NAMESPACE}.name`] !== undefined
+		) {
+			return "experiment";
+		}
+
+		if (
+			this.keepErrors &&
+			spans.some(
+				(span) =>
+					span.status.code === SpanStatusCode.ERROR ||
+					span.events.some((event) => event.name === "exception"),
+			)
+		) {
+			return "error";
+		}
+
+		if (this.keepFailures && rootSpan?.attributes[SUCCESS_MARK] === 0) {
+			return "failure";
+		}
+
+		if (
+			this.latencyThresholdMillis !== undefined &&
+			rootSpan &&
+			getDurationMillis(rootSpan) > this.latencyThresholdMillis
+		) {
+			return "latency";
+		}
+
+		if (isSampledByRatio(traceId, this.ratio)) {
+			return "ratio";
+		}
+
+		return undefined;
+	}
+}
@@ -10,13 +10,19 @@ import {
 	context as otelContext,
 	type Context,
 	type Span,
+	type SpanOptions,
+	trace,
 } from "@opentelemetry/api";
 import type { Experiment } from "./experiments";
+import type { AtlaInsightsClient } from "./main";
 
 interface AtlaContext {
 	rootSpan?: Span;
 	suppressInstrumentation?: boolean;
 	experiment?: Experiment;
+	environment?: string;
+	/** The client of the instrumented function being run. */
+	insights?: AtlaInsightsClient;
 }
 
 // Store Atla-specific context that isn't part of OpenInference
@@ -43,3 +49,26 @@ export function runWithContext<T>(updates: AtlaContext, fn: () => T): T {
 	context = setAtlaContext(context, { ...current, ...updates });
 	return otelContext.with(context, fn);
 }
+
+/**
+ * Get the options of a span started by a client in the given context.
+ *
+ * A span nested in the function instrumented by another client would be
+ * recorded without its parent, so it starts a new trace linked to the active
+ * span instead.
+ *
+ * @param insights - The client starting the span.
+ * @param context - The context the span is started in.
+ * @returns The options starting a new trace, or none.
+ */
+export function getClientSpanOptions(
+	insights: AtlaInsightsClient,
+	context: Context = otelContext.active(),
+): SpanOptions {
+	const activeSpan = trace.getSpan(context);
+	const owner = getAtlaContext(context)?.insights;
+	if (!activeSpan || !owner || owner === insights) {
+		return {};
+	}
+	return { root: true, links: [{ context: activeSpan.spanContext() }] };
+}
@@ -0,0 +1,130 @@
+/**
+ * Environment variable configuration for Atla Insights.
+ */
+import {
+	DEBUG_ENV_VAR,
+	DISABLED_ENV_VAR,
+	ENVIRONMENT_ENV_VAR,
+	EXPORTERS_ENV_VAR,
+	METADATA_ENV_VAR,
+	SAMPLING_RATIO_ENV_VAR,
+	SERVICE_NAME_ENV_VAR,
+	TAIL_SAMPLING_ENV_VAR,
+	TOKEN_ENV_VAR,
+	TRACE_DIRECTORY_ENV_VAR,
+} from "./internal/constants";
+import type { ExporterName } from "./internal/types";
+import type { ConfigurationOptions } from "./main";
+
+/**
+ * Parse a boolean environment variable ("true", "1" or "yes").
+ */
+export function parseBooleanEnv(value?: string): boolean | undefined {
+	if (value === undefined || value.trim() === "") {
+		return undefined;
+	}
+	return ["true", "1", "yes"].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Parse a comma-separated list environment variable.
+ */
+export function parseListEnv(value?: string): string[] | undefined {
+	if (value === undefined || value.trim() === "") {
+		return undefined;
+	}
+	return value
+		.split(",")
+		.map((item) => item.trim())
+		.filter((item) => item !== "");
+}
+
+function parseMetadataEnv(value?: string): Record<string, string> | undefined {
+	if (value === undefined || value.trim() === "") {
+		return undefined;
+	}
+
+	let metadata: unknown;
+	try {
+		metadata = JSON.parse(value);
+	} catch {
+		throw new Error(`Atla Insights: ${METADATA_ENV_VAR} must be valid JSON`);
+	}
+	if (
+		typeof metadata !== "object" ||
+		metadata === null ||
+		Array.isArray(metadata)
+	) {
+		throw new Error(`Atla Insights: ${METADATA_ENV_VAR} must be a JSON object`);
+	}
+	return metadata as Record<string, string>;
+}
+
+/**
+ * Read the configuration options set through environment variables.
+ *
+ * @param env - The environment to read from. Defaults to `process.env`.
+ * @returns The configuration options, without the unset ones.
+ */
+export function getConfigurationFromEnv(
+	env: NodeJS.ProcessEnv = process.env,
+): ConfigurationOptions {
+	const disabled = parseBooleanEnv(env[DISABLED_ENV_VAR]);
+	const options: ConfigurationOptions = {
+		enabled: disabled === undefined ? undefined : !disabled,
+		token: env[TOKEN_ENV_VAR] || undefined,
+		serviceName: env[SERVICE_NAME_ENV_VAR] || undefined,
+		environment: env[ENVIRONMENT_ENV_VAR] || undefined,
+		metadata: parseMetadataEnv(env[METADATA_ENV_VAR]),
+		exporters: parseListEnv(env[EXPORTERS_ENV_VAR]) as
+			| ExporterName[]
+			| undefined,
+		debug: parseBooleanEnv(env[DEBUG_ENV_VAR]),
+	};
+
+	const directory = env[TRACE_DIRECTORY_ENV_VAR];
+	if (directory) {
+		options.file = { directory };
+	}
+
+	const ratio = env[SAMPLING_RATIO_ENV_VAR];
+	const tail = parseBooleanEnv(env[TAIL_SAMPLING_ENV_VAR]);
+	if (ratio || tail !== undefined) {
+		options.sampling = {
+			ratio: ratio ? Number(ratio) : undefined,
+			tail,
+		};
+	}
+
+	return withoutUndefined(options);
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+	return Object.fromEntries(
+		Object.entries(value).filter(([, entry]) => entry !== undefined),
+	) as T;
+}
+
+/**
+ * Merge explicit configuration options on top of the environment ones.
+ *
+ * Options explicitly set to `undefined` do not override the environment.
+ * Nested `file` and `sampling` options are merged field by field.
+ */
+export function mergeConfiguration(
+	fromEnv: ConfigurationOptions,
+	options: ConfigurationOptions,
+): ConfigurationOptions {
+	const explicit = withoutUndefined(options);
+	const merged: ConfigurationOptions = { ...fromEnv, ...explicit };
+	if (fromEnv.file && explicit.file) {
+		merged.file = { ...fromEnv.file, ...withoutUndefined(explicit.file) };
+	}
+	if (fromEnv.sampling && explicit.sampling) {
+		merged.sampling = {
+			...withoutUndefined(fromEnv.sampling),
+			...withoutUndefined(explicit.sampling),
+		};
+	}
+	return merged;
+}
@@ -0,0 +1,46 @@
+/**
+ * Environment management for Atla Insights.
+ */
+import { getAtlaContext, runWithContext } from "./context";
+import type { AtlaEnvironment } from "./internal/types";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "./main";
+
+/**
+ * Validate the user-provided environment.
+ */
+export function validateEnvironment(environment: AtlaEnvironment): string {
+	if (typeof environment !== "string" || environment.trim() === "") {
+		throw new Error("Atla Insights: Environment must be a non-empty string");
+	}
+	return environment;
+}
+
+/**
+ * Run a function with a different environment in context.
+ *
+ * Traces started within the function are recorded in the given environment
+ * instead of the configured one. Experiments still record their traces in the
+ * "dev" environment unless they opt out.
+ *
+ * @example
+ * ```typescript
+ * import { withEnvironment } from "@atla-ai/insights-sdk-js";
+ *
+ * await withEnvironment("staging", async () => {
+ *   await myAgent("Hello!");
+ * });
+ * ```
+ *
+ * @param insights - The SDK instance. Defaults to the one of the instrumented function.
+ */
+export function withEnvironment<T>(
+	environment: AtlaEnvironment,
+	fn: () => T | Promise<T>,
+	insights: AtlaInsightsClient = getAtlaContext()?.insights ?? ATLA_INSIGHTS,
+): T | Promise<T> {
+	if (insights.disabled) {
+		return fn();
+	}
+
+	return runWithContext({ environment: validateEnvironment(environment) }, fn);
+}
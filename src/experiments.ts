@@ -3,21 +3,28 @@
  *
  * This module provides functionality to group related traces into experiments
  * for comparative analysis in the Atla Insights workbench. Experiments are
- * automatically marked with a "dev" environment and include custom metadata.
+ * marked with a "dev" environment unless opted out and include custom metadata.
  */
 
 import { humanId } from "human-id";
 import { randomUUID } from "node:crypto";
-import { runWithContext } from "./context";
+import { getAtlaContext, runWithContext } from "./context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "./main";
 
 export interface Experiment {
 	name: string;
 	description?: string;
+	forceDevEnvironment?: boolean;
 }
 
 export interface RunExperimentOptions {
 	experimentName?: string;
 	description?: string;
+	/**
+	 * Record the experiment traces in the "dev" environment, whatever the
+	 * configured environment. Defaults to true.
+	 */
+	forceDevEnvironment?: boolean;
 }
 
 /**
@@ -45,7 +52,9 @@ function generateExperimentId(): string {
  * @param options - Experiment configuration
  * @param options.experimentName - Custom experiment name (auto-generated if not provided)
  * @param options.description - Optional description of the experiment
+ * @param options.forceDevEnvironment - Whether to record the traces in the "dev" environment (defaults to true)
  * @param fn - The function to execute within the experiment context
+ * @param insights - The SDK instance. Defaults to the one of the instrumented function.
  * @returns The result of the function execution
  *
  * @example
@@ -78,12 +87,20 @@ function generateExperimentId(): string {
 export function runExperiment<T>(
 	options: RunExperimentOptions,
 	fn: () => T | Promise<T>,
+	insights: AtlaInsightsClient = getAtlaContext()?.insights ?? ATLA_INSIGHTS,
 ): T | Promise<T> {
+	if (insights.disabled) {
+		return fn();
+	}
+
 	const experimentName = options.experimentName || generateExperimentId();
 
 	const experiment: Experiment = {
 		name: experimentName,
 		...(options.description && { description: options.description }),
+		...(options.forceDevEnvironment === false && {
+			forceDevEnvironment: false,
+		}),
 	};
 
 	console.log(`🧪 Starting experiment: ${experimentName}`);
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview OTLP exporter sending spans to the Atla Insights collector.
+ *
+ * Resolves the collector URL from an explicit base URL or a region and
+ * attaches the authentication token alongside any user-provided headers.
+ */
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import {
+	DEFAULT_REGION,
+	OTEL_TRACES_ENDPOINTS,
+	OTEL_TRACES_PATH,
+} from "../internal/constants";
+import type { AtlaRegion, ExporterOptions } from "../internal/types";
+
+/**
+ * Check whether a string is a supported Atla region.
+ */
+export function isAtlaRegion(value: string): value is AtlaRegion {
+	return Object.keys(OTEL_TRACES_ENDPOINTS).includes(value);
+}
+
+/**
+ * Resolve the traces endpoint to export to.
+ *
+ * An explicit base URL takes precedence over the region. The OTLP traces path
+ * is appended to the base URL unless it is already present.
+ *
+ * @param baseUrl - The base URL of a self-hosted or local collector.
+ * @param region - The Atla region to export to.
+ * @returns The full traces endpoint URL.
+ */
+export function resolveTracesEndpoint(
+	baseUrl?: string,
+	region: AtlaRegion = DEFAULT_REGION,
+): string {
+	if (baseUrl) {
+		const trimmed = baseUrl.replace(/\/+$/, "");
+		return trimmed.endsWith(OTEL_TRACES_PATH)
+			? trimmed
+			: `${trimmed}${OTEL_TRACES_PATH}`;
+	}
+
+	if (!isAtlaRegion(region)) {
+		throw new Error(
+			`Atla Insights: Unknown region "${region}". ` +
+				`Expected one of: ${Object.keys(OTEL_TRACES_ENDPOINTS).join(", ")}`,
+		);
+	}
+	return OTEL_TRACES_ENDPOINTS[region];
+}
+
+/**
+ * Parse a header string of the form "key1=value1,key2=value2".
+ *
+ * Follows the `OTEL_EXPORTER_OTLP_HEADERS` format: values may be URL encoded
+ * and malformed entries are ignored.
+ *
+ * @param value - The raw header string.
+ * @returns The parsed headers.
+ */
+export function parseHeaders(value?: string): Record<string, string> {
+	const headers: Record<string, string> = {};
+	if (!value) {
+		return headers;
+	}
+
+	for (const entry of value.split(",")) {
+		const separatorIndex = entry.indexOf("=");
+		if (separatorIndex <= 0) {
+			continue;
+		}
+		const key = entry.slice(0, separatorIndex).trim();
+		const rawValue = entry.slice(separatorIndex + 1).trim();
+		if (!key) {
+			continue;
+		}
+		try {
+			headers[key] = decodeURIComponent(rawValue);
+		} catch {
+			headers[key] = rawValue;
+		}
+	}
+	return headers;
+}
+
+/**
+ * Build the headers sent with every export request.
+ *
+ * The Authorization header always carries the Atla token, so custom headers
+ * cannot accidentally replace it.
+ */
+export function buildExportHeaders(
+	options: ExporterOptions,
+): Record<string, string> {
+	return {
+		...options.headers,
+		Authorization: `Bearer ${options.token}`,
+	};
+}
+
+/**
+ * Create the exporter sending spans to Atla Insights.
+ *
+ * @param options - The exporter options. See {@link ExporterOptions}.
+ * @returns The OTLP trace exporter.
+ */
+export function createAtlaExporter(
+	options: ExporterOptions,
+): OTLPTraceExporter {
+	return new OTLPTraceExporter({
+		url: resolveTracesEndpoint(options.baseUrl, options.region),
+		headers: buildExportHeaders(options),
+	});
+}
@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Exporter printing completed traces to the terminal.
+ *
+ * Intended for local debugging: every trace is rendered as an indented tree
+ * once its local root span has been exported.
+ */
+import {
+	LLM_TOKEN_COUNT_COMPLETION,
+	LLM_TOKEN_COUNT_PROMPT,
+	LLM_TOKEN_COUNT_TOTAL,
+	INPUT_VALUE,
+	OUTPUT_VALUE,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	type AttributeValue,
+	type Context,
+	SpanStatusCode,
+	trace,
+} from "@opentelemetry/api";
+import { type ExportResult, ExportResultCode } from "@opentelemetry/core";
+import {
+	type ReadableSpan,
+	SimpleSpanProcessor,
+	type Span,
+	type SpanExporter,
+} from "@opentelemetry/sdk-trace-node";
+import {
+	DEFAULT_CONSOLE_MAX_BUFFERED_TRACES,
+	DEFAULT_CONSOLE_MAX_VALUE_LENGTH,
+	SUCCESS_MARK,
+} from "../internal/constants";
+
+export interface ConsoleExporterOptions {
+	/**
+	 * The maximum number of characters printed for span inputs and outputs.
+	 * Defaults to 200.
+	 */
+	maxValueLength?: number;
+	/**
+	 * The maximum number of traces buffered at once. When exceeded, the oldest
+	 * trace is printed with the spans received so far. Defaults to 1000.
+	 */
+	maxBufferedTraces?: number;
+}
+
+function truncate(value: string, maxLength: number): string {
+	const singleLine = value.replace(/\s+/g, " ").trim();
+	return singleLine.length > maxLength
+		? `${singleLine.slice(0, maxLength)}…`
+		: singleLine;
+}
+
+function formatDuration(span: ReadableSpan): string {
+	const [seconds, nanos] = span.duration;
+	const millis = seconds * 1e3 + nanos / 1e6;
+	return millis >= 1000
+		? `${(millis / 1000).toFixed(2)}s`
+		: `${Math.round(millis)}ms`;
+}
+
+function formatStatus(span: ReadableSpan): string {
+	switch (span.status.code) {
+		case SpanStatusCode.OK:
+			return "OK";
+		case SpanStatusCode.ERROR:
+			return span.status.message ? `ERROR (${span.status.message})` : "ERROR";
+		default:
+			return "UNSET";
+	}
+}
+
+function formatTokens(span: ReadableSpan): string | undefined {
+	const counts: Array<[string, AttributeValue | undefined]> = [
+		["prompt", span.attributes[LLM_TOKEN_COUNT_PROMPT]],
+		["completion", span.attributes[LLM_TOKEN_COUNT_COMPLETION]],
+		["total", span.attributes[LLM_TOKEN_COUNT_TOTAL]],
+	];
+	const present = counts.filter(([, count]) => count !== undefined);
+	if (present.length === 0) {
+		return undefined;
+	}
+	return `tokens ${present.map(([label, count]) => `${label}=${count}`).join(" ")}`;
+}
+
+/**
+ * Render a trace as an indented tree.
+ *
+ * Spans whose parent is not part of the trace (e.g. dropped or still open) are
+ * rendered as additional roots.
+ *
+ * @param spans - The spans of a single trace.
+ * @param maxValueLength - The maximum length of printed inputs and outputs.
+ * @returns The lines of the rendered tree.
+ */
+export function renderTraceTree(
+	spans: ReadableSpan[],
+	maxValueLength: number = DEFAULT_CONSOLE_MAX_VALUE_LENGTH,
+): string[] {
+	const spanIds = new Set(spans.map((span) => span.spanContext().spanId));
+	const children = new Map<string | undefined, ReadableSpan[]>();
+	for (const span of spans) {
+		const parentId =
+			span.parentSpanId && spanIds.has(span.parentSpanId)
+				? span.parentSpanId
+				: undefined;
+		const siblings = children.get(parentId) ?? [];
+		siblings.push(span);
+		children.set(parentId, siblings);
+	}
+	for (const siblings of children.values()) {
+		siblings.sort(
+			(a, b) =>
+				a.startTime[0] - b.startTime[0] || a.startTime[1] - b.startTime[1],
+		);
+	}
+
+	const lines = [`Trace ${spans[0]?.spanContext().traceId}`];
+	const renderSpan = (span: ReadableSpan, prefix: string, isLast: boolean) => {
+		const kind = span.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND];
+		const parts = [
+			span.name,
+			kind !== undefined ? `[${kind}]` : undefined,
+			formatDuration(span),
+			formatStatus(span),
+			span.attributes[SUCCESS_MARK] !== undefined
+				? `success=${span.attributes[SUCCESS_MARK]}`
+				: undefined,
+			formatTokens(span),
+		];
+		lines.push(
+			`${prefix}${isLast ? "└─ " : "├─ "}${parts.filter(Boolean).join(" ")}`,
+		);
+
+		const childPrefix = `${prefix}${isLast ? "   " : "│  "}`;
+		const spanChildren = children.get(span.spanContext().spanId) ?? [];
+		const detailPrefix = `${childPrefix}${spanChildren.length > 0 ? "│  " : "   "}`;
+		for (const [label, key] of [
+			["input", INPUT_VALUE],
+			["output", OUTPUT_VALUE],
+		]) {
+			const value = span.attributes[key];
+			if (value !== undefined) {
+				lines.push(
+					`${detailPrefix}${label}: ${truncate(String(value), maxValueLength)}`,
+				);
+			}
+		}
+
+		spanChildren.forEach((child, index) => {
+			renderSpan(child, childPrefix, index === spanChildren.length - 1);
+		});
+	};
+
+	const roots = children.get(undefined) ?? [];
+	roots.forEach((root, index) => {
+		renderSpan(root, "", index === roots.length - 1);
+	});
+	return lines;
+}
+
+/**
+ * Span exporter printing each completed trace as a tree.
+ *
+ * Spans are buffered until the local root span of their trace is exported.
+ * The local root span is the span without a parent, or whose parent is remote
+ * when the trace continues a distributed trace. Local root spans are reported
+ * by {@link ConsoleSpanProcessor} when they start.
+ */
+export class ConsoleTraceExporter implements SpanExporter {
+	private traces = new Map<string, ReadableSpan[]>();
+	private localRootSpanIds = new Set<string>();
+	private maxValueLength: number;
+	private maxBufferedTraces: number;
+
+	constructor(options: ConsoleExporterOptions = {}) {
+		this.maxValueLength =
+			options.maxValueLength ?? DEFAULT_CONSOLE_MAX_VALUE_LENGTH;
+		this.maxBufferedTraces =
+			options.maxBufferedTraces ?? DEFAULT_CONSOLE_MAX_BUFFERED_TRACES;
+	}
+
+	/**
+	 * Print the trace of a span once the span is exported.
+	 */
+	addLocalRoot(spanId: string): void {
+		this.localRootSpanIds.add(spanId);
+		// Local root spans of traces that are never exported (e.g. dropped by
+		// tail sampling) are forgotten, oldest first
+		while (this.localRootSpanIds.size > this.maxBufferedTraces) {
+			const oldestSpanId = this.localRootSpanIds.values().next().value;
+			if (oldestSpanId === undefined) {
+				break;
+			}
+			this.localRootSpanIds.delete(oldestSpanId);
+		}
+	}
+
+	export(
+		spans: ReadableSpan[],
+		resultCallback: (result: ExportResult) => void,
+	): void {
+		for (const span of spans) {
+			const { traceId, spanId } = span.spanContext();
+			const traceSpans = this.traces.get(traceId) ?? [];
+			traceSpans.push(span);
+			this.traces.set(traceId, traceSpans);
+
+			// Spans not reported when they started (e.g. by another processor)
+			// are local roots when they have no parent
+			if (this.localRootSpanIds.delete(spanId) || !span.parentSpanId) {
+				this.print(traceId);
+			}
+		}
+
+		// Print the oldest traces early to bound memory usage
+		while (this.traces.size > this.maxBufferedTraces) {
+			const oldestTraceId = this.traces.keys().next().value;
+			if (oldestTraceId === undefined) {
+				break;
+			}
+			this.print(oldestTraceId);
+		}
+		resultCallback({ code: ExportResultCode.SUCCESS });
+	}
+
+	async forceFlush(): Promise<void> {}
+
+	async shutdown(): Promise<void> {
+		// Print what we have of traces whose root span never ended
+		for (const traceId of Array.from(this.traces.keys())) {
+			this.print(traceId);
+		}
+		this.localRootSpanIds.clear();
+	}
+
+	private print(traceId: string): void {
+		const spans = this.traces.get(traceId) ?? [];
+		this.traces.delete(traceId);
+		if (spans.length > 0) {
+			console.log(renderTraceTree(spans, this.maxValueLength).join("\n"));
+		}
+	}
+}
+
+/**
+ * Span processor exporting every span to a {@link ConsoleTraceExporter} as
+ * soon as it ends, and reporting the local root spans to it when they start.
+ */
+export class ConsoleSpanProcessor extends SimpleSpanProcessor {
+	constructor(private consoleExporter: ConsoleTraceExporter) {
+		super(consoleExporter);
+	}
+
+	override onStart(span: Span, parentContext: Context): void {
+		if (!span.parentSpanId || trace.getSpanContext(parentContext)?.isRemote) {
+			this.consoleExporter.addLocalRoot(span.spanContext().spanId);
+		}
+		super.onStart(span, parentContext);
+	}
+}
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Exporter writing spans to local OTLP JSON lines files.
+ *
+ * Useful to capture traces on machines without network access. Each line of a
+ * trace file is an OTLP JSON `ExportTraceServiceRequest`, so that the files can
+ * later be replayed to Atla Insights with `uploadTraceFile`.
+ */
+import {
+	createReadStream,
+	createWriteStream,
+	existsSync,
+	readFileSync,
+	statSync,
+} from "node:fs";
+import { appendFile, mkdir, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { createGzip, gunzipSync } from "node:zlib";
+import { diag } from "@opentelemetry/api";
+import { type ExportResult, ExportResultCode } from "@opentelemetry/core";
+import { JsonTraceSerializer } from "@opentelemetry/otlp-transformer";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-node";
+import {
+	DEFAULT_TRACE_FILE_DIRECTORY,
+	DEFAULT_TRACE_FILE_MAX_SIZE_BYTES,
+	TRACE_FILE_PREFIX,
+} from "../internal/constants";
+import type { ExporterOptions } from "../internal/types";
+import { buildExportHeaders, resolveTracesEndpoint } from "./atla";
+
+export interface FileExporterOptions {
+	/**
+	 * The directory trace files are written to. Created if missing. Defaults to
+	 * "./atla-traces".
+	 */
+	directory?: string;
+	/**
+	 * Start a new file once the current one exceeds this size, in bytes.
+	 * Defaults to 10 MiB.
+	 */
+	maxFileSizeBytes?: number;
+	/**
+	 * Start a new file once the current one is older than this, in
+	 * milliseconds. Disabled by default.
+	 */
+	rotationIntervalMillis?: number;
+	/**
+	 * Gzip trace files once they are rotated or the exporter shuts down.
+	 * Defaults to false.
+	 */
+	gzip?: boolean;
+}
+
+/**
+ * Span exporter appending spans to rotating OTLP JSON lines files.
+ *
+ * Spans are encoded like the OTLP HTTP JSON exporter encodes them, and the
+ * files are written asynchronously, one export after the other.
+ */
+export class FileSpanExporter implements SpanExporter {
+	private directory: string;
+	private maxFileSizeBytes: number;
+	private rotationIntervalMillis?: number;
+	private gzip: boolean;
+	private currentFile?: { path: string; size: number; createdAt: number };
+	private fileCount = 0;
+	private isShutdown = false;
+	private writes: Promise<void> = Promise.resolve();
+
+	constructor(options: FileExporterOptions = {}) {
+		this.directory = options.directory ?? DEFAULT_TRACE_FILE_DIRECTORY;
+		this.maxFileSizeBytes =
+			options.maxFileSizeBytes ?? DEFAULT_TRACE_FILE_MAX_SIZE_BYTES;
+		this.rotationIntervalMillis = options.rotationIntervalMillis;
+		this.gzip = options.gzip ?? false;
+	}
+
+	export(
+		spans: ReadableSpan[],
+		resultCallback: (result: ExportResult) => void,
+	): void {
+		if (this.isShutdown) {
+			resultCallback({
+				code: ExportResultCode.FAILED,
+				error: new Error("Atla Insights: File exporter is shut down"),
+			});
+			return;
+		}
+		if (spans.length === 0) {
+			resultCallback({ code: ExportResultCode.SUCCESS });
+			return;
+		}
+
+		const exportedAt = Date.now();
+		this.writes = this.writes
+			.then(() => this.write(spans, exportedAt))
+			.then(
+				() => resultCallback({ code: ExportResultCode.SUCCESS }),
+				(error) => {
+					diag.error("Atla Insights: Failed to write trace file", error);
+					resultCallback({
+						code: ExportResultCode.FAILED,
+						error: error as Error,
+					});
+				},
+			);
+	}
+
+	async forceFlush(): Promise<void> {
+		await this.writes;
+	}
+
+	async shutdown(): Promise<void> {
+		if (this.isShutdown) {
+			return;
+		}
+		this.isShutdown = true;
+		await this.writes;
+		await this.closeCurrentFile();
+	}
+
+	/**
+	 * Get the path of the file currently being written to, if any.
+	 */
+	getCurrentFilePath(): string | undefined {
+		return this.currentFile?.path;
+	}
+
+	private async write(spans: ReadableSpan[], exportedAt: number) {
+		const line = `${Buffer.from(JsonTraceSerializer.serializeRequest(spans) ?? []).toString("utf8")}\n`;
+		const size = Buffer.byteLength(line);
+		const file = await this.getWritableFile(size, exportedAt);
+		await appendFile(file.path, line);
+		file.size += size;
+	}
+
+	private async getWritableFile(incomingSize: number, now: number) {
+		const file = this.currentFile;
+		if (file) {
+			const isFull =
+				file.size > 0 && file.size + incomingSize > this.maxFileSizeBytes;
+			const isExpired =
+				this.rotationIntervalMillis !== undefined &&
+				now - file.createdAt >= this.rotationIntervalMillis;
+			if (!isFull && !isExpired) {
+				return file;
+			}
+			await this.closeCurrentFile();
+		}
+
+		await mkdir(this.directory, { recursive: true });
+		const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+		const path = join(
+			this.directory,
+			`${TRACE_FILE_PREFIX}-${timestamp}-${process.pid}-${this.fileCount++}.jsonl`,
+		);
+		this.currentFile = { path, size: 0, createdAt: now };
+		return this.currentFile;
+	}
+
+	private async closeCurrentFile(): Promise<void> {
+		const file = this.currentFile;
+		this.currentFile = undefined;
+		if (!file || !this.gzip || file.size === 0) {
+			return;
+		}
+
+		try {
+			await pipeline(
+				createReadStream(file.path),
+				createGzip(),
+				createWriteStream(`${file.path}.gz`),
+			);
+			await unlink(file.path);
+		} catch (error) {
+			diag.error("Atla Insights: Failed to compress trace file", error);
+		}
+	}
+}
+
+/**
+ * Read the OTLP JSON requests stored in a trace file.
+ *
+ * @param path - The path of a trace file, optionally gzipped.
+ * @returns The raw JSON request bodies, one per line of the file.
+ */
+export function readTraceFile(path: string): string[] {
+	if (!existsSync(path) || !statSync(path).isFile()) {
+		throw new Error(`Atla Insights: Trace file not found: ${path}`);
+	}
+
+	let content = readFileSync(path);
+	if (path.endsWith(".gz")) {
+		content = gunzipSync(content);
+	}
+	return content
+		.toString("utf8")
+		.split("\n")
+		.filter((line) => line.trim() !== "");
+}
+
+/**
+ * Replay a trace file to Atla Insights.
+ *
+ * @param path - The path of a trace file, optionally gzipped.
+ * @param options - The exporter options to upload with.
+ * @returns The number of requests sent.
+ */
+export async function uploadTraceFile(
+	path: string,
+	options: ExporterOptions,
+): Promise<number> {
+	const url = resolveTracesEndpoint(options.baseUrl, options.region);
+	const headers = {
+		...buildExportHeaders(options),
+		"Content-Type": "application/json",
+	};
+
+	const requests = readTraceFile(path);
+	for (const body of requests) {
+		const response = await fetch(url, { method: "POST", headers, body });
+		if (!response.ok) {
+			throw new Error(
+				`Atla Insights: Failed to upload trace file: ${response.status} ${response.statusText}`,
+			);
+		}
+	}
+	return requests.length;
+}
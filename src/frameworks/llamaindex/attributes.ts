@@ -0,0 +1,216 @@
+import type { AttributeValue } from "@opentelemetry/api";
+import {
+	DOCUMENT_CONTENT,
+	DOCUMENT_ID,
+	DOCUMENT_METADATA,
+	DOCUMENT_SCORE,
+	EMBEDDING_EMBEDDINGS,
+	EMBEDDING_TEXT,
+	EMBEDDING_VECTOR,
+	LLM_INPUT_MESSAGES,
+	LLM_OUTPUT_MESSAGES,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	type ChatContentPart,
+	type ChatMessage,
+	getMessagesAttributes,
+	getUsageAttributes,
+} from "../../providers/messages";
+
+/**
+ * The subset of the `llamaindex` types read by the instrumentation.
+ */
+export interface LlamaIndexToolCall {
+	id?: string;
+	name?: string;
+	input?: unknown;
+}
+
+export interface LlamaIndexToolResult {
+	id?: string;
+	result?: unknown;
+	isError?: boolean;
+}
+
+export interface LlamaIndexChatMessage {
+	role: string;
+	content?: string | ChatContentPart[];
+	options?: {
+		toolCall?: LlamaIndexToolCall | LlamaIndexToolCall[];
+		toolResult?: LlamaIndexToolResult;
+	};
+}
+
+export interface LlamaIndexChatResponse {
+	message?: LlamaIndexChatMessage;
+	raw?: {
+		model?: string;
+		usage?: {
+			prompt_tokens?: number;
+			completion_tokens?: number;
+			total_tokens?: number;
+			input_tokens?: number;
+			output_tokens?: number;
+		};
+	} | null;
+}
+
+export interface LlamaIndexNode {
+	id_?: string;
+	text?: string;
+	metadata?: Record<string, unknown>;
+	getContent?: (metadataMode?: string) => string;
+}
+
+export interface LlamaIndexNodeWithScore {
+	node: LlamaIndexNode;
+	score?: number;
+}
+
+type Attributes = Generator<[string, AttributeValue]>;
+
+/**
+ * Get the text of a query, which is either a string or a query bundle whose
+ * query is a string or message content.
+ */
+export function getQueryText(query: unknown): string {
+	if (typeof query === "string") {
+		return query;
+	}
+	const inner = (query as { query?: unknown } | undefined)?.query ?? query;
+	if (typeof inner === "string") {
+		return inner;
+	}
+	if (Array.isArray(inner)) {
+		return inner
+			.map((part: ChatContentPart) => part?.text ?? "")
+			.filter(Boolean)
+			.join("\n");
+	}
+	return JSON.stringify(inner ?? null);
+}
+
+/**
+ * Get the text of a query engine, synthesizer or agent response.
+ */
+export function getResponseText(response: unknown): string {
+	if (typeof response === "string") {
+		return response;
+	}
+	const value = response as
+		| { response?: unknown; message?: { content?: unknown } }
+		| undefined;
+	if (typeof value?.response === "string") {
+		return value.response;
+	}
+	if (typeof value?.message?.content === "string") {
+		return value.message.content;
+	}
+	return JSON.stringify(response ?? null);
+}
+
+function toChatMessage(message: LlamaIndexChatMessage): ChatMessage {
+	const toolCall = message.options?.toolCall;
+	const toolCalls =
+		toolCall && (Array.isArray(toolCall) ? toolCall : [toolCall]);
+	const toolResult = message.options?.toolResult;
+	return {
+		// Tool results are sent back as user messages
+		role: toolResult ? "tool" : message.role,
+		content: message.content,
+		toolCallId: toolResult?.id,
+		toolCalls: toolCalls?.map((call) => ({
+			id: call.id,
+			type: "function",
+			function: { name: call.name, arguments: call.input ?? {} },
+		})),
+	};
+}
+
+/**
+ * Get the input message attributes of a chat request.
+ */
+export function* getInputMessagesAttributes(
+	messages: LlamaIndexChatMessage[],
+): Attributes {
+	yield* getMessagesAttributes(LLM_INPUT_MESSAGES, messages.map(toChatMessage));
+}
+
+/**
+ * Get the output message and token count attributes of a chat response. The
+ * token counts are read from the raw response of the underlying provider.
+ */
+export function* getChatResponseAttributes(
+	response: LlamaIndexChatResponse,
+): Attributes {
+	if (response.message) {
+		yield* getMessagesAttributes(LLM_OUTPUT_MESSAGES, [
+			toChatMessage(response.message),
+		]);
+	}
+	const usage = response.raw?.usage;
+	yield* getUsageAttributes({
+		prompt: usage?.prompt_tokens ?? usage?.input_tokens,
+		completion: usage?.completion_tokens ?? usage?.output_tokens,
+		total: usage?.total_tokens,
+	});
+}
+
+function getNodeContent(node: LlamaIndexNode): string | undefined {
+	if (typeof node.text === "string") {
+		return node.text;
+	}
+	try {
+		return node.getContent?.("none");
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Get the attributes of retrieved or reranked nodes.
+ *
+ * @param prefix - The prefix of the documents, e.g. `retrieval.documents`.
+ * @param nodes - The nodes with their scores.
+ */
+export function* getDocumentsAttributes(
+	prefix: string,
+	nodes: LlamaIndexNodeWithScore[],
+): Attributes {
+	for (const [i, { node, score }] of nodes.entries()) {
+		const documentPrefix = `${prefix}.${i}.`;
+		if (node?.id_) {
+			yield [`${documentPrefix}${DOCUMENT_ID}`, node.id_];
+		}
+		const content = node && getNodeContent(node);
+		if (content !== undefined) {
+			yield [`${documentPrefix}${DOCUMENT_CONTENT}`, content];
+		}
+		if (typeof score === "number") {
+			yield [`${documentPrefix}${DOCUMENT_SCORE}`, score];
+		}
+		if (node?.metadata && Object.keys(node.metadata).length > 0) {
+			yield [
+				`${documentPrefix}${DOCUMENT_METADATA}`,
+				JSON.stringify(node.metadata),
+			];
+		}
+	}
+}
+
+/**
+ * Get the attributes of embedded texts and their vectors.
+ */
+export function* getEmbeddingsAttributes(
+	texts: string[],
+	vectors: number[][] | undefined,
+): Attributes {
+	for (const [i, text] of texts.entries()) {
+		const embeddingPrefix = `${EMBEDDING_EMBEDDINGS}.${i}.`;
+		yield [`${embeddingPrefix}${EMBEDDING_TEXT}`, text];
+		const vector = vectors?.[i];
+		if (Array.isArray(vector)) {
+			yield [`${embeddingPrefix}${EMBEDDING_VECTOR}`, vector];
+		}
+	}
+}
@@ -0,0 +1,160 @@
+import { getAtlaContext } from "../../context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { getSharedInstrumentation } from "../../instrumentation_router";
+import { LlamaIndexInstrumentation } from "./instrumentation";
+
+const SERVICE_NAME = "llamaindex";
+
+/**
+ * Instrument the LlamaIndex framework.
+ *
+ * This function enables tracing for LlamaIndex.TS: query engines and
+ * synthesizers are recorded as CHAIN spans, retrievers as RETRIEVER spans
+ * (with the retrieved nodes, their scores and ids), embedding models as
+ * EMBEDDING spans, rerankers as RERANKER spans, chat models as LLM spans,
+ * tool calls as TOOL spans and agents as AGENT spans.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentLlamaIndex } from "@atla-ai/insights-sdk-js";
+ * import { VectorStoreIndex, Document } from "llamaindex";
+ *
+ * // Configure Atla Insights first
+ * configure({
+ *   token: process.env.ATLA_API_KEY!,
+ * });
+ *
+ * // Enable LlamaIndex instrumentation
+ * instrumentLlamaIndex();
+ *
+ * // Use LlamaIndex as normal - it will be automatically traced
+ * const index = await VectorStoreIndex.fromDocuments([new Document({ text })]);
+ * const response = await index.asQueryEngine().query({ query: "Hello?" });
+ * ```
+ *
+ * @param llamaindexModule - The LlamaIndex module to instrument. If not provided, the default LlamaIndex module will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentLlamaIndex } from "@atla-ai/insights-sdk-js";
+ * import * as llamaindex from "llamaindex";
+ *
+ * // Configure Atla Insights first
+ * configure({ token: process.env.ATLA_API_KEY! });
+ *
+ * // Manually instrument the LlamaIndex module
+ * instrumentLlamaIndex(llamaindex);
+ * ```
+ *
+ * @returns void
+ */
+export function instrumentLlamaIndex(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	llamaindexModule?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation || insights.disabled) {
+		return;
+	}
+
+	if (!insights.configured) {
+		throw new Error(
+			"Atla Insights must be configured before instrumenting LlamaIndex. " +
+				"Please call configure first.",
+		);
+	}
+
+	// Every client shares the instrumentation of the module
+	const llamaIndexInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new LlamaIndexInstrumentation({ tracerProvider }),
+	);
+
+	// If a module is provided, manually instrument it
+	if (llamaindexModule) {
+		llamaIndexInstrumentation.manuallyInstrument(llamaindexModule);
+	}
+
+	// Register it with OpenTelemetry
+	insights.registerInstrumentations(SERVICE_NAME, [llamaIndexInstrumentation]);
+}
+
+/**
+ * Uninstrument the LlamaIndex framework.
+ *
+ * This function disables tracing for LlamaIndex.
+ *
+ * @example
+ * ```typescript
+ * import { uninstrumentLlamaIndex } from "@atla-ai/insights-sdk-js";
+ *
+ * // Disable LlamaIndex instrumentation
+ * uninstrumentLlamaIndex();
+ * ```
+ *
+ * @returns void
+ */
+export function uninstrumentLlamaIndex(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation) {
+		return;
+	}
+
+	insights.unregisterInstrumentations(SERVICE_NAME);
+}
+
+/**
+ * Create a disposable LlamaIndex instrumentation resource.
+ *
+ * This function enables LlamaIndex instrumentation and returns a disposable resource
+ * that automatically disables instrumentation when disposed. This is particularly
+ * useful with TypeScript's `using` statement for automatic resource management.
+ *
+ * @example
+ * ```typescript
+ * import { withInstrumentedLlamaIndex } from "@atla-ai/insights-sdk-js";
+ * import { VectorStoreIndex, Document } from "llamaindex";
+ *
+ * // Use with using statement (requires TypeScript 5.2+)
+ * {
+ *   using instrumented = withInstrumentedLlamaIndex();
+ *   const index = await VectorStoreIndex.fromDocuments([new Document({ text })]);
+ *   // LlamaIndex calls here will be traced
+ * }
+ * // LlamaIndex instrumentation automatically disabled here
+ *
+ * // Or manually manage lifecycle
+ * const instrumented = withInstrumentedLlamaIndex();
+ * try {
+ *   const index = await VectorStoreIndex.fromDocuments([new Document({ text })]);
+ *   // LlamaIndex calls here will be traced
+ * } finally {
+ *   instrumented[Symbol.dispose]();
+ * }
+ * ```
+ *
+ * @returns A disposable resource that cleans up LlamaIndex instrumentation when disposed
+ */
+export function withInstrumentedLlamaIndex(): { dispose(): void } {
+	instrumentLlamaIndex();
+	const d = {
+		dispose() {
+			uninstrumentLlamaIndex();
+		},
+	};
+	// If TS 5.2+ Symbol.dispose exists at runtime, add it for ergonomics
+	try {
+		const sym = (Symbol as unknown as { dispose?: symbol }).dispose;
+		if (sym) {
+			// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+			(d as any)[sym] = d.dispose.bind(d);
+		}
+	} catch {
+		// no-op
+	}
+	return d;
+}
@@ -0,0 +1,646 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	type Attributes,
+	context,
+	diag,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import {
+	InstrumentationBase,
+	type InstrumentationConfig,
+	InstrumentationNodeModuleDefinition,
+	isWrapped,
+} from "@opentelemetry/instrumentation";
+import {
+	EMBEDDING_MODEL_NAME,
+	INPUT_MIME_TYPE,
+	INPUT_VALUE,
+	LLM_MODEL_NAME,
+	MimeType,
+	OpenInferenceSpanKind,
+	OUTPUT_VALUE,
+	RERANKER_INPUT_DOCUMENTS,
+	RERANKER_MODEL_NAME,
+	RERANKER_OUTPUT_DOCUMENTS,
+	RERANKER_QUERY,
+	RERANKER_TOP_K,
+	RETRIEVAL_DOCUMENTS,
+	SemanticConventions,
+	TOOL_NAME,
+	TOOL_PARAMETERS,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	getChatResponseAttributes,
+	getDocumentsAttributes,
+	getEmbeddingsAttributes,
+	getInputMessagesAttributes,
+	getQueryText,
+	getResponseText,
+	type LlamaIndexChatMessage,
+	type LlamaIndexChatResponse,
+	type LlamaIndexNodeWithScore,
+	type LlamaIndexToolCall,
+	type LlamaIndexToolResult,
+} from "./attributes";
+import { recordSpanError, setSpanAttributes } from "../../providers/utils";
+
+export const INSTRUMENTATION_NAME = "@atla-ai/instrumentation-llamaindex";
+const INSTRUMENTATION_VERSION = "0.1.0";
+const MODULE_NAME = "llamaindex";
+const EMBEDDING_METHODS = ["getQueryEmbedding", "getTextEmbeddingsBatch"];
+const RERANKER_NAME = /Rerank(er)?$/;
+const MAX_OPEN_SPANS = 1000;
+
+export interface LlamaIndexInstrumentationOptions {
+	instrumentationConfig?: InstrumentationConfig;
+	tracerProvider?: TracerProvider;
+}
+
+/**
+ * A span started by a `*-start` event, waiting for its `*-end` event.
+ */
+interface OpenSpan {
+	event: string;
+	id?: string;
+	span: Span;
+}
+
+/**
+ * The caller of an event, tracked by LlamaIndex.TS across async calls. The
+ * callers of nested calls are chained through their parent.
+ */
+interface EventCaller {
+	parent?: EventCaller | null;
+}
+
+let getEventCaller: (() => EventCaller | null) | undefined;
+
+/**
+ * Get the caller of the running LlamaIndex.TS call, for the wrapped methods
+ * that do not dispatch events. It is tracked by the core package, which is
+ * not re-exported by `llamaindex`.
+ */
+function getCurrentEventCaller(): EventCaller | null {
+	if (!getEventCaller) {
+		try {
+			const core = require("@llamaindex/core/global");
+			getEventCaller =
+				typeof core.getEventCaller === "function"
+					? core.getEventCaller
+					: () => null;
+		} catch {
+			diag.debug(
+				"@llamaindex/core not found; embeddings and rerankers are parented without their caller.",
+			);
+			getEventCaller = () => null;
+		}
+	}
+	return getEventCaller?.() ?? null;
+}
+
+type EventHandler = (event: {
+	detail?: any;
+	reason?: EventCaller | null;
+}) => void;
+
+/**
+ * OpenInference instrumentation for LlamaIndex.TS.
+ *
+ * Subscribes to the events of the global callback manager
+ * (`Settings.callbackManager`) to record query engines and synthesizers as
+ * CHAIN spans, retrievers as RETRIEVER spans, chat models as LLM spans, tool
+ * calls as TOOL spans and agents as AGENT spans. Embedding models and
+ * rerankers do not dispatch events, so `BaseEmbedding` and the reranker
+ * classes exported by the module are wrapped to record EMBEDDING and
+ * RERANKER spans.
+ *
+ * Events do not carry a context, so a span is parented to the innermost
+ * span still waiting for its end event, or else to the active span. Open
+ * spans are kept per top-level call, identified by the root of the event's
+ * caller chain, so that concurrent calls do not end or parent each other's
+ * spans. Events without a caller share a single stack, bounded to
+ * `MAX_OPEN_SPANS` spans: the oldest spans past the bound are ended.
+ */
+export class LlamaIndexInstrumentation extends InstrumentationBase {
+	private manuallyInstrumentedModules: any[] = [];
+	private subscriptions = new Map<any, [string, EventHandler][]>();
+	private openSpans = new WeakMap<EventCaller, OpenSpan[]>();
+	private uncalledOpenSpans: OpenSpan[] = [];
+
+	constructor({
+		instrumentationConfig,
+		tracerProvider,
+	}: LlamaIndexInstrumentationOptions = {}) {
+		super(INSTRUMENTATION_NAME, INSTRUMENTATION_VERSION, {
+			...instrumentationConfig,
+		});
+		if (tracerProvider) {
+			this.setTracerProvider(tracerProvider);
+		}
+	}
+
+	protected init() {
+		return new InstrumentationNodeModuleDefinition(
+			MODULE_NAME,
+			[">=0.5.0"],
+			this.patch.bind(this),
+			this.unpatch.bind(this),
+		);
+	}
+
+	/**
+	 * Manually instrument the LlamaIndex module. This is needed when the module
+	 * is not loaded via require (e.g. ESM or bundled code).
+	 */
+	manuallyInstrument(module: any): void {
+		diag.debug(`Manually instrumenting ${MODULE_NAME}`);
+		this.patch(module);
+		this.manuallyInstrumentedModules.push(module);
+	}
+
+	override disable(): void {
+		super.disable();
+		for (const module of this.manuallyInstrumentedModules) {
+			this.unpatch(module);
+		}
+		this.manuallyInstrumentedModules = [];
+	}
+
+	private getRerankerNames(module: any): string[] {
+		return Object.keys(module ?? {}).filter(
+			(name) =>
+				RERANKER_NAME.test(name) &&
+				typeof module[name]?.prototype?.postprocessNodes === "function",
+		);
+	}
+
+	private patch(module: any, moduleVersion?: string): any {
+		diag.debug(`Applying patch for ${MODULE_NAME}@${moduleVersion}`);
+		const callbackManager = module?.Settings?.callbackManager;
+		if (typeof callbackManager?.on !== "function") {
+			diag.warn(
+				`Atla Insights: Could not find the ${MODULE_NAME} callback manager`,
+			);
+			return module;
+		}
+
+		// Re-instrumenting replaces the previous handlers and wrappers
+		this.unpatch(module);
+
+		const handlers = this.getEventHandlers();
+		for (const [event, handler] of handlers) {
+			callbackManager.on(event, handler);
+		}
+		this.subscriptions.set(module, handlers);
+
+		const instrumentation = this;
+		const embeddingPrototype = module.BaseEmbedding?.prototype;
+		for (const method of EMBEDDING_METHODS) {
+			if (typeof embeddingPrototype?.[method] !== "function") {
+				continue;
+			}
+			this._wrap(
+				embeddingPrototype,
+				method,
+				(original: any) =>
+					function patchedEmbedding(this: any, ...args: any[]) {
+						return instrumentation.traceEmbedding(method, original, this, args);
+					},
+			);
+		}
+		for (const name of this.getRerankerNames(module)) {
+			this._wrap(
+				module[name].prototype,
+				"postprocessNodes",
+				(original: any) =>
+					function patchedPostprocessNodes(this: any, ...args: any[]) {
+						return instrumentation.traceRerank(name, original, this, args);
+					},
+			);
+		}
+		return module;
+	}
+
+	private unpatch(module: any, moduleVersion?: string): void {
+		diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
+		const callbackManager = module?.Settings?.callbackManager;
+		for (const [event, handler] of this.subscriptions.get(module) ?? []) {
+			callbackManager?.off?.(event, handler);
+		}
+		this.subscriptions.delete(module);
+
+		const embeddingPrototype = module?.BaseEmbedding?.prototype;
+		for (const method of EMBEDDING_METHODS) {
+			if (isWrapped(embeddingPrototype?.[method])) {
+				this._unwrap(embeddingPrototype, method);
+			}
+		}
+		for (const name of this.getRerankerNames(module)) {
+			if (isWrapped(module[name].prototype.postprocessNodes)) {
+				this._unwrap(module[name].prototype, "postprocessNodes");
+			}
+		}
+	}
+
+	/**
+	 * Get the handlers of the callback manager events. A failing handler must
+	 * not break the application, so errors are only logged.
+	 */
+	private getEventHandlers(): [string, EventHandler][] {
+		const handlers: [string, (detail: any, spans: OpenSpan[]) => void][] = [
+			[
+				"query-start",
+				(detail, spans) => this.startChain(spans, "query-start", detail),
+			],
+			[
+				"query-end",
+				(detail, spans) => this.endChain(spans, "query-start", detail),
+			],
+			[
+				"synthesize-start",
+				(detail, spans) => this.startChain(spans, "synthesize-start", detail),
+			],
+			[
+				"synthesize-end",
+				(detail, spans) => this.endChain(spans, "synthesize-start", detail),
+			],
+			["retrieve-start", (detail, spans) => this.startRetrieve(spans, detail)],
+			["retrieve-end", (detail, spans) => this.endRetrieve(spans, detail)],
+			["llm-start", (detail, spans) => this.startLLM(spans, detail)],
+			["llm-end", (detail, spans) => this.endLLM(spans, detail)],
+			["llm-tool-call", (detail, spans) => this.startTool(spans, detail)],
+			["llm-tool-result", (detail, spans) => this.endTool(spans, detail)],
+			["agent-start", (detail, spans) => this.startAgent(spans, detail)],
+			["agent-end", (detail, spans) => this.endAgent(spans, detail)],
+		];
+		return handlers.map(([event, handler]) => [
+			event,
+			(payload) => {
+				if (!this.isEnabled()) {
+					return;
+				}
+				try {
+					handler(payload?.detail ?? {}, this.getOpenSpans(payload?.reason));
+				} catch (error) {
+					diag.error(`Atla Insights: Failed to handle ${event}`, error);
+				}
+			},
+		]);
+	}
+
+	/**
+	 * Get the spans opened within the top-level call of an event's caller.
+	 */
+	private getOpenSpans(caller: EventCaller | null | undefined): OpenSpan[] {
+		if (!caller) {
+			return this.uncalledOpenSpans;
+		}
+		let root = caller;
+		while (root.parent) {
+			root = root.parent;
+		}
+		let spans = this.openSpans.get(root);
+		if (!spans) {
+			spans = [];
+			this.openSpans.set(root, spans);
+		}
+		return spans;
+	}
+
+	private getParentContext(spans: OpenSpan[]) {
+		const parent = spans[spans.length - 1]?.span;
+		return parent ? trace.setSpan(context.active(), parent) : context.active();
+	}
+
+	private startSpan(
+		name: string,
+		kind: OpenInferenceSpanKind,
+		attributes: Attributes,
+		spans: OpenSpan[],
+	): Span {
+		return this.tracer.startSpan(
+			name,
+			{
+				kind: SpanKind.INTERNAL,
+				attributes: {
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]: kind,
+					...attributes,
+				},
+			},
+			this.getParentContext(spans),
+		);
+	}
+
+	/**
+	 * Start a span waiting for its end event. Spans whose end event never came
+	 * are ended with an error status, oldest first, once too many are open.
+	 */
+	private openSpan(
+		spans: OpenSpan[],
+		event: string,
+		id: string | undefined,
+		name: string,
+		kind: OpenInferenceSpanKind,
+		attributes: Attributes,
+	): Span {
+		const span = this.startSpan(name, kind, attributes, spans);
+		spans.push({ event, id, span });
+		const evicted = spans.length > MAX_OPEN_SPANS ? spans.shift() : undefined;
+		if (evicted) {
+			evicted.span.setStatus({
+				code: SpanStatusCode.ERROR,
+				message: "Evicted: too many spans were waiting for their end event",
+			});
+			evicted.span.end();
+		}
+		return span;
+	}
+
+	/**
+	 * Take the innermost span opened by an event, preferring the one with the
+	 * same id when the events have one.
+	 */
+	private takeSpan(
+		spans: OpenSpan[],
+		event: string,
+		id?: string,
+	): Span | undefined {
+		for (let i = spans.length - 1; i >= 0; i--) {
+			const openSpan = spans[i];
+			if (
+				openSpan.event === event &&
+				(id === undefined || openSpan.id === undefined || openSpan.id === id)
+			) {
+				spans.splice(i, 1);
+				return openSpan.span;
+			}
+		}
+		return undefined;
+	}
+
+	private endSpan(span: Span, output: string | undefined): void {
+		if (output !== undefined) {
+			span.setAttribute(OUTPUT_VALUE, output);
+		}
+		span.setStatus({ code: SpanStatusCode.OK });
+		span.end();
+	}
+
+	private startChain(
+		spans: OpenSpan[],
+		event: string,
+		detail: { id?: string; query?: unknown },
+	) {
+		const name =
+			event === "query-start" ? "LlamaIndex Query" : "LlamaIndex Synthesize";
+		this.openSpan(spans, event, detail.id, name, OpenInferenceSpanKind.CHAIN, {
+			[INPUT_VALUE]: getQueryText(detail.query),
+		});
+	}
+
+	private endChain(
+		spans: OpenSpan[],
+		event: string,
+		detail: { id?: string; response?: unknown },
+	) {
+		const span = this.takeSpan(spans, event, detail.id);
+		if (span) {
+			this.endSpan(span, getResponseText(detail.response));
+		}
+	}
+
+	private startRetrieve(
+		spans: OpenSpan[],
+		detail: { id?: string; query?: unknown },
+	) {
+		this.openSpan(
+			spans,
+			"retrieve-start",
+			detail.id,
+			"LlamaIndex Retrieve",
+			OpenInferenceSpanKind.RETRIEVER,
+			{ [INPUT_VALUE]: getQueryText(detail.query) },
+		);
+	}
+
+	private endRetrieve(
+		spans: OpenSpan[],
+		detail: { id?: string; nodes?: LlamaIndexNodeWithScore[] },
+	) {
+		const span = this.takeSpan(spans, "retrieve-start", detail.id);
+		if (!span) {
+			return;
+		}
+		setSpanAttributes(
+			span,
+			getDocumentsAttributes(RETRIEVAL_DOCUMENTS, detail.nodes ?? []),
+		);
+		this.endSpan(span, undefined);
+	}
+
+	private startLLM(
+		spans: OpenSpan[],
+		detail: { id?: string; messages?: LlamaIndexChatMessage[] },
+	) {
+		const messages = detail.messages ?? [];
+		const span = this.openSpan(
+			spans,
+			"llm-start",
+			detail.id,
+			"LlamaIndex LLM",
+			OpenInferenceSpanKind.LLM,
+			{
+				[INPUT_VALUE]: JSON.stringify(messages),
+				[INPUT_MIME_TYPE]: MimeType.JSON,
+			},
+		);
+		setSpanAttributes(span, getInputMessagesAttributes(messages));
+	}
+
+	private endLLM(
+		spans: OpenSpan[],
+		detail: { id?: string; response?: LlamaIndexChatResponse },
+	) {
+		const span = this.takeSpan(spans, "llm-start", detail.id);
+		if (!span) {
+			return;
+		}
+		const response = detail.response ?? {};
+		if (response.raw?.model) {
+			span.setAttribute(LLM_MODEL_NAME, response.raw.model);
+		}
+		setSpanAttributes(span, getChatResponseAttributes(response));
+		this.endSpan(span, getResponseText(response));
+	}
+
+	private startTool(
+		spans: OpenSpan[],
+		detail: { toolCall?: LlamaIndexToolCall },
+	) {
+		const toolCall = detail.toolCall ?? {};
+		const input = JSON.stringify(toolCall.input ?? {});
+		this.openSpan(
+			spans,
+			"llm-tool-call",
+			toolCall.id,
+			toolCall.name ?? "LlamaIndex Tool",
+			OpenInferenceSpanKind.TOOL,
+			{
+				[TOOL_NAME]: toolCall.name ?? "",
+				[TOOL_PARAMETERS]: input,
+				[INPUT_VALUE]: input,
+				[INPUT_MIME_TYPE]: MimeType.JSON,
+			},
+		);
+	}
+
+	private endTool(
+		spans: OpenSpan[],
+		detail: {
+			toolCall?: LlamaIndexToolCall;
+			toolResult?: LlamaIndexToolResult & { output?: unknown };
+		},
+	) {
+		const span = this.takeSpan(spans, "llm-tool-call", detail.toolCall?.id);
+		if (!span) {
+			return;
+		}
+		const output = detail.toolResult?.output ?? detail.toolResult?.result;
+		if (detail.toolResult?.isError) {
+			span.setAttribute(OUTPUT_VALUE, getResponseText(output));
+			recordSpanError(span, output);
+			return;
+		}
+		this.endSpan(span, getResponseText(output));
+	}
+
+	private startAgent(
+		spans: OpenSpan[],
+		detail: { startStep?: { input?: unknown } },
+	) {
+		this.openSpan(
+			spans,
+			"agent-start",
+			undefined,
+			"LlamaIndex Agent",
+			OpenInferenceSpanKind.AGENT,
+			{ [INPUT_VALUE]: getQueryText(detail.startStep?.input) },
+		);
+	}
+
+	private endAgent(
+		spans: OpenSpan[],
+		detail: { endStep?: { output?: unknown } },
+	) {
+		const span = this.takeSpan(spans, "agent-start");
+		if (span) {
+			this.endSpan(span, getResponseText(detail.endStep?.output));
+		}
+	}
+
+	/**
+	 * Run a wrapped method in its span, ending the span once the returned
+	 * promise settles.
+	 */
+	private traceCall<T>(
+		span: Span,
+		original: any,
+		thisArg: any,
+		args: any[],
+		onResult: (result: T) => void,
+	): any {
+		let result: any;
+		try {
+			result = context.with(trace.setSpan(context.active(), span), () =>
+				original.apply(thisArg, args),
+			);
+		} catch (error) {
+			recordSpanError(span, error);
+			throw error;
+		}
+		Promise.resolve(result).then(
+			(value: T) => {
+				onResult(value);
+				span.setStatus({ code: SpanStatusCode.OK });
+				span.end();
+			},
+			(error: unknown) => recordSpanError(span, error),
+		);
+		return result;
+	}
+
+	private traceEmbedding(
+		method: string,
+		original: any,
+		thisArg: any,
+		args: any[],
+	): any {
+		if (!this.isEnabled()) {
+			return original.apply(thisArg, args);
+		}
+		const batch = method === "getTextEmbeddingsBatch";
+		const texts: string[] = batch
+			? (args[0] ?? []).map(getQueryText)
+			: [getQueryText(args[0])];
+		const span = this.startSpan(
+			"LlamaIndex Embedding",
+			OpenInferenceSpanKind.EMBEDDING,
+			{},
+			this.getOpenSpans(getCurrentEventCaller()),
+		);
+		if (typeof thisArg?.model === "string") {
+			span.setAttribute(EMBEDDING_MODEL_NAME, thisArg.model);
+		}
+		return this.traceCall<any>(span, original, thisArg, args, (result) => {
+			const vectors = batch ? result : [result];
+			setSpanAttributes(span, getEmbeddingsAttributes(texts, vectors));
+		});
+	}
+
+	private traceRerank(
+		name: string,
+		original: any,
+		thisArg: any,
+		args: any[],
+	): any {
+		if (!this.isEnabled()) {
+			return original.apply(thisArg, args);
+		}
+		const [nodes = [], query] = args as [LlamaIndexNodeWithScore[], unknown];
+		const span = this.startSpan(
+			`${name}.postprocessNodes`,
+			OpenInferenceSpanKind.RERANKER,
+			{},
+			this.getOpenSpans(getCurrentEventCaller()),
+		);
+		if (query !== undefined) {
+			span.setAttribute(RERANKER_QUERY, getQueryText(query));
+		}
+		if (typeof thisArg?.model === "string") {
+			span.setAttribute(RERANKER_MODEL_NAME, thisArg.model);
+		}
+		const topK = thisArg?.topN ?? thisArg?.topK;
+		if (typeof topK === "number") {
+			span.setAttribute(RERANKER_TOP_K, topK);
+		}
+		setSpanAttributes(
+			span,
+			getDocumentsAttributes(RERANKER_INPUT_DOCUMENTS, nodes),
+		);
+		return this.traceCall<LlamaIndexNodeWithScore[]>(
+			span,
+			original,
+			thisArg,
+			args,
+			(result) =>
+				setSpanAttributes(
+					span,
+					getDocumentsAttributes(RERANKER_OUTPUT_DOCUMENTS, result ?? []),
+				),
+		);
+	}
+}
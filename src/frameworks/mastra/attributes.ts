@@ -0,0 +1,148 @@
+import type { Attributes, AttributeValue } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import {
+	AGENT_NAME,
+	INPUT_MIME_TYPE,
+	INPUT_VALUE,
+	MimeType,
+	OpenInferenceSpanKind,
+	OUTPUT_MIME_TYPE,
+	OUTPUT_VALUE,
+	SemanticConventions,
+	TOOL_NAME,
+} from "@arizeai/openinference-semantic-conventions";
+import { translateVercelAIAttributes } from "../vercel-ai/attributes";
+
+/**
+ * The scope of the Mastra spans once renamed by the root span processor.
+ */
+export const MASTRA_OPENINFERENCE_SCOPE =
+	"openinference.instrumentation.mastra";
+
+/**
+ * The OpenInference span kind of the Mastra spans, by span name. Mastra
+ * names the spans of its components after their method (e.g.
+ * `agent.generate` or `memory.query`). The first matching rule applies.
+ */
+const SPAN_KIND_RULES: [RegExp, OpenInferenceSpanKind][] = [
+	[/^agent\.(generate|stream)/, OpenInferenceSpanKind.AGENT],
+	[/^(mastra\.)?tool(set)?\./, OpenInferenceSpanKind.TOOL],
+	// Memory lookups, whether made by the memory or by the agent
+	[/^memory\./, OpenInferenceSpanKind.CHAIN],
+	[/^agent\./, OpenInferenceSpanKind.CHAIN],
+	// Workflow runs and their steps
+	[/^workflow\./, OpenInferenceSpanKind.CHAIN],
+];
+
+type AttributesGenerator = Generator<[string, AttributeValue]>;
+
+function isJSON(value: string): boolean {
+	try {
+		JSON.parse(value);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Get the input of a span from the arguments of the traced method, which
+ * Mastra records as `<span name>.argument.<index>` JSON strings.
+ */
+function* getInputAttributes(
+	name: string,
+	attributes: Attributes,
+): AttributesGenerator {
+	const args: string[] = [];
+	for (let i = 0; ; i++) {
+		const arg = attributes[`${name}.argument.${i}`];
+		if (typeof arg !== "string") {
+			break;
+		}
+		args.push(arg);
+	}
+	if (args.length === 0) {
+		return;
+	}
+	const input = args.length === 1 ? args[0] : `[${args.join(",")}]`;
+	yield [INPUT_VALUE, input];
+	if (isJSON(input)) {
+		yield [INPUT_MIME_TYPE, MimeType.JSON];
+	}
+}
+
+/**
+ * Get the output of a span from the result of the traced method, which
+ * Mastra records as a `<span name>.result` JSON string.
+ */
+function* getOutputAttributes(
+	name: string,
+	attributes: Attributes,
+): AttributesGenerator {
+	const result = attributes[`${name}.result`];
+	if (typeof result !== "string") {
+		return;
+	}
+	yield [OUTPUT_VALUE, result];
+	if (isJSON(result)) {
+		yield [OUTPUT_MIME_TYPE, MimeType.JSON];
+	}
+}
+
+function* getComponentAttributes(
+	name: string,
+	spanKind: OpenInferenceSpanKind,
+	attributes: Attributes,
+): AttributesGenerator {
+	const componentName = attributes.componentName;
+	if (spanKind === OpenInferenceSpanKind.AGENT) {
+		if (typeof componentName === "string") {
+			yield [AGENT_NAME, componentName];
+		}
+	} else if (spanKind === OpenInferenceSpanKind.TOOL) {
+		const toolName =
+			attributes[TOOL_NAME] ??
+			attributes.toolId ??
+			componentName ??
+			name.split(".").pop();
+		if (typeof toolName === "string") {
+			yield [TOOL_NAME, toolName];
+		}
+	}
+}
+
+/**
+ * Translate the attributes recorded by the Mastra telemetry into
+ * OpenInference attributes. The original attributes are kept.
+ *
+ * Mastra calls the models through the Vercel AI SDK with its own tracer, so
+ * the `ai.*` spans are translated as Vercel AI SDK spans.
+ *
+ * @param span - An ended span of the Mastra tracer.
+ */
+export function translateMastraAttributes(span: ReadableSpan): void {
+	const attributes = span.attributes;
+	if (span.name.startsWith("ai.") || "ai.operationId" in attributes) {
+		translateVercelAIAttributes(span);
+		return;
+	}
+
+	const spanKind = SPAN_KIND_RULES.find(([pattern]) =>
+		pattern.test(span.name),
+	)?.[1];
+	if (!spanKind) {
+		return;
+	}
+
+	const translated: Attributes = {
+		[SemanticConventions.OPENINFERENCE_SPAN_KIND]: spanKind,
+	};
+	for (const [key, value] of [
+		...getInputAttributes(span.name, attributes),
+		...getOutputAttributes(span.name, attributes),
+		...getComponentAttributes(span.name, spanKind, attributes),
+	]) {
+		translated[key] = value;
+	}
+	Object.assign(attributes, translated);
+}
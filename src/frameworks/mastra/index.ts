@@ -0,0 +1,160 @@
+import { diag } from "@opentelemetry/api";
+import { getAtlaContext } from "../../context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { getSharedInstrumentation } from "../../instrumentation_router";
+import { MastraInstrumentation } from "./instrumentation";
+
+const SERVICE_NAME = "mastra";
+
+/**
+ * Instrument the Mastra framework.
+ *
+ * This function enables tracing for Mastra: agent runs are recorded as AGENT
+ * spans, workflow runs, workflow steps and memory lookups as CHAIN spans,
+ * tool executions as TOOL spans and the underlying model calls as LLM spans.
+ * The spans are recorded by the Mastra telemetry, which must not be disabled.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentMastra } from "@atla-ai/insights-sdk-js";
+ * import { Mastra } from "@mastra/core";
+ *
+ * // Configure Atla Insights first
+ * configure({
+ *   token: process.env.ATLA_API_KEY!,
+ * });
+ *
+ * const mastra = new Mastra({ agents: { weatherAgent } });
+ *
+ * // Enable Mastra instrumentation
+ * instrumentMastra(mastra);
+ *
+ * // Use Mastra as normal - it will be automatically traced
+ * const agent = mastra.getAgent("weatherAgent");
+ * const result = await agent.generate("What is the weather in Paris?");
+ * ```
+ *
+ * @param mastra - The Mastra instance to instrument. If not provided, the telemetry of the last Mastra instance created will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ *
+ * @returns void
+ */
+export function instrumentMastra(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	mastra?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation || insights.disabled) {
+		return;
+	}
+
+	if (!insights.configured) {
+		throw new Error(
+			"Atla Insights must be configured before instrumenting Mastra. " +
+				"Please call configure first.",
+		);
+	}
+
+	// Every client shares the instrumentation of the module
+	const mastraInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new MastraInstrumentation({ tracerProvider }),
+	);
+
+	// Mastra keeps the telemetry of the last instance created in a global
+	const target =
+		mastra ?? (globalThis as { __TELEMETRY__?: unknown }).__TELEMETRY__;
+	if (target) {
+		mastraInstrumentation.manuallyInstrument(target);
+	} else {
+		diag.warn(
+			"Atla Insights: No Mastra instance found. Create it before instrumenting Mastra.",
+		);
+	}
+
+	// Register it with OpenTelemetry
+	insights.registerInstrumentations(SERVICE_NAME, [mastraInstrumentation]);
+}
+
+/**
+ * Uninstrument the Mastra framework.
+ *
+ * This function disables tracing for Mastra.
+ *
+ * @example
+ * ```typescript
+ * import { uninstrumentMastra } from "@atla-ai/insights-sdk-js";
+ *
+ * // Disable Mastra instrumentation
+ * uninstrumentMastra();
+ * ```
+ *
+ * @returns void
+ */
+export function uninstrumentMastra(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation) {
+		return;
+	}
+
+	insights.unregisterInstrumentations(SERVICE_NAME);
+}
+
+/**
+ * Create a disposable Mastra instrumentation resource.
+ *
+ * This function enables Mastra instrumentation and returns a disposable resource
+ * that automatically disables instrumentation when disposed. This is particularly
+ * useful with TypeScript's `using` statement for automatic resource management.
+ *
+ * @example
+ * ```typescript
+ * import { withInstrumentedMastra } from "@atla-ai/insights-sdk-js";
+ * import { Mastra } from "@mastra/core";
+ *
+ * const mastra = new Mastra({ agents: { weatherAgent } });
+ *
+ * // Use with using statement (requires TypeScript 5.2+)
+ * {
+ *   using instrumented = withInstrumentedMastra(mastra);
+ *   // Mastra calls here will be traced
+ * }
+ * // Mastra instrumentation automatically disabled here
+ *
+ * // Or manually manage lifecycle
+ * const instrumented = withInstrumentedMastra(mastra);
+ * try {
+ *   // Mastra calls here will be traced
+ * } finally {
+ *   instrumented[Symbol.dispose]();
+ * }
+ * ```
+ *
+ * @param mastra - The Mastra instance to instrument. If not provided, the telemetry of the last Mastra instance created will be instrumented.
+ * @returns A disposable resource that cleans up Mastra instrumentation when disposed
+ */
+export function withInstrumentedMastra(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	mastra?: any,
+): { dispose(): void } {
+	instrumentMastra(mastra);
+	const d = {
+		dispose() {
+			uninstrumentMastra();
+		},
+	};
+	// If TS 5.2+ Symbol.dispose exists at runtime, add it for ergonomics
+	try {
+		const sym = (Symbol as unknown as { dispose?: symbol }).dispose;
+		if (sym) {
+			// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+			(d as any)[sym] = d.dispose.bind(d);
+		}
+	} catch {
+		// no-op
+	}
+	return d;
+}
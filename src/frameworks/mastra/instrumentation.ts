@@ -0,0 +1,105 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import { diag, type Tracer, type TracerProvider } from "@opentelemetry/api";
+import {
+	InstrumentationBase,
+	type InstrumentationConfig,
+} from "@opentelemetry/instrumentation";
+
+export const INSTRUMENTATION_NAME = "@atla-ai/instrumentation-mastra";
+const INSTRUMENTATION_VERSION = "0.1.0";
+
+export interface MastraInstrumentationOptions {
+	instrumentationConfig?: InstrumentationConfig;
+	tracerProvider?: TracerProvider;
+}
+
+/**
+ * The subset of the Mastra `Telemetry` read by the instrumentation.
+ */
+interface MastraTelemetry {
+	tracer: Tracer;
+}
+
+function isTelemetry(value: any): value is MastraTelemetry {
+	return typeof value?.tracer?.startActiveSpan === "function";
+}
+
+/**
+ * OpenInference instrumentation for Mastra.
+ *
+ * Mastra traces its agents, workflows, tools and memory with OpenTelemetry,
+ * and calls the models through the Vercel AI SDK with the same tracer. The
+ * tracer of the Mastra telemetry is replaced with the tracer of this
+ * instrumentation, so that the spans are reported to Atla Insights under a
+ * known scope and translated into OpenInference spans once ended.
+ */
+export class MastraInstrumentation extends InstrumentationBase {
+	private originalTracers = new Map<MastraTelemetry, Tracer>();
+
+	constructor({
+		instrumentationConfig,
+		tracerProvider,
+	}: MastraInstrumentationOptions = {}) {
+		super(INSTRUMENTATION_NAME, INSTRUMENTATION_VERSION, {
+			...instrumentationConfig,
+		});
+		if (tracerProvider) {
+			this.setTracerProvider(tracerProvider);
+		}
+	}
+
+	protected init() {
+		return [];
+	}
+
+	/**
+	 * Instrument a Mastra instance, or its telemetry.
+	 */
+	manuallyInstrument(mastraOrTelemetry: any): void {
+		diag.debug("Manually instrumenting Mastra");
+		const telemetry =
+			typeof mastraOrTelemetry?.getTelemetry === "function"
+				? mastraOrTelemetry.getTelemetry()
+				: mastraOrTelemetry;
+		if (!isTelemetry(telemetry)) {
+			diag.warn(
+				"Atla Insights: Could not find the Mastra telemetry. Is it disabled?",
+			);
+			return;
+		}
+		if (!this.originalTracers.has(telemetry)) {
+			this.originalTracers.set(telemetry, telemetry.tracer);
+		}
+		if (this.isEnabled()) {
+			telemetry.tracer = this.tracer;
+		}
+	}
+
+	override enable(): void {
+		super.enable();
+		this.replaceTracers();
+	}
+
+	override disable(): void {
+		super.disable();
+		for (const [telemetry, tracer] of this.originalTracers ?? []) {
+			telemetry.tracer = tracer;
+		}
+		this.originalTracers?.clear();
+	}
+
+	override setTracerProvider(tracerProvider: TracerProvider): void {
+		super.setTracerProvider(tracerProvider);
+		if (this.isEnabled()) {
+			this.replaceTracers();
+		}
+	}
+
+	private replaceTracers(): void {
+		// The base constructor enables the instrumentation before the fields
+		// are initialized
+		for (const telemetry of this.originalTracers?.keys() ?? []) {
+			telemetry.tracer = this.tracer;
+		}
+	}
+}
@@ -0,0 +1,163 @@
+import { getAtlaContext } from "../../context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { getSharedInstrumentation } from "../../instrumentation_router";
+import { MCPInstrumentation } from "./instrumentation";
+
+const SERVICE_NAME = "mcp";
+
+/**
+ * Instrument the Model Context Protocol (MCP) SDK.
+ *
+ * This function enables tracing for MCP clients (`callTool`, `listTools`,
+ * `readResource` and `getPrompt`) and servers (the request handlers of the
+ * same methods), recorded as TOOL spans. The trace context is propagated
+ * through the `_meta` field of the requests, so that the work of a server
+ * running in another process is recorded in the trace of its caller, as long
+ * as both sides are instrumented.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentMCP } from "@atla-ai/insights-sdk-js";
+ * import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+ *
+ * // Configure Atla Insights first
+ * configure({
+ *   token: process.env.ATLA_API_KEY!,
+ * });
+ *
+ * // Enable MCP instrumentation
+ * instrumentMCP();
+ *
+ * // Use MCP as normal - it will be automatically traced
+ * const client = new Client({ name: "my-client", version: "1.0.0" });
+ * await client.connect(transport);
+ * const result = await client.callTool({ name: "get_weather", arguments: { city: "Paris" } });
+ * ```
+ *
+ * @param mcpModule - The MCP client or server module to instrument, or an object holding the `Client` and `Server` classes. If not provided, the default MCP modules will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentMCP } from "@atla-ai/insights-sdk-js";
+ * import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+ * import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+ *
+ * // Configure Atla Insights first
+ * configure({ token: process.env.ATLA_API_KEY! });
+ *
+ * // Manually instrument the MCP client and server
+ * instrumentMCP({ Client, Server });
+ * ```
+ *
+ * @returns void
+ */
+export function instrumentMCP(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	mcpModule?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation || insights.disabled) {
+		return;
+	}
+
+	if (!insights.configured) {
+		throw new Error(
+			"Atla Insights must be configured before instrumenting MCP. " +
+				"Please call configure first.",
+		);
+	}
+
+	// Every client shares the instrumentation of the module
+	const mcpInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new MCPInstrumentation({ tracerProvider }),
+	);
+
+	// If a module is provided, manually instrument it
+	if (mcpModule) {
+		mcpInstrumentation.manuallyInstrument(mcpModule);
+	}
+
+	// Register it with OpenTelemetry
+	insights.registerInstrumentations(SERVICE_NAME, [mcpInstrumentation]);
+}
+
+/**
+ * Uninstrument the MCP SDK.
+ *
+ * This function disables tracing for MCP clients and servers.
+ *
+ * @example
+ * ```typescript
+ * import { uninstrumentMCP } from "@atla-ai/insights-sdk-js";
+ *
+ * // Disable MCP instrumentation
+ * uninstrumentMCP();
+ * ```
+ *
+ * @returns void
+ */
+export function uninstrumentMCP(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation) {
+		return;
+	}
+
+	insights.unregisterInstrumentations(SERVICE_NAME);
+}
+
+/**
+ * Create a disposable MCP instrumentation resource.
+ *
+ * This function enables MCP instrumentation and returns a disposable resource
+ * that automatically disables instrumentation when disposed. This is particularly
+ * useful with TypeScript's `using` statement for automatic resource management.
+ *
+ * @example
+ * ```typescript
+ * import { withInstrumentedMCP } from "@atla-ai/insights-sdk-js";
+ * import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+ *
+ * // Use with using statement (requires TypeScript 5.2+)
+ * {
+ *   using instrumented = withInstrumentedMCP();
+ *   const client = new Client({ name: "my-client", version: "1.0.0" });
+ *   // MCP calls here will be traced
+ * }
+ * // MCP instrumentation automatically disabled here
+ *
+ * // Or manually manage lifecycle
+ * const instrumented = withInstrumentedMCP();
+ * try {
+ *   const client = new Client({ name: "my-client", version: "1.0.0" });
+ *   // MCP calls here will be traced
+ * } finally {
+ *   instrumented[Symbol.dispose]();
+ * }
+ * ```
+ *
+ * @returns A disposable resource that cleans up MCP instrumentation when disposed
+ */
+export function withInstrumentedMCP(): { dispose(): void } {
+	instrumentMCP();
+	const d = {
+		dispose() {
+			uninstrumentMCP();
+		},
+	};
+	// If TS 5.2+ Symbol.dispose exists at runtime, add it for ergonomics
+	try {
+		const sym = (Symbol as unknown as { dispose?: symbol }).dispose;
+		if (sym) {
+			// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+			(d as any)[sym] = d.dispose.bind(d);
+		}
+	} catch {
+		// no-op
+	}
+	return d;
+}
@@ -0,0 +1,350 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	type Context,
+	context,
+	defaultTextMapGetter,
+	defaultTextMapSetter,
+	diag,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import {
+	InstrumentationBase,
+	type InstrumentationConfig,
+	InstrumentationNodeModuleDefinition,
+	InstrumentationNodeModuleFile,
+	isWrapped,
+} from "@opentelemetry/instrumentation";
+import {
+	INPUT_MIME_TYPE,
+	INPUT_VALUE,
+	MimeType,
+	OpenInferenceSpanKind,
+	OUTPUT_MIME_TYPE,
+	OUTPUT_VALUE,
+	SemanticConventions,
+	TOOL_NAME,
+	TOOL_PARAMETERS,
+} from "@arizeai/openinference-semantic-conventions";
+import { recordSpanError } from "../../providers/utils";
+
+export const INSTRUMENTATION_NAME = "@atla-ai/instrumentation-mcp";
+const INSTRUMENTATION_VERSION = "0.1.0";
+const MODULE_NAME = "@modelcontextprotocol/sdk";
+const SUPPORTED_VERSIONS = [">=1.0.0"];
+
+/**
+ * The MCP method of a request, following the OpenTelemetry semantic
+ * conventions for MCP.
+ */
+export const MCP_METHOD_NAME = "mcp.method.name";
+
+/**
+ * The `Client` methods recorded, with the MCP method they send.
+ */
+const CLIENT_METHODS: [string, string][] = [
+	["callTool", "tools/call"],
+	["listTools", "tools/list"],
+	["readResource", "resources/read"],
+	["getPrompt", "prompts/get"],
+];
+
+const TRACED_METHODS = new Set(CLIENT_METHODS.map(([, method]) => method));
+
+export interface MCPInstrumentationOptions {
+	instrumentationConfig?: InstrumentationConfig;
+	tracerProvider?: TracerProvider;
+}
+
+interface MCPRequestParams {
+	name?: string;
+	uri?: string;
+	arguments?: Record<string, unknown>;
+	_meta?: Record<string, unknown>;
+	[key: string]: unknown;
+}
+
+interface MCPRequest {
+	method?: string;
+	params?: MCPRequestParams;
+}
+
+interface MCPResult {
+	isError?: boolean;
+	content?: { type?: string; text?: string }[];
+}
+
+/**
+ * OpenInference instrumentation for the Model Context Protocol SDK.
+ *
+ * Wraps `callTool`, `listTools`, `readResource` and `getPrompt` of the
+ * `Client` to record one TOOL span per request, and the request handlers
+ * registered on the `Server` (directly or through an `McpServer`) to record
+ * one TOOL span per request handled.
+ *
+ * The client injects the W3C trace context of its span into the `_meta`
+ * field of the request, and the server continues the trace from it, so that
+ * the work of a server running in another process is recorded in the trace
+ * of the calling agent.
+ */
+export class MCPInstrumentation extends InstrumentationBase {
+	private manuallyInstrumentedModules: any[] = [];
+	private propagator = new W3CTraceContextPropagator();
+
+	constructor({
+		instrumentationConfig,
+		tracerProvider,
+	}: MCPInstrumentationOptions = {}) {
+		super(INSTRUMENTATION_NAME, INSTRUMENTATION_VERSION, {
+			...instrumentationConfig,
+		});
+		if (tracerProvider) {
+			this.setTracerProvider(tracerProvider);
+		}
+	}
+
+	protected init() {
+		return new InstrumentationNodeModuleDefinition(
+			MODULE_NAME,
+			SUPPORTED_VERSIONS,
+			undefined,
+			undefined,
+			["client", "server"].map(
+				(side) =>
+					new InstrumentationNodeModuleFile(
+						`${MODULE_NAME}/dist/cjs/${side}/index.js`,
+						SUPPORTED_VERSIONS,
+						this.patch.bind(this),
+						this.unpatch.bind(this),
+					),
+			),
+		);
+	}
+
+	/**
+	 * Manually instrument the MCP client and server modules, or any object
+	 * holding the `Client` and `Server` classes. This is needed when the
+	 * modules are not loaded via require (e.g. ESM or bundled code).
+	 */
+	manuallyInstrument(module: any): void {
+		diag.debug(`Manually instrumenting ${MODULE_NAME}`);
+		this.patch(module);
+		this.manuallyInstrumentedModules.push(module);
+	}
+
+	override disable(): void {
+		super.disable();
+		for (const module of this.manuallyInstrumentedModules) {
+			this.unpatch(module);
+		}
+		this.manuallyInstrumentedModules = [];
+	}
+
+	private patch(module: any, moduleVersion?: string): any {
+		diag.debug(`Applying patch for ${MODULE_NAME}@${moduleVersion}`);
+		const clientPrototype = module?.Client?.prototype;
+		const serverPrototype = module?.Server?.prototype;
+		if (
+			typeof clientPrototype?.callTool !== "function" &&
+			typeof serverPrototype?.setRequestHandler !== "function"
+		) {
+			diag.warn(
+				`Atla Insights: Could not find the ${MODULE_NAME} client or server`,
+			);
+			return module;
+		}
+
+		// Re-instrumenting replaces the previous wrappers
+		this.unpatch(module);
+
+		const instrumentation = this;
+		for (const [name, method] of CLIENT_METHODS) {
+			if (typeof clientPrototype?.[name] !== "function") {
+				continue;
+			}
+			this._wrap(
+				clientPrototype,
+				name,
+				(original: any) =>
+					function patchedClientMethod(this: any, ...args: any[]) {
+						if (!instrumentation.isEnabled()) {
+							return original.apply(this, args);
+						}
+						return instrumentation.traceClientRequest(
+							method,
+							original,
+							this,
+							args,
+						);
+					},
+			);
+		}
+		if (typeof serverPrototype?.setRequestHandler === "function") {
+			this._wrap(
+				serverPrototype,
+				"setRequestHandler",
+				(original: any) =>
+					function patchedSetRequestHandler(
+						this: any,
+						schema: any,
+						handler: any,
+						...rest: any[]
+					) {
+						return original.call(
+							this,
+							schema,
+							instrumentation.wrapRequestHandler(handler),
+							...rest,
+						);
+					},
+			);
+		}
+		return module;
+	}
+
+	private unpatch(module: any, moduleVersion?: string): void {
+		diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
+		const clientPrototype = module?.Client?.prototype;
+		for (const [name] of CLIENT_METHODS) {
+			if (isWrapped(clientPrototype?.[name])) {
+				this._unwrap(clientPrototype, name);
+			}
+		}
+		const serverPrototype = module?.Server?.prototype;
+		if (isWrapped(serverPrototype?.setRequestHandler)) {
+			this._unwrap(serverPrototype, "setRequestHandler");
+		}
+	}
+
+	private startSpan(
+		name: string,
+		kind: SpanKind,
+		request: MCPRequest,
+		parentContext: Context,
+	): Span {
+		const { _meta, ...params } = request.params ?? {};
+		const span = this.tracer.startSpan(
+			name,
+			{
+				kind,
+				attributes: {
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.TOOL,
+					[MCP_METHOD_NAME]: request.method ?? "",
+					[TOOL_NAME]: params.name ?? params.uri ?? request.method ?? "",
+					[INPUT_VALUE]: JSON.stringify(params),
+					[INPUT_MIME_TYPE]: MimeType.JSON,
+				},
+			},
+			parentContext,
+		);
+		if (params.arguments) {
+			span.setAttribute(TOOL_PARAMETERS, JSON.stringify(params.arguments));
+		}
+		return span;
+	}
+
+	/**
+	 * End a span with the result of its request. Tool errors are returned as
+	 * results rather than thrown.
+	 */
+	private endSpan(span: Span, result: MCPResult | undefined): void {
+		if (result !== undefined) {
+			span.setAttribute(OUTPUT_VALUE, JSON.stringify(result));
+			span.setAttribute(OUTPUT_MIME_TYPE, MimeType.JSON);
+		}
+		if (result?.isError) {
+			const message = (result.content ?? [])
+				.map((part) => part.text)
+				.filter(Boolean)
+				.join("\n");
+			span.setStatus({ code: SpanStatusCode.ERROR, message });
+		} else {
+			span.setStatus({ code: SpanStatusCode.OK });
+		}
+		span.end();
+	}
+
+	/**
+	 * Run a request in its span, ending the span once the returned promise
+	 * settles.
+	 */
+	private traceRequest(span: Span, spanContext: Context, run: () => any): any {
+		let result: any;
+		try {
+			result = context.with(spanContext, run);
+		} catch (error) {
+			recordSpanError(span, error);
+			throw error;
+		}
+		Promise.resolve(result).then(
+			(value: MCPResult | undefined) => this.endSpan(span, value),
+			(error: unknown) => recordSpanError(span, error),
+		);
+		return result;
+	}
+
+	private traceClientRequest(
+		method: string,
+		original: any,
+		thisArg: any,
+		args: any[],
+	): any {
+		const params: MCPRequestParams = args[0] ?? {};
+		const span = this.startSpan(
+			`MCP Client ${method}`,
+			SpanKind.CLIENT,
+			{ method, params },
+			context.active(),
+		);
+		const spanContext = trace.setSpan(context.active(), span);
+
+		// The server continues the trace from the request metadata
+		const meta = { ...params._meta };
+		this.propagator.inject(spanContext, meta, defaultTextMapSetter);
+		const tracedArgs = [{ ...params, _meta: meta }, ...args.slice(1)];
+
+		return this.traceRequest(span, spanContext, () =>
+			original.apply(thisArg, tracedArgs),
+		);
+	}
+
+	private wrapRequestHandler(handler: any): any {
+		if (typeof handler !== "function") {
+			return handler;
+		}
+		const instrumentation = this;
+		return function tracedRequestHandler(
+			this: any,
+			request: MCPRequest,
+			...args: any[]
+		) {
+			if (
+				!instrumentation.isEnabled() ||
+				!TRACED_METHODS.has(request?.method ?? "")
+			) {
+				return handler.call(this, request, ...args);
+			}
+			const parentContext = instrumentation.propagator.extract(
+				context.active(),
+				request.params?._meta ?? {},
+				defaultTextMapGetter,
+			);
+			const span = instrumentation.startSpan(
+				`MCP Server ${request.method}`,
+				SpanKind.SERVER,
+				request,
+				parentContext,
+			);
+			return instrumentation.traceRequest(
+				span,
+				trace.setSpan(parentContext, span),
+				() => handler.call(this, request, ...args),
+			);
+		};
+	}
+}
@@ -1,6 +1,7 @@
 import {
 	addTraceProcessor,
 	getGlobalTraceProvider,
+	Runner,
 	setTracingDisabled,
 } from "@openai/agents";
 import type { Span, Trace, TracingProcessor } from "@openai/agents";
@@ -12,7 +13,12 @@ import type {
 	SpanStatus,
 	AttributeValue,
 } from "@opentelemetry/api";
-import { trace, context, SpanStatusCode } from "@opentelemetry/api";
+import {
+	trace,
+	context,
+	createContextKey,
+	SpanStatusCode,
+} from "@opentelemetry/api";
 import {
 	LLMSystem,
 	OpenInferenceSpanKind,
@@ -38,7 +44,7 @@ import {
 	LLM_MODEL_NAME,
 	LLM_INVOCATION_PARAMETERS,
 	LLM_PROVIDER,
-	LLMProvider,
+	LLM_SYSTEM,
 	INPUT_MIME_TYPE,
 	LLM_INPUT_MESSAGES,
 	LLM_OUTPUT_MESSAGES,
@@ -52,16 +58,177 @@ import {
 	TOOL_NAME,
 	LLM_TOOLS,
 	TOOL_JSON_SCHEMA,
+	AUDIO_MIME_TYPE,
+	AUDIO_TRANSCRIPT,
+	AUDIO_URL,
 } from "@arizeai/openinference-semantic-conventions";
 import { safeSerialize } from "./utils";
-import { getAtlaContext } from "../../context";
-import { ATLA_INSIGHTS } from "../../main";
+import { resolveOpenAICompatibleProvider } from "../../providers/openai/compatible";
+import {
+	getAtlaContext,
+	getClientSpanOptions,
+	setAtlaContext,
+} from "../../context";
+import {
+	DEFAULT_MAX_AUDIO_BYTES,
+	DEFAULT_TRACE_TIMEOUT_MILLIS,
+	SUCCESS_MARK,
+} from "../../internal/constants";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+
+const SERVICE_NAME = "openai-agents";
+
+const GUARDRAIL_NAME = "guardrail.name";
+const GUARDRAIL_TRIGGERED = "guardrail.triggered";
+const ABANDONED = "abandoned";
+
+/**
+ * The input of the run in progress, in the context of `Runner.run`.
+ */
+const RUN_INPUT_KEY = createContextKey("atla-insights-openai-agents-run-input");
+
+/**
+ * The interval between two sweeps of the abandoned traces, at most.
+ */
+const MAX_SWEEP_INTERVAL_MILLIS = 60 * 1000;
+
+export interface OpenAIAgentsInstrumentationOptions {
+	/**
+	 * Whether to record the audio of the transcription and speech spans, as
+	 * base64 data URLs. Defaults to false.
+	 */
+	captureAudio?: boolean;
+	/**
+	 * The size above which the audio is not recorded, in bytes. Defaults to
+	 * 1 MiB.
+	 */
+	maxAudioBytes?: number;
+	/**
+	 * The time after which a trace without activity is considered abandoned,
+	 * e.g. because its run crashed. Its spans are then ended, so that the
+	 * partial trace is exported. Defaults to 30 minutes.
+	 */
+	traceTimeoutMillis?: number;
+}
+
+/**
+ * The processor registered with the global trace provider of the OpenAI
+ * Agents SDK for an Atla Insights client. The SDK offers no way to remove a
+ * processor, so it is registered once per client and forwards to the
+ * processor of the client's current instrumentation, if any.
+ */
+class ForwardingTraceProcessor implements TracingProcessor {
+	target?: OpenAIAgentsProcessor;
+
+	async onTraceStart(trace: Trace): Promise<void> {
+		await this.target?.onTraceStart(trace);
+	}
+
+	async onTraceEnd(trace: Trace): Promise<void> {
+		await this.target?.onTraceEnd(trace);
+	}
+
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	async onSpanStart(span: Span<any>): Promise<void> {
+		await this.target?.onSpanStart(span);
+	}
+
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	async onSpanEnd(span: Span<any>): Promise<void> {
+		await this.target?.onSpanEnd(span);
+	}
+
+	async forceFlush(): Promise<void> {
+		await this.target?.forceFlush();
+	}
+
+	async shutdown(): Promise<void> {
+		await this.target?.shutdown();
+	}
+}
+
+const forwardingProcessors = new WeakMap<
+	AtlaInsightsClient,
+	ForwardingTraceProcessor
+>();
+
+/**
+ * Get the forwarding processor of a client, registering it with the OpenAI
+ * Agents SDK on first use.
+ */
+function getForwardingProcessor(
+	insights: AtlaInsightsClient,
+): ForwardingTraceProcessor {
+	let forwarder = forwardingProcessors.get(insights);
+	if (forwarder) {
+		return forwarder;
+	}
+	forwarder = new ForwardingTraceProcessor();
+	try {
+		addTraceProcessor(forwarder);
+	} catch {
+		const provider = getGlobalTraceProvider();
+		if (typeof provider.registerProcessor === "function") {
+			provider.registerProcessor(forwarder);
+		} else {
+			throw new Error(
+				"Could not register trace processor with OpenAI Agents SDK",
+			);
+		}
+	}
+	forwardingProcessors.set(insights, forwarder);
+	return forwarder;
+}
+
+let runnerPatched = false;
+
+/**
+ * Set the input of the runs in their context. The SDK does not pass it to
+ * the trace processors, yet it is the input checked by the input
+ * guardrails, whose tripwire can stop the run before any model call.
+ * Like the processors, the patch is applied once and never removed.
+ */
+function patchRunner(): void {
+	if (runnerPatched) {
+		return;
+	}
+	const run = Runner.prototype.run;
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	Runner.prototype.run = function tracedRun(this: Runner, ...args: any[]) {
+		const input = args[1];
+		const runInput =
+			typeof input === "string"
+				? input
+				: Array.isArray(input)
+					? safeSerialize(input)
+					: undefined;
+		if (runInput === undefined) {
+			// biome-ignore lint/suspicious/noExplicitAny: Allow any
+			return (run as any).apply(this, args);
+		}
+		return context.with(
+			context.active().setValue(RUN_INPUT_KEY, runInput),
+			// biome-ignore lint/suspicious/noExplicitAny: Allow any
+			() => (run as any).apply(this, args),
+		);
+	} as typeof run;
+	runnerPatched = true;
+}
 
 /**
  * Instrument the OpenAI Agents SDK.
  *
  * This function enables tracing for all OpenAI Agents SDK API calls made through
- * the official OpenAI Agents SDK client.
+ * the official OpenAI Agents SDK client. Calling it again for the same client
+ * has no effect until the SDK is uninstrumented. Each client instrumenting
+ * the SDK records the runs in its own traces.
+ *
+ * Voice pipelines are traced through their transcription and speech spans.
+ * Realtime sessions are traced by the Realtime API itself, so the SDK reports
+ * no spans for them.
+ *
+ * Runs made inside an instrumented function are nested in its trace, so that
+ * they are marked and tagged with the trace. Other runs start their own trace.
  *
  * @example
  * ```typescript
@@ -74,45 +241,179 @@ import { ATLA_INSIGHTS } from "../../main";
  * instrumentOpenAIAgents();
  *
  * // Use OpenAI Agents as normal - it will be automatically traced
+ *
+ * // Or record the audio of the voice pipelines too
+ * instrumentOpenAIAgents({ captureAudio: true });
  * ```
  *
+ * @param options - The instrumentation options.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
  * @returns void
  */
-export function instrumentOpenAIAgents(): void {
+export function instrumentOpenAIAgents(
+	options: OpenAIAgentsInstrumentationOptions = {},
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
 	const ctx = getAtlaContext();
-	if (ctx?.suppressInstrumentation) {
+	if (ctx?.suppressInstrumentation || insights.disabled) {
 		return;
 	}
 
-	if (!ATLA_INSIGHTS.configured) {
+	if (!insights.configured) {
 		throw new Error(
 			"Atla Insights must be configured before instrumenting OpenAI Agents. Please call configure first.",
 		);
 	}
 
+	if (forwardingProcessors.get(insights)?.target) {
+		return;
+	}
+
 	setTracingDisabled(false);
+	patchRunner();
 
-	const processor = new OpenAIAgentsProcessor();
+	const forwarder = getForwardingProcessor(insights);
+	const processor = new OpenAIAgentsProcessor(insights, options);
+	insights.registerProcessor(SERVICE_NAME, processor);
+	forwarder.target = processor;
+}
 
+/**
+ * Uninstrument the OpenAI Agents SDK.
+ *
+ * This function detaches the processor from the OpenAI Agents SDK and ends
+ * the spans of the runs still in flight, so that their partial traces are
+ * exported.
+ *
+ * @example
+ * ```typescript
+ * import { uninstrumentOpenAIAgents } from "@atla-ai/insights-sdk-js";
+ *
+ * // Disable OpenAI Agents instrumentation
+ * uninstrumentOpenAIAgents();
+ * ```
+ *
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ * @returns void
+ */
+export function uninstrumentOpenAIAgents(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const ctx = getAtlaContext();
+	if (ctx?.suppressInstrumentation) {
+		return;
+	}
+
+	const forwarder = forwardingProcessors.get(insights);
+	const processor = forwarder?.target;
+	if (!forwarder || !processor) {
+		return;
+	}
+
+	forwarder.target = undefined;
+	insights.unregisterProcessor(SERVICE_NAME);
+	void processor.shutdown();
+}
+
+/**
+ * Create a disposable OpenAI Agents instrumentation resource.
+ *
+ * This function enables OpenAI Agents instrumentation and returns a disposable
+ * resource that automatically disables instrumentation when disposed. This is
+ * particularly useful with TypeScript's `using` statement for automatic
+ * resource management.
+ *
+ * @example
+ * ```typescript
+ * import { withInstrumentedOpenAIAgents } from "@atla-ai/insights-sdk-js";
+ * import { Agent, run } from "@openai/agents";
+ *
+ * // Use with using statement (requires TypeScript 5.2+)
+ * {
+ *   using instrumented = withInstrumentedOpenAIAgents();
+ *   const agent = new Agent({ name: "Assistant" });
+ *   await run(agent, "Hello!");
+ *   // Agent runs here will be traced
+ * }
+ * // OpenAI Agents instrumentation automatically disabled here
+ * ```
+ *
+ * @param options - The instrumentation options.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ * @returns A disposable resource that cleans up OpenAI Agents instrumentation when disposed
+ */
+export function withInstrumentedOpenAIAgents(
+	options: OpenAIAgentsInstrumentationOptions = {},
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): { dispose(): void } {
+	instrumentOpenAIAgents(options, insights);
+	const d = {
+		dispose() {
+			uninstrumentOpenAIAgents(insights);
+		},
+	};
+	// If TS 5.2+ Symbol.dispose exists at runtime, add it for ergonomics
 	try {
-		addTraceProcessor(processor);
-	} catch {
-		const provider = getGlobalTraceProvider();
-		if (typeof provider.registerProcessor === "function") {
-			provider.registerProcessor(processor);
-		} else {
-			throw new Error(
-				"Could not register trace processor with OpenAI Agents SDK",
-			);
+		const sym = (Symbol as unknown as { dispose?: symbol }).dispose;
+		if (sym) {
+			// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+			(d as any)[sym] = d.dispose.bind(d);
 		}
+	} catch {
+		// no-op
 	}
+	return d;
+}
+
+/**
+ * A tool call made by the model in the output of a response, other than a
+ * function call.
+ */
+interface ResponseToolCall {
+	id: string;
+	name: string;
+	/** The arguments of the call, as JSON. */
+	arguments?: string;
+	output?: string;
+	error?: string;
+	/**
+	 * Whether OpenAI ran the tool while generating the response, rather than
+	 * the agent once the response is received.
+	 */
+	hosted: boolean;
 }
 
 export class OpenAIAgentsProcessor implements TracingProcessor {
-	private tracer = trace.getTracer("openinference.instrumentation.openai");
+	constructor(
+		private insights: AtlaInsightsClient = ATLA_INSIGHTS,
+		private options: OpenAIAgentsInstrumentationOptions = {},
+	) {}
+
+	/**
+	 * The tracer is looked up on every use so that spans follow the tracer
+	 * provider of the latest configuration.
+	 */
+	private get tracer() {
+		return (this.insights.getTracerProvider() ?? trace).getTracer(
+			"openinference.instrumentation.openai",
+		);
+	}
 	private rootSpans = new Map<string, OtelSpan>();
+	/**
+	 * The context of the spans of each trace, under the context active when
+	 * the run started.
+	 */
+	private traceContexts = new Map<string, Context>();
 	private spanMap = new Map<string, OtelSpan>();
 	private tokens = new Map<string, Context>();
+
+	/**
+	 * The IDs of the spans in flight and the time of the last activity, by
+	 * trace, to sweep the abandoned traces.
+	 */
+	private traceSpanIds = new Map<string, Set<string>>();
+	private traceActivity = new Map<string, number>();
+	private sweeper?: ReturnType<typeof setInterval>;
 	// biome-ignore lint/suspicious/noExplicitAny: Allow any
 	private toolCache = new Map<string, Record<string, any>>();
 
@@ -126,6 +427,34 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 	 */
 	private reverseHandoffsMap = new Map<string, string>();
 
+	/**
+	 * The output of the last model call of each agent span, which is the
+	 * input checked by its output guardrails.
+	 */
+	private agentOutputs = new Map<string, string>();
+
+	/**
+	 * The IDs of the guardrail spans started with the input of their run,
+	 * which is the input checked by the input guardrails.
+	 */
+	private guardrailsWithInput = new Set<string>();
+
+	/**
+	 * The spans of the input guardrails of each agent span, when the input
+	 * of their run is not known (e.g. spans created outside of a `Runner`).
+	 * Input guardrails run before the agent calls the model with the input
+	 * they check, so their spans are ended once that input is known.
+	 */
+	private pendingGuardrailSpans = new Map<
+		string,
+		Array<{ otelSpan: OtelSpan; endTime?: number }>
+	>();
+
+	/**
+	 * The names of the guardrails whose tripwire was triggered, by trace.
+	 */
+	private triggeredGuardrails = new Map<string, string[]>();
+
 	/**
 	 * Type guard for variants that carry tool results as
 	 * { type: 'function_call_result', callId?: string, output?: any }.
@@ -148,13 +477,48 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 	 * @param trace - The trace that has started.
 	 */
 	async onTraceStart(trace: Trace): Promise<void> {
-		const span = this.tracer.startSpan(trace.name, {
-			attributes: {
-				[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
-					OpenInferenceSpanKind.AGENT,
+		// Nest the run under the active span (e.g. of an instrumented
+		// function) if any
+		const parentContext = context.active();
+		const options = getClientSpanOptions(this.insights, parentContext);
+		const span = this.tracer.startSpan(
+			trace.name,
+			{
+				attributes: {
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.AGENT,
+				},
+				...options,
 			},
-		});
+			parentContext,
+		);
 		this.rootSpans.set(trace.traceId, span);
+		this.traceContexts.set(
+			trace.traceId,
+			this.getTraceContext(parentContext, span, options.root),
+		);
+		this.touchTrace(trace.traceId);
+	}
+
+	/**
+	 * Get the context of the spans of a run. It carries the Atla context of
+	 * the surrounding code, whose root span is the span of the run unless the
+	 * run is nested in an instrumented function.
+	 *
+	 * @param parentContext - The context the run was started in.
+	 * @param runSpan - The span of the run.
+	 * @param isRoot - Whether the span of the run starts a new trace.
+	 */
+	private getTraceContext(
+		parentContext: Context,
+		runSpan: OtelSpan,
+		isRoot = false,
+	): Context {
+		const atlaContext = getAtlaContext(parentContext);
+		return setAtlaContext(trace.setSpan(parentContext, runSpan), {
+			...atlaContext,
+			rootSpan: (!isRoot && atlaContext?.rootSpan) || runSpan,
+		});
 	}
 
 	/**
@@ -163,11 +527,28 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 	 * @param trace - The trace that has ended.
 	 */
 	async onTraceEnd(trace: Trace): Promise<void> {
+		// The spans left open would never be exported
+		this.endAbandonedSpans(
+			trace.traceId,
+			"Abandoned: the span never ended before its trace",
+		);
 		if (this.rootSpans.has(trace.traceId)) {
 			const span = this.rootSpans.get(trace.traceId) as OtelSpan;
-			span.setStatus({ code: SpanStatusCode.OK });
+			const triggeredGuardrails = this.triggeredGuardrails.get(trace.traceId);
+			span.setStatus(
+				triggeredGuardrails
+					? {
+							code: SpanStatusCode.ERROR,
+							message: `Guardrail tripwire triggered: ${triggeredGuardrails.join(", ")}`,
+						}
+					: { code: SpanStatusCode.OK },
+			);
 			span.end();
 		}
+		this.rootSpans.delete(trace.traceId);
+		this.traceContexts.delete(trace.traceId);
+		this.triggeredGuardrails.delete(trace.traceId);
+		this.traceActivity.delete(trace.traceId);
 
 		// Clean up the tool cache
 		this.toolCache.delete(trace.traceId);
@@ -189,9 +570,11 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 			? this.spanMap.get(span.parentId)
 			: this.rootSpans.get(span.traceId);
 
+		const traceContext =
+			this.traceContexts.get(span.traceId) ?? context.active();
 		const _context = parentSpan
-			? trace.setSpan(context.active(), parentSpan)
-			: context.active();
+			? trace.setSpan(traceContext, parentSpan)
+			: traceContext;
 
 		const spanName = this.getSpanName(span);
 
@@ -209,8 +592,26 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 
 		this.spanMap.set(span.spanId, otelSpan);
 
+		// Guardrails started before any model call of their agent are input
+		// guardrails
+		const runInput = context.active().getValue(RUN_INPUT_KEY);
+		if (
+			span.spanData.type === "guardrail" &&
+			span.parentId &&
+			!this.agentOutputs.has(span.parentId) &&
+			typeof runInput === "string"
+		) {
+			otelSpan.setAttribute(INPUT_VALUE, runInput);
+			this.guardrailsWithInput.add(span.spanId);
+		}
+
 		const spanContext = trace.setSpan(_context, otelSpan);
 		this.tokens.set(span.spanId, spanContext);
+
+		const spanIds = this.traceSpanIds.get(span.traceId) ?? new Set();
+		spanIds.add(span.spanId);
+		this.traceSpanIds.set(span.traceId, spanIds);
+		this.touchTrace(span.traceId);
 	}
 
 	/**
@@ -223,12 +624,16 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 	async onSpanEnd(span: Span<any>): Promise<void> {
 		if (this.tokens.has(span.spanId)) {
 			trace.deleteSpan(this.tokens.get(span.spanId) as Context);
+			this.tokens.delete(span.spanId);
 		}
 		if (!this.spanMap.has(span.spanId)) {
 			return;
 		}
 
 		const otelSpan = this.spanMap.get(span.spanId) as OtelSpan;
+		this.spanMap.delete(span.spanId);
+		this.traceSpanIds.get(span.traceId)?.delete(span.spanId);
+		this.touchTrace(span.traceId);
 		otelSpan.updateName(this.getSpanName(span));
 		const data = span.spanData;
 		const traceId = span.traceId;
@@ -293,6 +698,26 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 					}
 				}
 			}
+		} else if (data.type === "transcription") {
+			for (const [key, value] of this.getAttributesFromTranscriptionSpanData(
+				data,
+			)) {
+				otelSpan.setAttribute(key, value);
+			}
+		} else if (data.type === "speech") {
+			for (const [key, value] of this.getAttributesFromSpeechSpanData(data)) {
+				otelSpan.setAttribute(key, value);
+			}
+		} else if (data.type === "speech_group") {
+			if (data.input) {
+				otelSpan.setAttribute(INPUT_VALUE, data.input);
+			}
+		} else if (data.type === "guardrail") {
+			otelSpan.setAttribute(GUARDRAIL_NAME, data.name);
+			otelSpan.setAttribute(GUARDRAIL_TRIGGERED, data.triggered);
+			if (data.triggered) {
+				this.recordTriggeredGuardrail(traceId, data.name);
+			}
 		} else if (data.type === "agent") {
 			otelSpan.setAttribute(GRAPH_NODE_ID, data.name);
 			// Lookup the parent node if exists
@@ -312,22 +737,242 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 			}
 		}
 
+		if (data.type === "response" && data._response?.output) {
+			this.recordHostedToolSpans(
+				data._response.output,
+				otelSpan,
+				span.startedAt ? new Date(span.startedAt).getTime() : undefined,
+				endTime,
+			);
+		}
+
+		if (
+			span.parentId &&
+			(data.type === "response" || data.type === "generation")
+		) {
+			const [input, output] = this.getModelCallInputOutput(data);
+			this.endPendingGuardrailSpans(span.parentId, input);
+			if (output !== undefined) {
+				this.agentOutputs.set(span.parentId, output);
+			}
+		} else if (data.type === "agent") {
+			this.endPendingGuardrailSpans(span.spanId);
+			this.agentOutputs.delete(span.spanId);
+		}
+
 		otelSpan.setStatus(this.getSpanStatus(span));
+
+		// The input guardrails started with the input of their run are ended
+		// right away
+		if (
+			data.type === "guardrail" &&
+			span.parentId &&
+			!this.guardrailsWithInput.delete(span.spanId)
+		) {
+			const agentOutput = this.agentOutputs.get(span.parentId);
+			if (agentOutput === undefined) {
+				const pending = this.pendingGuardrailSpans.get(span.parentId) ?? [];
+				pending.push({ otelSpan, endTime });
+				this.pendingGuardrailSpans.set(span.parentId, pending);
+				return;
+			}
+			otelSpan.setAttribute(INPUT_VALUE, agentOutput);
+		}
+
 		otelSpan.end(endTime);
 	}
 
+	/**
+	 * Record a triggered guardrail tripwire on the root span, so that the
+	 * blocked run is counted as a failure.
+	 */
+	private recordTriggeredGuardrail(traceId: string, name: string): void {
+		const names = this.triggeredGuardrails.get(traceId) ?? [];
+		names.push(name);
+		this.triggeredGuardrails.set(traceId, names);
+
+		const rootSpan = this.rootSpans.get(traceId);
+		rootSpan?.setAttribute(GUARDRAIL_TRIGGERED, true);
+
+		// Mark the root span of the whole trace, which is not the span of the
+		// run when it is nested in an instrumented function
+		const traceContext = this.traceContexts.get(traceId);
+		const atlaRootSpan = traceContext
+			? getAtlaContext(traceContext)?.rootSpan
+			: rootSpan;
+		atlaRootSpan?.setAttribute(SUCCESS_MARK, 0);
+	}
+
+	/**
+	 * End the spans of the input guardrails of an agent span.
+	 *
+	 * @param agentSpanId - The ID of the agent span.
+	 * @param input - The input checked by the guardrails, if known.
+	 */
+	private endPendingGuardrailSpans(agentSpanId: string, input?: string): void {
+		for (const { otelSpan, endTime } of this.pendingGuardrailSpans.get(
+			agentSpanId,
+		) ?? []) {
+			if (input !== undefined) {
+				otelSpan.setAttribute(INPUT_VALUE, input);
+			}
+			otelSpan.end(endTime);
+		}
+		this.pendingGuardrailSpans.delete(agentSpanId);
+	}
+
+	/**
+	 * Get the input and the output text of a model call.
+	 */
+	private getModelCallInputOutput(
+		// biome-ignore lint/suspicious/noExplicitAny: Allow any
+		data: Record<string, any>,
+	): [string | undefined, string | undefined] {
+		if (data.type === "generation") {
+			return [
+				data.input ? safeSerialize(data.input) : undefined,
+				data.output ? safeSerialize(data.output) : undefined,
+			];
+		}
+		const input =
+			typeof data._input === "string" || data._input === undefined
+				? data._input
+				: safeSerialize(data._input);
+		const output = (
+			(data._response?.output ?? []) as Array<Responses.ResponseOutputItem>
+		)
+			.flatMap((item) => (item.type === "message" ? item.content : []))
+			.map((content) => (content.type === "output_text" ? content.text : ""))
+			.join("");
+		return [input, data._response ? output : undefined];
+	}
+
 	/**
 	 * Forces an immediate flush of all queued spans/traces.
 	 */
 	async forceFlush(): Promise<void> {
-		// pass
+		await this.insights.getTracerProvider()?.forceFlush();
 	}
 
 	/**
 	 * Called when the application stops.
+	 *
+	 * Ends the spans of runs that are still in flight so that their partial
+	 * traces are exported, then flushes.
 	 */
 	async shutdown(): Promise<void> {
-		// pass
+		if (this.sweeper) {
+			clearInterval(this.sweeper);
+			this.sweeper = undefined;
+		}
+		for (const agentSpanId of [...this.pendingGuardrailSpans.keys()]) {
+			this.endPendingGuardrailSpans(agentSpanId);
+		}
+		for (const otelSpan of [
+			...this.spanMap.values(),
+			...this.rootSpans.values(),
+		]) {
+			if (otelSpan.isRecording()) {
+				otelSpan.end();
+			}
+		}
+		this.spanMap.clear();
+		this.rootSpans.clear();
+		this.traceContexts.clear();
+		this.tokens.clear();
+		this.toolCache.clear();
+		this.agentOutputs.clear();
+		this.guardrailsWithInput.clear();
+		this.triggeredGuardrails.clear();
+		this.traceSpanIds.clear();
+		this.traceActivity.clear();
+		await this.forceFlush();
+	}
+
+	/**
+	 * End the spans of the traces without activity for longer than the trace
+	 * timeout, with an error status, and forget them. Called periodically
+	 * while traces are in flight.
+	 *
+	 * @param now - The current time, in milliseconds since the epoch.
+	 */
+	sweepAbandonedTraces(now: number = Date.now()): void {
+		const timeout =
+			this.options.traceTimeoutMillis ?? DEFAULT_TRACE_TIMEOUT_MILLIS;
+		for (const [traceId, lastActivity] of [...this.traceActivity]) {
+			if (now - lastActivity < timeout) {
+				continue;
+			}
+			this.endAbandonedSpans(traceId, "Abandoned: the trace never ended");
+			const rootSpan = this.rootSpans.get(traceId);
+			if (rootSpan?.isRecording()) {
+				rootSpan.setAttribute(ABANDONED, true);
+				rootSpan.setStatus({
+					code: SpanStatusCode.ERROR,
+					message: "Abandoned: the trace never ended",
+				});
+				rootSpan.end();
+			}
+			this.rootSpans.delete(traceId);
+			this.traceContexts.delete(traceId);
+			this.toolCache.delete(traceId);
+			this.triggeredGuardrails.delete(traceId);
+			this.traceActivity.delete(traceId);
+		}
+		if (this.traceActivity.size === 0 && this.sweeper) {
+			clearInterval(this.sweeper);
+			this.sweeper = undefined;
+		}
+	}
+
+	/**
+	 * End the spans of a trace that are still in flight, with an error status,
+	 * and forget them. The children are ended before their parents.
+	 *
+	 * @param traceId - The ID of the trace.
+	 * @param message - The message of the error status.
+	 */
+	private endAbandonedSpans(traceId: string, message: string): void {
+		const spanIds = this.traceSpanIds.get(traceId) ?? new Set<string>();
+		for (const spanId of spanIds) {
+			this.endPendingGuardrailSpans(spanId);
+			this.agentOutputs.delete(spanId);
+		}
+		const otelSpans = [...spanIds].flatMap((spanId) => {
+			const otelSpan = this.spanMap.get(spanId);
+			return otelSpan ? [otelSpan] : [];
+		});
+		for (const otelSpan of otelSpans.reverse()) {
+			if (otelSpan.isRecording()) {
+				otelSpan.setAttribute(ABANDONED, true);
+				otelSpan.setStatus({ code: SpanStatusCode.ERROR, message });
+				otelSpan.end();
+			}
+		}
+		for (const spanId of spanIds) {
+			this.spanMap.delete(spanId);
+			this.tokens.delete(spanId);
+			this.guardrailsWithInput.delete(spanId);
+		}
+		this.traceSpanIds.delete(traceId);
+	}
+
+	/**
+	 * Record activity on a trace, and sweep the abandoned traces while some
+	 * are in flight.
+	 */
+	private touchTrace(traceId: string): void {
+		this.traceActivity.set(traceId, Date.now());
+		if (!this.sweeper) {
+			const timeout =
+				this.options.traceTimeoutMillis ?? DEFAULT_TRACE_TIMEOUT_MILLIS;
+			this.sweeper = setInterval(
+				() => this.sweepAbandonedTraces(),
+				Math.min(timeout, MAX_SWEEP_INTERVAL_MILLIS),
+			);
+			// Do not keep the process alive for the sweeps
+			this.sweeper.unref?.();
+		}
 	}
 
 	// biome-ignore lint/suspicious/noExplicitAny: Allow any
@@ -357,6 +1002,12 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 			case "custom":
 				return OpenInferenceSpanKind.CHAIN;
 			case "guardrail":
+				return OpenInferenceSpanKind.GUARDRAIL;
+			case "transcription":
+				return OpenInferenceSpanKind.LLM;
+			case "speech":
+				return OpenInferenceSpanKind.LLM;
+			case "speech_group":
 				return OpenInferenceSpanKind.CHAIN;
 			default:
 				return OpenInferenceSpanKind.CHAIN;
@@ -365,6 +1016,12 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 
 	// biome-ignore lint/suspicious/noExplicitAny: Allow any
 	private getSpanStatus(span: Span<any>): SpanStatus {
+		if (span.spanData.type === "guardrail" && span.spanData.triggered) {
+			return {
+				code: SpanStatusCode.ERROR,
+				message: "Guardrail tripwire triggered",
+			};
+		}
 		if (span.error !== null) {
 			return {
 				code: SpanStatusCode.ERROR,
@@ -376,6 +1033,62 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 		};
 	}
 
+	public *getAttributesFromTranscriptionSpanData(
+		// biome-ignore lint/suspicious/noExplicitAny: Allow any
+		obj: Record<string, any>,
+	): Generator<[string, AttributeValue]> {
+		if (obj.model) {
+			yield [LLM_MODEL_NAME, obj.model];
+		}
+		if (obj.model_config) {
+			yield [LLM_INVOCATION_PARAMETERS, safeSerialize(obj.model_config)];
+		}
+		yield* this.getAttributesFromAudio(obj.input);
+		if (obj.output) {
+			yield [OUTPUT_VALUE, obj.output];
+			yield [AUDIO_TRANSCRIPT, obj.output];
+		}
+	}
+
+	public *getAttributesFromSpeechSpanData(
+		// biome-ignore lint/suspicious/noExplicitAny: Allow any
+		obj: Record<string, any>,
+	): Generator<[string, AttributeValue]> {
+		if (obj.model) {
+			yield [LLM_MODEL_NAME, obj.model];
+		}
+		if (obj.model_config) {
+			yield [LLM_INVOCATION_PARAMETERS, safeSerialize(obj.model_config)];
+		}
+		if (obj.input) {
+			yield [INPUT_VALUE, obj.input];
+			yield [AUDIO_TRANSCRIPT, obj.input];
+		}
+		yield* this.getAttributesFromAudio(obj.output);
+	}
+
+	/**
+	 * Get the attributes of the audio of a transcription or speech span. The
+	 * audio itself is only recorded when enabled, and up to the size cap.
+	 */
+	private *getAttributesFromAudio(audio?: {
+		data: string;
+		format: string;
+	}): Generator<[string, AttributeValue]> {
+		if (!audio?.format) {
+			return;
+		}
+		const mimeType = `audio/${audio.format}`;
+		yield [AUDIO_MIME_TYPE, mimeType];
+		if (!this.options.captureAudio || !audio.data) {
+			return;
+		}
+		const maxAudioBytes = this.options.maxAudioBytes ?? DEFAULT_MAX_AUDIO_BYTES;
+		if (Buffer.byteLength(audio.data, "base64") <= maxAudioBytes) {
+			yield [AUDIO_URL, `data:${mimeType};base64,${audio.data}`];
+		}
+	}
+
 	public *getAttributesFromInput(
 		obj: Array<ResponseInputItem>,
 		traceId?: string,
@@ -620,30 +1333,234 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 					item,
 					`${prefix}${MESSAGE_TOOL_CALLS}.0.`,
 				);
-			} else if (item.type === "file_search_call") {
-				// TODO
-			} else if (item.type === "web_search_call") {
-				// TODO
-			} else if (item.type === "code_interpreter_call") {
-				// TODO
-			} else if (item.type === "image_generation_call") {
-				// TODO
-			} else if (item.type === "local_shell_call") {
-				// TODO
-			} else if (item.type === "mcp_call") {
-				// TODO
-			} else if (item.type === "mcp_list_tools") {
-				// TODO
-			} else if (item.type === "mcp_approval_request") {
-				// TODO
 			} else if (item.type === "reasoning") {
-				// TODO
-			} else if (item.type === "computer_call") {
-				// TODO
+				if (toolCallIndex > 0) {
+					message_index++;
+					toolCallIndex = 0;
+				}
+				yield* this.getAttributesFromReasoningItem(
+					item,
+					`${LLM_OUTPUT_MESSAGES}.${message_index}.`,
+				);
+				message_index++;
+			} else {
+				const toolCall = this.getResponseToolCall(item);
+				if (!toolCall) {
+					continue;
+				}
+				// The function calls share a message, which is followed by the
+				// tool call and its result
+				if (toolCallIndex > 0) {
+					message_index++;
+					toolCallIndex = 0;
+				}
+				yield* this.getAttributesFromResponseToolCall(
+					toolCall,
+					`${LLM_OUTPUT_MESSAGES}.${message_index}.`,
+				);
+				message_index++;
+				if (toolCall.output !== undefined || toolCall.error !== undefined) {
+					yield* this.getAttributesFromResponseToolCallOutput(
+						toolCall,
+						`${LLM_OUTPUT_MESSAGES}.${message_index}.`,
+					);
+					message_index++;
+				}
 			}
 		}
 	}
 
+	/**
+	 * Describe a tool call of the output of a response, other than a function
+	 * call, with its arguments and result.
+	 *
+	 * @param item - The output item.
+	 * @returns The tool call, or undefined if the item is not a tool call.
+	 */
+	private getResponseToolCall(
+		item: Responses.ResponseOutputItem,
+	): ResponseToolCall | undefined {
+		const failed = "status" in item && item.status === "failed";
+		if (item.type === "file_search_call") {
+			return {
+				id: item.id,
+				name: "file_search",
+				arguments: safeSerialize({ queries: item.queries }),
+				output: item.results ? safeSerialize(item.results) : undefined,
+				error: failed ? "File search failed" : undefined,
+				hosted: true,
+			};
+		}
+		if (item.type === "web_search_call") {
+			// The action is only returned by the latest API versions
+			const { sources, ...action } =
+				// biome-ignore lint/suspicious/noExplicitAny: Allow any
+				((item as any).action as Record<string, any> | undefined) ?? {};
+			return {
+				id: item.id,
+				name: "web_search",
+				arguments: safeSerialize(action),
+				output: sources ? safeSerialize({ sources }) : undefined,
+				error: failed ? "Web search failed" : undefined,
+				hosted: true,
+			};
+		}
+		if (item.type === "code_interpreter_call") {
+			return {
+				id: item.id,
+				name: "code_interpreter",
+				arguments: safeSerialize({
+					code: item.code,
+					container_id: item.container_id,
+				}),
+				output: item.outputs ? safeSerialize(item.outputs) : undefined,
+				error: failed ? "Code interpreter failed" : undefined,
+				hosted: true,
+			};
+		}
+		if (item.type === "image_generation_call") {
+			// The result is left out, as it is the whole image in base64
+			return {
+				id: item.id,
+				name: "image_generation",
+				error: failed ? "Image generation failed" : undefined,
+				hosted: true,
+			};
+		}
+		if (item.type === "local_shell_call") {
+			return {
+				id: item.call_id,
+				name: "local_shell",
+				arguments: safeSerialize(item.action),
+				hosted: false,
+			};
+		}
+		if (item.type === "computer_call") {
+			return {
+				id: item.call_id,
+				name: "computer",
+				arguments: safeSerialize(item.action),
+				hosted: false,
+			};
+		}
+		if (item.type === "mcp_call") {
+			return {
+				id: item.id,
+				name: item.name,
+				arguments: item.arguments,
+				output: item.output ?? undefined,
+				error: item.error ?? undefined,
+				hosted: true,
+			};
+		}
+		if (item.type === "mcp_list_tools") {
+			return {
+				id: item.id,
+				name: "mcp_list_tools",
+				arguments: safeSerialize({ server_label: item.server_label }),
+				output: safeSerialize(
+					item.tools.map((tool) => ({
+						name: tool.name,
+						description: tool.description,
+					})),
+				),
+				error: item.error ?? undefined,
+				hosted: true,
+			};
+		}
+		if (item.type === "mcp_approval_request") {
+			return {
+				id: item.id,
+				name: item.name,
+				arguments: item.arguments,
+				hosted: false,
+			};
+		}
+		return undefined;
+	}
+
+	public *getAttributesFromResponseToolCall(
+		obj: ResponseToolCall,
+		prefix: string = "",
+	): Generator<[string, AttributeValue]> {
+		yield [`${prefix}${MESSAGE_ROLE}`, "assistant"];
+		const toolCallPrefix = `${prefix}${MESSAGE_TOOL_CALLS}.0.`;
+		yield [`${toolCallPrefix}${TOOL_CALL_ID}`, obj.id];
+		yield [`${toolCallPrefix}${TOOL_CALL_FUNCTION_NAME}`, obj.name];
+		if (obj.arguments !== undefined && obj.arguments !== "{}") {
+			yield [
+				`${toolCallPrefix}${TOOL_CALL_FUNCTION_ARGUMENTS_JSON}`,
+				obj.arguments,
+			];
+		}
+	}
+
+	public *getAttributesFromResponseToolCallOutput(
+		obj: ResponseToolCall,
+		prefix: string = "",
+	): Generator<[string, AttributeValue]> {
+		yield [`${prefix}${MESSAGE_ROLE}`, SemanticAttributePrefixes.tool];
+		yield [`${prefix}${MESSAGE_TOOL_CALL_ID}`, obj.id];
+		yield [`${prefix}${MESSAGE_CONTENT}`, obj.error ?? obj.output ?? ""];
+	}
+
+	public *getAttributesFromReasoningItem(
+		obj: Responses.ResponseReasoningItem,
+		prefix: string = "",
+	): Generator<[string, AttributeValue]> {
+		yield [`${prefix}${MESSAGE_ROLE}`, "assistant"];
+		const summary = obj.summary.map((part) => part.text).join("\n\n");
+		if (summary) {
+			yield [`${prefix}${MESSAGE_CONTENT}`, summary];
+		}
+	}
+
+	/**
+	 * Record the tools run by OpenAI while generating a response as TOOL spans
+	 * under the response span. The API does not time the tool calls, so the
+	 * spans last as long as the response.
+	 */
+	private recordHostedToolSpans(
+		output: Array<Responses.ResponseOutputItem>,
+		parent: OtelSpan,
+		startTime?: number,
+		endTime?: number,
+	): void {
+		const parentContext = trace.setSpan(context.active(), parent);
+		for (const item of output) {
+			const toolCall = this.getResponseToolCall(item);
+			if (!toolCall?.hosted) {
+				continue;
+			}
+			const toolSpan = this.tracer.startSpan(
+				toolCall.name,
+				{
+					attributes: {
+						[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+							OpenInferenceSpanKind.TOOL,
+						[LLM_SYSTEM]: LLMSystem.OPENAI,
+						[TOOL_NAME]: toolCall.name,
+					},
+					startTime,
+				},
+				parentContext,
+			);
+			if (toolCall.arguments !== undefined) {
+				toolSpan.setAttribute(INPUT_VALUE, toolCall.arguments);
+				toolSpan.setAttribute(INPUT_MIME_TYPE, MimeType.JSON);
+			}
+			if (toolCall.output !== undefined) {
+				toolSpan.setAttribute(OUTPUT_VALUE, toolCall.output);
+			}
+			toolSpan.setStatus(
+				toolCall.error !== undefined
+					? { code: SpanStatusCode.ERROR, message: toolCall.error }
+					: { code: SpanStatusCode.OK },
+			);
+			toolSpan.end(endTime);
+		}
+	}
+
 	public *getAttributesFromTools(
 		tools: Array<Responses.Tool> | null,
 	): Generator<[string, AttributeValue]> {
@@ -750,12 +1667,13 @@ export class OpenAIAgentsProcessor implements TracingProcessor {
 			);
 			if (Object.keys(params).length > 0) {
 				yield [LLM_INVOCATION_PARAMETERS, safeSerialize(params)];
-				if ("base_url" in params) {
-					if (typeof params.base_url === "string") {
-						if (params.base_url.includes("api.openai.com")) {
-							yield [LLM_PROVIDER, LLMProvider.OPENAI];
-						}
-					}
+				const provider = resolveOpenAICompatibleProvider(
+					params.base_url,
+					this.insights.getOpenAICompatibleProviders(),
+				);
+				if (provider) {
+					yield [LLM_PROVIDER, provider.provider];
+					yield [LLM_SYSTEM, provider.system];
 				}
 			}
 		}
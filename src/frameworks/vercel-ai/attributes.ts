@@ -0,0 +1,440 @@
+import type { Attributes, AttributeValue } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import {
+	INPUT_MIME_TYPE,
+	INPUT_VALUE,
+	LLM_INPUT_MESSAGES,
+	LLM_INVOCATION_PARAMETERS,
+	LLM_MODEL_NAME,
+	LLM_OUTPUT_MESSAGES,
+	LLM_PROVIDER,
+	LLM_TOKEN_COUNT_COMPLETION,
+	LLM_TOKEN_COUNT_COMPLETION_DETAILS_REASONING,
+	LLM_TOKEN_COUNT_PROMPT,
+	LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ,
+	LLM_TOKEN_COUNT_TOTAL,
+	LLM_TOOLS,
+	MESSAGE_CONTENT,
+	MESSAGE_CONTENTS,
+	MESSAGE_CONTENT_TEXT,
+	MESSAGE_CONTENT_TYPE,
+	MESSAGE_ROLE,
+	MESSAGE_TOOL_CALLS,
+	MESSAGE_TOOL_CALL_ID,
+	METADATA,
+	MimeType,
+	OpenInferenceSpanKind,
+	OUTPUT_MIME_TYPE,
+	OUTPUT_VALUE,
+	SemanticConventions,
+	TOOL_CALL_FUNCTION_ARGUMENTS_JSON,
+	TOOL_CALL_FUNCTION_NAME,
+	TOOL_CALL_ID,
+	TOOL_JSON_SCHEMA,
+	TOOL_NAME,
+} from "@arizeai/openinference-semantic-conventions";
+
+/**
+ * The name of the tracer used by the Vercel AI SDK.
+ */
+export const VERCEL_AI_SCOPE = "ai";
+
+/**
+ * Whether a span was recorded by the Vercel AI SDK, which sets the operation
+ * on every span it records, whatever the tracer.
+ */
+export function isVercelAISpan(span: ReadableSpan): boolean {
+	return typeof span.attributes["ai.operationId"] === "string";
+}
+
+const SETTINGS_PREFIX = "ai.settings.";
+const METADATA_PREFIX = "ai.telemetry.metadata.";
+
+/**
+ * The OpenInference span kind of each Vercel AI SDK operation.
+ *
+ * The top-level functions may call the model several times (e.g. to run
+ * tools), so they are recorded as chains around the model calls.
+ */
+const SPAN_KINDS: Record<string, OpenInferenceSpanKind> = {
+	"ai.generateText": OpenInferenceSpanKind.CHAIN,
+	"ai.streamText": OpenInferenceSpanKind.CHAIN,
+	"ai.generateObject": OpenInferenceSpanKind.CHAIN,
+	"ai.streamObject": OpenInferenceSpanKind.CHAIN,
+	"ai.embed": OpenInferenceSpanKind.CHAIN,
+	"ai.embedMany": OpenInferenceSpanKind.CHAIN,
+	"ai.generateText.doGenerate": OpenInferenceSpanKind.LLM,
+	"ai.streamText.doStream": OpenInferenceSpanKind.LLM,
+	"ai.generateObject.doGenerate": OpenInferenceSpanKind.LLM,
+	"ai.streamObject.doStream": OpenInferenceSpanKind.LLM,
+	"ai.embed.doEmbed": OpenInferenceSpanKind.EMBEDDING,
+	"ai.embedMany.doEmbed": OpenInferenceSpanKind.EMBEDDING,
+	"ai.toolCall": OpenInferenceSpanKind.TOOL,
+};
+
+/**
+ * The subset of the Vercel AI SDK prompt types read by the translation. Both
+ * the v4 (`args`/`result`) and v5 (`input`/`output`) tool call fields are
+ * supported.
+ */
+interface VercelAIContentPart {
+	type: string;
+	text?: string;
+	toolCallId?: string;
+	toolName?: string;
+	args?: unknown;
+	input?: unknown;
+	result?: unknown;
+	output?: unknown;
+}
+
+interface VercelAIMessage {
+	role: string;
+	content: string | VercelAIContentPart[];
+}
+
+interface VercelAIToolCall {
+	toolCallId?: string;
+	toolName?: string;
+	args?: unknown;
+	input?: unknown;
+}
+
+type AttributesGenerator = Generator<[string, AttributeValue]>;
+
+function parseJSON(value: AttributeValue | undefined): unknown {
+	if (typeof value !== "string") {
+		return undefined;
+	}
+	try {
+		return JSON.parse(value);
+	} catch {
+		return undefined;
+	}
+}
+
+function toJSON(value: unknown): string {
+	return typeof value === "string" ? value : JSON.stringify(value ?? {});
+}
+
+function getNumber(
+	attributes: Attributes,
+	...keys: string[]
+): number | undefined {
+	for (const key of keys) {
+		const value = attributes[key];
+		if (typeof value === "number") {
+			return value;
+		}
+	}
+	return undefined;
+}
+
+function* getToolCallAttributes(
+	toolCalls: VercelAIToolCall[],
+	prefix: string,
+): AttributesGenerator {
+	for (const [i, toolCall] of toolCalls.entries()) {
+		const toolCallPrefix = `${prefix}${MESSAGE_TOOL_CALLS}.${i}.`;
+		if (toolCall.toolCallId) {
+			yield [`${toolCallPrefix}${TOOL_CALL_ID}`, toolCall.toolCallId];
+		}
+		if (toolCall.toolName) {
+			yield [`${toolCallPrefix}${TOOL_CALL_FUNCTION_NAME}`, toolCall.toolName];
+		}
+		yield [
+			`${toolCallPrefix}${TOOL_CALL_FUNCTION_ARGUMENTS_JSON}`,
+			toJSON(toolCall.args ?? toolCall.input),
+		];
+	}
+}
+
+/**
+ * Get the input message attributes from the `ai.prompt.messages` attribute of
+ * a model call.
+ *
+ * Tool results are recorded as separate "tool" messages so that they can be
+ * matched with their tool calls.
+ */
+function* getInputMessagesAttributes(
+	attributes: Attributes,
+): AttributesGenerator {
+	const messages = parseJSON(attributes["ai.prompt.messages"]);
+	if (!Array.isArray(messages)) {
+		return;
+	}
+
+	let i = 0;
+	for (const message of messages as VercelAIMessage[]) {
+		if (typeof message.content === "string") {
+			const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+			yield [`${prefix}${MESSAGE_ROLE}`, message.role];
+			yield [`${prefix}${MESSAGE_CONTENT}`, message.content];
+			i++;
+			continue;
+		}
+
+		const parts = message.content ?? [];
+		for (const part of parts) {
+			if (part.type !== "tool-result") {
+				continue;
+			}
+			const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+			yield [`${prefix}${MESSAGE_ROLE}`, "tool"];
+			if (part.toolCallId) {
+				yield [`${prefix}${MESSAGE_TOOL_CALL_ID}`, part.toolCallId];
+			}
+			yield [`${prefix}${MESSAGE_CONTENT}`, toJSON(part.result ?? part.output)];
+			i++;
+		}
+
+		const otherParts = parts.filter((part) => part.type !== "tool-result");
+		if (otherParts.length === 0) {
+			continue;
+		}
+		const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+		yield [`${prefix}${MESSAGE_ROLE}`, message.role];
+		let j = 0;
+		for (const part of otherParts) {
+			if (part.type !== "text" || part.text === undefined) {
+				continue;
+			}
+			const contentPrefix = `${prefix}${MESSAGE_CONTENTS}.${j}.`;
+			yield [`${contentPrefix}${MESSAGE_CONTENT_TYPE}`, "text"];
+			yield [`${contentPrefix}${MESSAGE_CONTENT_TEXT}`, part.text];
+			j++;
+		}
+		yield* getToolCallAttributes(
+			otherParts.filter((part) => part.type === "tool-call"),
+			prefix,
+		);
+		i++;
+	}
+}
+
+/**
+ * Get the attributes of the tools available to the model. The SDK records
+ * each tool as a JSON string.
+ */
+function* getToolsAttributes(attributes: Attributes): AttributesGenerator {
+	const tools = attributes["ai.prompt.tools"];
+	if (!Array.isArray(tools)) {
+		return;
+	}
+	for (const [i, tool] of tools.entries()) {
+		if (typeof tool === "string") {
+			yield [`${LLM_TOOLS}.${i}.${TOOL_JSON_SCHEMA}`, tool];
+		}
+	}
+}
+
+function* getOutputAttributes(attributes: Attributes): AttributesGenerator {
+	const text = attributes["ai.response.text"];
+	const object = attributes["ai.response.object"];
+	const toolCalls = attributes["ai.response.toolCalls"];
+	if (typeof text === "string") {
+		yield [OUTPUT_VALUE, text];
+		yield [OUTPUT_MIME_TYPE, MimeType.TEXT];
+	} else if (typeof object === "string") {
+		yield [OUTPUT_VALUE, object];
+		yield [OUTPUT_MIME_TYPE, MimeType.JSON];
+	} else if (typeof toolCalls === "string") {
+		yield [OUTPUT_VALUE, toolCalls];
+		yield [OUTPUT_MIME_TYPE, MimeType.JSON];
+	}
+}
+
+/**
+ * Get the output message attributes of a model call, i.e. the generated text
+ * or object and the tool calls.
+ */
+function* getOutputMessagesAttributes(
+	attributes: Attributes,
+): AttributesGenerator {
+	const text = attributes["ai.response.text"];
+	const object = attributes["ai.response.object"];
+	const toolCalls = parseJSON(attributes["ai.response.toolCalls"]);
+	if (
+		typeof text !== "string" &&
+		typeof object !== "string" &&
+		!Array.isArray(toolCalls)
+	) {
+		return;
+	}
+
+	const prefix = `${LLM_OUTPUT_MESSAGES}.0.`;
+	yield [`${prefix}${MESSAGE_ROLE}`, "assistant"];
+	const content = typeof text === "string" ? text : object;
+	if (typeof content === "string" && content !== "") {
+		yield [`${prefix}${MESSAGE_CONTENT}`, content];
+	}
+	if (Array.isArray(toolCalls)) {
+		yield* getToolCallAttributes(toolCalls as VercelAIToolCall[], prefix);
+	}
+}
+
+/**
+ * Get the token count attributes of a model call, from either the v4
+ * (`promptTokens`/`completionTokens`) or v5 (`inputTokens`/`outputTokens`)
+ * usage attributes.
+ */
+function* getUsageAttributes(attributes: Attributes): AttributesGenerator {
+	const prompt = getNumber(
+		attributes,
+		"ai.usage.promptTokens",
+		"ai.usage.inputTokens",
+	);
+	const completion = getNumber(
+		attributes,
+		"ai.usage.completionTokens",
+		"ai.usage.outputTokens",
+	);
+	if (prompt === undefined && completion === undefined) {
+		return;
+	}
+
+	yield [LLM_TOKEN_COUNT_PROMPT, prompt ?? 0];
+	yield [LLM_TOKEN_COUNT_COMPLETION, completion ?? 0];
+	yield [
+		LLM_TOKEN_COUNT_TOTAL,
+		getNumber(attributes, "ai.usage.totalTokens") ??
+			(prompt ?? 0) + (completion ?? 0),
+	];
+	const cacheRead = getNumber(attributes, "ai.usage.cachedInputTokens");
+	if (cacheRead !== undefined) {
+		yield [LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ, cacheRead];
+	}
+	const reasoning = getNumber(attributes, "ai.usage.reasoningTokens");
+	if (reasoning !== undefined) {
+		yield [LLM_TOKEN_COUNT_COMPLETION_DETAILS_REASONING, reasoning];
+	}
+}
+
+/**
+ * Get the model and its settings, e.g. the temperature, recorded as
+ * `ai.settings.*` attributes.
+ */
+function* getModelAttributes(attributes: Attributes): AttributesGenerator {
+	const modelId = attributes["ai.response.model"] ?? attributes["ai.model.id"];
+	if (typeof modelId === "string") {
+		yield [LLM_MODEL_NAME, modelId];
+	}
+	const provider = attributes["ai.model.provider"];
+	if (typeof provider === "string") {
+		// e.g. "openai.chat"
+		yield [LLM_PROVIDER, provider.split(".")[0]];
+	}
+
+	const settings: Record<string, unknown> = {};
+	if (typeof attributes["ai.model.id"] === "string") {
+		settings.model = attributes["ai.model.id"];
+	}
+	for (const [key, value] of Object.entries(attributes)) {
+		if (key.startsWith(SETTINGS_PREFIX)) {
+			settings[key.slice(SETTINGS_PREFIX.length)] = value;
+		}
+	}
+	yield [LLM_INVOCATION_PARAMETERS, JSON.stringify(settings)];
+}
+
+function* getMetadataAttributes(attributes: Attributes): AttributesGenerator {
+	const metadata: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(attributes)) {
+		if (key.startsWith(METADATA_PREFIX)) {
+			metadata[key.slice(METADATA_PREFIX.length)] = value;
+		}
+	}
+	if (Object.keys(metadata).length > 0) {
+		yield [METADATA, JSON.stringify(metadata)];
+	}
+}
+
+function* getChainAttributes(attributes: Attributes): AttributesGenerator {
+	const prompt = attributes["ai.prompt"];
+	if (typeof prompt === "string") {
+		yield [INPUT_VALUE, prompt];
+		yield [INPUT_MIME_TYPE, MimeType.JSON];
+	}
+	yield* getOutputAttributes(attributes);
+}
+
+function* getLLMAttributes(attributes: Attributes): AttributesGenerator {
+	yield* getModelAttributes(attributes);
+	const messages = attributes["ai.prompt.messages"];
+	if (typeof messages === "string") {
+		yield [INPUT_VALUE, messages];
+		yield [INPUT_MIME_TYPE, MimeType.JSON];
+	}
+	yield* getInputMessagesAttributes(attributes);
+	yield* getToolsAttributes(attributes);
+	yield* getOutputAttributes(attributes);
+	yield* getOutputMessagesAttributes(attributes);
+	yield* getUsageAttributes(attributes);
+}
+
+function* getToolAttributes(attributes: Attributes): AttributesGenerator {
+	const name = attributes["ai.toolCall.name"];
+	if (typeof name === "string") {
+		yield [TOOL_NAME, name];
+	}
+	const id = attributes["ai.toolCall.id"];
+	if (typeof id === "string") {
+		yield [TOOL_CALL_ID, id];
+	}
+	const args =
+		attributes["ai.toolCall.args"] ?? attributes["ai.toolCall.input"];
+	if (typeof args === "string") {
+		yield [INPUT_VALUE, args];
+		yield [INPUT_MIME_TYPE, MimeType.JSON];
+	}
+	const result =
+		attributes["ai.toolCall.result"] ?? attributes["ai.toolCall.output"];
+	if (typeof result === "string") {
+		yield [OUTPUT_VALUE, result];
+		yield [OUTPUT_MIME_TYPE, MimeType.JSON];
+	}
+}
+
+function* getEmbeddingAttributes(attributes: Attributes): AttributesGenerator {
+	const modelId = attributes["ai.model.id"];
+	if (typeof modelId === "string") {
+		yield [SemanticConventions.EMBEDDING_MODEL_NAME, modelId];
+	}
+}
+
+const SPAN_KIND_ATTRIBUTES: Record<
+	string,
+	(attributes: Attributes) => AttributesGenerator
+> = {
+	[OpenInferenceSpanKind.CHAIN]: getChainAttributes,
+	[OpenInferenceSpanKind.LLM]: getLLMAttributes,
+	[OpenInferenceSpanKind.TOOL]: getToolAttributes,
+	[OpenInferenceSpanKind.EMBEDDING]: getEmbeddingAttributes,
+};
+
+/**
+ * Translate the `ai.*` attributes recorded by the Vercel AI SDK into
+ * OpenInference attributes. The original attributes are kept.
+ *
+ * @param span - An ended span of the Vercel AI SDK tracer.
+ */
+export function translateVercelAIAttributes(span: ReadableSpan): void {
+	const attributes = span.attributes;
+	const operationId = attributes["ai.operationId"];
+	const spanKind =
+		SPAN_KINDS[typeof operationId === "string" ? operationId : span.name];
+	if (!spanKind) {
+		return;
+	}
+
+	const translated: Attributes = {
+		[SemanticConventions.OPENINFERENCE_SPAN_KIND]: spanKind,
+	};
+	for (const [key, value] of SPAN_KIND_ATTRIBUTES[spanKind](attributes)) {
+		translated[key] = value;
+	}
+	for (const [key, value] of getMetadataAttributes(attributes)) {
+		translated[key] = value;
+	}
+	Object.assign(attributes, translated);
+}
@@ -0,0 +1,72 @@
+import type { AttributeValue, Tracer } from "@opentelemetry/api";
+import { getAtlaContext } from "../../context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { VERCEL_AI_SCOPE } from "./attributes";
+
+/**
+ * The telemetry settings of a Vercel AI SDK call, i.e. the value of its
+ * `experimental_telemetry` option.
+ */
+export interface VercelAITelemetrySettings {
+	isEnabled?: boolean;
+	recordInputs?: boolean;
+	recordOutputs?: boolean;
+	functionId?: string;
+	metadata?: Record<string, AttributeValue>;
+	tracer?: Tracer;
+}
+
+/**
+ * Get the telemetry settings that trace a Vercel AI SDK call to Atla
+ * Insights.
+ *
+ * The Vercel AI SDK has built-in OpenTelemetry support, which is enabled per
+ * call with the `experimental_telemetry` option. The returned settings enable
+ * it with a tracer of the Atla Insights tracer provider, and its `ai.*`
+ * attributes are translated into OpenInference attributes: the top-level
+ * functions (e.g. `generateText`) are recorded as CHAIN spans, the model
+ * calls as LLM spans and the tool calls as TOOL spans.
+ *
+ * @example
+ * ```typescript
+ * import { configure, getVercelAITelemetry } from "@atla-ai/insights-sdk-js";
+ * import { generateText } from "ai";
+ * import { openai } from "@ai-sdk/openai";
+ *
+ * // Configure Atla Insights first
+ * configure({ token: process.env.ATLA_API_KEY! });
+ *
+ * const { text } = await generateText({
+ *   model: openai("gpt-4o-mini"),
+ *   prompt: "Hello!",
+ *   experimental_telemetry: getVercelAITelemetry({ functionId: "greeting" }),
+ * });
+ * ```
+ *
+ * @param options - Additional telemetry settings, e.g. the function id or metadata.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ * @returns The value of the `experimental_telemetry` option.
+ */
+export function getVercelAITelemetry(
+	options: Omit<VercelAITelemetrySettings, "tracer"> = {},
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): VercelAITelemetrySettings {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation || insights.disabled) {
+		return { ...options, isEnabled: false };
+	}
+
+	const tracerProvider = insights.getTracerProvider();
+	if (!insights.configured || !tracerProvider) {
+		throw new Error(
+			"Atla Insights must be configured before instrumenting Vercel AI. " +
+				"Please call configure first.",
+		);
+	}
+
+	return {
+		isEnabled: true,
+		...options,
+		tracer: tracerProvider.getTracer(VERCEL_AI_SCOPE),
+	};
+}
@@ -1,5 +1,26 @@
 // Core configuration
-export { configure, type ConfigurationOptions } from "./main";
+export {
+	configure,
+	flush,
+	shutdown,
+	getDroppedSpanCount,
+	uploadTraceFile,
+	AtlaInsightsClient,
+	type ConfigurationOptions,
+} from "./main";
+export type { BatchOptions } from "./atla_batch_span_processor";
+export type { SamplingOptions } from "./atla_sampler";
+export type { TailSamplingOptions } from "./atla_tail_sampling_processor";
+export type { FileExporterOptions } from "./exporters/file";
+export type {
+	OpenAICompatibleProvider,
+	OpenAICompatibleProviders,
+} from "./providers/openai/compatible";
+export type {
+	AtlaEnvironment,
+	AtlaRegion,
+	ExporterName,
+} from "./internal/types";
 
 // Instrumentation
 export { instrument } from "./instrumentation";
@@ -15,6 +36,9 @@ export {
 	clearMetadata,
 } from "./metadata";
 
+// Environment management
+export { withEnvironment } from "./environment";
+
 // Marking functionality
 export { markSuccess, markFailure } from "./marking";
 
@@ -27,9 +51,71 @@ export {
 	uninstrumentOpenAI,
 	withInstrumentedOpenAI,
 } from "./providers/openai/index";
+export {
+	instrumentAnthropic,
+	uninstrumentAnthropic,
+	withInstrumentedAnthropic,
+} from "./providers/anthropic/index";
+export {
+	instrumentGoogleGenAI,
+	uninstrumentGoogleGenAI,
+	withInstrumentedGoogleGenAI,
+} from "./providers/google-genai/index";
+export {
+	instrumentBedrock,
+	uninstrumentBedrock,
+	withInstrumentedBedrock,
+} from "./providers/bedrock/index";
+export {
+	instrumentMistral,
+	uninstrumentMistral,
+	withInstrumentedMistral,
+} from "./providers/mistral/index";
+export {
+	instrumentCohere,
+	uninstrumentCohere,
+	withInstrumentedCohere,
+} from "./providers/cohere/index";
+export {
+	instrumentGroq,
+	uninstrumentGroq,
+	withInstrumentedGroq,
+} from "./providers/groq/index";
 
 // OpenAI Agents instrumentation
-export { instrumentOpenAIAgents } from "./frameworks/openai-agents/index";
+export {
+	instrumentOpenAIAgents,
+	type OpenAIAgentsInstrumentationOptions,
+	uninstrumentOpenAIAgents,
+	withInstrumentedOpenAIAgents,
+} from "./frameworks/openai-agents/index";
+
+// LlamaIndex instrumentation
+export {
+	instrumentLlamaIndex,
+	uninstrumentLlamaIndex,
+	withInstrumentedLlamaIndex,
+} from "./frameworks/llamaindex/index";
+
+// MCP instrumentation
+export {
+	instrumentMCP,
+	uninstrumentMCP,
+	withInstrumentedMCP,
+} from "./frameworks/mcp/index";
+
+// Mastra instrumentation
+export {
+	instrumentMastra,
+	uninstrumentMastra,
+	withInstrumentedMastra,
+} from "./frameworks/mastra/index";
+
+// Vercel AI SDK instrumentation
+export {
+	getVercelAITelemetry,
+	type VercelAITelemetrySettings,
+} from "./frameworks/vercel-ai/index";
 
 // LangChain/LangGraph instrumentation
 export {
@@ -5,26 +5,49 @@
  */
 
 /** biome-ignore-all lint/suspicious/noExplicitAny: We need to support any function */
-import { getAtlaContext, runWithContext } from "./context";
-import { ATLA_INSIGHTS } from "./main";
+import {
+	getAtlaContext,
+	getClientSpanOptions,
+	runWithContext,
+} from "./context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "./main";
 
 type AsyncFunction<T extends any[], R> = (...args: T) => Promise<R>;
 type SyncFunction<T extends any[], R> = (...args: T) => R;
 type AnyFunction = AsyncFunction<any, any> | SyncFunction<any, any>;
 
 export function instrument(nameOrTarget: string | AnyFunction): any {
+	return instrumentWith(ATLA_INSIGHTS, nameOrTarget);
+}
+
+/**
+ * Instrument a function with the given SDK instance.
+ */
+export function instrumentWith(
+	insights: AtlaInsightsClient,
+	nameOrTarget: string | AnyFunction,
+): any {
 	// Used as @instrument without arguments
 	if (typeof nameOrTarget === "function") {
-		return instrumentFunction(nameOrTarget, nameOrTarget.name || "anonymous");
+		return instrumentFunction(
+			insights,
+			nameOrTarget,
+			nameOrTarget.name || "anonymous",
+		);
 	}
 
 	// Used as @instrument("custom name")
-	return (target: AnyFunction) => instrumentFunction(target, nameOrTarget);
+	return (target: AnyFunction) =>
+		instrumentFunction(insights, target, nameOrTarget);
 }
 
-function instrumentFunction<T extends AnyFunction>(fn: T, spanName: string): T {
-	const tracer = ATLA_INSIGHTS.getTracer();
-
+function instrumentFunction<T extends AnyFunction>(
+	insights: AtlaInsightsClient,
+	fn: T,
+	spanName: string,
+): T {
+	// The tracer is looked up on every call rather than at wrap time, so that
+	// functions can be instrumented before the SDK is configured
 	// Instrument async function
 	if (
 		fn.constructor.name === "AsyncFunction" ||
@@ -36,14 +59,24 @@ function instrumentFunction<T extends AnyFunction>(fn: T, spanName: string): T {
 			if (context?.suppressInstrumentation) {
 				return await fn(...args);
 			}
+			// Functions run before the SDK is configured are not traced either
+			if (insights.disabled || !insights.configured) {
+				return await runWithContext(
+					{ ...context, insights },
+					async () => await fn(...args),
+				);
+			}
 
-			return tracer.startActiveSpan(spanName, async (span) => {
+			const tracer = insights.getTracer();
+			const options = getClientSpanOptions(insights);
+			return tracer.startActiveSpan(spanName, options, async (span) => {
 				try {
 					// Run with the updated context
 					return await runWithContext(
 						{
 							...context,
-							rootSpan: context?.rootSpan ?? span,
+							rootSpan: (!options.root && context?.rootSpan) || span,
+							insights,
 						},
 						async () => await fn(...args),
 					);
@@ -65,14 +98,21 @@ function instrumentFunction<T extends AnyFunction>(fn: T, spanName: string): T {
 		if (context?.suppressInstrumentation) {
 			return fn(...args);
 		}
+		// Functions run before the SDK is configured are not traced either
+		if (insights.disabled || !insights.configured) {
+			return runWithContext({ ...context, insights }, () => fn(...args));
+		}
 
-		return tracer.startActiveSpan(spanName, (span) => {
+		const tracer = insights.getTracer();
+		const options = getClientSpanOptions(insights);
+		return tracer.startActiveSpan(spanName, options, (span) => {
 			try {
 				// Run with the updated context
 				return runWithContext(
 					{
 						...context,
-						rootSpan: context?.rootSpan ?? span,
+						rootSpan: (!options.root && context?.rootSpan) || span,
+						insights,
 					},
 					() => fn(...args),
 				);
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Routing of instrumented library calls to the right client.
+ *
+ * A library module, and the prototypes it exports, is shared by every client
+ * in the process, so it is patched by a single instrumentation. The spans of
+ * that instrumentation are recorded by the client of the instrumented
+ * function being run, or by the global client outside of one, provided that
+ * the client has instrumented the library itself.
+ */
+/** biome-ignore-all lint/suspicious/noExplicitAny: Mirror the signatures of the tracer */
+import {
+	type Context,
+	context,
+	ProxyTracerProvider,
+	type Span,
+	type SpanOptions,
+	type Tracer,
+	type TracerOptions,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import { getAtlaContext } from "./context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "./main";
+
+/**
+ * Hands out tracers that record nothing.
+ */
+const NOOP_TRACER_PROVIDER = new ProxyTracerProvider();
+
+interface SharedInstrumentation {
+	isEnabled(): boolean;
+}
+
+const sharedInstrumentations = new Map<string, SharedInstrumentation>();
+
+/**
+ * Get the client that the calls made in the given context are reported to.
+ */
+export function getActiveClient(
+	ctx: Context = context.active(),
+): AtlaInsightsClient {
+	return getAtlaContext(ctx)?.insights ?? ATLA_INSIGHTS;
+}
+
+/**
+ * A tracer that starts every span with the tracer of the active client, or
+ * records nothing if that client has not instrumented the service.
+ *
+ * The active span is one of the active client, as the functions instrumented
+ * by a client start a new trace when nested in those of another client.
+ */
+class RoutingTracer implements Tracer {
+	constructor(
+		private readonly service: string,
+		private readonly name: string,
+		private readonly version?: string,
+		private readonly options?: TracerOptions,
+	) {}
+
+	private resolve(ctx: Context): Tracer {
+		const insights = getActiveClient(ctx);
+		const tracerProvider = insights.isInstrumented(this.service)
+			? insights.getTracerProvider()
+			: undefined;
+		return (tracerProvider ?? NOOP_TRACER_PROVIDER).getTracer(
+			this.name,
+			this.version,
+			this.options,
+		);
+	}
+
+	startSpan(name: string, options?: SpanOptions, ctx?: Context): Span {
+		return this.resolve(ctx ?? context.active()).startSpan(name, options, ctx);
+	}
+
+	startActiveSpan(...args: any[]): any {
+		// The context is only passed along with both options and a callback
+		const ctx = args.length >= 4 ? args[2] : context.active();
+		return (this.resolve(ctx).startActiveSpan as any)(...args);
+	}
+}
+
+/**
+ * A tracer provider whose tracers route spans to the active client.
+ */
+export class RoutingTracerProvider implements TracerProvider {
+	constructor(private readonly service: string) {}
+
+	getTracer(name: string, version?: string, options?: TracerOptions): Tracer {
+		return new RoutingTracer(this.service, name, version, options);
+	}
+}
+
+/**
+ * Get the instrumentation of a service shared by every client, creating it
+ * if there is none or the previous one was disabled.
+ *
+ * @param service - The name of the service.
+ * @param create - Create the instrumentation with the given tracer provider.
+ * @param name - Tells apart the instrumentations of a service that has
+ * several. Defaults to the name of the service.
+ */
+export function getSharedInstrumentation<T extends SharedInstrumentation>(
+	service: string,
+	create: (tracerProvider: TracerProvider) => T,
+	name: string = service,
+): T {
+	const key = `${service}/${name}`;
+	const existing = sharedInstrumentations.get(key);
+	if (existing?.isEnabled()) {
+		return existing as T;
+	}
+
+	const instrumentation = create(new RoutingTracerProvider(service));
+	sharedInstrumentations.set(key, instrumentation);
+	return instrumentation;
+}
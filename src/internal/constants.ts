@@ -1,13 +1,47 @@
-export const OTEL_TRACES_ENDPOINT = "https://logfire-eu.pydantic.dev/v1/traces";
+export const OTEL_TRACES_ENDPOINTS = {
+	eu: "https://logfire-eu.pydantic.dev/v1/traces",
+	us: "https://logfire-us.pydantic.dev/v1/traces",
+} as const;
+export const OTEL_TRACES_PATH = "/v1/traces";
 export const OTEL_MODULE_NAME = "atla_insights";
 
 export const DEFAULT_OTEL_ATTRIBUTE_COUNT_LIMIT = 4096;
 export const DEFAULT_SERVICE_NAME = "atla-insights-js";
+export const DEFAULT_REGION = "eu";
+export const DEFAULT_SHUTDOWN_TIMEOUT_MILLIS = 5000;
+export const DEFAULT_TAIL_SAMPLING_MAX_BUFFERED_TRACES = 1000;
+export const DEFAULT_TRACE_FILE_DIRECTORY = "./atla-traces";
+export const DEFAULT_TRACE_FILE_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+export const TRACE_FILE_PREFIX = "atla-traces";
+export const DEFAULT_CONSOLE_MAX_VALUE_LENGTH = 200;
+export const DEFAULT_CONSOLE_MAX_BUFFERED_TRACES = 1000;
+export const DEFAULT_MAX_AUDIO_BYTES = 1024 * 1024;
+export const DEFAULT_TRACE_TIMEOUT_MILLIS = 30 * 60 * 1000;
+
+// Exporter environment variables
+export const REGION_ENV_VAR = "ATLA_REGION";
+export const ENDPOINT_ENV_VAR = "ATLA_ENDPOINT";
+export const HEADERS_ENV_VAR = "ATLA_HEADERS";
+
+// Configuration environment variables
+export const TOKEN_ENV_VAR = "ATLA_INSIGHTS_TOKEN";
+export const SERVICE_NAME_ENV_VAR = "ATLA_SERVICE_NAME";
+export const ENVIRONMENT_ENV_VAR = "ATLA_ENVIRONMENT";
+export const METADATA_ENV_VAR = "ATLA_METADATA";
+export const EXPORTERS_ENV_VAR = "ATLA_EXPORTERS";
+export const DEBUG_ENV_VAR = "ATLA_DEBUG";
+export const TRACE_DIRECTORY_ENV_VAR = "ATLA_TRACE_DIRECTORY";
+export const SAMPLING_RATIO_ENV_VAR = "ATLA_SAMPLING_RATIO";
+export const TAIL_SAMPLING_ENV_VAR = "ATLA_TAIL_SAMPLING";
+export const INSTRUMENT_ENV_VAR = "ATLA_INSTRUMENT";
+export const DISABLED_ENV_VAR = "ATLA_DISABLED";
 
 export const METADATA_MARK = "atla.metadata";
 export const SUCCESS_MARK = "atla.mark.success";
 export const ENVIRONMENT_MARK = "atla.environment";
 export const EXPERIMENT_NAMESPACE = "atla.experiment";
+export const SAMPLING_DECISION_MARK = "atla.sampling.decision";
+export const SAMPLING_RATE_MARK = "atla.sampling.rate";
 
 export const GIT_BRANCH_MARK = "atla.git.branch";
 export const GIT_COMMIT_HASH_MARK = "atla.git.commit.hash";
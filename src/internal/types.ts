@@ -1,4 +1,23 @@
+import type { OTEL_TRACES_ENDPOINTS } from "./constants";
+
+export type AtlaRegion = keyof typeof OTEL_TRACES_ENDPOINTS;
+
+/**
+ * The environment traces are recorded in. Custom environment names are
+ * allowed.
+ */
+export type AtlaEnvironment = "prod" | "staging" | "dev" | (string & {});
+
+export type ExporterName = "atla" | "file" | "console";
+
 export interface ExporterOptions {
 	token: string;
 	baseUrl?: string;
+	region?: AtlaRegion;
+	headers?: Record<string, string>;
+}
+
+export interface FlushableProcessor {
+	forceFlush(): Promise<void>;
+	shutdown(): Promise<void>;
 }
@@ -1,3 +1,4 @@
+import type { InstrumentationLibrary } from "@opentelemetry/core";
 import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
 
 export function sanitizeAttributes(span: ReadableSpan): void {
@@ -9,14 +10,23 @@ export function sanitizeAttributes(span: ReadableSpan): void {
 	}
 }
 
+/**
+ * Name the instrumentation scope of a Vercel AI SDK span after its provider.
+ *
+ * The span gets its own scope, since the scope object is shared by every span
+ * of the tracer.
+ */
 export function applyOpenInferenceInstrumentationName(
 	span: ReadableSpan,
 ): void {
-	if (span.instrumentationLibrary.name !== "ai") return;
 	const providerAttribute = span.attributes["ai.model.provider"];
 	if (!providerAttribute) return;
 	const providerName = String(providerAttribute).split(".")[0];
 	if (!providerName) return;
-	(span.instrumentationLibrary as { name: string }).name =
-		`openinference.instrumentation.${providerName}`;
+	(
+		span as { instrumentationLibrary: InstrumentationLibrary }
+	).instrumentationLibrary = {
+		...span.instrumentationLibrary,
+		name: `openinference.instrumentation.${providerName}`,
+	};
 }
@@ -4,61 +4,383 @@
  * This file contains the main class for the Atla Insights SDK, which is used to
  * configure and use the Atla Insights SDK.
  */
-import { trace, type Tracer } from "@opentelemetry/api";
+/** biome-ignore-all lint/suspicious/noExplicitAny: Mirror the signatures of the instrumentation functions */
 import {
+	context,
+	diag,
+	ProxyTracerProvider,
+	trace,
+	type Tracer,
+} from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import {
+	AlwaysOnSampler,
 	SimpleSpanProcessor,
 	NodeTracerProvider,
+	ParentBasedSampler,
+	type Sampler,
+	type SpanExporter,
+	type SpanProcessor,
 } from "@opentelemetry/sdk-trace-node";
-import {
-	type InstrumentationBase,
-	registerInstrumentations,
-} from "@opentelemetry/instrumentation";
+import type { InstrumentationBase } from "@opentelemetry/instrumentation";
 import { Resource } from "@opentelemetry/resources";
 import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
 import {
 	DEFAULT_OTEL_ATTRIBUTE_COUNT_LIMIT,
+	DEFAULT_REGION,
 	DEFAULT_SERVICE_NAME,
+	DEFAULT_SHUTDOWN_TIMEOUT_MILLIS,
+	DISABLED_ENV_VAR,
+	ENDPOINT_ENV_VAR,
+	HEADERS_ENV_VAR,
 	OTEL_MODULE_NAME,
-	OTEL_TRACES_ENDPOINT,
+	REGION_ENV_VAR,
 } from "./internal/constants";
-import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import type {
+	AtlaEnvironment,
+	AtlaRegion,
+	ExporterName,
+	ExporterOptions,
+	FlushableProcessor,
+} from "./internal/types";
 import { AtlaRootSpanProcessor } from "./atla_root_span_processor";
+import {
+	AtlaBatchSpanProcessor,
+	type BatchOptions,
+} from "./atla_batch_span_processor";
 import { setGlobalMetadata } from "./metadata";
+import {
+	getConfigurationFromEnv,
+	mergeConfiguration,
+	parseBooleanEnv,
+} from "./env";
+import { validateEnvironment, withEnvironment } from "./environment";
+import { markFailure, markSuccess } from "./marking";
+import { type RunExperimentOptions, runExperiment } from "./experiments";
+import { createAtlaExporter, parseHeaders } from "./exporters/atla";
+import {
+	ConsoleSpanProcessor,
+	ConsoleTraceExporter,
+} from "./exporters/console";
+import {
+	type FileExporterOptions,
+	FileSpanExporter,
+	uploadTraceFile as sendTraceFile,
+} from "./exporters/file";
+import {
+	AtlaSampler,
+	type SamplingOptions,
+	validateSamplingRatio,
+} from "./atla_sampler";
+import { AtlaTailSamplingProcessor } from "./atla_tail_sampling_processor";
+import { instrumentWith } from "./instrumentation";
+import { type AtlaSpan, startAsCurrentSpan } from "./span";
+import { instrumentOpenAI, uninstrumentOpenAI } from "./providers/openai/index";
+import type { OpenAICompatibleProviders } from "./providers/openai/compatible";
+import {
+	instrumentAnthropic,
+	uninstrumentAnthropic,
+} from "./providers/anthropic/index";
+import {
+	instrumentGoogleGenAI,
+	uninstrumentGoogleGenAI,
+} from "./providers/google-genai/index";
+import {
+	instrumentBedrock,
+	uninstrumentBedrock,
+} from "./providers/bedrock/index";
+import {
+	instrumentMistral,
+	uninstrumentMistral,
+} from "./providers/mistral/index";
+import { instrumentCohere, uninstrumentCohere } from "./providers/cohere/index";
+import { instrumentGroq, uninstrumentGroq } from "./providers/groq/index";
+import {
+	instrumentLlamaIndex,
+	uninstrumentLlamaIndex,
+} from "./frameworks/llamaindex/index";
+import { instrumentMCP, uninstrumentMCP } from "./frameworks/mcp/index";
+import {
+	instrumentMastra,
+	uninstrumentMastra,
+} from "./frameworks/mastra/index";
+import {
+	instrumentLangChain,
+	uninstrumentLangChain,
+} from "./providers/langchain/index";
+import {
+	instrumentOpenAIAgents,
+	type OpenAIAgentsInstrumentationOptions,
+	uninstrumentOpenAIAgents,
+} from "./frameworks/openai-agents/index";
+import {
+	getVercelAITelemetry,
+	type VercelAITelemetrySettings,
+} from "./frameworks/vercel-ai/index";
 
 export interface ConfigurationOptions {
-	token: string;
+	/**
+	 * Set to false to turn the SDK into a no-op: nothing is traced or exported
+	 * and no token is needed. Defaults to true, unless the `ATLA_DISABLED`
+	 * environment variable is set.
+	 */
+	enabled?: boolean;
+	/**
+	 * The Atla Insights token. Required unless the "atla" exporter is disabled.
+	 * Defaults to the `ATLA_INSIGHTS_TOKEN` environment variable.
+	 */
+	token?: string;
+	/**
+	 * The name of the service. Defaults to the `ATLA_SERVICE_NAME` environment
+	 * variable.
+	 */
 	serviceName?: string;
+	/**
+	 * The environment traces are recorded in (e.g. "prod"), stamped on every
+	 * root span. Can be overridden per trace with `withEnvironment`. Defaults
+	 * to the `ATLA_ENVIRONMENT` environment variable.
+	 */
+	environment?: AtlaEnvironment;
+	/**
+	 * Metadata attached to every trace. Defaults to the `ATLA_METADATA`
+	 * environment variable, parsed as a JSON object.
+	 */
 	metadata?: Record<string, string>;
+	/**
+	 * The Atla region to export traces to. Defaults to the `ATLA_REGION`
+	 * environment variable, or "eu" if unset.
+	 */
+	region?: AtlaRegion;
+	/**
+	 * The base URL of a self-hosted or local OTLP collector. Takes precedence
+	 * over `region`. Defaults to the `ATLA_ENDPOINT` environment variable.
+	 */
+	endpoint?: string;
+	/**
+	 * Extra headers sent with every export request (e.g. tenant IDs, proxy
+	 * auth). Merged on top of the `ATLA_HEADERS` environment variable, which
+	 * uses the "key1=value1,key2=value2" format.
+	 */
+	headers?: Record<string, string>;
+	/**
+	 * Where finished spans are exported to. "atla" sends them to Atla Insights,
+	 * "file" writes them to local OTLP JSON lines files that can later be
+	 * replayed with `uploadTraceFile` and "console" prints every trace as a
+	 * tree. Defaults to ["atla"].
+	 */
+	exporters?: ExporterName[];
+	/**
+	 * Print every completed trace to the terminal, in addition to the other
+	 * exporters. Equivalent to adding "console" to `exporters`.
+	 */
+	debug?: boolean;
+	/**
+	 * Options for the "file" exporter. See {@link FileExporterOptions}.
+	 */
+	file?: FileExporterOptions;
+	/**
+	 * How finished spans are handed to the exporter. "batch" (the default)
+	 * queues spans and exports them in the background, "simple" exports every
+	 * span as soon as it ends.
+	 */
+	spanProcessor?: "batch" | "simple";
+	/**
+	 * Tuning for the batch span processor. See {@link BatchOptions}.
+	 */
+	batch?: BatchOptions;
+	/**
+	 * The maximum time `shutdown()` may block while draining spans, in
+	 * milliseconds. Defaults to 5000.
+	 */
+	shutdownTimeoutMillis?: number;
+	/**
+	 * Automatically shut down the SDK on `beforeExit`, `SIGTERM` and `SIGINT`
+	 * so that the last spans of short-lived processes are exported. Defaults
+	 * to false.
+	 */
+	registerShutdownHooks?: boolean;
+	/**
+	 * Head and tail sampling policies. All traces are kept by default. See
+	 * {@link SamplingOptions}.
+	 */
+	sampling?: SamplingOptions;
+	/**
+	 * Providers of OpenAI-compatible APIs, keyed by the host of their base URL
+	 * (e.g. `{ "llm.internal:8000": "my-provider" }`). They take precedence
+	 * over the built-in ones (Azure OpenAI, Together, Fireworks, DeepSeek, xAI,
+	 * OpenRouter and Ollama) when tagging the spans of the OpenAI and OpenAI
+	 * Agents instrumentations. See
+	 * {@link OpenAICompatibleProviders}.
+	 */
+	openAICompatibleProviders?: OpenAICompatibleProviders;
 }
 
-class AtlaInsights {
+/**
+ * Resolve once the promise settles or the timeout elapses, whichever is first.
+ */
+async function withTimeout(
+	promise: Promise<void>,
+	timeoutMillis: number,
+	operation: string,
+): Promise<void> {
+	let timer: NodeJS.Timeout | undefined;
+	const timeout = new Promise<void>((resolve) => {
+		timer = setTimeout(() => {
+			diag.warn(
+				`Atla Insights: ${operation} did not complete within ${timeoutMillis}ms`,
+			);
+			resolve();
+		}, timeoutMillis);
+		timer.unref();
+	});
+
+	try {
+		await Promise.race([promise, timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+let contextManagerRegistered = false;
+
+/**
+ * The number of clients using each instrumentation.
+ */
+const instrumentationUsers = new Map<InstrumentationBase, number>();
+
+/**
+ * Register a context manager, so that the spans of isolated clients are
+ * propagated through async calls without a global tracer provider.
+ */
+function registerContextManager(): void {
+	if (contextManagerRegistered) {
+		return;
+	}
+	contextManagerRegistered = true;
+
+	const contextManager = new AsyncLocalStorageContextManager();
+	contextManager.enable();
+	if (!context.setGlobalContextManager(contextManager)) {
+		// Another context manager is already registered
+		contextManager.disable();
+	}
+}
+
+/**
+ * An Atla Insights client with its own tracer provider.
+ *
+ * Clients are isolated from each other and from the global SDK instance, so
+ * that a single process can send traces to several projects, each with its
+ * own token. Spans are only recorded by a client when they are created
+ * through its own methods (e.g. `client.instrument`).
+ *
+ * @example
+ * ```typescript
+ * import { AtlaInsightsClient } from "@atla-ai/insights-sdk-js";
+ *
+ * const client = new AtlaInsightsClient({ token: "<TENANT_TOKEN>" });
+ * client.instrumentOpenAI();
+ *
+ * const myAgent = client.instrument("My agent")(async () => {
+ *   // ...
+ * });
+ * ```
+ */
+export class AtlaInsightsClient {
 	private tracerProvider?: NodeTracerProvider;
 	private tracer?: Tracer;
 	private token?: string;
 	private serviceName?: string;
 	private metadata?: Record<string, string>;
+	private openAICompatibleProviders?: OpenAICompatibleProviders;
+	private exporterOptions?: ExporterOptions;
+	private exportProcessors: SpanProcessor[] = [];
+	private shutdownTimeoutMillis = DEFAULT_SHUTDOWN_TIMEOUT_MILLIS;
+	private shutdownPromise?: Promise<void>;
+	private shutdownHooksRegistered = false;
 	configured = false;
+	/**
+	 * Whether the SDK was disabled, in which case every public API is a no-op.
+	 */
+	disabled = parseBooleanEnv(process.env[DISABLED_ENV_VAR]) ?? false;
 
 	private activeInstrumentations = new Map<string, InstrumentationBase[]>();
+	private activeProcessors = new Map<string, FlushableProcessor>();
+
+	/**
+	 * @param options - The configuration options. If provided, the client is
+	 * configured straight away. See {@link ConfigurationOptions}.
+	 */
+	constructor(options?: ConfigurationOptions) {
+		if (options) {
+			this.configure(options);
+		}
+	}
+
+	/**
+	 * Whether the tracer provider is registered as the global OpenTelemetry
+	 * tracer provider. Only the global SDK instance is.
+	 */
+	protected isGlobal(): boolean {
+		return false;
+	}
 
 	/**
 	 * Configure the Atla Insights SDK.
 	 *
+	 * Options that are not set explicitly are read from the environment, so
+	 * that `configure()` can be called without arguments.
+	 *
 	 * @param options - The configuration options. See {@link ConfigurationOptions}.
 	 */
-	configure(options: ConfigurationOptions): void {
-		const { token, serviceName = DEFAULT_SERVICE_NAME, metadata } = options;
+	configure(options: ConfigurationOptions = {}): void {
+		const {
+			enabled = true,
+			token,
+			serviceName = DEFAULT_SERVICE_NAME,
+			environment,
+			metadata,
+			region = (process.env[REGION_ENV_VAR] || DEFAULT_REGION) as AtlaRegion,
+			endpoint = process.env[ENDPOINT_ENV_VAR],
+			headers,
+			exporters = ["atla"],
+			debug = false,
+			file,
+			spanProcessor = "batch",
+			batch,
+			shutdownTimeoutMillis = DEFAULT_SHUTDOWN_TIMEOUT_MILLIS,
+			registerShutdownHooks = false,
+			sampling = {},
+			openAICompatibleProviders,
+		} = mergeConfiguration(getConfigurationFromEnv(), options);
+
+		this.disabled = !enabled;
+		if (this.disabled) {
+			this.teardown();
+			return;
+		}
 
-		if (!token) {
+		const exporterNames = new Set(exporters);
+		if (debug) {
+			exporterNames.add("console");
+		}
+
+		if (!token && exporterNames.has("atla")) {
 			throw new Error("Atla Insights: Token is required");
 		}
+		if (environment !== undefined) {
+			validateEnvironment(environment);
+		}
 
 		this.token = token;
 		this.serviceName = serviceName;
 		this.metadata = metadata;
+		this.openAICompatibleProviders = openAICompatibleProviders;
+		this.shutdownTimeoutMillis = shutdownTimeoutMillis;
+		this.shutdownPromise = undefined;
 
 		// Set global metadata
-		if (metadata) {
+		if (metadata && this.isGlobal()) {
 			setGlobalMetadata(metadata);
 		}
 
@@ -69,21 +391,72 @@ class AtlaInsights {
 			}),
 		);
 
-		// Add Atla exporter
-		const atlaExporter = new OTLPTraceExporter({
-			url: OTEL_TRACES_ENDPOINT,
+		// Add exporters
+		this.exporterOptions = {
+			token: token ?? "",
+			baseUrl: endpoint,
+			region,
 			headers: {
-				Authorization: `Bearer ${token}`,
+				...parseHeaders(process.env[HEADERS_ENV_VAR]),
+				...headers,
 			},
+		};
+		const exporterOptions = this.exporterOptions;
+		this.exportProcessors = Array.from(exporterNames, (name) => {
+			switch (name) {
+				case "console":
+					// Print traces as soon as they end
+					return new ConsoleSpanProcessor(new ConsoleTraceExporter());
+				case "file":
+					return this.createExportProcessor(
+						new FileSpanExporter(file),
+						spanProcessor,
+						batch,
+					);
+				case "atla":
+					return this.createExportProcessor(
+						createAtlaExporter(exporterOptions),
+						spanProcessor,
+						batch,
+					);
+				default:
+					throw new Error(`Atla Insights: Unknown exporter "${name}"`);
+			}
 		});
 
 		// Update the AtlaRootSpanProcessor instantiation to pass metadata
-		const atlaRootProcessor = new AtlaRootSpanProcessor(this.metadata);
-		const atlaSpanProcessor = new SimpleSpanProcessor(atlaExporter);
+		const atlaRootProcessor = new AtlaRootSpanProcessor(
+			this.metadata,
+			environment,
+		);
+
+		// Tail sampling buffers traces in front of the export processors, in
+		// which case every trace must be recorded by the head sampler
+		const ratio = validateSamplingRatio(sampling.ratio ?? 1);
+		const alwaysSampleExperiments = sampling.alwaysSampleExperiments ?? true;
+		let sampler: Sampler;
+		let exportProcessors: SpanProcessor[] = this.exportProcessors;
+		if (sampling.tail) {
+			sampler = new ParentBasedSampler({ root: new AlwaysOnSampler() });
+			exportProcessors = [
+				new AtlaTailSamplingProcessor(
+					this.exportProcessors,
+					ratio,
+					alwaysSampleExperiments,
+					sampling.tail === true ? {} : sampling.tail,
+				),
+			];
+		} else {
+			sampler = new AtlaSampler(ratio, alwaysSampleExperiments);
+		}
+
+		// Replace the tracer provider of a previous configuration
+		const wasRegistered = this.teardown();
 
 		// Create the tracer provider
 		this.tracerProvider = new NodeTracerProvider({
 			resource,
+			sampler,
 			spanLimits: {
 				attributeCountLimit: DEFAULT_OTEL_ATTRIBUTE_COUNT_LIMIT,
 			},
@@ -92,11 +465,331 @@ class AtlaInsights {
 		// Register span processors explicitly to avoid relying on
 		// provider config fields that vary across OTel versions
 		this.tracerProvider.addSpanProcessor(atlaRootProcessor);
-		this.tracerProvider.addSpanProcessor(atlaSpanProcessor);
+		for (const processor of exportProcessors) {
+			this.tracerProvider.addSpanProcessor(processor);
+		}
 
-		this.tracerProvider.register();
-		this.tracer = trace.getTracer(OTEL_MODULE_NAME);
+		if (this.isGlobal()) {
+			// The context manager and propagator of the previous registration
+			// are still in place
+			this.tracerProvider.register(
+				wasRegistered ? { contextManager: null, propagator: null } : {},
+			);
+		} else {
+			registerContextManager();
+		}
+		this.tracer = this.tracerProvider.getTracer(OTEL_MODULE_NAME);
 		this.configured = true;
+
+		if (registerShutdownHooks) {
+			this.registerShutdownHooks();
+		}
+	}
+
+	/**
+	 * Export all spans that have ended but not been exported yet.
+	 *
+	 * Flushes every registered processor (e.g. the OpenAI Agents processor)
+	 * before flushing the tracer provider itself.
+	 */
+	async flush(): Promise<void> {
+		await Promise.all(
+			Array.from(this.activeProcessors.values(), (processor) =>
+				processor.forceFlush(),
+			),
+		);
+		await this.tracerProvider?.forceFlush();
+	}
+
+	/**
+	 * Flush all pending spans and shut down the SDK.
+	 *
+	 * Spans ending after shutdown are no longer exported. Shutdown never blocks
+	 * for longer than the given timeout.
+	 *
+	 * @param timeoutMillis - The maximum time to wait, in milliseconds. Defaults
+	 * to the configured `shutdownTimeoutMillis`.
+	 */
+	shutdown(timeoutMillis: number = this.shutdownTimeoutMillis): Promise<void> {
+		if (!this.shutdownPromise) {
+			const tracerProvider = this.tracerProvider;
+			const processors = Array.from(this.activeProcessors.values());
+
+			const drain = async () => {
+				await Promise.all(processors.map((processor) => processor.shutdown()));
+				await tracerProvider?.shutdown();
+			};
+
+			this.shutdownPromise = withTimeout(
+				drain().catch((error) => {
+					diag.error("Atla Insights: Failed to shut down", error);
+				}),
+				timeoutMillis,
+				"shutdown",
+			);
+		}
+		return this.shutdownPromise;
+	}
+
+	/**
+	 * Shut down the tracer provider of the previous configuration, if any.
+	 *
+	 * Spans that already ended are still exported in the background.
+	 *
+	 * @returns Whether the previous tracer provider was registered globally.
+	 */
+	private teardown(): boolean {
+		const previous = this.tracerProvider;
+		if (!previous) {
+			return false;
+		}
+
+		const globalProvider = trace.getTracerProvider();
+		const wasRegistered =
+			globalProvider instanceof ProxyTracerProvider &&
+			globalProvider.getDelegate() === previous;
+		if (wasRegistered) {
+			trace.disable();
+		}
+
+		this.tracerProvider = undefined;
+		this.tracer = undefined;
+		this.exportProcessors = [];
+		this.configured = false;
+		void previous.shutdown().catch((error) => {
+			diag.error("Atla Insights: Failed to shut down", error);
+		});
+		return wasRegistered;
+	}
+
+	private registerShutdownHooks(): void {
+		if (this.shutdownHooksRegistered) {
+			return;
+		}
+		this.shutdownHooksRegistered = true;
+
+		process.once("beforeExit", () => {
+			void this.shutdown();
+		});
+
+		for (const signal of ["SIGTERM", "SIGINT"] as const) {
+			process.once(signal, () => {
+				void this.shutdown().finally(() => {
+					// Listening to a signal disables its default behaviour, so
+					// re-raise it unless someone else is handling it
+					if (process.listenerCount(signal) === 0) {
+						process.kill(process.pid, signal);
+					}
+				});
+			});
+		}
+	}
+
+	private createExportProcessor(
+		exporter: SpanExporter,
+		mode: "batch" | "simple",
+		batch?: BatchOptions,
+	): SpanProcessor {
+		if (mode === "simple") {
+			return new SimpleSpanProcessor(exporter);
+		}
+		return new AtlaBatchSpanProcessor(exporter, batch);
+	}
+
+	/**
+	 * Instrument a function with this client. See `instrument`.
+	 */
+	instrument(nameOrTarget: string | ((...args: any[]) => any)): any {
+		return instrumentWith(this, nameOrTarget);
+	}
+
+	/**
+	 * Run a function within a span recorded by this client. See
+	 * `startAsCurrentSpan`.
+	 */
+	startAsCurrentSpan<T>(
+		name: string,
+		fn: (span: AtlaSpan) => T | Promise<T>,
+	): Promise<T> {
+		return startAsCurrentSpan(name, fn, this);
+	}
+
+	/**
+	 * Mark the root span of the current trace as successful. See `markSuccess`.
+	 */
+	markSuccess(): void {
+		markSuccess(this);
+	}
+
+	/**
+	 * Mark the root span of the current trace as failed. See `markFailure`.
+	 */
+	markFailure(): void {
+		markFailure(this);
+	}
+
+	/**
+	 * Run a function with a different environment in context. See
+	 * `withEnvironment`.
+	 */
+	withEnvironment<T>(
+		environment: AtlaEnvironment,
+		fn: () => T | Promise<T>,
+	): T | Promise<T> {
+		return withEnvironment(environment, fn, this);
+	}
+
+	/**
+	 * Run code within an experiment context. See `runExperiment`.
+	 */
+	runExperiment<T>(
+		options: RunExperimentOptions,
+		fn: () => T | Promise<T>,
+	): T | Promise<T> {
+		return runExperiment(options, fn, this);
+	}
+
+	/**
+	 * Instrument OpenAI with this client. See `instrumentOpenAI`.
+	 */
+	instrumentOpenAI(openaiModule?: any): void {
+		instrumentOpenAI(openaiModule, this);
+	}
+
+	uninstrumentOpenAI(): void {
+		uninstrumentOpenAI(this);
+	}
+
+	/**
+	 * Instrument Anthropic with this client. See `instrumentAnthropic`.
+	 */
+	instrumentAnthropic(anthropicModule?: any): void {
+		instrumentAnthropic(anthropicModule, this);
+	}
+
+	uninstrumentAnthropic(): void {
+		uninstrumentAnthropic(this);
+	}
+
+	/**
+	 * Instrument Google Gen AI with this client. See `instrumentGoogleGenAI`.
+	 */
+	instrumentGoogleGenAI(genaiModule?: any): void {
+		instrumentGoogleGenAI(genaiModule, this);
+	}
+
+	uninstrumentGoogleGenAI(): void {
+		uninstrumentGoogleGenAI(this);
+	}
+
+	/**
+	 * Instrument AWS Bedrock with this client. See `instrumentBedrock`.
+	 */
+	instrumentBedrock(bedrockModule?: any): void {
+		instrumentBedrock(bedrockModule, this);
+	}
+
+	uninstrumentBedrock(): void {
+		uninstrumentBedrock(this);
+	}
+
+	/**
+	 * Instrument Mistral with this client. See `instrumentMistral`.
+	 */
+	instrumentMistral(mistralModule?: any): void {
+		instrumentMistral(mistralModule, this);
+	}
+
+	uninstrumentMistral(): void {
+		uninstrumentMistral(this);
+	}
+
+	/**
+	 * Instrument Cohere with this client. See `instrumentCohere`.
+	 */
+	instrumentCohere(cohereModule?: any): void {
+		instrumentCohere(cohereModule, this);
+	}
+
+	uninstrumentCohere(): void {
+		uninstrumentCohere(this);
+	}
+
+	/**
+	 * Instrument Groq with this client. See `instrumentGroq`.
+	 */
+	instrumentGroq(groqModule?: any): void {
+		instrumentGroq(groqModule, this);
+	}
+
+	uninstrumentGroq(): void {
+		uninstrumentGroq(this);
+	}
+
+	/**
+	 * Instrument LangChain with this client. See `instrumentLangChain`.
+	 */
+	instrumentLangChain(callbackManagerModule?: any): void {
+		instrumentLangChain(callbackManagerModule, this);
+	}
+
+	uninstrumentLangChain(): void {
+		uninstrumentLangChain(this);
+	}
+
+	/**
+	 * Instrument LlamaIndex with this client. See `instrumentLlamaIndex`.
+	 */
+	instrumentLlamaIndex(llamaindexModule?: any): void {
+		instrumentLlamaIndex(llamaindexModule, this);
+	}
+
+	uninstrumentLlamaIndex(): void {
+		uninstrumentLlamaIndex(this);
+	}
+
+	/**
+	 * Instrument the MCP SDK with this client. See `instrumentMCP`.
+	 */
+	instrumentMCP(mcpModule?: any): void {
+		instrumentMCP(mcpModule, this);
+	}
+
+	uninstrumentMCP(): void {
+		uninstrumentMCP(this);
+	}
+
+	/**
+	 * Instrument Mastra with this client. See `instrumentMastra`.
+	 */
+	instrumentMastra(mastra?: any): void {
+		instrumentMastra(mastra, this);
+	}
+
+	uninstrumentMastra(): void {
+		uninstrumentMastra(this);
+	}
+
+	/**
+	 * Instrument the OpenAI Agents SDK with this client. See
+	 * `instrumentOpenAIAgents`.
+	 */
+	instrumentOpenAIAgents(options?: OpenAIAgentsInstrumentationOptions): void {
+		instrumentOpenAIAgents(options, this);
+	}
+
+	uninstrumentOpenAIAgents(): void {
+		uninstrumentOpenAIAgents(this);
+	}
+
+	/**
+	 * Get the Vercel AI SDK telemetry settings of this client. See
+	 * `getVercelAITelemetry`.
+	 */
+	getVercelAITelemetry(
+		options?: Omit<VercelAITelemetrySettings, "tracer">,
+	): VercelAITelemetrySettings {
+		return getVercelAITelemetry(options, this);
 	}
 
 	getTracer(): Tracer {
@@ -122,23 +815,99 @@ class AtlaInsights {
 		return this.metadata;
 	}
 
+	getOpenAICompatibleProviders(): OpenAICompatibleProviders | undefined {
+		return this.openAICompatibleProviders;
+	}
+
+	getExporterOptions(): ExporterOptions | undefined {
+		return this.exporterOptions;
+	}
+
+	/**
+	 * Replay a trace file written by the "file" exporter to Atla Insights,
+	 * using the configured token, endpoint and headers.
+	 *
+	 * @param path - The path of the trace file, optionally gzipped.
+	 * @returns The number of export requests sent.
+	 */
+	async uploadTraceFile(path: string): Promise<number> {
+		if (this.disabled) {
+			return 0;
+		}
+		if (!this.exporterOptions) {
+			throw new Error("Atla Insights must be configured before use.");
+		}
+		if (!this.exporterOptions.token) {
+			throw new Error("Atla Insights: Token is required");
+		}
+		return sendTraceFile(path, this.exporterOptions);
+	}
+
+	/**
+	 * Get the number of spans dropped because the export queue was full.
+	 */
+	getDroppedSpanCount(): number {
+		let dropped = 0;
+		for (const processor of this.exportProcessors) {
+			if (processor instanceof AtlaBatchSpanProcessor) {
+				dropped += processor.getDroppedSpanCount();
+			}
+		}
+		return dropped;
+	}
+
+	/**
+	 * Whether this client has instrumented the given service, in which case
+	 * the calls made within its instrumented functions are recorded by it.
+	 */
+	isInstrumented(service: string): boolean {
+		return this.activeInstrumentations.has(service);
+	}
+
+	/**
+	 * Enable the instrumentations of a service for this client.
+	 *
+	 * Instrumentations are shared by every client that instrumented the same
+	 * service and only disabled once none of them uses them anymore. They
+	 * look up the tracer provider of the active client for every span, so
+	 * they are not bound to this client's tracer provider.
+	 */
 	registerInstrumentations(
 		service: string,
 		instrumentations: InstrumentationBase[],
 	): void {
-		// Unregister existing instrumentations for this service if any
+		// Hold on to the new instrumentations before releasing the existing
+		// ones, which may be the same shared instances
+		for (const instrumentation of instrumentations) {
+			instrumentationUsers.set(
+				instrumentation,
+				(instrumentationUsers.get(instrumentation) ?? 0) + 1,
+			);
+		}
 		this.unregisterInstrumentations(service);
 
-		// Register new instrumentations
-		registerInstrumentations({
-			instrumentations,
-			tracerProvider: this.tracerProvider,
-		});
+		// Enable new instrumentations, without registering them with
+		// OpenTelemetry, which would bind them to the global tracer provider
+		for (const instrumentation of instrumentations) {
+			instrumentation.enable();
+		}
 
 		// Track them for later unregistration if needed
 		this.activeInstrumentations.set(service, instrumentations);
 	}
 
+	/**
+	 * Register a processor that buffers spans outside of the tracer provider,
+	 * so that it is drained by `flush()` and `shutdown()`.
+	 */
+	registerProcessor(service: string, processor: FlushableProcessor): void {
+		this.activeProcessors.set(service, processor);
+	}
+
+	unregisterProcessor(service: string): void {
+		this.activeProcessors.delete(service);
+	}
+
 	unregisterInstrumentations(service: string): void {
 		const instrumentations = this.activeInstrumentations.get(service);
 		if (!instrumentations) {
@@ -146,12 +915,34 @@ class AtlaInsights {
 		}
 
 		for (const instrumentation of instrumentations) {
-			instrumentation.disable();
+			const users = (instrumentationUsers.get(instrumentation) ?? 1) - 1;
+			if (users > 0) {
+				instrumentationUsers.set(instrumentation, users);
+			} else {
+				instrumentationUsers.delete(instrumentation);
+				instrumentation.disable();
+			}
 		}
 
 		this.activeInstrumentations.delete(service);
 	}
 }
 
+/**
+ * The global SDK instance, whose tracer provider is registered as the global
+ * OpenTelemetry tracer provider.
+ */
+class AtlaInsights extends AtlaInsightsClient {
+	protected isGlobal(): boolean {
+		return true;
+	}
+}
+
 export const ATLA_INSIGHTS = new AtlaInsights();
 export const configure = ATLA_INSIGHTS.configure.bind(ATLA_INSIGHTS);
+export const flush = ATLA_INSIGHTS.flush.bind(ATLA_INSIGHTS);
+export const shutdown = ATLA_INSIGHTS.shutdown.bind(ATLA_INSIGHTS);
+export const getDroppedSpanCount =
+	ATLA_INSIGHTS.getDroppedSpanCount.bind(ATLA_INSIGHTS);
+export const uploadTraceFile =
+	ATLA_INSIGHTS.uploadTraceFile.bind(ATLA_INSIGHTS);
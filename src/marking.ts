@@ -4,12 +4,19 @@
  */
 import { SUCCESS_MARK } from "./internal/constants";
 import { getAtlaContext } from "./context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "./main";
 
 /**
  * Mark the root span with a value.
  */
-function markRootSpan(value: 0 | 1): void {
+function markRootSpan(value: 0 | 1, insights?: AtlaInsightsClient): void {
 	const context = getAtlaContext();
+	// Default to the client of the instrumented function being run
+	const client = insights ?? context?.insights ?? ATLA_INSIGHTS;
+	if (client.disabled || !client.configured) {
+		return;
+	}
+
 	const rootSpan = context?.rootSpan;
 
 	if (!rootSpan) {
@@ -36,9 +43,11 @@ function markRootSpan(value: 0 | 1): void {
  *   }
  * );
  * ```
+ *
+ * @param insights - The SDK instance. Defaults to the one of the instrumented function.
  */
-export function markSuccess(): void {
-	markRootSpan(1);
+export function markSuccess(insights?: AtlaInsightsClient): void {
+	markRootSpan(1, insights);
 }
 
 /**
@@ -56,7 +65,9 @@ export function markSuccess(): void {
  *   }
  * );
  * ```
+ *
+ * @param insights - The SDK instance. Defaults to the one of the instrumented function.
  */
-export function markFailure(): void {
-	markRootSpan(0);
+export function markFailure(insights?: AtlaInsightsClient): void {
+	markRootSpan(0, insights);
 }
@@ -8,6 +8,8 @@ import {
 	MAX_METADATA_KEY_CHARS,
 	MAX_METADATA_VALUE_CHARS,
 } from "./internal/constants";
+import { getAtlaContext } from "./context";
+import { ATLA_INSIGHTS } from "./main";
 
 const METADATA_CONTEXT_KEY = Symbol("atla.metadata");
 
@@ -106,6 +108,11 @@ export function setGlobalMetadata(metadata: Record<string, string>): void {
  * This is for runtime metadata updates within a trace.
  */
 export function setMetadata(metadata: Record<string, string>): void {
+	const insights = getAtlaContext()?.insights ?? ATLA_INSIGHTS;
+	if (insights.disabled) {
+		return;
+	}
+
 	const span = trace.getActiveSpan();
 	if (span) {
 		const validatedMetadata = validateMetadata(metadata);
@@ -141,6 +148,11 @@ export function withMetadata<T>(
 	metadata: Record<string, string>,
 	fn: () => T | Promise<T>,
 ): T | Promise<T> {
+	const insights = getAtlaContext()?.insights ?? ATLA_INSIGHTS;
+	if (insights.disabled) {
+		return fn();
+	}
+
 	const validatedMetadata = validateMetadata(metadata);
 	const ctx = otelContext.active();
 	const newCtx = ctx.setValue(METADATA_CONTEXT_KEY, validatedMetadata);
@@ -0,0 +1,336 @@
+import type { AttributeValue } from "@opentelemetry/api";
+import {
+	LLM_INPUT_MESSAGES,
+	LLM_OUTPUT_MESSAGES,
+	LLM_TOKEN_COUNT_COMPLETION,
+	LLM_TOKEN_COUNT_PROMPT,
+	LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ,
+	LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_WRITE,
+	LLM_TOKEN_COUNT_TOTAL,
+	LLM_TOOLS,
+	MESSAGE_CONTENT,
+	MESSAGE_CONTENTS,
+	MESSAGE_CONTENT_TEXT,
+	MESSAGE_CONTENT_TYPE,
+	MESSAGE_ROLE,
+	MESSAGE_TOOL_CALLS,
+	MESSAGE_TOOL_CALL_ID,
+	TOOL_CALL_FUNCTION_ARGUMENTS_JSON,
+	TOOL_CALL_FUNCTION_NAME,
+	TOOL_CALL_ID,
+	TOOL_JSON_SCHEMA,
+} from "@arizeai/openinference-semantic-conventions";
+
+/**
+ * The subset of the Anthropic Messages API types read by the instrumentation.
+ */
+export interface AnthropicContentBlock {
+	type: string;
+	text?: string;
+	id?: string;
+	name?: string;
+	input?: unknown;
+	tool_use_id?: string;
+	content?: string | AnthropicContentBlock[];
+	is_error?: boolean;
+	thinking?: string;
+}
+
+export interface AnthropicMessageParam {
+	role: string;
+	content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicUsage {
+	input_tokens?: number | null;
+	output_tokens?: number | null;
+	cache_read_input_tokens?: number | null;
+	cache_creation_input_tokens?: number | null;
+}
+
+export interface AnthropicMessage {
+	id?: string;
+	type?: string;
+	role: string;
+	model?: string;
+	content: AnthropicContentBlock[];
+	stop_reason?: string | null;
+	stop_sequence?: string | null;
+	usage?: AnthropicUsage;
+}
+
+export interface AnthropicMessageCreateParams {
+	model?: string;
+	system?: string | AnthropicContentBlock[];
+	messages?: AnthropicMessageParam[];
+	tools?: Record<string, unknown>[];
+	stream?: boolean;
+	[key: string]: unknown;
+}
+
+export interface AnthropicStreamEvent {
+	type: string;
+	index?: number;
+	message?: AnthropicMessage;
+	content_block?: AnthropicContentBlock;
+	delta?: {
+		type?: string;
+		text?: string;
+		partial_json?: string;
+		thinking?: string;
+		stop_reason?: string | null;
+		stop_sequence?: string | null;
+	};
+	usage?: AnthropicUsage;
+}
+
+type Attributes = Generator<[string, AttributeValue]>;
+
+/**
+ * Get the text of a content block list, ignoring the non-text blocks.
+ */
+function getText(content: string | AnthropicContentBlock[]): string {
+	if (typeof content === "string") {
+		return content;
+	}
+	return content
+		.filter((block) => block.type === "text" && block.text !== undefined)
+		.map((block) => block.text)
+		.join("");
+}
+
+function* getToolUseAttributes(
+	blocks: AnthropicContentBlock[],
+	prefix: string,
+): Attributes {
+	let i = 0;
+	for (const block of blocks) {
+		if (block.type !== "tool_use") {
+			continue;
+		}
+		const toolCallPrefix = `${prefix}${MESSAGE_TOOL_CALLS}.${i}.`;
+		if (block.id) {
+			yield [`${toolCallPrefix}${TOOL_CALL_ID}`, block.id];
+		}
+		if (block.name) {
+			yield [`${toolCallPrefix}${TOOL_CALL_FUNCTION_NAME}`, block.name];
+		}
+		yield [
+			`${toolCallPrefix}${TOOL_CALL_FUNCTION_ARGUMENTS_JSON}`,
+			JSON.stringify(block.input ?? {}),
+		];
+		i++;
+	}
+}
+
+function* getContentBlockAttributes(
+	blocks: AnthropicContentBlock[],
+	prefix: string,
+): Attributes {
+	let i = 0;
+	for (const block of blocks) {
+		if (block.type !== "text" || block.text === undefined) {
+			continue;
+		}
+		const contentPrefix = `${prefix}${MESSAGE_CONTENTS}.${i}.`;
+		yield [`${contentPrefix}${MESSAGE_CONTENT_TYPE}`, "text"];
+		yield [`${contentPrefix}${MESSAGE_CONTENT_TEXT}`, block.text];
+		i++;
+	}
+}
+
+/**
+ * Get the input message attributes of a request.
+ *
+ * The system prompt is recorded as the first message. Tool results, which
+ * Anthropic sends as user content blocks, are recorded as separate "tool"
+ * messages so that they can be matched with their tool calls.
+ */
+export function* getInputMessagesAttributes(
+	params: AnthropicMessageCreateParams,
+): Attributes {
+	let i = 0;
+	if (params.system !== undefined) {
+		const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+		yield [`${prefix}${MESSAGE_ROLE}`, "system"];
+		yield [`${prefix}${MESSAGE_CONTENT}`, getText(params.system)];
+		i++;
+	}
+
+	for (const message of params.messages ?? []) {
+		if (typeof message.content === "string") {
+			const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+			yield [`${prefix}${MESSAGE_ROLE}`, message.role];
+			yield [`${prefix}${MESSAGE_CONTENT}`, message.content];
+			i++;
+			continue;
+		}
+
+		for (const block of message.content) {
+			if (block.type !== "tool_result") {
+				continue;
+			}
+			const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+			yield [`${prefix}${MESSAGE_ROLE}`, "tool"];
+			if (block.tool_use_id) {
+				yield [`${prefix}${MESSAGE_TOOL_CALL_ID}`, block.tool_use_id];
+			}
+			if (block.content !== undefined) {
+				yield [`${prefix}${MESSAGE_CONTENT}`, getText(block.content)];
+			}
+			i++;
+		}
+
+		const otherBlocks = message.content.filter(
+			(block) => block.type !== "tool_result",
+		);
+		if (otherBlocks.length > 0 || message.content.length === 0) {
+			const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+			yield [`${prefix}${MESSAGE_ROLE}`, message.role];
+			yield* getContentBlockAttributes(otherBlocks, prefix);
+			yield* getToolUseAttributes(otherBlocks, prefix);
+			i++;
+		}
+	}
+}
+
+/**
+ * Get the attributes of the tools available to the model.
+ */
+export function* getToolsAttributes(
+	tools: Record<string, unknown>[] | undefined,
+): Attributes {
+	for (const [i, tool] of (tools ?? []).entries()) {
+		yield [`${LLM_TOOLS}.${i}.${TOOL_JSON_SCHEMA}`, JSON.stringify(tool)];
+	}
+}
+
+/**
+ * Get the output message attributes of a response.
+ */
+export function* getOutputMessageAttributes(
+	message: AnthropicMessage,
+): Attributes {
+	const prefix = `${LLM_OUTPUT_MESSAGES}.0.`;
+	yield [`${prefix}${MESSAGE_ROLE}`, message.role ?? "assistant"];
+	const text = getText(message.content ?? []);
+	if (text !== "") {
+		yield [`${prefix}${MESSAGE_CONTENT}`, text];
+	}
+	yield* getToolUseAttributes(message.content ?? [], prefix);
+}
+
+/**
+ * Get the token count attributes of a response.
+ *
+ * Anthropic does not count cached tokens as input tokens, so they are added
+ * to the prompt token count.
+ */
+export function* getUsageAttributes(
+	usage: AnthropicUsage | undefined,
+): Attributes {
+	if (!usage) {
+		return;
+	}
+	const cacheRead = usage.cache_read_input_tokens ?? 0;
+	const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+	const prompt = (usage.input_tokens ?? 0) + cacheRead + cacheWrite;
+	const completion = usage.output_tokens ?? 0;
+
+	yield [LLM_TOKEN_COUNT_PROMPT, prompt];
+	yield [LLM_TOKEN_COUNT_COMPLETION, completion];
+	yield [LLM_TOKEN_COUNT_TOTAL, prompt + completion];
+	if (usage.cache_read_input_tokens != null) {
+		yield [LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ, cacheRead];
+	}
+	if (usage.cache_creation_input_tokens != null) {
+		yield [LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_WRITE, cacheWrite];
+	}
+}
+
+/**
+ * Get the invocation parameters of a request, i.e. everything but the
+ * messages and the system prompt.
+ */
+export function getInvocationParameters(
+	params: AnthropicMessageCreateParams,
+): Record<string, unknown> {
+	const { messages: _messages, system: _system, ...parameters } = params;
+	return parameters;
+}
+
+/**
+ * Accumulate a streaming event into the message being streamed.
+ *
+ * @param message - The message accumulated so far, if any.
+ * @param event - The streaming event.
+ * @returns The updated message.
+ */
+export function accumulateStreamEvent(
+	message: AnthropicMessage | undefined,
+	event: AnthropicStreamEvent,
+): AnthropicMessage | undefined {
+	if (event.type === "message_start" && event.message) {
+		return {
+			...event.message,
+			content: [...(event.message.content ?? [])],
+			usage: { ...event.message.usage },
+		};
+	}
+	if (!message) {
+		return message;
+	}
+
+	switch (event.type) {
+		case "content_block_start":
+			if (event.index !== undefined && event.content_block) {
+				message.content[event.index] = { ...event.content_block };
+			}
+			break;
+		case "content_block_delta": {
+			const block =
+				event.index !== undefined ? message.content[event.index] : undefined;
+			if (!block || !event.delta) {
+				break;
+			}
+			if (event.delta.type === "text_delta") {
+				block.text = (block.text ?? "") + (event.delta.text ?? "");
+			} else if (event.delta.type === "thinking_delta") {
+				block.thinking = (block.thinking ?? "") + (event.delta.thinking ?? "");
+			} else if (event.delta.type === "input_json_delta") {
+				const partialJson =
+					((block as { partial_json?: string }).partial_json ?? "") +
+					(event.delta.partial_json ?? "");
+				(block as { partial_json?: string }).partial_json = partialJson;
+				try {
+					block.input = JSON.parse(partialJson);
+				} catch {
+					// Wait for the rest of the JSON
+				}
+			}
+			break;
+		}
+		case "content_block_stop":
+			if (event.index !== undefined && message.content[event.index]) {
+				delete (message.content[event.index] as { partial_json?: string })
+					.partial_json;
+			}
+			break;
+		case "message_delta":
+			if (event.delta?.stop_reason !== undefined) {
+				message.stop_reason = event.delta.stop_reason;
+			}
+			if (event.delta?.stop_sequence !== undefined) {
+				message.stop_sequence = event.delta.stop_sequence;
+			}
+			message.usage = { ...message.usage, ...withoutNullish(event.usage) };
+			break;
+	}
+	return message;
+}
+
+function withoutNullish(usage: AnthropicUsage | undefined): AnthropicUsage {
+	return Object.fromEntries(
+		Object.entries(usage ?? {}).filter(([, value]) => value != null),
+	);
+}
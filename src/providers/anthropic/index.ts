@@ -0,0 +1,170 @@
+import { getAtlaContext } from "../../context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { getSharedInstrumentation } from "../../instrumentation_router";
+import { AnthropicInstrumentation } from "./instrumentation";
+
+const SERVICE_NAME = "anthropic";
+
+/**
+ * Instrument the Anthropic LLM provider.
+ *
+ * This function enables tracing for all Anthropic Messages API calls
+ * (`messages.create` and `messages.stream`) made through the official
+ * Anthropic JavaScript/TypeScript client.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentAnthropic } from "@atla-ai/insights-sdk-js";
+ * import Anthropic from "@anthropic-ai/sdk";
+ *
+ * // Configure Atla Insights first
+ * configure({
+ *   token: process.env.ATLA_API_KEY!,
+ * });
+ *
+ * // Enable Anthropic instrumentation
+ * instrumentAnthropic();
+ *
+ * // Use Anthropic as normal - it will be automatically traced
+ * const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+ * const message = await anthropic.messages.create({
+ *   model: "claude-sonnet-4-20250514",
+ *   max_tokens: 1024,
+ *   messages: [{ role: "user", content: "Hello!" }],
+ * });
+ * ```
+ *
+ * @param anthropicModule - The Anthropic module to instrument. If not provided, the default Anthropic module will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentAnthropic } from "@atla-ai/insights-sdk-js";
+ * import Anthropic from "@anthropic-ai/sdk";
+ *
+ * // Configure Atla Insights first
+ * configure({ token: process.env.ATLA_API_KEY! });
+ *
+ * // Manually instrument the Anthropic module
+ * instrumentAnthropic(Anthropic);
+ *
+ * // Use Anthropic as normal - it will be automatically traced
+ * const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+ * const message = await anthropic.messages.create({
+ *   model: "claude-sonnet-4-20250514",
+ *   max_tokens: 1024,
+ *   messages: [{ role: "user", content: "Hello!" }],
+ * });
+ * ```
+ *
+ * @returns void
+ */
+export function instrumentAnthropic(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	anthropicModule?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation || insights.disabled) {
+		return;
+	}
+
+	if (!insights.configured) {
+		throw new Error(
+			"Atla Insights must be configured before instrumenting Anthropic. " +
+				"Please call configure first.",
+		);
+	}
+
+	// Every client shares the instrumentation of the module
+	const anthropicInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new AnthropicInstrumentation({ tracerProvider }),
+	);
+
+	// If a module is provided, manually instrument it
+	if (anthropicModule) {
+		anthropicInstrumentation.manuallyInstrument(anthropicModule);
+	}
+
+	// Register it with OpenTelemetry
+	insights.registerInstrumentations(SERVICE_NAME, [anthropicInstrumentation]);
+}
+
+/**
+ * Uninstrument the Anthropic LLM provider.
+ *
+ * This function disables tracing for Anthropic API calls.
+ *
+ * @example
+ * ```typescript
+ * import { uninstrumentAnthropic } from "@atla-ai/insights-sdk-js";
+ *
+ * // Disable Anthropic instrumentation
+ * uninstrumentAnthropic();
+ * ```
+ *
+ * @returns void
+ */
+export function uninstrumentAnthropic(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation) {
+		return;
+	}
+
+	insights.unregisterInstrumentations(SERVICE_NAME);
+}
+
+/**
+ * Create a disposable Anthropic instrumentation resource.
+ *
+ * This function enables Anthropic instrumentation and returns a disposable resource
+ * that automatically disables instrumentation when disposed. This is particularly
+ * useful with TypeScript's `using` statement for automatic resource management.
+ *
+ * @example
+ * ```typescript
+ * import { withInstrumentedAnthropic } from "@atla-ai/insights-sdk-js";
+ * import Anthropic from "@anthropic-ai/sdk";
+ *
+ * // Use with using statement (requires TypeScript 5.2+)
+ * {
+ *   using instrumented = withInstrumentedAnthropic();
+ *   const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+ *   // Anthropic calls here will be traced
+ * }
+ * // Anthropic instrumentation automatically disabled here
+ *
+ * // Or manually manage lifecycle
+ * const instrumented = withInstrumentedAnthropic();
+ * try {
+ *   const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+ *   // Anthropic calls here will be traced
+ * } finally {
+ *   instrumented[Symbol.dispose]();
+ * }
+ * ```
+ *
+ * @returns A disposable resource that cleans up Anthropic instrumentation when disposed
+ */
+export function withInstrumentedAnthropic(): { dispose(): void } {
+	instrumentAnthropic();
+	const d = {
+		dispose() {
+			uninstrumentAnthropic();
+		},
+	};
+	// If TS 5.2+ Symbol.dispose exists at runtime, add it for ergonomics
+	try {
+		const sym = (Symbol as unknown as { dispose?: symbol }).dispose;
+		if (sym) {
+			// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+			(d as any)[sym] = d.dispose.bind(d);
+		}
+	} catch {
+		// no-op
+	}
+	return d;
+}
@@ -0,0 +1,285 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	context,
+	createContextKey,
+	diag,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import {
+	InstrumentationBase,
+	type InstrumentationConfig,
+	InstrumentationNodeModuleDefinition,
+	isWrapped,
+} from "@opentelemetry/instrumentation";
+import {
+	INPUT_MIME_TYPE,
+	INPUT_VALUE,
+	LLM_INVOCATION_PARAMETERS,
+	LLM_MODEL_NAME,
+	LLM_PROVIDER,
+	LLM_SYSTEM,
+	LLMProvider,
+	LLMSystem,
+	MimeType,
+	OpenInferenceSpanKind,
+	OUTPUT_MIME_TYPE,
+	OUTPUT_VALUE,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	type AnthropicMessage,
+	type AnthropicMessageCreateParams,
+	type AnthropicStreamEvent,
+	accumulateStreamEvent,
+	getInputMessagesAttributes,
+	getInvocationParameters,
+	getOutputMessageAttributes,
+	getToolsAttributes,
+	getUsageAttributes,
+} from "./attributes";
+import {
+	isAsyncIterable,
+	recordSpanError,
+	setSpanAttributes,
+	wrapAsyncIterator,
+} from "../utils";
+
+export const INSTRUMENTATION_NAME = "@atla-ai/instrumentation-anthropic";
+const INSTRUMENTATION_VERSION = "0.1.0";
+const MODULE_NAME = "@anthropic-ai/sdk";
+const SPAN_NAME = "Anthropic Messages";
+
+/**
+ * Set while `messages.stream` runs, so that the `messages.create` call it
+ * makes under the hood is not traced twice.
+ */
+const MESSAGE_STREAM_KEY = createContextKey("atla-anthropic-message-stream");
+
+export interface AnthropicInstrumentationOptions {
+	instrumentationConfig?: InstrumentationConfig;
+	tracerProvider?: TracerProvider;
+}
+
+/**
+ * OpenInference instrumentation for the Anthropic Messages API.
+ *
+ * Wraps `messages.create` (streaming or not) and `messages.stream` to record
+ * one LLM span per request.
+ */
+export class AnthropicInstrumentation extends InstrumentationBase {
+	private manuallyInstrumentedModules: any[] = [];
+
+	constructor({
+		instrumentationConfig,
+		tracerProvider,
+	}: AnthropicInstrumentationOptions = {}) {
+		super(INSTRUMENTATION_NAME, INSTRUMENTATION_VERSION, {
+			...instrumentationConfig,
+		});
+		if (tracerProvider) {
+			this.setTracerProvider(tracerProvider);
+		}
+	}
+
+	protected init() {
+		return new InstrumentationNodeModuleDefinition(
+			MODULE_NAME,
+			[">=0.20.0"],
+			this.patch.bind(this),
+			this.unpatch.bind(this),
+		);
+	}
+
+	/**
+	 * Manually instrument the Anthropic module. This is needed when the module
+	 * is not loaded via require (e.g. ESM or bundled code).
+	 */
+	manuallyInstrument(module: any): void {
+		diag.debug(`Manually instrumenting ${MODULE_NAME}`);
+		this.patch(module);
+		this.manuallyInstrumentedModules.push(module);
+	}
+
+	override disable(): void {
+		super.disable();
+		for (const module of this.manuallyInstrumentedModules) {
+			this.unpatch(module);
+		}
+		this.manuallyInstrumentedModules = [];
+	}
+
+	private getMessagesPrototype(module: any): any {
+		const Anthropic = module?.Anthropic ?? module?.default ?? module;
+		return Anthropic?.Messages?.prototype;
+	}
+
+	private patch(module: any, moduleVersion?: string): any {
+		diag.debug(`Applying patch for ${MODULE_NAME}@${moduleVersion}`);
+		const prototype = this.getMessagesPrototype(module);
+		if (!prototype) {
+			diag.warn(
+				`Atla Insights: Could not find the ${MODULE_NAME} Messages API`,
+			);
+			return module;
+		}
+
+		// Re-instrumenting replaces the previous wrappers
+		this.unpatch(module);
+
+		const instrumentation = this;
+		this._wrap(
+			prototype,
+			"create",
+			(original: any) =>
+				function patchedCreate(this: any, ...args: any[]) {
+					if (context.active().getValue(MESSAGE_STREAM_KEY)) {
+						return original.apply(this, args);
+					}
+					return instrumentation.traceCreate(original, this, args);
+				},
+		);
+		if (typeof prototype.stream === "function") {
+			this._wrap(
+				prototype,
+				"stream",
+				(original: any) =>
+					function patchedStream(this: any, ...args: any[]) {
+						return instrumentation.traceStream(original, this, args);
+					},
+			);
+		}
+		return module;
+	}
+
+	private unpatch(module: any, moduleVersion?: string): void {
+		diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
+		const prototype = this.getMessagesPrototype(module);
+		if (!prototype) {
+			return;
+		}
+		if (isWrapped(prototype.create)) {
+			this._unwrap(prototype, "create");
+		}
+		if (isWrapped(prototype.stream)) {
+			this._unwrap(prototype, "stream");
+		}
+	}
+
+	private startSpan(params: AnthropicMessageCreateParams): Span {
+		const span = this.tracer.startSpan(SPAN_NAME, {
+			kind: SpanKind.INTERNAL,
+			attributes: {
+				[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+					OpenInferenceSpanKind.LLM,
+				[LLM_SYSTEM]: LLMSystem.ANTHROPIC,
+				[LLM_PROVIDER]: LLMProvider.ANTHROPIC,
+				[INPUT_VALUE]: JSON.stringify(params),
+				[INPUT_MIME_TYPE]: MimeType.JSON,
+				[LLM_INVOCATION_PARAMETERS]: JSON.stringify(
+					getInvocationParameters(params),
+				),
+			},
+		});
+		if (params.model) {
+			span.setAttribute(LLM_MODEL_NAME, params.model);
+		}
+		setSpanAttributes(span, getInputMessagesAttributes(params));
+		setSpanAttributes(span, getToolsAttributes(params.tools));
+		return span;
+	}
+
+	private endSpan(span: Span, message: AnthropicMessage | undefined): void {
+		if (message) {
+			span.setAttribute(OUTPUT_VALUE, JSON.stringify(message));
+			span.setAttribute(OUTPUT_MIME_TYPE, MimeType.JSON);
+			if (message.model) {
+				span.setAttribute(LLM_MODEL_NAME, message.model);
+			}
+			setSpanAttributes(span, getOutputMessageAttributes(message));
+			setSpanAttributes(span, getUsageAttributes(message.usage));
+		}
+		span.setStatus({ code: SpanStatusCode.OK });
+		span.end();
+	}
+
+	private traceCreate(original: any, thisArg: any, args: any[]): any {
+		const params: AnthropicMessageCreateParams = args[0] ?? {};
+		const span = this.startSpan(params);
+
+		let result: any;
+		try {
+			result = context.with(trace.setSpan(context.active(), span), () =>
+				original.apply(thisArg, args),
+			);
+		} catch (error) {
+			recordSpanError(span, error);
+			throw error;
+		}
+
+		// The API promise is returned as is so that its helpers (e.g.
+		// `withResponse`) keep working
+		Promise.resolve(result).then(
+			(response: any) => {
+				if (params.stream && isAsyncIterable(response)) {
+					this.wrapEventStream(span, response);
+				} else {
+					this.endSpan(span, response);
+				}
+			},
+			(error: unknown) => recordSpanError(span, error),
+		);
+		return result;
+	}
+
+	/**
+	 * Record the streamed message once the event stream has been consumed.
+	 */
+	private wrapEventStream(span: Span, stream: any): void {
+		let message: AnthropicMessage | undefined;
+		wrapAsyncIterator<AnthropicStreamEvent>(
+			span,
+			stream,
+			(event) => {
+				message = accumulateStreamEvent(message, event);
+			},
+			() => this.endSpan(span, message),
+		);
+	}
+
+	private traceStream(original: any, thisArg: any, args: any[]): any {
+		const params: AnthropicMessageCreateParams = args[0] ?? {};
+		const span = this.startSpan({ ...params, stream: true });
+
+		let messageStream: any;
+		try {
+			messageStream = context.with(
+				trace
+					.setSpan(context.active(), span)
+					.setValue(MESSAGE_STREAM_KEY, true),
+				() => original.apply(thisArg, args),
+			);
+		} catch (error) {
+			recordSpanError(span, error);
+			throw error;
+		}
+
+		if (typeof messageStream?.on === "function") {
+			messageStream.on("finalMessage", (message: AnthropicMessage) =>
+				this.endSpan(span, message),
+			);
+			messageStream.on("error", (error: unknown) =>
+				recordSpanError(span, error),
+			);
+			messageStream.on("abort", (error: unknown) =>
+				recordSpanError(span, error),
+			);
+		} else {
+			this.endSpan(span, undefined);
+		}
+		return messageStream;
+	}
+}
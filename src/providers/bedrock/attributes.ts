@@ -0,0 +1,344 @@
+import type { AttributeValue } from "@opentelemetry/api";
+import {
+	LLM_INPUT_MESSAGES,
+	LLM_OUTPUT_MESSAGES,
+	LLM_TOKEN_COUNT_COMPLETION,
+	LLM_TOKEN_COUNT_PROMPT,
+	LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ,
+	LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_WRITE,
+	LLM_TOKEN_COUNT_TOTAL,
+	LLM_TOOLS,
+	MESSAGE_CONTENT,
+	MESSAGE_CONTENTS,
+	MESSAGE_CONTENT_TEXT,
+	MESSAGE_CONTENT_TYPE,
+	MESSAGE_ROLE,
+	MESSAGE_TOOL_CALLS,
+	MESSAGE_TOOL_CALL_ID,
+	TOOL_CALL_FUNCTION_ARGUMENTS_JSON,
+	TOOL_CALL_FUNCTION_NAME,
+	TOOL_CALL_ID,
+	TOOL_JSON_SCHEMA,
+} from "@arizeai/openinference-semantic-conventions";
+
+/**
+ * The subset of the Bedrock Converse API types read by the instrumentation.
+ * Amazon Nova models use the same message format with `InvokeModel`.
+ */
+export interface ConverseContentBlock {
+	text?: string;
+	toolUse?: { toolUseId?: string; name?: string; input?: unknown };
+	toolResult?: {
+		toolUseId?: string;
+		content?: { text?: string; json?: unknown }[];
+		status?: string;
+	};
+	reasoningContent?: unknown;
+	[key: string]: unknown;
+}
+
+export interface ConverseMessage {
+	role?: string;
+	content?: ConverseContentBlock[];
+}
+
+export interface ConverseUsage {
+	inputTokens?: number;
+	outputTokens?: number;
+	totalTokens?: number;
+	cacheReadInputTokens?: number;
+	cacheWriteInputTokens?: number;
+}
+
+export interface ConverseRequest {
+	modelId?: string;
+	messages?: ConverseMessage[];
+	system?: { text?: string }[];
+	inferenceConfig?: Record<string, unknown>;
+	toolConfig?: { tools?: { toolSpec?: Record<string, unknown> }[] };
+	additionalModelRequestFields?: Record<string, unknown>;
+	[key: string]: unknown;
+}
+
+export interface ConverseResponse {
+	output?: { message?: ConverseMessage };
+	stopReason?: string;
+	usage?: ConverseUsage;
+	[key: string]: unknown;
+}
+
+export interface ConverseStreamEvent {
+	messageStart?: { role?: string };
+	contentBlockStart?: {
+		contentBlockIndex?: number;
+		start?: { toolUse?: { toolUseId?: string; name?: string } };
+	};
+	contentBlockDelta?: {
+		contentBlockIndex?: number;
+		delta?: { text?: string; toolUse?: { input?: string } };
+	};
+	contentBlockStop?: { contentBlockIndex?: number };
+	messageStop?: { stopReason?: string };
+	metadata?: { usage?: ConverseUsage };
+}
+
+export type Attributes = Generator<[string, AttributeValue]>;
+
+/**
+ * Bedrock returns the token counts of cached prompts separately from the
+ * input tokens, as Anthropic does.
+ */
+export interface TokenCounts {
+	prompt?: number;
+	completion?: number;
+	cacheRead?: number;
+	cacheWrite?: number;
+}
+
+export function* getTokenCountAttributes(counts: TokenCounts): Attributes {
+	if (counts.prompt === undefined && counts.completion === undefined) {
+		return;
+	}
+	const prompt =
+		(counts.prompt ?? 0) + (counts.cacheRead ?? 0) + (counts.cacheWrite ?? 0);
+	const completion = counts.completion ?? 0;
+
+	yield [LLM_TOKEN_COUNT_PROMPT, prompt];
+	yield [LLM_TOKEN_COUNT_COMPLETION, completion];
+	yield [LLM_TOKEN_COUNT_TOTAL, prompt + completion];
+	if (counts.cacheRead !== undefined) {
+		yield [LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ, counts.cacheRead];
+	}
+	if (counts.cacheWrite !== undefined) {
+		yield [LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_WRITE, counts.cacheWrite];
+	}
+}
+
+/**
+ * Get the attributes of a message with a single text content, as recorded
+ * for the models taking a plain prompt.
+ */
+export function* getTextMessageAttributes(
+	prefix: string,
+	role: string,
+	content: string | undefined,
+): Attributes {
+	yield [`${prefix}${MESSAGE_ROLE}`, role];
+	if (content !== undefined && content !== "") {
+		yield [`${prefix}${MESSAGE_CONTENT}`, content];
+	}
+}
+
+function getText(blocks: { text?: string }[] | undefined): string {
+	return (blocks ?? [])
+		.filter((block) => block.text !== undefined)
+		.map((block) => block.text)
+		.join("");
+}
+
+function* getToolUseAttributes(
+	blocks: ConverseContentBlock[],
+	prefix: string,
+): Attributes {
+	let i = 0;
+	for (const block of blocks) {
+		if (!block.toolUse) {
+			continue;
+		}
+		const toolCallPrefix = `${prefix}${MESSAGE_TOOL_CALLS}.${i}.`;
+		const { toolUseId, name, input } = block.toolUse;
+		if (toolUseId) {
+			yield [`${toolCallPrefix}${TOOL_CALL_ID}`, toolUseId];
+		}
+		if (name) {
+			yield [`${toolCallPrefix}${TOOL_CALL_FUNCTION_NAME}`, name];
+		}
+		yield [
+			`${toolCallPrefix}${TOOL_CALL_FUNCTION_ARGUMENTS_JSON}`,
+			JSON.stringify(input ?? {}),
+		];
+		i++;
+	}
+}
+
+function* getTextBlockAttributes(
+	blocks: ConverseContentBlock[],
+	prefix: string,
+): Attributes {
+	let i = 0;
+	for (const block of blocks) {
+		if (block.text === undefined) {
+			continue;
+		}
+		const contentPrefix = `${prefix}${MESSAGE_CONTENTS}.${i}.`;
+		yield [`${contentPrefix}${MESSAGE_CONTENT_TYPE}`, "text"];
+		yield [`${contentPrefix}${MESSAGE_CONTENT_TEXT}`, block.text];
+		i++;
+	}
+}
+
+/**
+ * Get the input message attributes of a Converse request.
+ *
+ * The system prompt is recorded as the first message. Tool results, which
+ * Bedrock sends as user content blocks, are recorded as separate "tool"
+ * messages so that they can be matched with their tool calls.
+ */
+export function* getConverseInputMessagesAttributes(
+	request: ConverseRequest,
+): Attributes {
+	let i = 0;
+	if (request.system && request.system.length > 0) {
+		yield* getTextMessageAttributes(
+			`${LLM_INPUT_MESSAGES}.${i}.`,
+			"system",
+			getText(request.system),
+		);
+		i++;
+	}
+
+	for (const message of request.messages ?? []) {
+		const blocks = message.content ?? [];
+		for (const block of blocks) {
+			if (!block.toolResult) {
+				continue;
+			}
+			const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+			const { toolUseId, content } = block.toolResult;
+			yield [`${prefix}${MESSAGE_ROLE}`, "tool"];
+			if (toolUseId) {
+				yield [`${prefix}${MESSAGE_TOOL_CALL_ID}`, toolUseId];
+			}
+			yield [
+				`${prefix}${MESSAGE_CONTENT}`,
+				(content ?? [])
+					.map((item) =>
+						item.text !== undefined ? item.text : JSON.stringify(item.json),
+					)
+					.join(""),
+			];
+			i++;
+		}
+
+		const otherBlocks = blocks.filter((block) => !block.toolResult);
+		if (otherBlocks.length > 0 || blocks.length === 0) {
+			const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+			yield [`${prefix}${MESSAGE_ROLE}`, message.role ?? "user"];
+			yield* getTextBlockAttributes(otherBlocks, prefix);
+			yield* getToolUseAttributes(otherBlocks, prefix);
+			i++;
+		}
+	}
+}
+
+/**
+ * Get the attributes of the tools available to the model.
+ */
+export function* getConverseToolsAttributes(
+	request: ConverseRequest,
+): Attributes {
+	for (const [i, tool] of (request.toolConfig?.tools ?? []).entries()) {
+		yield [
+			`${LLM_TOOLS}.${i}.${TOOL_JSON_SCHEMA}`,
+			JSON.stringify(tool.toolSpec ?? tool),
+		];
+	}
+}
+
+/**
+ * Get the output message and token count attributes of a Converse response.
+ */
+export function* getConverseOutputAttributes(
+	response: ConverseResponse,
+): Attributes {
+	const message = response.output?.message;
+	if (message) {
+		const prefix = `${LLM_OUTPUT_MESSAGES}.0.`;
+		yield* getTextMessageAttributes(
+			prefix,
+			message.role ?? "assistant",
+			getText(message.content),
+		);
+		yield* getToolUseAttributes(message.content ?? [], prefix);
+	}
+	yield* getTokenCountAttributes({
+		prompt: response.usage?.inputTokens,
+		completion: response.usage?.outputTokens,
+		cacheRead: response.usage?.cacheReadInputTokens,
+		cacheWrite: response.usage?.cacheWriteInputTokens,
+	});
+}
+
+/**
+ * Get the invocation parameters of a Converse request.
+ */
+export function getConverseInvocationParameters(
+	request: ConverseRequest,
+): Record<string, unknown> {
+	return {
+		model: request.modelId,
+		...request.inferenceConfig,
+		...request.additionalModelRequestFields,
+	};
+}
+
+/**
+ * Accumulate a ConverseStream event into the response being streamed.
+ *
+ * The input of a tool call is streamed as JSON fragments, which are parsed
+ * once the content block is complete.
+ */
+export function accumulateConverseStreamEvent(
+	response: ConverseResponse | undefined,
+	event: ConverseStreamEvent,
+): ConverseResponse {
+	const accumulated: ConverseResponse = response ?? {
+		output: { message: { role: "assistant", content: [] } },
+	};
+	const message = accumulated.output?.message as ConverseMessage;
+	const content = message.content as (ConverseContentBlock & {
+		partialJson?: string;
+	})[];
+
+	if (event.messageStart?.role) {
+		message.role = event.messageStart.role;
+	}
+	if (event.contentBlockStart) {
+		const index = event.contentBlockStart.contentBlockIndex ?? content.length;
+		const toolUse = event.contentBlockStart.start?.toolUse;
+		content[index] = toolUse ? { toolUse: { ...toolUse } } : {};
+	}
+	if (event.contentBlockDelta) {
+		const index = event.contentBlockDelta.contentBlockIndex ?? 0;
+		const block = content[index] ?? {};
+		content[index] = block;
+		const delta = event.contentBlockDelta.delta;
+		if (delta?.text !== undefined) {
+			block.text = (block.text ?? "") + delta.text;
+		}
+		if (delta?.toolUse?.input !== undefined) {
+			block.partialJson = (block.partialJson ?? "") + delta.toolUse.input;
+		}
+	}
+	if (event.contentBlockStop) {
+		const block = content[event.contentBlockStop.contentBlockIndex ?? 0];
+		if (block?.partialJson !== undefined) {
+			try {
+				block.toolUse = {
+					...block.toolUse,
+					input: JSON.parse(block.partialJson),
+				};
+			} catch {
+				block.toolUse = { ...block.toolUse, input: block.partialJson };
+			}
+			delete block.partialJson;
+		}
+	}
+	if (event.messageStop?.stopReason) {
+		accumulated.stopReason = event.messageStop.stopReason;
+	}
+	if (event.metadata?.usage) {
+		accumulated.usage = event.metadata.usage;
+	}
+	return accumulated;
+}
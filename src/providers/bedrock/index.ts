@@ -0,0 +1,154 @@
+import { getAtlaContext } from "../../context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { getSharedInstrumentation } from "../../instrumentation_router";
+import { BedrockInstrumentation } from "./instrumentation";
+
+const SERVICE_NAME = "bedrock";
+
+/**
+ * Instrument the AWS Bedrock LLM provider.
+ *
+ * This function enables tracing for all `InvokeModel`,
+ * `InvokeModelWithResponseStream`, `Converse` and `ConverseStream` commands
+ * sent through the official AWS SDK Bedrock Runtime client.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentBedrock } from "@atla-ai/insights-sdk-js";
+ * import {
+ *   BedrockRuntimeClient,
+ *   ConverseCommand,
+ * } from "@aws-sdk/client-bedrock-runtime";
+ *
+ * // Configure Atla Insights first
+ * configure({
+ *   token: process.env.ATLA_API_KEY!,
+ * });
+ *
+ * // Enable Bedrock instrumentation
+ * instrumentBedrock();
+ *
+ * // Use Bedrock as normal - it will be automatically traced
+ * const client = new BedrockRuntimeClient({ region: "us-east-1" });
+ * const response = await client.send(
+ *   new ConverseCommand({
+ *     modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+ *     messages: [{ role: "user", content: [{ text: "Hello!" }] }],
+ *   }),
+ * );
+ * ```
+ *
+ * @param bedrockModule - The Bedrock Runtime module, or an existing `BedrockRuntimeClient`, to instrument. If not provided, the default Bedrock Runtime module will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ *
+ * @returns void
+ */
+export function instrumentBedrock(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	bedrockModule?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation || insights.disabled) {
+		return;
+	}
+
+	if (!insights.configured) {
+		throw new Error(
+			"Atla Insights must be configured before instrumenting Bedrock. " +
+				"Please call configure first.",
+		);
+	}
+
+	// Every client shares the instrumentation of the module
+	const bedrockInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new BedrockInstrumentation({ tracerProvider }),
+	);
+
+	// If a module is provided, manually instrument it
+	if (bedrockModule) {
+		bedrockInstrumentation.manuallyInstrument(bedrockModule);
+	}
+
+	// Register it with OpenTelemetry
+	insights.registerInstrumentations(SERVICE_NAME, [bedrockInstrumentation]);
+}
+
+/**
+ * Uninstrument the AWS Bedrock LLM provider.
+ *
+ * This function disables tracing for Bedrock API calls.
+ *
+ * @example
+ * ```typescript
+ * import { uninstrumentBedrock } from "@atla-ai/insights-sdk-js";
+ *
+ * // Disable Bedrock instrumentation
+ * uninstrumentBedrock();
+ * ```
+ *
+ * @returns void
+ */
+export function uninstrumentBedrock(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation) {
+		return;
+	}
+
+	insights.unregisterInstrumentations(SERVICE_NAME);
+}
+
+/**
+ * Create a disposable Bedrock instrumentation resource.
+ *
+ * This function enables Bedrock instrumentation and returns a disposable resource
+ * that automatically disables instrumentation when disposed. This is particularly
+ * useful with TypeScript's `using` statement for automatic resource management.
+ *
+ * @example
+ * ```typescript
+ * import { withInstrumentedBedrock } from "@atla-ai/insights-sdk-js";
+ * import { BedrockRuntimeClient } from "@aws-sdk/client-bedrock-runtime";
+ *
+ * // Use with using statement (requires TypeScript 5.2+)
+ * {
+ *   using instrumented = withInstrumentedBedrock();
+ *   const client = new BedrockRuntimeClient({ region: "us-east-1" });
+ *   // Bedrock calls here will be traced
+ * }
+ * // Bedrock instrumentation automatically disabled here
+ *
+ * // Or manually manage lifecycle
+ * const instrumented = withInstrumentedBedrock();
+ * try {
+ *   const client = new BedrockRuntimeClient({ region: "us-east-1" });
+ *   // Bedrock calls here will be traced
+ * } finally {
+ *   instrumented[Symbol.dispose]();
+ * }
+ * ```
+ *
+ * @returns A disposable resource that cleans up Bedrock instrumentation when disposed
+ */
+export function withInstrumentedBedrock(): { dispose(): void } {
+	instrumentBedrock();
+	const d = {
+		dispose() {
+			uninstrumentBedrock();
+		},
+	};
+	// If TS 5.2+ Symbol.dispose exists at runtime, add it for ergonomics
+	try {
+		const sym = (Symbol as unknown as { dispose?: symbol }).dispose;
+		if (sym) {
+			// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+			(d as any)[sym] = d.dispose.bind(d);
+		}
+	} catch {
+		// no-op
+	}
+	return d;
+}
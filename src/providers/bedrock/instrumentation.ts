@@ -0,0 +1,415 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	type AttributeValue,
+	context,
+	diag,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import {
+	InstrumentationBase,
+	type InstrumentationConfig,
+	InstrumentationNodeModuleDefinition,
+	isWrapped,
+} from "@opentelemetry/instrumentation";
+import {
+	INPUT_MIME_TYPE,
+	INPUT_VALUE,
+	LLM_INVOCATION_PARAMETERS,
+	LLM_MODEL_NAME,
+	LLM_PROVIDER,
+	LLM_SYSTEM,
+	LLM_TOKEN_COUNT_PROMPT,
+	LLMProvider,
+	MimeType,
+	OpenInferenceSpanKind,
+	OUTPUT_MIME_TYPE,
+	OUTPUT_VALUE,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	accumulateConverseStreamEvent,
+	type ConverseRequest,
+	type ConverseResponse,
+	type ConverseStreamEvent,
+	getConverseInputMessagesAttributes,
+	getConverseInvocationParameters,
+	getConverseOutputAttributes,
+	getConverseToolsAttributes,
+	getTokenCountAttributes,
+} from "./attributes";
+import {
+	decodeBody,
+	getInvokeModelInvocationParameters,
+	getModelFamily,
+	type ModelFamily,
+} from "./models";
+import {
+	isAsyncIterable,
+	recordSpanError,
+	setSpanAttributes,
+	traceAsyncIterable,
+} from "../utils";
+
+export const INSTRUMENTATION_NAME = "@atla-ai/instrumentation-bedrock";
+const INSTRUMENTATION_VERSION = "0.1.0";
+const MODULE_NAME = "@aws-sdk/client-bedrock-runtime";
+
+/**
+ * The token counts Bedrock appends to the last chunk of a streamed
+ * `InvokeModel` response, whatever the model.
+ */
+const INVOCATION_METRICS_KEY = "amazon-bedrock-invocationMetrics";
+
+type Operation =
+	| "InvokeModel"
+	| "InvokeModelWithResponseStream"
+	| "Converse"
+	| "ConverseStream";
+
+/**
+ * The operation of each traced command, by the name the module exports the
+ * command class under. Class names are not used since bundlers rename them.
+ */
+const COMMAND_OPERATIONS: Record<string, Operation> = {
+	InvokeModelCommand: "InvokeModel",
+	InvokeModelWithResponseStreamCommand: "InvokeModelWithResponseStream",
+	ConverseCommand: "Converse",
+	ConverseStreamCommand: "ConverseStream",
+};
+
+export interface BedrockInstrumentationOptions {
+	instrumentationConfig?: InstrumentationConfig;
+	tracerProvider?: TracerProvider;
+}
+
+/**
+ * OpenInference instrumentation for the AWS Bedrock Runtime client.
+ *
+ * Wraps `BedrockRuntimeClient.send` to record one LLM span per
+ * `InvokeModel`, `InvokeModelWithResponseStream`, `Converse` and
+ * `ConverseStream` command. The other commands are sent as is.
+ *
+ * `InvokeModel` bodies are specific to each model provider, so they are
+ * decoded according to the model id (Anthropic, Meta Llama, Amazon Titan and
+ * Nova, Mistral and Cohere models).
+ */
+export class BedrockInstrumentation extends InstrumentationBase {
+	private manuallyInstrumented: any[] = [];
+	private commandOperations = new Map<
+		abstract new (
+			...args: any[]
+		) => unknown,
+		Operation
+	>();
+
+	constructor({
+		instrumentationConfig,
+		tracerProvider,
+	}: BedrockInstrumentationOptions = {}) {
+		super(INSTRUMENTATION_NAME, INSTRUMENTATION_VERSION, {
+			...instrumentationConfig,
+		});
+		if (tracerProvider) {
+			this.setTracerProvider(tracerProvider);
+		}
+	}
+
+	protected init() {
+		return new InstrumentationNodeModuleDefinition(
+			MODULE_NAME,
+			[">=3.0.0"],
+			this.patch.bind(this),
+			this.unpatch.bind(this),
+		);
+	}
+
+	/**
+	 * Manually instrument the Bedrock Runtime module, or a
+	 * `BedrockRuntimeClient` created before instrumentation.
+	 */
+	manuallyInstrument(moduleOrClient: any): void {
+		diag.debug(`Manually instrumenting ${MODULE_NAME}`);
+		if (moduleOrClient?.BedrockRuntimeClient) {
+			this.patch(moduleOrClient);
+		} else {
+			// The commands sent by the client are those of the installed module
+			try {
+				this.registerCommands(require(MODULE_NAME));
+			} catch {
+				diag.warn(
+					`Atla Insights: Could not load ${MODULE_NAME} to recognise the commands of the client`,
+				);
+			}
+			this.patchSend(moduleOrClient);
+		}
+		this.manuallyInstrumented.push(moduleOrClient);
+	}
+
+	override disable(): void {
+		super.disable();
+		for (const moduleOrClient of this.manuallyInstrumented) {
+			if (moduleOrClient?.BedrockRuntimeClient) {
+				this.unpatch(moduleOrClient);
+			} else {
+				this.unpatchSend(moduleOrClient);
+			}
+		}
+		this.manuallyInstrumented = [];
+	}
+
+	private patch(module: any, moduleVersion?: string): any {
+		diag.debug(`Applying patch for ${MODULE_NAME}@${moduleVersion}`);
+		const prototype = module?.BedrockRuntimeClient?.prototype;
+		if (typeof prototype?.send !== "function") {
+			diag.warn(`Atla Insights: Could not find the ${MODULE_NAME} client`);
+			return module;
+		}
+		this.registerCommands(module);
+		this.patchSend(prototype);
+		return module;
+	}
+
+	private registerCommands(module: any): void {
+		for (const [name, operation] of Object.entries(COMMAND_OPERATIONS)) {
+			if (typeof module?.[name] === "function") {
+				this.commandOperations.set(module[name], operation);
+			}
+		}
+	}
+
+	private getOperation(command: unknown): Operation | undefined {
+		for (const [commandClass, operation] of this.commandOperations) {
+			if (command instanceof commandClass) {
+				return operation;
+			}
+		}
+		return undefined;
+	}
+
+	private unpatch(module: any, moduleVersion?: string): void {
+		diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
+		this.unpatchSend(module?.BedrockRuntimeClient?.prototype);
+	}
+
+	private patchSend(target: any): void {
+		if (typeof target?.send !== "function") {
+			return;
+		}
+		// Re-instrumenting replaces the previous wrapper
+		this.unpatchSend(target);
+
+		const instrumentation = this;
+		this._wrap(
+			target,
+			"send",
+			(original: any) =>
+				function patchedSend(this: any, ...args: any[]) {
+					const operation = instrumentation.getOperation(args[0]);
+					// Clients instrumented directly outlive the instrumentation, and
+					// the callback style is left untraced
+					if (
+						!operation ||
+						!instrumentation.isEnabled() ||
+						typeof args[args.length - 1] === "function"
+					) {
+						return original.apply(this, args);
+					}
+					return instrumentation.traceSend(operation, original, this, args);
+				},
+		);
+	}
+
+	private unpatchSend(target: any): void {
+		if (isWrapped(target?.send)) {
+			this._unwrap(target, "send");
+		}
+	}
+
+	private startSpan(
+		operation: Operation,
+		input: Record<string, any>,
+		family: ModelFamily | undefined,
+	): Span {
+		const span = this.tracer.startSpan(`Bedrock ${operation}`, {
+			kind: SpanKind.INTERNAL,
+			attributes: {
+				[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+					OpenInferenceSpanKind.LLM,
+				[LLM_PROVIDER]: LLMProvider.AWS,
+			},
+		});
+		if (input.modelId) {
+			span.setAttribute(LLM_MODEL_NAME, input.modelId);
+		}
+		if (family?.system) {
+			span.setAttribute(LLM_SYSTEM, family.system);
+		}
+
+		if (operation === "Converse" || operation === "ConverseStream") {
+			const request = input as ConverseRequest;
+			span.setAttributes({
+				[INPUT_VALUE]: JSON.stringify(request),
+				[INPUT_MIME_TYPE]: MimeType.JSON,
+				[LLM_INVOCATION_PARAMETERS]: JSON.stringify(
+					getConverseInvocationParameters(request),
+				),
+			});
+			setSpanAttributes(span, getConverseInputMessagesAttributes(request));
+			setSpanAttributes(span, getConverseToolsAttributes(request));
+			return span;
+		}
+
+		const body = decodeBody(input.body);
+		if (body) {
+			span.setAttributes({
+				[INPUT_VALUE]: JSON.stringify(body),
+				[INPUT_MIME_TYPE]: MimeType.JSON,
+				[LLM_INVOCATION_PARAMETERS]: JSON.stringify(
+					getInvokeModelInvocationParameters(input.modelId, body),
+				),
+			});
+			if (family) {
+				setSpanAttributes(span, family.getRequestAttributes(body));
+			}
+		}
+		return span;
+	}
+
+	private endConverseSpan(
+		span: Span,
+		response: ConverseResponse | undefined,
+	): void {
+		if (response) {
+			const { $metadata: _metadata, stream: _stream, ...output } = response;
+			span.setAttribute(OUTPUT_VALUE, JSON.stringify(output));
+			span.setAttribute(OUTPUT_MIME_TYPE, MimeType.JSON);
+			setSpanAttributes(span, getConverseOutputAttributes(response));
+		}
+		span.setStatus({ code: SpanStatusCode.OK });
+		span.end();
+	}
+
+	private endInvokeModelSpan(
+		span: Span,
+		family: ModelFamily | undefined,
+		body: any,
+		metrics?: { inputTokenCount?: number; outputTokenCount?: number },
+	): void {
+		if (body) {
+			span.setAttribute(OUTPUT_VALUE, JSON.stringify(body));
+			span.setAttribute(OUTPUT_MIME_TYPE, MimeType.JSON);
+		}
+		const attributes = new Map<string, AttributeValue>(
+			body && family ? family.getResponseAttributes(body) : [],
+		);
+		// Some models only report their token counts in the invocation metrics
+		if (metrics && !attributes.has(LLM_TOKEN_COUNT_PROMPT)) {
+			for (const [key, value] of getTokenCountAttributes({
+				prompt: metrics.inputTokenCount,
+				completion: metrics.outputTokenCount,
+			})) {
+				attributes.set(key, value);
+			}
+		}
+		setSpanAttributes(span, attributes);
+		span.setStatus({ code: SpanStatusCode.OK });
+		span.end();
+	}
+
+	private traceSend(
+		operation: Operation,
+		original: any,
+		thisArg: any,
+		args: any[],
+	): any {
+		const input = args[0]?.input ?? {};
+		const family = getModelFamily(input.modelId);
+		const span = this.startSpan(operation, input, family);
+
+		let result: any;
+		try {
+			result = context.with(trace.setSpan(context.active(), span), () =>
+				original.apply(thisArg, args),
+			);
+		} catch (error) {
+			recordSpanError(span, error);
+			throw error;
+		}
+
+		return Promise.resolve(result).then(
+			(response: any) => {
+				switch (operation) {
+					case "InvokeModel":
+						this.endInvokeModelSpan(span, family, decodeBody(response?.body));
+						break;
+					case "Converse":
+						this.endConverseSpan(span, response);
+						break;
+					case "InvokeModelWithResponseStream":
+						this.traceInvokeModelStream(span, family, response);
+						break;
+					case "ConverseStream":
+						this.traceConverseStream(span, response);
+						break;
+				}
+				return response;
+			},
+			(error: unknown) => {
+				recordSpanError(span, error);
+				throw error;
+			},
+		);
+	}
+
+	/**
+	 * Replace the event stream of a response with one that records the
+	 * accumulated response once consumed.
+	 */
+	private traceInvokeModelStream(
+		span: Span,
+		family: ModelFamily | undefined,
+		response: any,
+	): void {
+		if (!isAsyncIterable(response?.body)) {
+			this.endInvokeModelSpan(span, family, undefined);
+			return;
+		}
+		let accumulated: any;
+		let metrics: any;
+		response.body = traceAsyncIterable<any>(
+			span,
+			response.body,
+			(event) => {
+				const chunk = decodeBody(event?.chunk?.bytes);
+				if (!chunk) {
+					return;
+				}
+				metrics = chunk[INVOCATION_METRICS_KEY] ?? metrics;
+				accumulated = family
+					? family.accumulateChunk(accumulated, chunk)
+					: chunk;
+			},
+			() => this.endInvokeModelSpan(span, family, accumulated, metrics),
+		);
+	}
+
+	private traceConverseStream(span: Span, response: any): void {
+		if (!isAsyncIterable(response?.stream)) {
+			this.endConverseSpan(span, undefined);
+			return;
+		}
+		let accumulated: ConverseResponse | undefined;
+		response.stream = traceAsyncIterable<ConverseStreamEvent>(
+			span,
+			response.stream,
+			(event) => {
+				accumulated = accumulateConverseStreamEvent(accumulated, event);
+			},
+			() => this.endConverseSpan(span, accumulated),
+		);
+	}
+}
@@ -0,0 +1,382 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Model bodies are untyped JSON */
+import {
+	LLM_INPUT_MESSAGES,
+	LLM_OUTPUT_MESSAGES,
+	LLMSystem,
+	MESSAGE_TOOL_CALLS,
+	MESSAGE_TOOL_CALL_ID,
+	TOOL_CALL_FUNCTION_ARGUMENTS_JSON,
+	TOOL_CALL_FUNCTION_NAME,
+	TOOL_CALL_ID,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	accumulateStreamEvent,
+	getInputMessagesAttributes as getAnthropicInputMessagesAttributes,
+	getOutputMessageAttributes as getAnthropicOutputMessageAttributes,
+	getToolsAttributes as getAnthropicToolsAttributes,
+	getUsageAttributes as getAnthropicUsageAttributes,
+} from "../anthropic/attributes";
+import {
+	accumulateConverseStreamEvent,
+	type Attributes,
+	getConverseInputMessagesAttributes,
+	getConverseOutputAttributes,
+	getConverseToolsAttributes,
+	getTextMessageAttributes,
+	getTokenCountAttributes,
+} from "./attributes";
+
+/**
+ * The decoding of the `InvokeModel` bodies of a model family, whose format
+ * is specific to its provider.
+ */
+export interface ModelFamily {
+	system?: string;
+	/** Get the input message attributes of a request body. */
+	getRequestAttributes(body: any): Attributes;
+	/** Get the output message and token count attributes of a response body. */
+	getResponseAttributes(body: any): Attributes;
+	/**
+	 * Accumulate a streamed chunk into a response body, in the format of a
+	 * non-streamed response.
+	 */
+	accumulateChunk(response: any, chunk: any): any;
+}
+
+/**
+ * The request body fields that hold the prompt rather than the invocation
+ * parameters.
+ */
+const PROMPT_FIELDS = [
+	"messages",
+	"system",
+	"prompt",
+	"inputText",
+	"message",
+	"chat_history",
+	"preamble",
+	"tools",
+	"toolConfig",
+];
+
+function* getPromptAttributes(prompt: unknown): Attributes {
+	if (typeof prompt === "string") {
+		yield* getTextMessageAttributes(`${LLM_INPUT_MESSAGES}.0.`, "user", prompt);
+	}
+}
+
+function* getCompletionAttributes(completion: unknown): Attributes {
+	if (typeof completion === "string") {
+		yield* getTextMessageAttributes(
+			`${LLM_OUTPUT_MESSAGES}.0.`,
+			"assistant",
+			completion,
+		);
+	}
+}
+
+/**
+ * Get the attributes of OpenAI-style chat messages, as used by the Mistral
+ * chat models.
+ */
+function* getChatMessagesAttributes(
+	messages: any[],
+	messagesPrefix: string,
+): Attributes {
+	for (const [i, message] of messages.entries()) {
+		const prefix = `${messagesPrefix}.${i}.`;
+		yield* getTextMessageAttributes(
+			prefix,
+			message.role ?? "user",
+			typeof message.content === "string" ? message.content : undefined,
+		);
+		if (message.tool_call_id) {
+			yield [`${prefix}${MESSAGE_TOOL_CALL_ID}`, message.tool_call_id];
+		}
+		for (const [j, toolCall] of (message.tool_calls ?? []).entries()) {
+			const toolCallPrefix = `${prefix}${MESSAGE_TOOL_CALLS}.${j}.`;
+			if (toolCall.id) {
+				yield [`${toolCallPrefix}${TOOL_CALL_ID}`, toolCall.id];
+			}
+			if (toolCall.function?.name) {
+				yield [
+					`${toolCallPrefix}${TOOL_CALL_FUNCTION_NAME}`,
+					toolCall.function.name,
+				];
+			}
+			const args = toolCall.function?.arguments;
+			yield [
+				`${toolCallPrefix}${TOOL_CALL_FUNCTION_ARGUMENTS_JSON}`,
+				typeof args === "string" ? args : JSON.stringify(args ?? {}),
+			];
+		}
+	}
+}
+
+const anthropic: ModelFamily = {
+	system: LLMSystem.ANTHROPIC,
+	*getRequestAttributes(body) {
+		if (Array.isArray(body.messages)) {
+			yield* getAnthropicInputMessagesAttributes(body);
+			yield* getAnthropicToolsAttributes(body.tools);
+		} else {
+			// Text Completions API of the legacy Claude models
+			yield* getPromptAttributes(body.prompt);
+		}
+	},
+	*getResponseAttributes(body) {
+		if (Array.isArray(body.content)) {
+			yield* getAnthropicOutputMessageAttributes(body);
+			yield* getAnthropicUsageAttributes(body.usage);
+		} else {
+			yield* getCompletionAttributes(body.completion);
+		}
+	},
+	accumulateChunk(response, chunk) {
+		if (chunk.type) {
+			return accumulateStreamEvent(response, chunk);
+		}
+		return {
+			...response,
+			...chunk,
+			completion: (response?.completion ?? "") + (chunk.completion ?? ""),
+		};
+	},
+};
+
+const meta: ModelFamily = {
+	*getRequestAttributes(body) {
+		yield* getPromptAttributes(body.prompt);
+	},
+	*getResponseAttributes(body) {
+		yield* getCompletionAttributes(body.generation);
+		yield* getTokenCountAttributes({
+			prompt: body.prompt_token_count ?? undefined,
+			completion: body.generation_token_count ?? undefined,
+		});
+	},
+	accumulateChunk(response, chunk) {
+		return {
+			generation: (response?.generation ?? "") + (chunk.generation ?? ""),
+			prompt_token_count:
+				chunk.prompt_token_count ?? response?.prompt_token_count,
+			generation_token_count:
+				chunk.generation_token_count ?? response?.generation_token_count,
+			stop_reason: chunk.stop_reason ?? response?.stop_reason,
+		};
+	},
+};
+
+/**
+ * Amazon Titan models take a plain prompt, while Amazon Nova models take
+ * messages in the format of the Converse API.
+ */
+const amazon: ModelFamily = {
+	*getRequestAttributes(body) {
+		if (Array.isArray(body.messages)) {
+			yield* getConverseInputMessagesAttributes(body);
+			yield* getConverseToolsAttributes(body);
+		} else {
+			yield* getPromptAttributes(body.inputText);
+		}
+	},
+	*getResponseAttributes(body) {
+		if (body.output) {
+			yield* getConverseOutputAttributes(body);
+			return;
+		}
+		const result = body.results?.[0];
+		yield* getCompletionAttributes(result?.outputText);
+		yield* getTokenCountAttributes({
+			prompt: body.inputTextTokenCount,
+			completion: result?.tokenCount,
+		});
+	},
+	accumulateChunk(response, chunk) {
+		if (chunk.outputText === undefined) {
+			return accumulateConverseStreamEvent(response, chunk);
+		}
+		const result = response?.results?.[0];
+		return {
+			inputTextTokenCount:
+				chunk.inputTextTokenCount ?? response?.inputTextTokenCount,
+			results: [
+				{
+					outputText: (result?.outputText ?? "") + chunk.outputText,
+					tokenCount: chunk.totalOutputTextTokenCount ?? result?.tokenCount,
+					completionReason: chunk.completionReason ?? result?.completionReason,
+				},
+			],
+		};
+	},
+};
+
+/**
+ * Mistral chat models take OpenAI-style messages, while the older models take
+ * a plain prompt.
+ */
+const mistral: ModelFamily = {
+	system: LLMSystem.MISTRALAI,
+	*getRequestAttributes(body) {
+		if (Array.isArray(body.messages)) {
+			yield* getChatMessagesAttributes(body.messages, LLM_INPUT_MESSAGES);
+		} else {
+			yield* getPromptAttributes(body.prompt);
+		}
+	},
+	*getResponseAttributes(body) {
+		if (Array.isArray(body.choices)) {
+			yield* getChatMessagesAttributes(
+				body.choices.map((choice: any) => choice.message ?? {}),
+				LLM_OUTPUT_MESSAGES,
+			);
+			yield* getTokenCountAttributes({
+				prompt: body.usage?.prompt_tokens,
+				completion: body.usage?.completion_tokens,
+			});
+		} else {
+			yield* getCompletionAttributes(body.outputs?.[0]?.text);
+		}
+	},
+	accumulateChunk(response, chunk) {
+		if (Array.isArray(chunk.choices)) {
+			const choice = chunk.choices[0] ?? {};
+			const message = response?.choices?.[0]?.message ?? {
+				role: "assistant",
+				content: "",
+			};
+			const delta = choice.delta ?? choice.message ?? {};
+			return {
+				choices: [
+					{
+						message: {
+							...message,
+							content: message.content + (delta.content ?? ""),
+							tool_calls: delta.tool_calls ?? message.tool_calls,
+						},
+						finish_reason: choice.finish_reason ?? choice.stop_reason,
+					},
+				],
+				usage: chunk.usage ?? response?.usage,
+			};
+		}
+		const output = response?.outputs?.[0];
+		return {
+			outputs: [
+				{
+					text: (output?.text ?? "") + (chunk.outputs?.[0]?.text ?? ""),
+					stop_reason: chunk.outputs?.[0]?.stop_reason ?? output?.stop_reason,
+				},
+			],
+		};
+	},
+};
+
+const COHERE_ROLES: Record<string, string> = {
+	USER: "user",
+	CHATBOT: "assistant",
+	SYSTEM: "system",
+};
+
+/**
+ * Cohere Command R models take a message with a chat history, while the older
+ * Command models take a plain prompt.
+ */
+const cohere: ModelFamily = {
+	system: LLMSystem.COHERE,
+	*getRequestAttributes(body) {
+		if (body.message === undefined) {
+			yield* getPromptAttributes(body.prompt);
+			return;
+		}
+		const messages = [
+			...(body.preamble !== undefined
+				? [{ role: "system", content: body.preamble }]
+				: []),
+			...(body.chat_history ?? []).map((message: any) => ({
+				role: COHERE_ROLES[message.role] ?? message.role,
+				content: message.message,
+			})),
+			{ role: "user", content: body.message },
+		];
+		yield* getChatMessagesAttributes(messages, LLM_INPUT_MESSAGES);
+	},
+	*getResponseAttributes(body) {
+		yield* getCompletionAttributes(body.text ?? body.generations?.[0]?.text);
+		yield* getTokenCountAttributes({
+			prompt: body.meta?.billed_units?.input_tokens,
+			completion: body.meta?.billed_units?.output_tokens,
+		});
+	},
+	accumulateChunk(response, chunk) {
+		if (chunk.event_type === "stream-end" && chunk.response) {
+			return chunk.response;
+		}
+		return {
+			...response,
+			text:
+				(response?.text ?? "") +
+				(chunk.text ?? chunk.generations?.[0]?.text ?? ""),
+		};
+	},
+};
+
+const MODEL_FAMILIES = new Map<string, ModelFamily>([
+	["anthropic", anthropic],
+	["meta", meta],
+	["amazon", amazon],
+	["mistral", mistral],
+	["cohere", cohere],
+]);
+
+/**
+ * Get the model family of a model id, e.g. "anthropic" for
+ * "anthropic.claude-3-haiku-20240307-v1:0". Cross-region inference profiles
+ * (e.g. "us.anthropic.claude-...") and model ARNs are supported.
+ */
+export function getModelFamily(
+	modelId: string | undefined,
+): ModelFamily | undefined {
+	for (const segment of (modelId ?? "").split(/[.:/]/)) {
+		const family = MODEL_FAMILIES.get(segment);
+		if (family) {
+			return family;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Get the invocation parameters of an `InvokeModel` request body, i.e.
+ * everything but the prompt.
+ */
+export function getInvokeModelInvocationParameters(
+	modelId: string | undefined,
+	body: Record<string, unknown>,
+): Record<string, unknown> {
+	const parameters: Record<string, unknown> = { model: modelId };
+	for (const [key, value] of Object.entries(body)) {
+		if (!PROMPT_FIELDS.includes(key)) {
+			parameters[key] = value;
+		}
+	}
+	return parameters;
+}
+
+/**
+ * Decode an `InvokeModel` body, which is a JSON string or its UTF-8 bytes.
+ */
+export function decodeBody(body: unknown): any {
+	if (body === undefined || body === null) {
+		return undefined;
+	}
+	const text =
+		typeof body === "string"
+			? body
+			: new TextDecoder().decode(body as Uint8Array);
+	try {
+		return JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,266 @@
+import type { AttributeValue } from "@opentelemetry/api";
+import {
+	LLM_INPUT_MESSAGES,
+	LLM_OUTPUT_MESSAGES,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	accumulateToolCallDeltas,
+	type ChatContentPart,
+	type ChatMessage,
+	type ChatToolCall,
+	getMessagesAttributes,
+	getToolsAttributes,
+	getUsageAttributes,
+} from "../messages";
+
+/**
+ * The subset of the `cohere-ai` chat types read by the instrumentation.
+ *
+ * The v1 API (`CohereClient`) takes a message with its chat history and
+ * returns a text, while the v2 API (`CohereClientV2`) follows the OpenAI
+ * message format.
+ */
+export interface CohereV1ToolCall {
+	name: string;
+	parameters?: Record<string, unknown>;
+}
+
+export interface CohereV1ToolResult {
+	call: CohereV1ToolCall;
+	outputs?: Record<string, unknown>[];
+}
+
+export interface CohereV1Message {
+	role: "USER" | "CHATBOT" | "SYSTEM" | "TOOL";
+	message?: string;
+	toolCalls?: CohereV1ToolCall[];
+	toolResults?: CohereV1ToolResult[];
+}
+
+export interface CohereUsage {
+	billedUnits?: { inputTokens?: number; outputTokens?: number };
+	tokens?: { inputTokens?: number; outputTokens?: number };
+}
+
+export interface CohereV2Message {
+	role: string;
+	content?: string | ChatContentPart[];
+	toolCalls?: ChatToolCall[];
+	toolCallId?: string;
+	toolPlan?: string;
+}
+
+export interface CohereChatRequest {
+	model?: string;
+	/** The message of a v1 request. */
+	message?: string;
+	chatHistory?: CohereV1Message[];
+	preamble?: string;
+	toolResults?: CohereV1ToolResult[];
+	/** The messages of a v2 request. */
+	messages?: CohereV2Message[];
+	tools?: Record<string, unknown>[];
+	[key: string]: unknown;
+}
+
+export interface CohereChatResponse {
+	/** The text and tool calls of a v1 response. */
+	text?: string;
+	toolCalls?: CohereV1ToolCall[];
+	meta?: CohereUsage;
+	/** The message and usage of a v2 response. */
+	id?: string;
+	message?: CohereV2Message;
+	usage?: CohereUsage;
+	finishReason?: string;
+}
+
+/**
+ * A v1 (`eventType`) or v2 (`type`) stream event.
+ */
+export interface CohereStreamEvent {
+	eventType?: string;
+	text?: string;
+	toolCalls?: CohereV1ToolCall[];
+	response?: CohereChatResponse;
+	type?: string;
+	id?: string;
+	index?: number;
+	delta?: {
+		message?: {
+			content?: { text?: string };
+			toolCalls?: ChatToolCall;
+		};
+		finishReason?: string;
+		usage?: CohereUsage;
+	};
+}
+
+type Attributes = Generator<[string, AttributeValue]>;
+
+const V1_ROLES = new Map<string, string>([
+	["USER", "user"],
+	["CHATBOT", "assistant"],
+	["SYSTEM", "system"],
+	["TOOL", "tool"],
+]);
+
+function toChatToolCall(toolCall: CohereV1ToolCall): ChatToolCall {
+	return {
+		type: "function",
+		function: { name: toolCall.name, arguments: toolCall.parameters ?? {} },
+	};
+}
+
+function toToolResultMessages(
+	toolResults: CohereV1ToolResult[] | undefined,
+): ChatMessage[] {
+	return (toolResults ?? []).map((toolResult) => ({
+		role: "tool",
+		content: JSON.stringify(toolResult.outputs ?? []),
+	}));
+}
+
+function getV1InputMessages(request: CohereChatRequest): ChatMessage[] {
+	const messages: ChatMessage[] = [];
+	if (request.preamble) {
+		messages.push({ role: "system", content: request.preamble });
+	}
+	for (const message of request.chatHistory ?? []) {
+		if (message.role === "TOOL") {
+			messages.push(...toToolResultMessages(message.toolResults));
+			continue;
+		}
+		messages.push({
+			role: V1_ROLES.get(message.role) ?? message.role.toLowerCase(),
+			content: message.message,
+			toolCalls: message.toolCalls?.map(toChatToolCall),
+		});
+	}
+	if (request.message) {
+		messages.push({ role: "user", content: request.message });
+	}
+	messages.push(...toToolResultMessages(request.toolResults));
+	return messages;
+}
+
+function toChatMessage(message: CohereV2Message): ChatMessage {
+	return {
+		role: message.role,
+		content: message.content,
+		toolCallId: message.toolCallId,
+		toolCalls: message.toolCalls,
+	};
+}
+
+/**
+ * Whether a request is made to the v2 API.
+ */
+export function isV2Request(request: CohereChatRequest): boolean {
+	return Array.isArray(request.messages);
+}
+
+/**
+ * Get the input message and tool attributes of a v1 or v2 request.
+ */
+export function* getRequestAttributes(request: CohereChatRequest): Attributes {
+	yield* getMessagesAttributes(
+		LLM_INPUT_MESSAGES,
+		isV2Request(request)
+			? (request.messages ?? []).map(toChatMessage)
+			: getV1InputMessages(request),
+	);
+	yield* getToolsAttributes(request.tools);
+}
+
+/**
+ * Get the output message and token count attributes of a v1 or v2 response.
+ */
+export function* getResponseAttributes(
+	response: CohereChatResponse,
+): Attributes {
+	const output: ChatMessage = response.message
+		? toChatMessage(response.message)
+		: {
+				role: "assistant",
+				content: response.text,
+				toolCalls: response.toolCalls?.map(toChatToolCall),
+			};
+	yield* getMessagesAttributes(LLM_OUTPUT_MESSAGES, [output]);
+
+	const usage = response.usage ?? response.meta;
+	const tokens = usage?.tokens ?? usage?.billedUnits;
+	yield* getUsageAttributes({
+		prompt: tokens?.inputTokens,
+		completion: tokens?.outputTokens,
+	});
+}
+
+/**
+ * Get the invocation parameters of a request, i.e. everything but the
+ * messages.
+ */
+export function getInvocationParameters(
+	request: CohereChatRequest,
+): Record<string, unknown> {
+	const {
+		message: _message,
+		chatHistory: _chatHistory,
+		preamble: _preamble,
+		toolResults: _toolResults,
+		messages: _messages,
+		...parameters
+	} = request;
+	return parameters;
+}
+
+/**
+ * Accumulate a v1 or v2 stream event into the response being streamed.
+ *
+ * The v1 stream ends with the full response, which replaces the accumulated
+ * one.
+ */
+export function accumulateStreamEvent(
+	response: CohereChatResponse | undefined,
+	event: CohereStreamEvent,
+): CohereChatResponse {
+	const accumulated: CohereChatResponse = response ?? {};
+	switch (event.eventType ?? event.type) {
+		case "text-generation":
+			accumulated.text = `${accumulated.text ?? ""}${event.text ?? ""}`;
+			break;
+		case "tool-calls-generation":
+			accumulated.toolCalls = event.toolCalls;
+			break;
+		case "stream-end":
+			return event.response ?? accumulated;
+		case "message-start":
+			accumulated.id = event.id;
+			accumulated.message = { role: "assistant" };
+			break;
+		case "content-delta": {
+			const message = accumulated.message ?? { role: "assistant" };
+			const text = typeof message.content === "string" ? message.content : "";
+			message.content = `${text}${event.delta?.message?.content?.text ?? ""}`;
+			accumulated.message = message;
+			break;
+		}
+		case "tool-call-start":
+		case "tool-call-delta": {
+			const message = accumulated.message ?? { role: "assistant" };
+			const toolCall = event.delta?.message?.toolCalls;
+			if (toolCall) {
+				message.toolCalls = accumulateToolCallDeltas(message.toolCalls, [
+					{ ...toolCall, index: event.index },
+				]);
+			}
+			accumulated.message = message;
+			break;
+		}
+		case "message-end":
+			accumulated.finishReason = event.delta?.finishReason;
+			accumulated.usage = event.delta?.usage;
+			break;
+	}
+	return accumulated;
+}
@@ -0,0 +1,149 @@
+import { getAtlaContext } from "../../context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { getSharedInstrumentation } from "../../instrumentation_router";
+import { CohereInstrumentation } from "./instrumentation";
+
+const SERVICE_NAME = "cohere";
+
+/**
+ * Instrument the Cohere LLM provider.
+ *
+ * This function enables tracing for all Cohere chat calls (`chat` and
+ * `chatStream`) made through the v1 and v2 clients of the official Cohere
+ * JavaScript/TypeScript SDK.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentCohere } from "@atla-ai/insights-sdk-js";
+ * import { CohereClientV2 } from "cohere-ai";
+ *
+ * // Configure Atla Insights first
+ * configure({
+ *   token: process.env.ATLA_API_KEY!,
+ * });
+ *
+ * // Enable Cohere instrumentation
+ * instrumentCohere();
+ *
+ * // Use Cohere as normal - it will be automatically traced
+ * const cohere = new CohereClientV2({ token: process.env.CO_API_KEY });
+ * const response = await cohere.chat({
+ *   model: "command-r-plus",
+ *   messages: [{ role: "user", content: "Hello!" }],
+ * });
+ * ```
+ *
+ * @param cohereModule - The Cohere module, or an existing client, to instrument. If not provided, the default Cohere module will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ *
+ * @returns void
+ */
+export function instrumentCohere(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	cohereModule?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation || insights.disabled) {
+		return;
+	}
+
+	if (!insights.configured) {
+		throw new Error(
+			"Atla Insights must be configured before instrumenting Cohere. " +
+				"Please call configure first.",
+		);
+	}
+
+	// Every client shares the instrumentation of the module
+	const cohereInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new CohereInstrumentation({ tracerProvider }),
+	);
+
+	// If a module is provided, manually instrument it
+	if (cohereModule) {
+		cohereInstrumentation.manuallyInstrument(cohereModule);
+	}
+
+	// Register it with OpenTelemetry
+	insights.registerInstrumentations(SERVICE_NAME, [cohereInstrumentation]);
+}
+
+/**
+ * Uninstrument the Cohere LLM provider.
+ *
+ * This function disables tracing for Cohere API calls.
+ *
+ * @example
+ * ```typescript
+ * import { uninstrumentCohere } from "@atla-ai/insights-sdk-js";
+ *
+ * // Disable Cohere instrumentation
+ * uninstrumentCohere();
+ * ```
+ *
+ * @returns void
+ */
+export function uninstrumentCohere(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation) {
+		return;
+	}
+
+	insights.unregisterInstrumentations(SERVICE_NAME);
+}
+
+/**
+ * Create a disposable Cohere instrumentation resource.
+ *
+ * This function enables Cohere instrumentation and returns a disposable resource
+ * that automatically disables instrumentation when disposed. This is particularly
+ * useful with TypeScript's `using` statement for automatic resource management.
+ *
+ * @example
+ * ```typescript
+ * import { withInstrumentedCohere } from "@atla-ai/insights-sdk-js";
+ * import { CohereClientV2 } from "cohere-ai";
+ *
+ * // Use with using statement (requires TypeScript 5.2+)
+ * {
+ *   using instrumented = withInstrumentedCohere();
+ *   const cohere = new CohereClientV2({ token: process.env.CO_API_KEY });
+ *   // Cohere calls here will be traced
+ * }
+ * // Cohere instrumentation automatically disabled here
+ *
+ * // Or manually manage lifecycle
+ * const instrumented = withInstrumentedCohere();
+ * try {
+ *   const cohere = new CohereClientV2({ token: process.env.CO_API_KEY });
+ *   // Cohere calls here will be traced
+ * } finally {
+ *   instrumented[Symbol.dispose]();
+ * }
+ * ```
+ *
+ * @returns A disposable resource that cleans up Cohere instrumentation when disposed
+ */
+export function withInstrumentedCohere(): { dispose(): void } {
+	instrumentCohere();
+	const d = {
+		dispose() {
+			uninstrumentCohere();
+		},
+	};
+	// If TS 5.2+ Symbol.dispose exists at runtime, add it for ergonomics
+	try {
+		const sym = (Symbol as unknown as { dispose?: symbol }).dispose;
+		if (sym) {
+			// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+			(d as any)[sym] = d.dispose.bind(d);
+		}
+	} catch {
+		// no-op
+	}
+	return d;
+}
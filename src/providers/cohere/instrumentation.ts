@@ -0,0 +1,263 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	context,
+	diag,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import {
+	InstrumentationBase,
+	type InstrumentationConfig,
+	InstrumentationNodeModuleDefinition,
+	isWrapped,
+} from "@opentelemetry/instrumentation";
+import {
+	INPUT_MIME_TYPE,
+	INPUT_VALUE,
+	LLM_INVOCATION_PARAMETERS,
+	LLM_MODEL_NAME,
+	LLM_PROVIDER,
+	LLM_SYSTEM,
+	LLMProvider,
+	LLMSystem,
+	MimeType,
+	OpenInferenceSpanKind,
+	OUTPUT_MIME_TYPE,
+	OUTPUT_VALUE,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	accumulateStreamEvent,
+	type CohereChatRequest,
+	type CohereChatResponse,
+	type CohereStreamEvent,
+	getInvocationParameters,
+	getRequestAttributes,
+	getResponseAttributes,
+} from "./attributes";
+import {
+	isAsyncIterable,
+	recordSpanError,
+	setSpanAttributes,
+	wrapAsyncIterator,
+} from "../utils";
+
+export const INSTRUMENTATION_NAME = "@atla-ai/instrumentation-cohere";
+const INSTRUMENTATION_VERSION = "0.1.0";
+const MODULE_NAME = "cohere-ai";
+const CLIENTS = ["CohereClient", "CohereClientV2"];
+const METHODS = ["chat", "chatStream"];
+
+export interface CohereInstrumentationOptions {
+	instrumentationConfig?: InstrumentationConfig;
+	tracerProvider?: TracerProvider;
+}
+
+/**
+ * OpenInference instrumentation for the Cohere SDK.
+ *
+ * Wraps `chat` and `chatStream` of both the v1 (`CohereClient`) and v2
+ * (`CohereClientV2`) clients to record one LLM span per request.
+ *
+ * Depending on the SDK version, the methods of a client are defined on its
+ * prototype or on the client itself, so the client classes are wrapped to
+ * instrument the clients they create. Existing clients can be instrumented
+ * directly instead.
+ */
+export class CohereInstrumentation extends InstrumentationBase {
+	private manuallyInstrumented: any[] = [];
+
+	constructor({
+		instrumentationConfig,
+		tracerProvider,
+	}: CohereInstrumentationOptions = {}) {
+		super(INSTRUMENTATION_NAME, INSTRUMENTATION_VERSION, {
+			...instrumentationConfig,
+		});
+		if (tracerProvider) {
+			this.setTracerProvider(tracerProvider);
+		}
+	}
+
+	protected init() {
+		return new InstrumentationNodeModuleDefinition(
+			MODULE_NAME,
+			[">=7.0.0"],
+			this.patch.bind(this),
+			this.unpatch.bind(this),
+		);
+	}
+
+	/**
+	 * Manually instrument the Cohere module, or a client created before
+	 * instrumentation.
+	 */
+	manuallyInstrument(moduleOrClient: any): void {
+		diag.debug(`Manually instrumenting ${MODULE_NAME}`);
+		if (typeof moduleOrClient?.chat === "function") {
+			this.patchClient(moduleOrClient);
+		} else {
+			this.patch(moduleOrClient);
+		}
+		this.manuallyInstrumented.push(moduleOrClient);
+	}
+
+	override disable(): void {
+		super.disable();
+		for (const moduleOrClient of this.manuallyInstrumented) {
+			if (typeof moduleOrClient?.chat === "function") {
+				this.unpatchClient(moduleOrClient);
+			} else {
+				this.unpatch(moduleOrClient);
+			}
+		}
+		this.manuallyInstrumented = [];
+	}
+
+	private patch(module: any, moduleVersion?: string): any {
+		diag.debug(`Applying patch for ${MODULE_NAME}@${moduleVersion}`);
+		const clients = CLIENTS.filter(
+			(name) => typeof module?.[name] === "function",
+		);
+		if (clients.length === 0) {
+			diag.warn(`Atla Insights: Could not find the ${MODULE_NAME} clients`);
+			return module;
+		}
+
+		// Re-instrumenting replaces the previous wrappers
+		this.unpatch(module);
+
+		const instrumentation = this;
+		for (const name of clients) {
+			this._wrap(
+				module,
+				name,
+				(Original: any) =>
+					class extends Original {
+						constructor(...args: any[]) {
+							super(...args);
+							instrumentation.patchClient(this);
+						}
+					},
+			);
+		}
+		return module;
+	}
+
+	private unpatch(module: any, moduleVersion?: string): void {
+		diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
+		for (const name of CLIENTS) {
+			if (isWrapped(module?.[name])) {
+				this._unwrap(module, name);
+			}
+		}
+	}
+
+	private patchClient(client: any): void {
+		this.unpatchClient(client);
+
+		const instrumentation = this;
+		for (const method of METHODS) {
+			if (typeof client[method] !== "function") {
+				continue;
+			}
+			this._wrap(
+				client,
+				method,
+				(original: any) =>
+					function patchedMethod(this: any, ...args: any[]) {
+						// Clients created while enabled outlive the instrumentation
+						if (!instrumentation.isEnabled()) {
+							return original.apply(this, args);
+						}
+						return instrumentation.traceChat(method, original, this, args);
+					},
+			);
+		}
+	}
+
+	private unpatchClient(client: any): void {
+		for (const method of METHODS) {
+			if (isWrapped(client?.[method])) {
+				this._unwrap(client, method);
+			}
+		}
+	}
+
+	private startSpan(method: string, request: CohereChatRequest): Span {
+		const span = this.tracer.startSpan(`Cohere ${method}`, {
+			kind: SpanKind.INTERNAL,
+			attributes: {
+				[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+					OpenInferenceSpanKind.LLM,
+				[LLM_SYSTEM]: LLMSystem.COHERE,
+				[LLM_PROVIDER]: LLMProvider.COHERE,
+				[INPUT_VALUE]: JSON.stringify(request),
+				[INPUT_MIME_TYPE]: MimeType.JSON,
+				[LLM_INVOCATION_PARAMETERS]: JSON.stringify(
+					getInvocationParameters(request),
+				),
+			},
+		});
+		if (request.model) {
+			span.setAttribute(LLM_MODEL_NAME, request.model);
+		}
+		setSpanAttributes(span, getRequestAttributes(request));
+		return span;
+	}
+
+	private endSpan(span: Span, response: CohereChatResponse | undefined): void {
+		if (response) {
+			span.setAttribute(OUTPUT_VALUE, JSON.stringify(response));
+			span.setAttribute(OUTPUT_MIME_TYPE, MimeType.JSON);
+			setSpanAttributes(span, getResponseAttributes(response));
+		}
+		span.setStatus({ code: SpanStatusCode.OK });
+		span.end();
+	}
+
+	private traceChat(
+		method: string,
+		original: any,
+		thisArg: any,
+		args: any[],
+	): any {
+		const request: CohereChatRequest = args[0] ?? {};
+		const span = this.startSpan(method, request);
+
+		let result: any;
+		try {
+			result = context.with(trace.setSpan(context.active(), span), () =>
+				original.apply(thisArg, args),
+			);
+		} catch (error) {
+			recordSpanError(span, error);
+			throw error;
+		}
+
+		// The API promise is returned as is so that its helpers (e.g.
+		// `withRawResponse`) keep working
+		Promise.resolve(result).then(
+			(response: any) => {
+				if (!isAsyncIterable(response)) {
+					this.endSpan(span, response);
+					return;
+				}
+				let accumulated: CohereChatResponse | undefined;
+				wrapAsyncIterator<CohereStreamEvent>(
+					span,
+					response as AsyncIterable<CohereStreamEvent>,
+					(event) => {
+						accumulated = accumulateStreamEvent(accumulated, event);
+					},
+					() => this.endSpan(span, accumulated),
+				);
+			},
+			(error: unknown) => recordSpanError(span, error),
+		);
+		return result;
+	}
+}
@@ -0,0 +1,371 @@
+import type { AttributeValue } from "@opentelemetry/api";
+import {
+	LLM_INPUT_MESSAGES,
+	LLM_OUTPUT_MESSAGES,
+	LLM_TOKEN_COUNT_COMPLETION,
+	LLM_TOKEN_COUNT_COMPLETION_DETAILS_REASONING,
+	LLM_TOKEN_COUNT_PROMPT,
+	LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ,
+	LLM_TOKEN_COUNT_TOTAL,
+	LLM_TOOLS,
+	MESSAGE_CONTENT,
+	MESSAGE_CONTENTS,
+	MESSAGE_CONTENT_TEXT,
+	MESSAGE_CONTENT_TYPE,
+	MESSAGE_ROLE,
+	MESSAGE_TOOL_CALLS,
+	MESSAGE_TOOL_CALL_ID,
+	TOOL_CALL_FUNCTION_ARGUMENTS_JSON,
+	TOOL_CALL_FUNCTION_NAME,
+	TOOL_CALL_ID,
+	TOOL_JSON_SCHEMA,
+} from "@arizeai/openinference-semantic-conventions";
+
+/**
+ * The safety ratings of the first candidate, as a JSON array.
+ */
+export const LLM_SAFETY_RATINGS = "llm.safety_ratings";
+
+/**
+ * The subset of the `@google/genai` types read by the instrumentation.
+ */
+export interface GenAIPart {
+	text?: string;
+	thought?: boolean;
+	functionCall?: { id?: string; name?: string; args?: unknown };
+	functionResponse?: { id?: string; name?: string; response?: unknown };
+	[key: string]: unknown;
+}
+
+export interface GenAIContent {
+	role?: string;
+	parts?: GenAIPart[];
+}
+
+export type GenAIContentListUnion =
+	| string
+	| GenAIPart
+	| GenAIContent
+	| (string | GenAIPart | GenAIContent)[];
+
+export interface GenAIGenerateContentParameters {
+	model?: string;
+	contents?: GenAIContentListUnion;
+	config?: {
+		systemInstruction?: string | GenAIPart | GenAIContent;
+		tools?: { functionDeclarations?: Record<string, unknown>[] }[];
+		[key: string]: unknown;
+	};
+}
+
+export interface GenAISafetyRating {
+	category?: string;
+	probability?: string;
+	blocked?: boolean;
+	[key: string]: unknown;
+}
+
+export interface GenAICandidate {
+	content?: GenAIContent;
+	finishReason?: string;
+	index?: number;
+	safetyRatings?: GenAISafetyRating[];
+}
+
+export interface GenAIUsageMetadata {
+	promptTokenCount?: number;
+	candidatesTokenCount?: number;
+	cachedContentTokenCount?: number;
+	thoughtsTokenCount?: number;
+	totalTokenCount?: number;
+}
+
+export interface GenAIGenerateContentResponse {
+	candidates?: GenAICandidate[];
+	modelVersion?: string;
+	usageMetadata?: GenAIUsageMetadata;
+	promptFeedback?: unknown;
+}
+
+type Attributes = Generator<[string, AttributeValue]>;
+
+function isContent(value: unknown): value is GenAIContent {
+	return typeof value === "object" && value !== null && "parts" in value;
+}
+
+function toPart(value: string | GenAIPart): GenAIPart {
+	return typeof value === "string" ? { text: value } : value;
+}
+
+/**
+ * Normalize the `contents` of a request into a list of contents, the same way
+ * the SDK does: strings and parts are grouped into a single user content.
+ */
+export function normalizeContents(
+	contents: GenAIContentListUnion | undefined,
+): GenAIContent[] {
+	if (contents === undefined) {
+		return [];
+	}
+	const items = Array.isArray(contents) ? contents : [contents];
+	const normalized: GenAIContent[] = [];
+	let pendingParts: GenAIPart[] = [];
+	for (const item of items) {
+		if (isContent(item)) {
+			if (pendingParts.length > 0) {
+				normalized.push({ role: "user", parts: pendingParts });
+				pendingParts = [];
+			}
+			normalized.push(item);
+		} else {
+			pendingParts.push(toPart(item));
+		}
+	}
+	if (pendingParts.length > 0) {
+		normalized.push({ role: "user", parts: pendingParts });
+	}
+	return normalized;
+}
+
+/**
+ * Gemini calls the assistant role "model".
+ */
+function getRole(role: string | undefined): string {
+	return role === "model" ? "assistant" : (role ?? "user");
+}
+
+function getText(parts: GenAIPart[]): string {
+	return parts
+		.filter((part) => part.text !== undefined && !part.thought)
+		.map((part) => part.text)
+		.join("");
+}
+
+function* getFunctionCallAttributes(
+	parts: GenAIPart[],
+	prefix: string,
+): Attributes {
+	let i = 0;
+	for (const part of parts) {
+		if (!part.functionCall) {
+			continue;
+		}
+		const toolCallPrefix = `${prefix}${MESSAGE_TOOL_CALLS}.${i}.`;
+		const { id, name, args } = part.functionCall;
+		if (id) {
+			yield [`${toolCallPrefix}${TOOL_CALL_ID}`, id];
+		}
+		if (name) {
+			yield [`${toolCallPrefix}${TOOL_CALL_FUNCTION_NAME}`, name];
+		}
+		yield [
+			`${toolCallPrefix}${TOOL_CALL_FUNCTION_ARGUMENTS_JSON}`,
+			JSON.stringify(args ?? {}),
+		];
+		i++;
+	}
+}
+
+function* getTextPartAttributes(
+	parts: GenAIPart[],
+	prefix: string,
+): Attributes {
+	let i = 0;
+	for (const part of parts) {
+		if (part.text === undefined || part.thought) {
+			continue;
+		}
+		const contentPrefix = `${prefix}${MESSAGE_CONTENTS}.${i}.`;
+		yield [`${contentPrefix}${MESSAGE_CONTENT_TYPE}`, "text"];
+		yield [`${contentPrefix}${MESSAGE_CONTENT_TEXT}`, part.text];
+		i++;
+	}
+}
+
+/**
+ * Get the input message attributes of a request.
+ *
+ * The system instruction is recorded as the first message. Function
+ * responses are recorded as separate "tool" messages so that they can be
+ * matched with their function calls.
+ */
+export function* getInputMessagesAttributes(
+	params: GenAIGenerateContentParameters,
+): Attributes {
+	let i = 0;
+	const systemInstruction = params.config?.systemInstruction;
+	if (systemInstruction !== undefined) {
+		const parts = isContent(systemInstruction)
+			? (systemInstruction.parts ?? [])
+			: [toPart(systemInstruction)];
+		const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+		yield [`${prefix}${MESSAGE_ROLE}`, "system"];
+		yield [`${prefix}${MESSAGE_CONTENT}`, getText(parts)];
+		i++;
+	}
+
+	for (const content of normalizeContents(params.contents)) {
+		const parts = content.parts ?? [];
+		for (const part of parts) {
+			if (!part.functionResponse) {
+				continue;
+			}
+			const { id, name, response } = part.functionResponse;
+			const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+			yield [`${prefix}${MESSAGE_ROLE}`, "tool"];
+			if (id ?? name) {
+				yield [`${prefix}${MESSAGE_TOOL_CALL_ID}`, (id ?? name) as string];
+			}
+			yield [`${prefix}${MESSAGE_CONTENT}`, JSON.stringify(response ?? {})];
+			i++;
+		}
+
+		const otherParts = parts.filter((part) => !part.functionResponse);
+		if (otherParts.length > 0 || parts.length === 0) {
+			const prefix = `${LLM_INPUT_MESSAGES}.${i}.`;
+			yield [`${prefix}${MESSAGE_ROLE}`, getRole(content.role)];
+			yield* getTextPartAttributes(otherParts, prefix);
+			yield* getFunctionCallAttributes(otherParts, prefix);
+			i++;
+		}
+	}
+}
+
+/**
+ * Get the attributes of the functions available to the model.
+ */
+export function* getToolsAttributes(
+	params: GenAIGenerateContentParameters,
+): Attributes {
+	let i = 0;
+	for (const tool of params.config?.tools ?? []) {
+		for (const declaration of tool.functionDeclarations ?? []) {
+			yield [
+				`${LLM_TOOLS}.${i}.${TOOL_JSON_SCHEMA}`,
+				JSON.stringify(declaration),
+			];
+			i++;
+		}
+	}
+}
+
+/**
+ * Get the output message attributes of a response, one message per
+ * candidate.
+ */
+export function* getOutputMessagesAttributes(
+	response: GenAIGenerateContentResponse,
+): Attributes {
+	for (const [i, candidate] of (response.candidates ?? []).entries()) {
+		const prefix = `${LLM_OUTPUT_MESSAGES}.${i}.`;
+		const parts = candidate.content?.parts ?? [];
+		yield [
+			`${prefix}${MESSAGE_ROLE}`,
+			getRole(candidate.content?.role ?? "model"),
+		];
+		const text = getText(parts);
+		if (text !== "") {
+			yield [`${prefix}${MESSAGE_CONTENT}`, text];
+		}
+		yield* getFunctionCallAttributes(parts, prefix);
+	}
+
+	const safetyRatings = response.candidates?.[0]?.safetyRatings;
+	if (safetyRatings && safetyRatings.length > 0) {
+		yield [LLM_SAFETY_RATINGS, JSON.stringify(safetyRatings)];
+	}
+}
+
+/**
+ * Get the token count attributes of a response.
+ *
+ * Thinking tokens are billed as output tokens, so they are added to the
+ * completion token count.
+ */
+export function* getUsageAttributes(
+	usage: GenAIUsageMetadata | undefined,
+): Attributes {
+	if (!usage) {
+		return;
+	}
+	const prompt = usage.promptTokenCount ?? 0;
+	const completion =
+		(usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+
+	yield [LLM_TOKEN_COUNT_PROMPT, prompt];
+	yield [LLM_TOKEN_COUNT_COMPLETION, completion];
+	yield [LLM_TOKEN_COUNT_TOTAL, usage.totalTokenCount ?? prompt + completion];
+	if (usage.cachedContentTokenCount !== undefined) {
+		yield [
+			LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ,
+			usage.cachedContentTokenCount,
+		];
+	}
+	if (usage.thoughtsTokenCount !== undefined) {
+		yield [
+			LLM_TOKEN_COUNT_COMPLETION_DETAILS_REASONING,
+			usage.thoughtsTokenCount,
+		];
+	}
+}
+
+/**
+ * Get the invocation parameters of a request, i.e. the model and the
+ * generation config without the system instruction and the tools.
+ */
+export function getInvocationParameters(
+	params: GenAIGenerateContentParameters,
+): Record<string, unknown> {
+	const {
+		systemInstruction: _systemInstruction,
+		tools: _tools,
+		...config
+	} = params.config ?? {};
+	return { model: params.model, ...config };
+}
+
+/**
+ * Accumulate a streamed chunk into the response being streamed.
+ *
+ * Text parts are concatenated per candidate, while the other parts are
+ * appended as is. The usage metadata and safety ratings of the last chunk
+ * win.
+ */
+export function accumulateChunk(
+	response: GenAIGenerateContentResponse | undefined,
+	chunk: GenAIGenerateContentResponse,
+): GenAIGenerateContentResponse {
+	const accumulated: GenAIGenerateContentResponse = response ?? {
+		candidates: [],
+	};
+	for (const [i, candidate] of (chunk.candidates ?? []).entries()) {
+		const index = candidate.index ?? i;
+		const existing = accumulated.candidates?.[index] ?? {
+			content: { role: candidate.content?.role ?? "model", parts: [] },
+		};
+		const parts = existing.content?.parts ?? [];
+		for (const part of candidate.content?.parts ?? []) {
+			const last = parts[parts.length - 1];
+			if (
+				part.text !== undefined &&
+				last?.text !== undefined &&
+				!!last.thought === !!part.thought
+			) {
+				parts[parts.length - 1] = { ...last, text: last.text + part.text };
+			} else {
+				parts.push({ ...part });
+			}
+		}
+		(accumulated.candidates as GenAICandidate[])[index] = {
+			...existing,
+			content: { role: existing.content?.role, parts },
+			finishReason: candidate.finishReason ?? existing.finishReason,
+			safetyRatings: candidate.safetyRatings ?? existing.safetyRatings,
+		};
+	}
+	accumulated.modelVersion = chunk.modelVersion ?? accumulated.modelVersion;
+	accumulated.usageMetadata = chunk.usageMetadata ?? accumulated.usageMetadata;
+	accumulated.promptFeedback =
+		chunk.promptFeedback ?? accumulated.promptFeedback;
+	return accumulated;
+}
@@ -0,0 +1,169 @@
+import { getAtlaContext } from "../../context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { getSharedInstrumentation } from "../../instrumentation_router";
+import { GoogleGenAIInstrumentation } from "./instrumentation";
+
+const SERVICE_NAME = "google-genai";
+
+/**
+ * Instrument the Google Gen AI LLM provider.
+ *
+ * This function enables tracing for all Gemini API calls
+ * (`models.generateContent`, `models.generateContentStream` and chat
+ * sessions) made through the official Google Gen AI JavaScript/TypeScript
+ * client.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentGoogleGenAI } from "@atla-ai/insights-sdk-js";
+ * import { GoogleGenAI } from "@google/genai";
+ *
+ * // Configure Atla Insights first
+ * configure({
+ *   token: process.env.ATLA_API_KEY!,
+ * });
+ *
+ * // Enable Google Gen AI instrumentation
+ * instrumentGoogleGenAI();
+ *
+ * // Use Google Gen AI as normal - it will be automatically traced
+ * const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+ * const response = await ai.models.generateContent({
+ *   model: "gemini-2.5-flash",
+ *   contents: "Hello!",
+ * });
+ * ```
+ *
+ * @param genaiModule - The Google Gen AI module, or an existing `GoogleGenAI` client, to instrument. If not provided, the default Google Gen AI module will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentGoogleGenAI } from "@atla-ai/insights-sdk-js";
+ * import { GoogleGenAI } from "@google/genai";
+ *
+ * // Configure Atla Insights first
+ * configure({ token: process.env.ATLA_API_KEY! });
+ *
+ * // Manually instrument an existing client
+ * const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+ * instrumentGoogleGenAI(ai);
+ *
+ * // Use Google Gen AI as normal - it will be automatically traced
+ * const response = await ai.models.generateContent({
+ *   model: "gemini-2.5-flash",
+ *   contents: "Hello!",
+ * });
+ * ```
+ *
+ * @returns void
+ */
+export function instrumentGoogleGenAI(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	genaiModule?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation || insights.disabled) {
+		return;
+	}
+
+	if (!insights.configured) {
+		throw new Error(
+			"Atla Insights must be configured before instrumenting Google Gen AI. " +
+				"Please call configure first.",
+		);
+	}
+
+	// Every client shares the instrumentation of the module
+	const googleGenAIInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new GoogleGenAIInstrumentation({ tracerProvider }),
+	);
+
+	// If a module is provided, manually instrument it
+	if (genaiModule) {
+		googleGenAIInstrumentation.manuallyInstrument(genaiModule);
+	}
+
+	// Register it with OpenTelemetry
+	insights.registerInstrumentations(SERVICE_NAME, [googleGenAIInstrumentation]);
+}
+
+/**
+ * Uninstrument the Google Gen AI LLM provider.
+ *
+ * This function disables tracing for Google Gen AI API calls.
+ *
+ * @example
+ * ```typescript
+ * import { uninstrumentGoogleGenAI } from "@atla-ai/insights-sdk-js";
+ *
+ * // Disable Google Gen AI instrumentation
+ * uninstrumentGoogleGenAI();
+ * ```
+ *
+ * @returns void
+ */
+export function uninstrumentGoogleGenAI(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation) {
+		return;
+	}
+
+	insights.unregisterInstrumentations(SERVICE_NAME);
+}
+
+/**
+ * Create a disposable Google Gen AI instrumentation resource.
+ *
+ * This function enables Google Gen AI instrumentation and returns a disposable resource
+ * that automatically disables instrumentation when disposed. This is particularly
+ * useful with TypeScript's `using` statement for automatic resource management.
+ *
+ * @example
+ * ```typescript
+ * import { withInstrumentedGoogleGenAI } from "@atla-ai/insights-sdk-js";
+ * import { GoogleGenAI } from "@google/genai";
+ *
+ * // Use with using statement (requires TypeScript 5.2+)
+ * {
+ *   using instrumented = withInstrumentedGoogleGenAI();
+ *   const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+ *   // Google Gen AI calls here will be traced
+ * }
+ * // Google Gen AI instrumentation automatically disabled here
+ *
+ * // Or manually manage lifecycle
+ * const instrumented = withInstrumentedGoogleGenAI();
+ * try {
+ *   const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+ *   // Google Gen AI calls here will be traced
+ * } finally {
+ *   instrumented[Symbol.dispose]();
+ * }
+ * ```
+ *
+ * @returns A disposable resource that cleans up Google Gen AI instrumentation when disposed
+ */
+export function withInstrumentedGoogleGenAI(): { dispose(): void } {
+	instrumentGoogleGenAI();
+	const d = {
+		dispose() {
+			uninstrumentGoogleGenAI();
+		},
+	};
+	// If TS 5.2+ Symbol.dispose exists at runtime, add it for ergonomics
+	try {
+		const sym = (Symbol as unknown as { dispose?: symbol }).dispose;
+		if (sym) {
+			// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+			(d as any)[sym] = d.dispose.bind(d);
+		}
+	} catch {
+		// no-op
+	}
+	return d;
+}
@@ -0,0 +1,274 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	context,
+	diag,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import {
+	InstrumentationBase,
+	type InstrumentationConfig,
+	InstrumentationNodeModuleDefinition,
+	isWrapped,
+} from "@opentelemetry/instrumentation";
+import {
+	INPUT_MIME_TYPE,
+	INPUT_VALUE,
+	LLM_INVOCATION_PARAMETERS,
+	LLM_MODEL_NAME,
+	LLM_PROVIDER,
+	LLM_SYSTEM,
+	LLMProvider,
+	LLMSystem,
+	MimeType,
+	OpenInferenceSpanKind,
+	OUTPUT_MIME_TYPE,
+	OUTPUT_VALUE,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	accumulateChunk,
+	type GenAIGenerateContentParameters,
+	type GenAIGenerateContentResponse,
+	getInputMessagesAttributes,
+	getInvocationParameters,
+	getOutputMessagesAttributes,
+	getToolsAttributes,
+	getUsageAttributes,
+} from "./attributes";
+import {
+	isAsyncIterable,
+	recordSpanError,
+	setSpanAttributes,
+	traceAsyncIterable,
+} from "../utils";
+
+export const INSTRUMENTATION_NAME = "@atla-ai/instrumentation-google-genai";
+const INSTRUMENTATION_VERSION = "0.1.0";
+const MODULE_NAME = "@google/genai";
+
+export interface GoogleGenAIInstrumentationOptions {
+	instrumentationConfig?: InstrumentationConfig;
+	tracerProvider?: TracerProvider;
+}
+
+/**
+ * OpenInference instrumentation for the Google Gen AI SDK.
+ *
+ * Wraps `models.generateContent` and `models.generateContentStream` to record
+ * one LLM span per request. Chat sessions go through the same methods, so
+ * every message sent in a chat is recorded with the history that preceded it.
+ *
+ * The SDK defines these methods on each `Models` instance rather than on its
+ * prototype, so the `GoogleGenAI` class is wrapped to instrument the clients
+ * it creates. Existing clients can be instrumented directly instead.
+ */
+export class GoogleGenAIInstrumentation extends InstrumentationBase {
+	private manuallyInstrumented: any[] = [];
+
+	constructor({
+		instrumentationConfig,
+		tracerProvider,
+	}: GoogleGenAIInstrumentationOptions = {}) {
+		super(INSTRUMENTATION_NAME, INSTRUMENTATION_VERSION, {
+			...instrumentationConfig,
+		});
+		if (tracerProvider) {
+			this.setTracerProvider(tracerProvider);
+		}
+	}
+
+	protected init() {
+		return new InstrumentationNodeModuleDefinition(
+			MODULE_NAME,
+			[">=1.0.0"],
+			this.patch.bind(this),
+			this.unpatch.bind(this),
+		);
+	}
+
+	/**
+	 * Manually instrument the Google Gen AI module, or a `GoogleGenAI` client
+	 * created before instrumentation.
+	 */
+	manuallyInstrument(moduleOrClient: any): void {
+		diag.debug(`Manually instrumenting ${MODULE_NAME}`);
+		if (moduleOrClient?.models) {
+			this.patchModels(moduleOrClient.models);
+		} else {
+			this.patch(moduleOrClient);
+		}
+		this.manuallyInstrumented.push(moduleOrClient);
+	}
+
+	override disable(): void {
+		super.disable();
+		for (const moduleOrClient of this.manuallyInstrumented) {
+			if (moduleOrClient?.models) {
+				this.unpatchModels(moduleOrClient.models);
+			} else {
+				this.unpatch(moduleOrClient);
+			}
+		}
+		this.manuallyInstrumented = [];
+	}
+
+	private patch(module: any, moduleVersion?: string): any {
+		diag.debug(`Applying patch for ${MODULE_NAME}@${moduleVersion}`);
+		if (typeof module?.GoogleGenAI !== "function") {
+			diag.warn(`Atla Insights: Could not find the ${MODULE_NAME} client`);
+			return module;
+		}
+
+		// Re-instrumenting replaces the previous wrapper
+		this.unpatch(module);
+
+		const instrumentation = this;
+		this._wrap(
+			module,
+			"GoogleGenAI",
+			(Original: any) =>
+				class GoogleGenAI extends Original {
+					constructor(...args: any[]) {
+						super(...args);
+						instrumentation.patchModels((this as any).models);
+					}
+				},
+		);
+		return module;
+	}
+
+	private unpatch(module: any, moduleVersion?: string): void {
+		diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
+		if (isWrapped(module?.GoogleGenAI)) {
+			this._unwrap(module, "GoogleGenAI");
+		}
+	}
+
+	private patchModels(models: any): void {
+		if (!models) {
+			return;
+		}
+		this.unpatchModels(models);
+
+		const instrumentation = this;
+		for (const method of ["generateContent", "generateContentStream"]) {
+			if (typeof models[method] !== "function") {
+				continue;
+			}
+			this._wrap(
+				models,
+				method,
+				(original: any) =>
+					function patchedMethod(this: any, ...args: any[]) {
+						// Clients created while enabled outlive the instrumentation
+						if (!instrumentation.isEnabled()) {
+							return original.apply(this, args);
+						}
+						return instrumentation.traceGenerateContent(
+							method,
+							original,
+							this,
+							args,
+						);
+					},
+			);
+		}
+	}
+
+	private unpatchModels(models: any): void {
+		for (const method of ["generateContent", "generateContentStream"]) {
+			if (isWrapped(models?.[method])) {
+				this._unwrap(models, method);
+			}
+		}
+	}
+
+	private startSpan(
+		method: string,
+		params: GenAIGenerateContentParameters,
+	): Span {
+		const span = this.tracer.startSpan(`Google GenAI ${method}`, {
+			kind: SpanKind.INTERNAL,
+			attributes: {
+				[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+					OpenInferenceSpanKind.LLM,
+				[LLM_SYSTEM]: LLMSystem.VERTEXAI,
+				[LLM_PROVIDER]: LLMProvider.GOOGLE,
+				[INPUT_VALUE]: JSON.stringify(params),
+				[INPUT_MIME_TYPE]: MimeType.JSON,
+				[LLM_INVOCATION_PARAMETERS]: JSON.stringify(
+					getInvocationParameters(params),
+				),
+			},
+		});
+		if (params.model) {
+			span.setAttribute(LLM_MODEL_NAME, params.model);
+		}
+		setSpanAttributes(span, getInputMessagesAttributes(params));
+		setSpanAttributes(span, getToolsAttributes(params));
+		return span;
+	}
+
+	private endSpan(
+		span: Span,
+		response: GenAIGenerateContentResponse | undefined,
+	): void {
+		if (response) {
+			span.setAttribute(OUTPUT_VALUE, JSON.stringify(response));
+			span.setAttribute(OUTPUT_MIME_TYPE, MimeType.JSON);
+			if (response.modelVersion) {
+				span.setAttribute(LLM_MODEL_NAME, response.modelVersion);
+			}
+			setSpanAttributes(span, getOutputMessagesAttributes(response));
+			setSpanAttributes(span, getUsageAttributes(response.usageMetadata));
+		}
+		span.setStatus({ code: SpanStatusCode.OK });
+		span.end();
+	}
+
+	private traceGenerateContent(
+		method: string,
+		original: any,
+		thisArg: any,
+		args: any[],
+	): any {
+		const params: GenAIGenerateContentParameters = args[0] ?? {};
+		const span = this.startSpan(method, params);
+
+		let result: any;
+		try {
+			result = context.with(trace.setSpan(context.active(), span), () =>
+				original.apply(thisArg, args),
+			);
+		} catch (error) {
+			recordSpanError(span, error);
+			throw error;
+		}
+
+		return Promise.resolve(result).then(
+			(response: any) => {
+				if (!isAsyncIterable(response)) {
+					this.endSpan(span, response);
+					return response;
+				}
+				let accumulated: GenAIGenerateContentResponse | undefined;
+				return traceAsyncIterable<GenAIGenerateContentResponse>(
+					span,
+					response as AsyncIterable<GenAIGenerateContentResponse>,
+					(chunk) => {
+						accumulated = accumulateChunk(accumulated, chunk);
+					},
+					() => this.endSpan(span, accumulated),
+				);
+			},
+			(error: unknown) => {
+				recordSpanError(span, error);
+				throw error;
+			},
+		);
+	}
+}
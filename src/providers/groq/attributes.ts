@@ -0,0 +1,157 @@
+import type { AttributeValue } from "@opentelemetry/api";
+import {
+	LLM_INPUT_MESSAGES,
+	LLM_OUTPUT_MESSAGES,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	accumulateToolCallDeltas,
+	type ChatMessage,
+	type ChatToolCall,
+	getMessagesAttributes,
+	getToolsAttributes,
+	getUsageAttributes,
+} from "../messages";
+
+/**
+ * The subset of the Groq chat completion types read by the instrumentation,
+ * which follow the OpenAI format.
+ */
+export interface GroqMessage {
+	role: string;
+	content?: string | { type: string; text?: string }[] | null;
+	tool_calls?: ChatToolCall[];
+	tool_call_id?: string;
+}
+
+export interface GroqUsage {
+	prompt_tokens?: number;
+	completion_tokens?: number;
+	total_tokens?: number;
+}
+
+export interface GroqChatCompletionCreateParams {
+	model?: string;
+	messages?: GroqMessage[];
+	tools?: Record<string, unknown>[];
+	stream?: boolean;
+	[key: string]: unknown;
+}
+
+export interface GroqChatCompletion {
+	id?: string;
+	model?: string;
+	choices?: {
+		index?: number;
+		message?: GroqMessage;
+		finish_reason?: string | null;
+	}[];
+	usage?: GroqUsage;
+}
+
+export interface GroqChatCompletionChunk {
+	id?: string;
+	model?: string;
+	choices?: {
+		index?: number;
+		delta?: Partial<GroqMessage>;
+		finish_reason?: string | null;
+	}[];
+	usage?: GroqUsage;
+	/** Groq reports the usage of a streamed completion in its last chunk. */
+	x_groq?: { usage?: GroqUsage };
+}
+
+type Attributes = Generator<[string, AttributeValue]>;
+
+function toChatMessage(message: GroqMessage): ChatMessage {
+	return {
+		role: message.role,
+		content: message.content,
+		toolCallId: message.tool_call_id,
+		toolCalls: message.tool_calls,
+	};
+}
+
+/**
+ * Get the input message and tool attributes of a request.
+ */
+export function* getRequestAttributes(
+	params: GroqChatCompletionCreateParams,
+): Attributes {
+	yield* getMessagesAttributes(
+		LLM_INPUT_MESSAGES,
+		(params.messages ?? []).map(toChatMessage),
+	);
+	yield* getToolsAttributes(params.tools);
+}
+
+/**
+ * Get the output message and token count attributes of a response, one
+ * message per choice.
+ */
+export function* getResponseAttributes(
+	completion: GroqChatCompletion,
+): Attributes {
+	yield* getMessagesAttributes(
+		LLM_OUTPUT_MESSAGES,
+		(completion.choices ?? []).map((choice) =>
+			toChatMessage(choice.message ?? { role: "assistant" }),
+		),
+	);
+	yield* getUsageAttributes({
+		prompt: completion.usage?.prompt_tokens,
+		completion: completion.usage?.completion_tokens,
+		total: completion.usage?.total_tokens,
+	});
+}
+
+/**
+ * Get the invocation parameters of a request, i.e. everything but the
+ * messages.
+ */
+export function getInvocationParameters(
+	params: GroqChatCompletionCreateParams,
+): Record<string, unknown> {
+	const { messages: _messages, ...parameters } = params;
+	return parameters;
+}
+
+/**
+ * Accumulate a streamed chunk into the completion being streamed.
+ */
+export function accumulateChunk(
+	completion: GroqChatCompletion | undefined,
+	chunk: GroqChatCompletionChunk,
+): GroqChatCompletion {
+	const accumulated: GroqChatCompletion = completion ?? {
+		id: chunk.id,
+		model: chunk.model,
+		choices: [],
+	};
+	const choices = accumulated.choices ?? [];
+	for (const [i, choice] of (chunk.choices ?? []).entries()) {
+		const index = choice.index ?? i;
+		const message = choices[index]?.message ?? {
+			role: "assistant",
+			content: "",
+		};
+		const delta = choice.delta ?? {};
+		const toolCalls = delta.tool_calls
+			? accumulateToolCallDeltas(message.tool_calls, delta.tool_calls)
+			: message.tool_calls;
+		choices[index] = {
+			index,
+			message: {
+				role: delta.role ?? message.role,
+				content: `${message.content ?? ""}${
+					typeof delta.content === "string" ? delta.content : ""
+				}`,
+				...(toolCalls ? { tool_calls: toolCalls } : {}),
+			},
+			finish_reason: choice.finish_reason ?? choices[index]?.finish_reason,
+		};
+	}
+	accumulated.choices = choices;
+	accumulated.usage = chunk.usage ?? chunk.x_groq?.usage ?? accumulated.usage;
+	return accumulated;
+}
@@ -0,0 +1,149 @@
+import { getAtlaContext } from "../../context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { getSharedInstrumentation } from "../../instrumentation_router";
+import { GroqInstrumentation } from "./instrumentation";
+
+const SERVICE_NAME = "groq";
+
+/**
+ * Instrument the Groq LLM provider.
+ *
+ * This function enables tracing for all Groq chat completion calls
+ * (`chat.completions.create`, streaming or not) made through the official Groq
+ * JavaScript/TypeScript client.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentGroq } from "@atla-ai/insights-sdk-js";
+ * import Groq from "groq-sdk";
+ *
+ * // Configure Atla Insights first
+ * configure({
+ *   token: process.env.ATLA_API_KEY!,
+ * });
+ *
+ * // Enable Groq instrumentation
+ * instrumentGroq();
+ *
+ * // Use Groq as normal - it will be automatically traced
+ * const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+ * const completion = await groq.chat.completions.create({
+ *   model: "llama-3.3-70b-versatile",
+ *   messages: [{ role: "user", content: "Hello!" }],
+ * });
+ * ```
+ *
+ * @param groqModule - The Groq module to instrument. If not provided, the default Groq module will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ *
+ * @returns void
+ */
+export function instrumentGroq(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	groqModule?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation || insights.disabled) {
+		return;
+	}
+
+	if (!insights.configured) {
+		throw new Error(
+			"Atla Insights must be configured before instrumenting Groq. " +
+				"Please call configure first.",
+		);
+	}
+
+	// Every client shares the instrumentation of the module
+	const groqInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new GroqInstrumentation({ tracerProvider }),
+	);
+
+	// If a module is provided, manually instrument it
+	if (groqModule) {
+		groqInstrumentation.manuallyInstrument(groqModule);
+	}
+
+	// Register it with OpenTelemetry
+	insights.registerInstrumentations(SERVICE_NAME, [groqInstrumentation]);
+}
+
+/**
+ * Uninstrument the Groq LLM provider.
+ *
+ * This function disables tracing for Groq API calls.
+ *
+ * @example
+ * ```typescript
+ * import { uninstrumentGroq } from "@atla-ai/insights-sdk-js";
+ *
+ * // Disable Groq instrumentation
+ * uninstrumentGroq();
+ * ```
+ *
+ * @returns void
+ */
+export function uninstrumentGroq(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation) {
+		return;
+	}
+
+	insights.unregisterInstrumentations(SERVICE_NAME);
+}
+
+/**
+ * Create a disposable Groq instrumentation resource.
+ *
+ * This function enables Groq instrumentation and returns a disposable resource
+ * that automatically disables instrumentation when disposed. This is particularly
+ * useful with TypeScript's `using` statement for automatic resource management.
+ *
+ * @example
+ * ```typescript
+ * import { withInstrumentedGroq } from "@atla-ai/insights-sdk-js";
+ * import Groq from "groq-sdk";
+ *
+ * // Use with using statement (requires TypeScript 5.2+)
+ * {
+ *   using instrumented = withInstrumentedGroq();
+ *   const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+ *   // Groq calls here will be traced
+ * }
+ * // Groq instrumentation automatically disabled here
+ *
+ * // Or manually manage lifecycle
+ * const instrumented = withInstrumentedGroq();
+ * try {
+ *   const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+ *   // Groq calls here will be traced
+ * } finally {
+ *   instrumented[Symbol.dispose]();
+ * }
+ * ```
+ *
+ * @returns A disposable resource that cleans up Groq instrumentation when disposed
+ */
+export function withInstrumentedGroq(): { dispose(): void } {
+	instrumentGroq();
+	const d = {
+		dispose() {
+			uninstrumentGroq();
+		},
+	};
+	// If TS 5.2+ Symbol.dispose exists at runtime, add it for ergonomics
+	try {
+		const sym = (Symbol as unknown as { dispose?: symbol }).dispose;
+		if (sym) {
+			// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+			(d as any)[sym] = d.dispose.bind(d);
+		}
+	} catch {
+		// no-op
+	}
+	return d;
+}
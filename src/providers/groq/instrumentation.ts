@@ -0,0 +1,223 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	context,
+	diag,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import {
+	InstrumentationBase,
+	type InstrumentationConfig,
+	InstrumentationNodeModuleDefinition,
+	isWrapped,
+} from "@opentelemetry/instrumentation";
+import {
+	INPUT_MIME_TYPE,
+	INPUT_VALUE,
+	LLM_INVOCATION_PARAMETERS,
+	LLM_MODEL_NAME,
+	LLM_PROVIDER,
+	LLM_SYSTEM,
+	LLMProvider,
+	MimeType,
+	OpenInferenceSpanKind,
+	OUTPUT_MIME_TYPE,
+	OUTPUT_VALUE,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	accumulateChunk,
+	type GroqChatCompletion,
+	type GroqChatCompletionChunk,
+	type GroqChatCompletionCreateParams,
+	getInvocationParameters,
+	getRequestAttributes,
+	getResponseAttributes,
+} from "./attributes";
+import {
+	isAsyncIterable,
+	recordSpanError,
+	setSpanAttributes,
+	wrapAsyncIterator,
+} from "../utils";
+
+export const INSTRUMENTATION_NAME = "@atla-ai/instrumentation-groq";
+const INSTRUMENTATION_VERSION = "0.1.0";
+const MODULE_NAME = "groq-sdk";
+const SPAN_NAME = "Groq Chat Completions";
+
+/**
+ * Groq is not an `LLMSystem` of the OpenInference semantic conventions, so
+ * its provider name is used as the system too.
+ */
+const GROQ_SYSTEM = LLMProvider.GROQ;
+
+export interface GroqInstrumentationOptions {
+	instrumentationConfig?: InstrumentationConfig;
+	tracerProvider?: TracerProvider;
+}
+
+/**
+ * OpenInference instrumentation for the Groq SDK.
+ *
+ * Wraps `chat.completions.create` (streaming or not) to record one LLM span
+ * per request.
+ */
+export class GroqInstrumentation extends InstrumentationBase {
+	private manuallyInstrumentedModules: any[] = [];
+
+	constructor({
+		instrumentationConfig,
+		tracerProvider,
+	}: GroqInstrumentationOptions = {}) {
+		super(INSTRUMENTATION_NAME, INSTRUMENTATION_VERSION, {
+			...instrumentationConfig,
+		});
+		if (tracerProvider) {
+			this.setTracerProvider(tracerProvider);
+		}
+	}
+
+	protected init() {
+		return new InstrumentationNodeModuleDefinition(
+			MODULE_NAME,
+			[">=0.3.0"],
+			this.patch.bind(this),
+			this.unpatch.bind(this),
+		);
+	}
+
+	/**
+	 * Manually instrument the Groq module. This is needed when the module is
+	 * not loaded via require (e.g. ESM or bundled code).
+	 */
+	manuallyInstrument(module: any): void {
+		diag.debug(`Manually instrumenting ${MODULE_NAME}`);
+		this.patch(module);
+		this.manuallyInstrumentedModules.push(module);
+	}
+
+	override disable(): void {
+		super.disable();
+		for (const module of this.manuallyInstrumentedModules) {
+			this.unpatch(module);
+		}
+		this.manuallyInstrumentedModules = [];
+	}
+
+	private getCompletionsPrototype(module: any): any {
+		const Groq = module?.Groq ?? module?.default ?? module;
+		return Groq?.Chat?.Completions?.prototype;
+	}
+
+	private patch(module: any, moduleVersion?: string): any {
+		diag.debug(`Applying patch for ${MODULE_NAME}@${moduleVersion}`);
+		const prototype = this.getCompletionsPrototype(module);
+		if (!prototype) {
+			diag.warn(
+				`Atla Insights: Could not find the ${MODULE_NAME} Chat Completions API`,
+			);
+			return module;
+		}
+
+		// Re-instrumenting replaces the previous wrapper
+		this.unpatch(module);
+
+		const instrumentation = this;
+		this._wrap(
+			prototype,
+			"create",
+			(original: any) =>
+				function patchedCreate(this: any, ...args: any[]) {
+					return instrumentation.traceCreate(original, this, args);
+				},
+		);
+		return module;
+	}
+
+	private unpatch(module: any, moduleVersion?: string): void {
+		diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
+		const prototype = this.getCompletionsPrototype(module);
+		if (isWrapped(prototype?.create)) {
+			this._unwrap(prototype, "create");
+		}
+	}
+
+	private startSpan(params: GroqChatCompletionCreateParams): Span {
+		const span = this.tracer.startSpan(SPAN_NAME, {
+			kind: SpanKind.INTERNAL,
+			attributes: {
+				[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+					OpenInferenceSpanKind.LLM,
+				[LLM_SYSTEM]: GROQ_SYSTEM,
+				[LLM_PROVIDER]: LLMProvider.GROQ,
+				[INPUT_VALUE]: JSON.stringify(params),
+				[INPUT_MIME_TYPE]: MimeType.JSON,
+				[LLM_INVOCATION_PARAMETERS]: JSON.stringify(
+					getInvocationParameters(params),
+				),
+			},
+		});
+		if (params.model) {
+			span.setAttribute(LLM_MODEL_NAME, params.model);
+		}
+		setSpanAttributes(span, getRequestAttributes(params));
+		return span;
+	}
+
+	private endSpan(
+		span: Span,
+		completion: GroqChatCompletion | undefined,
+	): void {
+		if (completion) {
+			span.setAttribute(OUTPUT_VALUE, JSON.stringify(completion));
+			span.setAttribute(OUTPUT_MIME_TYPE, MimeType.JSON);
+			if (completion.model) {
+				span.setAttribute(LLM_MODEL_NAME, completion.model);
+			}
+			setSpanAttributes(span, getResponseAttributes(completion));
+		}
+		span.setStatus({ code: SpanStatusCode.OK });
+		span.end();
+	}
+
+	private traceCreate(original: any, thisArg: any, args: any[]): any {
+		const params: GroqChatCompletionCreateParams = args[0] ?? {};
+		const span = this.startSpan(params);
+
+		let result: any;
+		try {
+			result = context.with(trace.setSpan(context.active(), span), () =>
+				original.apply(thisArg, args),
+			);
+		} catch (error) {
+			recordSpanError(span, error);
+			throw error;
+		}
+
+		// The API promise is returned as is so that its helpers (e.g.
+		// `withResponse`) keep working
+		Promise.resolve(result).then(
+			(response: any) => {
+				if (params.stream && isAsyncIterable(response)) {
+					let completion: GroqChatCompletion | undefined;
+					wrapAsyncIterator<GroqChatCompletionChunk>(
+						span,
+						response as AsyncIterable<GroqChatCompletionChunk>,
+						(chunk) => {
+							completion = accumulateChunk(completion, chunk);
+						},
+						() => this.endSpan(span, completion),
+					);
+				} else {
+					this.endSpan(span, response);
+				}
+			},
+			(error: unknown) => recordSpanError(span, error),
+		);
+		return result;
+	}
+}
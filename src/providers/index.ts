@@ -7,3 +7,39 @@ export {
 	uninstrumentOpenAI,
 	withInstrumentedOpenAI,
 } from "./openai";
+
+export {
+	instrumentAnthropic,
+	uninstrumentAnthropic,
+	withInstrumentedAnthropic,
+} from "./anthropic";
+
+export {
+	instrumentGoogleGenAI,
+	uninstrumentGoogleGenAI,
+	withInstrumentedGoogleGenAI,
+} from "./google-genai";
+
+export {
+	instrumentBedrock,
+	uninstrumentBedrock,
+	withInstrumentedBedrock,
+} from "./bedrock";
+
+export {
+	instrumentMistral,
+	uninstrumentMistral,
+	withInstrumentedMistral,
+} from "./mistral";
+
+export {
+	instrumentCohere,
+	uninstrumentCohere,
+	withInstrumentedCohere,
+} from "./cohere";
+
+export {
+	instrumentGroq,
+	uninstrumentGroq,
+	withInstrumentedGroq,
+} from "./groq";
@@ -1,13 +1,12 @@
 import type { InstrumentationBase } from "@opentelemetry/instrumentation";
-import { ATLA_INSIGHTS } from "../../main";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { getSharedInstrumentation } from "../../instrumentation_router";
 import { getAtlaContext } from "../../context";
 import { LangChainInstrumentation } from "@arizeai/openinference-instrumentation-langchain";
 import { diag } from "@opentelemetry/api";
 
 const SERVICE_NAME = "langchain";
 
-let lcInstrumentation: LangChainInstrumentation | null = null;
-
 /**
  * Instrument the LangChain provider.
  *
@@ -30,6 +29,7 @@ let lcInstrumentation: LangChainInstrumentation | null = null;
  * const completion = await langchain.run("Hello!");
  * ```
  * @param callbackManagerModule - The callback manager module to instrument. If not provided, the default LangChain callback manager will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
  *
  * @example
  * ```typescript
@@ -49,19 +49,24 @@ let lcInstrumentation: LangChainInstrumentation | null = null;
  *
  * @returns void
  */
-// biome-ignore lint/suspicious/noExplicitAny: allow external module types
-export function instrumentLangChain(callbackManagerModule?: any): void {
+export function instrumentLangChain(
+	// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+	callbackManagerModule?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
 	const context = getAtlaContext();
-	if (context?.suppressInstrumentation) return;
-	if (!ATLA_INSIGHTS.configured) {
+	if (context?.suppressInstrumentation || insights.disabled) return;
+	if (!insights.configured) {
 		throw new Error(
 			"Atla Insights must be configured before instrumenting LangChain. Please call configure first.",
 		);
 	}
 
-	lcInstrumentation = new LangChainInstrumentation({
-		tracerProvider: ATLA_INSIGHTS.getTracerProvider(),
-	});
+	// Every client shares the instrumentation of the module
+	const lcInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new LangChainInstrumentation({ tracerProvider }),
+	);
 
 	// Prefer explicit module from caller
 	if (callbackManagerModule) {
@@ -85,7 +90,7 @@ export function instrumentLangChain(callbackManagerModule?: any): void {
 		}
 	}
 
-	ATLA_INSIGHTS.registerInstrumentations(SERVICE_NAME, [
+	insights.registerInstrumentations(SERVICE_NAME, [
 		lcInstrumentation as unknown as InstrumentationBase,
 	]);
 }
@@ -106,11 +111,12 @@ export function instrumentLangChain(callbackManagerModule?: any): void {
  *
  * @returns void
  */
-export function uninstrumentLangChain(): void {
+export function uninstrumentLangChain(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
 	const context = getAtlaContext();
 	if (context?.suppressInstrumentation) return;
-	ATLA_INSIGHTS.unregisterInstrumentations(SERVICE_NAME);
-	lcInstrumentation = null;
+	insights.unregisterInstrumentations(SERVICE_NAME);
 }
 
 /**
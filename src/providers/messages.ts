@@ -0,0 +1,174 @@
+/**
+ * Attribute builders shared by the providers whose chat messages follow the
+ * OpenAI format (roles, text contents and function tool calls). Each provider
+ * normalizes its messages into `ChatMessage`s, whatever their casing.
+ */
+import type { AttributeValue } from "@opentelemetry/api";
+import {
+	LLM_TOKEN_COUNT_COMPLETION,
+	LLM_TOKEN_COUNT_PROMPT,
+	LLM_TOKEN_COUNT_TOTAL,
+	LLM_TOOLS,
+	MESSAGE_CONTENT,
+	MESSAGE_CONTENTS,
+	MESSAGE_CONTENT_TEXT,
+	MESSAGE_CONTENT_TYPE,
+	MESSAGE_ROLE,
+	MESSAGE_TOOL_CALLS,
+	MESSAGE_TOOL_CALL_ID,
+	TOOL_CALL_FUNCTION_ARGUMENTS_JSON,
+	TOOL_CALL_FUNCTION_NAME,
+	TOOL_CALL_ID,
+	TOOL_JSON_SCHEMA,
+} from "@arizeai/openinference-semantic-conventions";
+
+export interface ChatContentPart {
+	type?: string;
+	text?: string;
+}
+
+/**
+ * A function tool call. While streamed, the index identifies the tool call a
+ * fragment belongs to.
+ */
+export interface ChatToolCall {
+	index?: number;
+	id?: string;
+	type?: string;
+	/** The arguments are a JSON string, or an object for some providers. */
+	function?: { name?: string; arguments?: unknown };
+}
+
+export interface ChatMessage {
+	role: string;
+	content?: string | ChatContentPart[] | null;
+	toolCalls?: ChatToolCall[];
+	toolCallId?: string;
+}
+
+export interface ChatUsage {
+	prompt?: number;
+	completion?: number;
+	total?: number;
+}
+
+type Attributes = Generator<[string, AttributeValue]>;
+
+function* getToolCallAttributes(
+	toolCalls: ChatToolCall[],
+	prefix: string,
+): Attributes {
+	for (const [i, toolCall] of toolCalls.entries()) {
+		const toolCallPrefix = `${prefix}${MESSAGE_TOOL_CALLS}.${i}.`;
+		if (toolCall.id) {
+			yield [`${toolCallPrefix}${TOOL_CALL_ID}`, toolCall.id];
+		}
+		if (toolCall.function?.name) {
+			yield [
+				`${toolCallPrefix}${TOOL_CALL_FUNCTION_NAME}`,
+				toolCall.function.name,
+			];
+		}
+		const args = toolCall.function?.arguments;
+		yield [
+			`${toolCallPrefix}${TOOL_CALL_FUNCTION_ARGUMENTS_JSON}`,
+			typeof args === "string" ? args : JSON.stringify(args ?? {}),
+		];
+	}
+}
+
+/**
+ * Get the attributes of a list of messages.
+ *
+ * @param prefix - The prefix of the messages, i.e. `llm.input_messages` or `llm.output_messages`.
+ * @param messages - The normalized messages.
+ */
+export function* getMessagesAttributes(
+	prefix: string,
+	messages: ChatMessage[],
+): Attributes {
+	for (const [i, message] of messages.entries()) {
+		const messagePrefix = `${prefix}.${i}.`;
+		yield [`${messagePrefix}${MESSAGE_ROLE}`, message.role];
+		if (typeof message.content === "string") {
+			if (message.content !== "") {
+				yield [`${messagePrefix}${MESSAGE_CONTENT}`, message.content];
+			}
+		} else if (Array.isArray(message.content)) {
+			let j = 0;
+			for (const part of message.content) {
+				if (part.text === undefined) {
+					continue;
+				}
+				const contentPrefix = `${messagePrefix}${MESSAGE_CONTENTS}.${j}.`;
+				yield [`${contentPrefix}${MESSAGE_CONTENT_TYPE}`, "text"];
+				yield [`${contentPrefix}${MESSAGE_CONTENT_TEXT}`, part.text];
+				j++;
+			}
+		}
+		if (message.toolCallId) {
+			yield [`${messagePrefix}${MESSAGE_TOOL_CALL_ID}`, message.toolCallId];
+		}
+		yield* getToolCallAttributes(message.toolCalls ?? [], messagePrefix);
+	}
+}
+
+/**
+ * Get the attributes of the tools available to the model.
+ */
+export function* getToolsAttributes(tools: unknown[] | undefined): Attributes {
+	for (const [i, tool] of (tools ?? []).entries()) {
+		yield [`${LLM_TOOLS}.${i}.${TOOL_JSON_SCHEMA}`, JSON.stringify(tool)];
+	}
+}
+
+/**
+ * Get the token count attributes of a response. The total defaults to the
+ * sum of the prompt and completion token counts.
+ */
+export function* getUsageAttributes(usage: ChatUsage | undefined): Attributes {
+	if (usage?.prompt === undefined && usage?.completion === undefined) {
+		return;
+	}
+	const prompt = usage.prompt ?? 0;
+	const completion = usage.completion ?? 0;
+	yield [LLM_TOKEN_COUNT_PROMPT, prompt];
+	yield [LLM_TOKEN_COUNT_COMPLETION, completion];
+	yield [LLM_TOKEN_COUNT_TOTAL, usage.total ?? prompt + completion];
+}
+
+/**
+ * Accumulate streamed tool call fragments into the tool calls being
+ * streamed. The arguments are streamed as JSON fragments, while the other
+ * fields are only sent once. Fragments without an index extend the last tool
+ * call, unless they start a new one.
+ */
+export function accumulateToolCallDeltas(
+	toolCalls: ChatToolCall[] | undefined,
+	deltas: ChatToolCall[],
+): ChatToolCall[] {
+	const accumulated = [...(toolCalls ?? [])];
+	for (const delta of deltas) {
+		const last = accumulated.length - 1;
+		const index =
+			delta.index ??
+			(delta.id && accumulated[last]?.id !== delta.id
+				? accumulated.length
+				: Math.max(last, 0));
+		const toolCall = accumulated[index] ?? {};
+		const args = toolCall.function?.arguments;
+		const deltaArgs = delta.function?.arguments;
+		accumulated[index] = {
+			id: toolCall.id ?? delta.id,
+			type: toolCall.type ?? delta.type,
+			function: {
+				name: toolCall.function?.name ?? delta.function?.name,
+				arguments:
+					typeof deltaArgs === "string"
+						? `${typeof args === "string" ? args : ""}${deltaArgs}`
+						: (deltaArgs ?? args),
+			},
+		};
+	}
+	return accumulated;
+}
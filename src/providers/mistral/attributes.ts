@@ -0,0 +1,154 @@
+import type { AttributeValue } from "@opentelemetry/api";
+import {
+	LLM_INPUT_MESSAGES,
+	LLM_OUTPUT_MESSAGES,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	accumulateToolCallDeltas,
+	type ChatMessage,
+	type ChatToolCall,
+	getMessagesAttributes,
+	getToolsAttributes,
+	getUsageAttributes,
+} from "../messages";
+
+/**
+ * The subset of the `@mistralai/mistralai` chat types read by the
+ * instrumentation.
+ */
+export interface MistralMessage {
+	role: string;
+	content?: string | { type: string; text?: string }[] | null;
+	toolCalls?: ChatToolCall[] | null;
+	toolCallId?: string | null;
+}
+
+export interface MistralUsage {
+	promptTokens?: number;
+	completionTokens?: number;
+	totalTokens?: number;
+}
+
+export interface MistralChatCompletionRequest {
+	model?: string;
+	messages?: MistralMessage[];
+	tools?: Record<string, unknown>[] | null;
+	[key: string]: unknown;
+}
+
+export interface MistralChatCompletionResponse {
+	id?: string;
+	model?: string;
+	choices?: {
+		index?: number;
+		message?: MistralMessage;
+		finishReason?: string | null;
+	}[];
+	usage?: MistralUsage;
+}
+
+export interface MistralCompletionChunk {
+	id?: string;
+	model?: string;
+	choices?: {
+		index?: number;
+		delta?: Partial<MistralMessage>;
+		finishReason?: string | null;
+	}[];
+	usage?: MistralUsage;
+}
+
+type Attributes = Generator<[string, AttributeValue]>;
+
+function toChatMessage(message: MistralMessage): ChatMessage {
+	return {
+		role: message.role,
+		content: message.content,
+		toolCallId: message.toolCallId ?? undefined,
+		toolCalls: message.toolCalls ?? undefined,
+	};
+}
+
+/**
+ * Get the input message and tool attributes of a request.
+ */
+export function* getRequestAttributes(
+	request: MistralChatCompletionRequest,
+): Attributes {
+	yield* getMessagesAttributes(
+		LLM_INPUT_MESSAGES,
+		(request.messages ?? []).map(toChatMessage),
+	);
+	yield* getToolsAttributes(request.tools ?? undefined);
+}
+
+/**
+ * Get the output message and token count attributes of a response, one
+ * message per choice.
+ */
+export function* getResponseAttributes(
+	response: MistralChatCompletionResponse,
+): Attributes {
+	yield* getMessagesAttributes(
+		LLM_OUTPUT_MESSAGES,
+		(response.choices ?? []).map((choice) =>
+			toChatMessage(choice.message ?? { role: "assistant" }),
+		),
+	);
+	yield* getUsageAttributes({
+		prompt: response.usage?.promptTokens,
+		completion: response.usage?.completionTokens,
+		total: response.usage?.totalTokens,
+	});
+}
+
+/**
+ * Get the invocation parameters of a request, i.e. everything but the
+ * messages.
+ */
+export function getInvocationParameters(
+	request: MistralChatCompletionRequest,
+): Record<string, unknown> {
+	const { messages: _messages, ...parameters } = request;
+	return parameters;
+}
+
+/**
+ * Accumulate a streamed chunk into the response being streamed.
+ */
+export function accumulateChunk(
+	response: MistralChatCompletionResponse | undefined,
+	chunk: MistralCompletionChunk,
+): MistralChatCompletionResponse {
+	const accumulated: MistralChatCompletionResponse = response ?? {
+		id: chunk.id,
+		model: chunk.model,
+		choices: [],
+	};
+	const choices = accumulated.choices ?? [];
+	for (const [i, choice] of (chunk.choices ?? []).entries()) {
+		const index = choice.index ?? i;
+		const message = choices[index]?.message ?? {
+			role: "assistant",
+			content: "",
+		};
+		const delta = choice.delta ?? {};
+		const toolCalls = delta.toolCalls
+			? accumulateToolCallDeltas(message.toolCalls ?? [], delta.toolCalls)
+			: message.toolCalls;
+		choices[index] = {
+			index,
+			message: {
+				role: delta.role ?? message.role,
+				content: `${message.content ?? ""}${
+					typeof delta.content === "string" ? delta.content : ""
+				}`,
+				...(toolCalls ? { toolCalls } : {}),
+			},
+			finishReason: choice.finishReason ?? choices[index]?.finishReason,
+		};
+	}
+	accumulated.choices = choices;
+	accumulated.usage = chunk.usage ?? accumulated.usage;
+	return accumulated;
+}
@@ -0,0 +1,149 @@
+import { getAtlaContext } from "../../context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import { getSharedInstrumentation } from "../../instrumentation_router";
+import { MistralInstrumentation } from "./instrumentation";
+
+const SERVICE_NAME = "mistral";
+
+/**
+ * Instrument the Mistral LLM provider.
+ *
+ * This function enables tracing for all Mistral chat calls (`chat.complete`
+ * and `chat.stream`) made through the official Mistral JavaScript/TypeScript
+ * client.
+ *
+ * @example
+ * ```typescript
+ * import { configure, instrumentMistral } from "@atla-ai/insights-sdk-js";
+ * import { Mistral } from "@mistralai/mistralai";
+ *
+ * // Configure Atla Insights first
+ * configure({
+ *   token: process.env.ATLA_API_KEY!,
+ * });
+ *
+ * // Enable Mistral instrumentation
+ * instrumentMistral();
+ *
+ * // Use Mistral as normal - it will be automatically traced
+ * const mistral = new Mistral({ apiKey: process.env.MISTRAL_API_KEY });
+ * const response = await mistral.chat.complete({
+ *   model: "mistral-small-latest",
+ *   messages: [{ role: "user", content: "Hello!" }],
+ * });
+ * ```
+ *
+ * @param mistralModule - The Mistral module, or an existing `Mistral` client, to instrument. If not provided, the default Mistral module will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
+ *
+ * @returns void
+ */
+export function instrumentMistral(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	mistralModule?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation || insights.disabled) {
+		return;
+	}
+
+	if (!insights.configured) {
+		throw new Error(
+			"Atla Insights must be configured before instrumenting Mistral. " +
+				"Please call configure first.",
+		);
+	}
+
+	// Every client shares the instrumentation of the module
+	const mistralInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new MistralInstrumentation({ tracerProvider }),
+	);
+
+	// If a module is provided, manually instrument it
+	if (mistralModule) {
+		mistralInstrumentation.manuallyInstrument(mistralModule);
+	}
+
+	// Register it with OpenTelemetry
+	insights.registerInstrumentations(SERVICE_NAME, [mistralInstrumentation]);
+}
+
+/**
+ * Uninstrument the Mistral LLM provider.
+ *
+ * This function disables tracing for Mistral API calls.
+ *
+ * @example
+ * ```typescript
+ * import { uninstrumentMistral } from "@atla-ai/insights-sdk-js";
+ *
+ * // Disable Mistral instrumentation
+ * uninstrumentMistral();
+ * ```
+ *
+ * @returns void
+ */
+export function uninstrumentMistral(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
+	const context = getAtlaContext();
+	if (context?.suppressInstrumentation) {
+		return;
+	}
+
+	insights.unregisterInstrumentations(SERVICE_NAME);
+}
+
+/**
+ * Create a disposable Mistral instrumentation resource.
+ *
+ * This function enables Mistral instrumentation and returns a disposable resource
+ * that automatically disables instrumentation when disposed. This is particularly
+ * useful with TypeScript's `using` statement for automatic resource management.
+ *
+ * @example
+ * ```typescript
+ * import { withInstrumentedMistral } from "@atla-ai/insights-sdk-js";
+ * import { Mistral } from "@mistralai/mistralai";
+ *
+ * // Use with using statement (requires TypeScript 5.2+)
+ * {
+ *   using instrumented = withInstrumentedMistral();
+ *   const mistral = new Mistral({ apiKey: process.env.MISTRAL_API_KEY });
+ *   // Mistral calls here will be traced
+ * }
+ * // Mistral instrumentation automatically disabled here
+ *
+ * // Or manually manage lifecycle
+ * const instrumented = withInstrumentedMistral();
+ * try {
+ *   const mistral = new Mistral({ apiKey: process.env.MISTRAL_API_KEY });
+ *   // Mistral calls here will be traced
+ * } finally {
+ *   instrumented[Symbol.dispose]();
+ * }
+ * ```
+ *
+ * @returns A disposable resource that cleans up Mistral instrumentation when disposed
+ */
+export function withInstrumentedMistral(): { dispose(): void } {
+	instrumentMistral();
+	const d = {
+		dispose() {
+			uninstrumentMistral();
+		},
+	};
+	// If TS 5.2+ Symbol.dispose exists at runtime, add it for ergonomics
+	try {
+		const sym = (Symbol as unknown as { dispose?: symbol }).dispose;
+		if (sym) {
+			// biome-ignore lint/suspicious/noExplicitAny: allow external module types
+			(d as any)[sym] = d.dispose.bind(d);
+		}
+	} catch {
+		// no-op
+	}
+	return d;
+}
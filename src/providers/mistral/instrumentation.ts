@@ -0,0 +1,266 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	context,
+	diag,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import {
+	InstrumentationBase,
+	type InstrumentationConfig,
+	InstrumentationNodeModuleDefinition,
+	isWrapped,
+} from "@opentelemetry/instrumentation";
+import {
+	INPUT_MIME_TYPE,
+	INPUT_VALUE,
+	LLM_INVOCATION_PARAMETERS,
+	LLM_MODEL_NAME,
+	LLM_PROVIDER,
+	LLM_SYSTEM,
+	LLMProvider,
+	LLMSystem,
+	MimeType,
+	OpenInferenceSpanKind,
+	OUTPUT_MIME_TYPE,
+	OUTPUT_VALUE,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	accumulateChunk,
+	getInvocationParameters,
+	getRequestAttributes,
+	getResponseAttributes,
+	type MistralChatCompletionRequest,
+	type MistralChatCompletionResponse,
+	type MistralCompletionChunk,
+} from "./attributes";
+import {
+	isAsyncIterable,
+	recordSpanError,
+	setSpanAttributes,
+	wrapAsyncIterator,
+} from "../utils";
+
+export const INSTRUMENTATION_NAME = "@atla-ai/instrumentation-mistral";
+const INSTRUMENTATION_VERSION = "0.1.0";
+const MODULE_NAME = "@mistralai/mistralai";
+const METHODS = ["complete", "stream"];
+
+export interface MistralInstrumentationOptions {
+	instrumentationConfig?: InstrumentationConfig;
+	tracerProvider?: TracerProvider;
+}
+
+/**
+ * OpenInference instrumentation for the Mistral SDK.
+ *
+ * Wraps `chat.complete` and `chat.stream` to record one LLM span per request.
+ *
+ * The SDK creates the `chat` resource of each client lazily, so the `Mistral`
+ * class is wrapped to instrument the clients it creates. Existing clients can
+ * be instrumented directly instead.
+ */
+export class MistralInstrumentation extends InstrumentationBase {
+	private manuallyInstrumented: any[] = [];
+
+	constructor({
+		instrumentationConfig,
+		tracerProvider,
+	}: MistralInstrumentationOptions = {}) {
+		super(INSTRUMENTATION_NAME, INSTRUMENTATION_VERSION, {
+			...instrumentationConfig,
+		});
+		if (tracerProvider) {
+			this.setTracerProvider(tracerProvider);
+		}
+	}
+
+	protected init() {
+		return new InstrumentationNodeModuleDefinition(
+			MODULE_NAME,
+			[">=1.0.0"],
+			this.patch.bind(this),
+			this.unpatch.bind(this),
+		);
+	}
+
+	/**
+	 * Manually instrument the Mistral module, or a `Mistral` client created
+	 * before instrumentation.
+	 */
+	manuallyInstrument(moduleOrClient: any): void {
+		diag.debug(`Manually instrumenting ${MODULE_NAME}`);
+		if (moduleOrClient?.chat) {
+			this.patchChat(moduleOrClient.chat);
+		} else {
+			this.patch(moduleOrClient);
+		}
+		this.manuallyInstrumented.push(moduleOrClient);
+	}
+
+	override disable(): void {
+		super.disable();
+		for (const moduleOrClient of this.manuallyInstrumented) {
+			if (moduleOrClient?.chat) {
+				this.unpatchChat(moduleOrClient.chat);
+			} else {
+				this.unpatch(moduleOrClient);
+			}
+		}
+		this.manuallyInstrumented = [];
+	}
+
+	private patch(module: any, moduleVersion?: string): any {
+		diag.debug(`Applying patch for ${MODULE_NAME}@${moduleVersion}`);
+		if (typeof module?.Mistral !== "function") {
+			diag.warn(`Atla Insights: Could not find the ${MODULE_NAME} client`);
+			return module;
+		}
+
+		// Re-instrumenting replaces the previous wrapper
+		this.unpatch(module);
+
+		const instrumentation = this;
+		this._wrap(
+			module,
+			"Mistral",
+			(Original: any) =>
+				class Mistral extends Original {
+					constructor(...args: any[]) {
+						super(...args);
+						instrumentation.patchChat((this as any).chat);
+					}
+				},
+		);
+		return module;
+	}
+
+	private unpatch(module: any, moduleVersion?: string): void {
+		diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
+		if (isWrapped(module?.Mistral)) {
+			this._unwrap(module, "Mistral");
+		}
+	}
+
+	private patchChat(chat: any): void {
+		if (!chat) {
+			return;
+		}
+		this.unpatchChat(chat);
+
+		const instrumentation = this;
+		for (const method of METHODS) {
+			if (typeof chat[method] !== "function") {
+				continue;
+			}
+			this._wrap(
+				chat,
+				method,
+				(original: any) =>
+					function patchedMethod(this: any, ...args: any[]) {
+						// Clients created while enabled outlive the instrumentation
+						if (!instrumentation.isEnabled()) {
+							return original.apply(this, args);
+						}
+						return instrumentation.traceChat(method, original, this, args);
+					},
+			);
+		}
+	}
+
+	private unpatchChat(chat: any): void {
+		for (const method of METHODS) {
+			if (isWrapped(chat?.[method])) {
+				this._unwrap(chat, method);
+			}
+		}
+	}
+
+	private startSpan(
+		method: string,
+		request: MistralChatCompletionRequest,
+	): Span {
+		const span = this.tracer.startSpan(`Mistral ${method}`, {
+			kind: SpanKind.INTERNAL,
+			attributes: {
+				[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+					OpenInferenceSpanKind.LLM,
+				[LLM_SYSTEM]: LLMSystem.MISTRALAI,
+				[LLM_PROVIDER]: LLMProvider.MISTRALAI,
+				[INPUT_VALUE]: JSON.stringify(request),
+				[INPUT_MIME_TYPE]: MimeType.JSON,
+				[LLM_INVOCATION_PARAMETERS]: JSON.stringify(
+					getInvocationParameters(request),
+				),
+			},
+		});
+		if (request.model) {
+			span.setAttribute(LLM_MODEL_NAME, request.model);
+		}
+		setSpanAttributes(span, getRequestAttributes(request));
+		return span;
+	}
+
+	private endSpan(
+		span: Span,
+		response: MistralChatCompletionResponse | undefined,
+	): void {
+		if (response) {
+			span.setAttribute(OUTPUT_VALUE, JSON.stringify(response));
+			span.setAttribute(OUTPUT_MIME_TYPE, MimeType.JSON);
+			if (response.model) {
+				span.setAttribute(LLM_MODEL_NAME, response.model);
+			}
+			setSpanAttributes(span, getResponseAttributes(response));
+		}
+		span.setStatus({ code: SpanStatusCode.OK });
+		span.end();
+	}
+
+	private traceChat(
+		method: string,
+		original: any,
+		thisArg: any,
+		args: any[],
+	): any {
+		const request: MistralChatCompletionRequest = args[0] ?? {};
+		const span = this.startSpan(method, request);
+
+		let result: any;
+		try {
+			result = context.with(trace.setSpan(context.active(), span), () =>
+				original.apply(thisArg, args),
+			);
+		} catch (error) {
+			recordSpanError(span, error);
+			throw error;
+		}
+
+		Promise.resolve(result).then(
+			(response: any) => {
+				if (!isAsyncIterable(response)) {
+					this.endSpan(span, response);
+					return;
+				}
+				// The event stream yields server-sent events holding the chunks
+				let accumulated: MistralChatCompletionResponse | undefined;
+				wrapAsyncIterator<{ data?: MistralCompletionChunk }>(
+					span,
+					response as AsyncIterable<{ data?: MistralCompletionChunk }>,
+					(event) => {
+						if (event?.data) {
+							accumulated = accumulateChunk(accumulated, event.data);
+						}
+					},
+					() => this.endSpan(span, accumulated),
+				);
+			},
+			(error: unknown) => recordSpanError(span, error),
+		);
+		return result;
+	}
+}
@@ -0,0 +1,141 @@
+/**
+ * Resolution of the provider behind an OpenAI-compatible API from the base
+ * URL the client is pointed at, shared by the OpenAI and OpenAI Agents
+ * instrumentations.
+ */
+import {
+	LLMProvider,
+	LLMSystem,
+} from "@arizeai/openinference-semantic-conventions";
+
+export interface OpenAICompatibleProvider {
+	/** The `llm.provider` attribute, i.e. who hosts the model. */
+	provider: string;
+	/** The `llm.system` attribute. Defaults to the provider. */
+	system?: string;
+}
+
+/**
+ * Custom providers, keyed by the host of their base URL (e.g.
+ * "llm.internal:8000"). A host without a port also matches its subdomains.
+ * The values are a provider name, also used as the system, or a provider and
+ * system.
+ */
+export type OpenAICompatibleProviders = Record<
+	string,
+	string | OpenAICompatibleProvider
+>;
+
+interface ProviderRule {
+	matches(url: URL): boolean;
+	provider: string;
+	system: string;
+}
+
+function isHost(url: URL, host: string): boolean {
+	return (
+		url.host === host ||
+		url.hostname === host ||
+		url.hostname.endsWith(`.${host}`)
+	);
+}
+
+function hosts(...names: string[]): (url: URL) => boolean {
+	return (url) => names.some((name) => isHost(url, name));
+}
+
+const PROVIDER_RULES: ProviderRule[] = [
+	{
+		matches: hosts("api.openai.com"),
+		provider: LLMProvider.OPENAI,
+		system: LLMSystem.OPENAI,
+	},
+	{
+		// Azure serves the OpenAI models
+		matches: hosts(
+			"openai.azure.com",
+			"cognitiveservices.azure.com",
+			"services.ai.azure.com",
+			"api.microsoft.com",
+		),
+		provider: LLMProvider.AZURE,
+		system: LLMSystem.OPENAI,
+	},
+	{
+		matches: hosts("api.together.xyz", "api.together.ai"),
+		provider: "together",
+		system: "together",
+	},
+	{
+		matches: hosts("api.fireworks.ai"),
+		provider: LLMProvider.FIREWORKS,
+		system: LLMProvider.FIREWORKS,
+	},
+	{
+		matches: hosts("api.deepseek.com"),
+		provider: LLMProvider.DEEPSEEK,
+		system: LLMProvider.DEEPSEEK,
+	},
+	{
+		matches: hosts("api.x.ai"),
+		provider: LLMProvider.XAI,
+		system: LLMProvider.XAI,
+	},
+	{
+		matches: hosts("openrouter.ai"),
+		provider: "openrouter",
+		system: "openrouter",
+	},
+	{
+		// Ollama's cloud, and the default port of local Ollama servers
+		matches: (url) => isHost(url, "ollama.com") || url.port === "11434",
+		provider: "ollama",
+		system: "ollama",
+	},
+];
+
+function parseURL(baseURL: unknown): URL | undefined {
+	if (baseURL instanceof URL) {
+		return baseURL;
+	}
+	if (typeof baseURL !== "string") {
+		return undefined;
+	}
+	try {
+		return new URL(baseURL);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Resolve the provider and system behind an OpenAI-compatible base URL.
+ *
+ * Only the hosts of known services, and Ollama servers on their default
+ * port, are recognized: other self-hosted servers (e.g. vLLM) can run
+ * anywhere, so they need a custom provider.
+ *
+ * @param baseURL - The base URL of the client.
+ * @param customProviders - Custom providers, which take precedence over the built-in ones.
+ * @returns The provider and system, or undefined if the base URL is not recognized.
+ */
+export function resolveOpenAICompatibleProvider(
+	baseURL: unknown,
+	customProviders: OpenAICompatibleProviders = {},
+): Required<OpenAICompatibleProvider> | undefined {
+	const url = parseURL(baseURL);
+	if (!url) {
+		return undefined;
+	}
+
+	for (const [host, custom] of Object.entries(customProviders)) {
+		if (isHost(url, host)) {
+			const { provider, system = provider } =
+				typeof custom === "string" ? { provider: custom } : custom;
+			return { provider, system };
+		}
+	}
+
+	const rule = PROVIDER_RULES.find(({ matches }) => matches(url));
+	return rule && { provider: rule.provider, system: rule.system };
+}
@@ -1,18 +1,26 @@
 import { OpenAIInstrumentation } from "@arizeai/openinference-instrumentation-openai";
 import { getAtlaContext } from "../../context";
-import { ATLA_INSIGHTS } from "../../main";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "../../main";
+import {
+	getActiveClient,
+	getSharedInstrumentation,
+} from "../../instrumentation_router";
 import type { InstrumentationBase } from "@opentelemetry/instrumentation";
+import { OpenAICompatibleInstrumentation } from "./instrumentation";
 
 const SERVICE_NAME = "openai";
 
-let openAIInstrumentation: OpenAIInstrumentation | null = null;
-
 /**
  * Instrument the OpenAI LLM provider.
  *
  * This function enables tracing for all OpenAI API calls made through
  * the official OpenAI JavaScript/TypeScript client.
  *
+ * Clients pointed at OpenAI-compatible APIs (e.g. Azure OpenAI, Together or
+ * DeepSeek) are tagged with the provider resolved from their base URL. Other
+ * providers, such as self-hosted servers, can be added with the
+ * `openAICompatibleProviders` configuration option.
+ *
  * @example
  * ```typescript
  * import { configure, instrumentOpenAI } from "@atla-ai/insights-sdk-js";
@@ -35,6 +43,7 @@ let openAIInstrumentation: OpenAIInstrumentation | null = null;
  * ```
  *
  * @param openaiModule - The OpenAI module to instrument. If not provided, the default OpenAI module will be instrumented.
+ * @param insights - The SDK instance to report to. Defaults to the global one.
  *
  * @example
  * ```typescript
@@ -57,33 +66,50 @@ let openAIInstrumentation: OpenAIInstrumentation | null = null;
  *
  * @returns void
  */
-
-// biome-ignore lint/suspicious/noExplicitAny: Allow any
-export function instrumentOpenAI(openaiModule?: any): void {
+export function instrumentOpenAI(
+	// biome-ignore lint/suspicious/noExplicitAny: Allow any
+	openaiModule?: any,
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
 	const context = getAtlaContext();
-	if (context?.suppressInstrumentation) {
+	if (context?.suppressInstrumentation || insights.disabled) {
 		return;
 	}
 
-	if (!ATLA_INSIGHTS.configured) {
+	if (!insights.configured) {
 		throw new Error(
 			"Atla Insights must be configured before instrumenting OpenAI. " +
 				"Please call configure first.",
 		);
 	}
 
-	openAIInstrumentation = new OpenAIInstrumentation({
-		tracerProvider: ATLA_INSIGHTS.getTracerProvider(),
-	});
+	// Every client shares the instrumentations of the module
+	const openAIInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) => new OpenAIInstrumentation({ tracerProvider }),
+	);
+
+	const openAICompatibleInstrumentation = getSharedInstrumentation(
+		SERVICE_NAME,
+		(tracerProvider) =>
+			new OpenAICompatibleInstrumentation({
+				tracerProvider,
+				getCustomProviders: () =>
+					getActiveClient().getOpenAICompatibleProviders(),
+			}),
+		"compatible",
+	);
 
 	// If a module is provided, manually instrument it
 	if (openaiModule) {
 		openAIInstrumentation.manuallyInstrument(openaiModule);
+		openAICompatibleInstrumentation.manuallyInstrument(openaiModule);
 	}
 
-	// Register it with OpenTelemetry
-	ATLA_INSIGHTS.registerInstrumentations(SERVICE_NAME, [
+	// Register them with OpenTelemetry
+	insights.registerInstrumentations(SERVICE_NAME, [
 		openAIInstrumentation as unknown as InstrumentationBase,
+		openAICompatibleInstrumentation,
 	]);
 }
 
@@ -102,13 +128,15 @@ export function instrumentOpenAI(openaiModule?: any): void {
  *
  * @returns void
  */
-export function uninstrumentOpenAI(): void {
+export function uninstrumentOpenAI(
+	insights: AtlaInsightsClient = ATLA_INSIGHTS,
+): void {
 	const context = getAtlaContext();
 	if (context?.suppressInstrumentation) {
 		return;
 	}
 
-	ATLA_INSIGHTS.unregisterInstrumentations(SERVICE_NAME);
+	insights.unregisterInstrumentations(SERVICE_NAME);
 }
 
 /**
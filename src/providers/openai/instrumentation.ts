@@ -0,0 +1,173 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	diag,
+	type Span,
+	trace,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import {
+	InstrumentationBase,
+	type InstrumentationConfig,
+	InstrumentationNodeModuleDefinition,
+	isWrapped,
+} from "@opentelemetry/instrumentation";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import {
+	LLM_PROVIDER,
+	LLM_SYSTEM,
+} from "@arizeai/openinference-semantic-conventions";
+import { INSTRUMENTATION_SCOPE_MAPPINGS } from "../../atla_root_span_processor";
+import {
+	type OpenAICompatibleProviders,
+	resolveOpenAICompatibleProvider,
+} from "./compatible";
+
+const INSTRUMENTATION_NAME = "@atla-ai/instrumentation-openai-compatible";
+const INSTRUMENTATION_VERSION = "0.1.0";
+const MODULE_NAME = "openai";
+
+/**
+ * The scope of the spans recorded by the OpenInference OpenAI instrumentation.
+ */
+const OPENAI_INSTRUMENTATION_SCOPE =
+	"@arizeai/openinference-instrumentation-openai";
+
+/**
+ * The scopes of those spans, which `AtlaRootSpanProcessor` renames as soon as
+ * they start.
+ */
+const OPENAI_INSTRUMENTATION_SCOPES = new Set([
+	OPENAI_INSTRUMENTATION_SCOPE,
+	INSTRUMENTATION_SCOPE_MAPPINGS[OPENAI_INSTRUMENTATION_SCOPE],
+]);
+
+/**
+ * The OpenInference tracer wraps its spans to mask their attributes.
+ */
+function getReadableSpan(span: Span): Partial<ReadableSpan> {
+	return (span as { span?: Span }).span ?? span;
+}
+
+export interface OpenAICompatibleInstrumentationOptions {
+	instrumentationConfig?: InstrumentationConfig;
+	tracerProvider?: TracerProvider;
+	/**
+	 * Get the custom providers. Called on every request so that they follow
+	 * the latest configuration.
+	 */
+	getCustomProviders?: () => OpenAICompatibleProviders | undefined;
+}
+
+/**
+ * Companion of the OpenInference OpenAI instrumentation for OpenAI-compatible
+ * APIs.
+ *
+ * The OpenInference instrumentation tags every span as OpenAI (or Azure).
+ * Requests are sent while its span is active, so the client's `request` is
+ * wrapped to tag that span with the provider resolved from the base URL.
+ */
+export class OpenAICompatibleInstrumentation extends InstrumentationBase {
+	private manuallyInstrumentedModules: any[] = [];
+	private getCustomProviders: () => OpenAICompatibleProviders | undefined;
+
+	constructor({
+		instrumentationConfig,
+		tracerProvider,
+		getCustomProviders = () => undefined,
+	}: OpenAICompatibleInstrumentationOptions = {}) {
+		super(INSTRUMENTATION_NAME, INSTRUMENTATION_VERSION, {
+			...instrumentationConfig,
+		});
+		this.getCustomProviders = getCustomProviders;
+		if (tracerProvider) {
+			this.setTracerProvider(tracerProvider);
+		}
+	}
+
+	protected init() {
+		return new InstrumentationNodeModuleDefinition(
+			MODULE_NAME,
+			[">=4.0.0"],
+			this.patch.bind(this),
+			this.unpatch.bind(this),
+		);
+	}
+
+	/**
+	 * Manually instrument the OpenAI module. This is needed when the module is
+	 * not loaded via require (e.g. ESM or bundled code).
+	 */
+	manuallyInstrument(module: any): void {
+		diag.debug(`Manually instrumenting ${MODULE_NAME}`);
+		this.patch(module);
+		this.manuallyInstrumentedModules.push(module);
+	}
+
+	override disable(): void {
+		super.disable();
+		for (const module of this.manuallyInstrumentedModules) {
+			this.unpatch(module);
+		}
+		this.manuallyInstrumentedModules = [];
+	}
+
+	private getClientPrototype(module: any): any {
+		const OpenAI = module?.OpenAI ?? module?.default ?? module;
+		return OpenAI?.prototype;
+	}
+
+	private patch(module: any, moduleVersion?: string): any {
+		diag.debug(`Applying patch for ${MODULE_NAME}@${moduleVersion}`);
+		const prototype = this.getClientPrototype(module);
+		if (typeof prototype?.request !== "function") {
+			diag.warn(`Atla Insights: Could not find the ${MODULE_NAME} client`);
+			return module;
+		}
+
+		// Re-instrumenting replaces the previous wrapper
+		this.unpatch(module);
+
+		const instrumentation = this;
+		this._wrap(
+			prototype,
+			"request",
+			(original: any) =>
+				function patchedRequest(this: any, ...args: any[]) {
+					instrumentation.tagActiveSpan(this.baseURL);
+					return original.apply(this, args);
+				},
+		);
+		return module;
+	}
+
+	private unpatch(module: any, moduleVersion?: string): void {
+		diag.debug(`Removing patch for ${MODULE_NAME}@${moduleVersion}`);
+		const prototype = this.getClientPrototype(module);
+		if (isWrapped(prototype?.request)) {
+			this._unwrap(prototype, "request");
+		}
+	}
+
+	private tagActiveSpan(baseURL: unknown): void {
+		const span = trace.getActiveSpan();
+		// Leave alone the spans of other instrumentations
+		if (
+			!span ||
+			!OPENAI_INSTRUMENTATION_SCOPES.has(
+				getReadableSpan(span).instrumentationLibrary?.name ?? "",
+			)
+		) {
+			return;
+		}
+		const resolved = resolveOpenAICompatibleProvider(
+			baseURL,
+			this.getCustomProviders(),
+		);
+		if (resolved) {
+			span.setAttributes({
+				[LLM_PROVIDER]: resolved.provider,
+				[LLM_SYSTEM]: resolved.system,
+			});
+		}
+	}
+}
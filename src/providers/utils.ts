@@ -0,0 +1,92 @@
+/**
+ * Helpers shared by the LLM provider instrumentations.
+ */
+import {
+	type AttributeValue,
+	type Span,
+	SpanStatusCode,
+} from "@opentelemetry/api";
+
+/**
+ * Set the attributes yielded by an attribute generator on a span.
+ */
+export function setSpanAttributes(
+	span: Span,
+	attributes: Iterable<[string, AttributeValue]>,
+): void {
+	for (const [key, value] of attributes) {
+		span.setAttribute(key, value);
+	}
+}
+
+/**
+ * Record a failed request on its span and end it.
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+	const exception = error instanceof Error ? error : new Error(String(error));
+	span.recordException(exception);
+	span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+	span.end();
+}
+
+export function isAsyncIterable(
+	value: unknown,
+): value is AsyncIterable<unknown> {
+	return (
+		typeof (value as AsyncIterable<unknown> | undefined)?.[
+			Symbol.asyncIterator
+		] === "function"
+	);
+}
+
+/**
+ * Iterate over a streamed response, calling `onChunk` for every chunk and
+ * `onEnd` once the stream has been consumed, or with the chunks received so
+ * far when the consumer stops early.
+ *
+ * Errors thrown by the stream are recorded on the span before being rethrown.
+ */
+export async function* traceAsyncIterable<T>(
+	span: Span,
+	iterable: AsyncIterable<T>,
+	onChunk: (chunk: T) => void,
+	onEnd: () => void,
+): AsyncGenerator<T> {
+	let failed = false;
+	try {
+		for await (const chunk of iterable) {
+			onChunk(chunk);
+			yield chunk;
+		}
+	} catch (error) {
+		failed = true;
+		recordSpanError(span, error);
+		throw error;
+	} finally {
+		if (!failed) {
+			onEnd();
+		}
+	}
+}
+
+/**
+ * Trace a stream object in place by replacing its async iterator, so that
+ * the object keeps its own helpers (e.g. `controller` or `toReadableStream`).
+ */
+export function wrapAsyncIterator<T>(
+	span: Span,
+	stream: AsyncIterable<T>,
+	onChunk: (chunk: T) => void,
+	onEnd: () => void,
+): void {
+	const iterate = stream[Symbol.asyncIterator].bind(stream);
+	(stream as { [Symbol.asyncIterator]: () => AsyncIterator<T> })[
+		Symbol.asyncIterator
+	] = () =>
+		traceAsyncIterable<T>(
+			span,
+			{ [Symbol.asyncIterator]: iterate },
+			onChunk,
+			onEnd,
+		);
+}
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Auto-configuration entry point.
+ *
+ * Configures the SDK from environment variables and instruments the supported
+ * libraries when loaded, so that tracing can be enabled without changing the
+ * application code:
+ *
+ * ```bash
+ * ATLA_INSIGHTS_TOKEN=... node --require @atla-ai/insights-sdk-js/register app.js
+ * ```
+ *
+ * The instrumented libraries can be restricted with the `ATLA_INSTRUMENT`
+ * environment variable (e.g. "openai,langchain").
+ *
+ * Only the libraries loaded with `require` are patched: no ES module loader
+ * hook is registered.
+ */
+import { parseListEnv } from "./env";
+import { INSTRUMENT_ENV_VAR } from "./internal/constants";
+import { ATLA_INSIGHTS } from "./main";
+import { instrumentOpenAI } from "./providers/openai/index";
+import { instrumentAnthropic } from "./providers/anthropic/index";
+import { instrumentGoogleGenAI } from "./providers/google-genai/index";
+import { instrumentBedrock } from "./providers/bedrock/index";
+import { instrumentMistral } from "./providers/mistral/index";
+import { instrumentCohere } from "./providers/cohere/index";
+import { instrumentGroq } from "./providers/groq/index";
+import { instrumentLangChain } from "./providers/langchain/index";
+import { instrumentOpenAIAgents } from "./frameworks/openai-agents/index";
+import { instrumentLlamaIndex } from "./frameworks/llamaindex/index";
+import { instrumentMCP } from "./frameworks/mcp/index";
+
+const AUTO_INSTRUMENTATIONS: Record<string, () => void> = {
+	openai: () => instrumentOpenAI(),
+	anthropic: () => instrumentAnthropic(),
+	"google-genai": () => instrumentGoogleGenAI(),
+	bedrock: () => instrumentBedrock(),
+	mistral: () => instrumentMistral(),
+	cohere: () => instrumentCohere(),
+	groq: () => instrumentGroq(),
+	langchain: () => instrumentLangChain(),
+	"openai-agents": () => instrumentOpenAIAgents(),
+	llamaindex: () => instrumentLlamaIndex(),
+	mcp: () => instrumentMCP(),
+};
+
+function register(): void {
+	try {
+		ATLA_INSIGHTS.configure({ registerShutdownHooks: true });
+	} catch (error) {
+		console.warn(
+			`Atla Insights: Tracing disabled, failed to configure from the environment: ${
+				(error as Error).message
+			}`,
+		);
+		return;
+	}
+
+	const names =
+		parseListEnv(process.env[INSTRUMENT_ENV_VAR]) ??
+		Object.keys(AUTO_INSTRUMENTATIONS);
+	for (const name of names) {
+		if (!Object.keys(AUTO_INSTRUMENTATIONS).includes(name)) {
+			console.warn(`Atla Insights: Unknown instrumentation "${name}"`);
+			continue;
+		}
+		try {
+			AUTO_INSTRUMENTATIONS[name]();
+		} catch (error) {
+			console.warn(
+				`Atla Insights: Failed to instrument ${name}: ${(error as Error).message}`,
+			);
+		}
+	}
+}
+
+register();
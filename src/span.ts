@@ -1,4 +1,9 @@
-import { type Span, SpanKind } from "@opentelemetry/api";
+import {
+	INVALID_SPAN_CONTEXT,
+	type Span,
+	SpanKind,
+	trace,
+} from "@opentelemetry/api";
 import type {
 	ChatCompletionMessageParam,
 	ChatCompletionAssistantMessageParam,
@@ -19,8 +24,12 @@ import {
 	MESSAGE_FUNCTION_CALL_ARGUMENTS_JSON,
 	TOOL_JSON_SCHEMA,
 } from "@arizeai/openinference-semantic-conventions";
-import { ATLA_INSIGHTS } from "./main";
-import { getAtlaContext, runWithContext } from "./context";
+import { ATLA_INSIGHTS, type AtlaInsightsClient } from "./main";
+import {
+	getAtlaContext,
+	getClientSpanOptions,
+	runWithContext,
+} from "./context";
 
 export class AtlaSpan {
 	constructor(private span: Span) {}
@@ -172,34 +181,49 @@ export class AtlaSpan {
 /**
  * Start a span as the current span and run the given function.
  *
+ * The function is run untraced if the SDK is disabled or not configured yet.
+ *
  * @param name - The name of the span.
  * @param fn - The function to run. The function will be run with the current context.
+ * @param insights - The SDK instance recording the span. Defaults to the one of the instrumented function.
  * @returns The result of the function.
  */
 export async function startAsCurrentSpan<T>(
 	name: string,
 	fn: (span: AtlaSpan) => T | Promise<T>,
+	insights?: AtlaInsightsClient,
 ): Promise<T> {
-	const tracerProvider = ATLA_INSIGHTS.getTracerProvider();
-	if (!tracerProvider) {
-		throw new Error("Atla Insights must be configured before use.");
+	const currentContext = getAtlaContext();
+	// Default to the client of the instrumented function being run
+	const client = insights ?? currentContext?.insights ?? ATLA_INSIGHTS;
+
+	const tracerProvider = client.getTracerProvider();
+	if (client.disabled || !client.configured || !tracerProvider) {
+		// Hand out a span that records nothing
+		return await runWithContext(
+			{ ...currentContext, insights: client },
+			async () =>
+				await fn(new AtlaSpan(trace.wrapSpanContext(INVALID_SPAN_CONTEXT))),
+		);
 	}
+
 	const tracer = tracerProvider.getTracer(
 		"openinference.instrumentation.manual",
 	);
 
+	const options = getClientSpanOptions(client);
 	return tracer.startActiveSpan(
 		name,
-		{ kind: SpanKind.INTERNAL },
+		{ kind: SpanKind.INTERNAL, ...options },
 		async (span: Span) => {
 			const atlaSpan = new AtlaSpan(span);
-			const currentContext = getAtlaContext();
 
 			try {
 				return await runWithContext(
 					{
 						...currentContext,
-						rootSpan: currentContext?.rootSpan ?? span,
+						rootSpan: (!options.root && currentContext?.rootSpan) || span,
+						insights: client,
 					},
 					async () => await fn(atlaSpan),
 				);
@@ -0,0 +1,187 @@
+// Mock Anthropic SDK
+const getMessageResponse = (args: any) => ({
+	id: "msg_test",
+	type: "message",
+	role: "assistant",
+	model: args?.model || "claude-sonnet-4-20250514",
+	content: [{ type: "text", text: "This is a test." }],
+	stop_reason: "end_turn",
+	stop_sequence: null,
+	usage: {
+		input_tokens: 10,
+		output_tokens: 5,
+		cache_read_input_tokens: 0,
+		cache_creation_input_tokens: 0,
+	},
+});
+
+const getStreamEvents = (args: any) => [
+	{
+		type: "message_start",
+		message: {
+			...getMessageResponse(args),
+			content: [],
+			stop_reason: null,
+			usage: { input_tokens: 10, output_tokens: 1 },
+		},
+	},
+	{
+		type: "content_block_start",
+		index: 0,
+		content_block: { type: "text", text: "" },
+	},
+	{
+		type: "content_block_delta",
+		index: 0,
+		delta: { type: "text_delta", text: "Hello" },
+	},
+	{
+		type: "content_block_delta",
+		index: 0,
+		delta: { type: "text_delta", text: " there" },
+	},
+	{ type: "content_block_stop", index: 0 },
+	{
+		type: "message_delta",
+		delta: { stop_reason: "end_turn", stop_sequence: null },
+		usage: { output_tokens: 2 },
+	},
+	{ type: "message_stop" },
+];
+
+// Allow tests to override the mock behavior
+let mockOverride: ((args: any) => any) | null = null;
+
+// Track calls for test assertions
+const mockCalls = {
+	messages: jest.fn(),
+};
+
+export const setAnthropicMockResponse = (responseFn: (args: any) => any) => {
+	mockOverride = responseFn;
+};
+
+export const resetAnthropicMock = () => {
+	mockOverride = null;
+	mockCalls.messages.mockClear();
+};
+
+export const getMockCalls = () => mockCalls;
+
+// Mock APIPromise class
+class MockAPIPromise extends Promise<any> {
+	// Anthropic APIPromise method to get the raw response alongside the data
+	withResponse(): Promise<any> {
+		return this.then((data) => ({ data, response: { headers: {} } }));
+	}
+}
+
+// Mock MessageStream, emitting the final message once iterated
+class MockMessageStream {
+	private listeners: Record<string, ((...args: any[]) => void)[]> = {};
+	private finalMessagePromise: Promise<any>;
+
+	constructor(
+		private events: any[],
+		message: any,
+		error?: Error,
+	) {
+		this.finalMessagePromise = new Promise((resolve, reject) => {
+			setImmediate(() => {
+				if (error) {
+					this.emit("error", error);
+					reject(error);
+					return;
+				}
+				this.emit("finalMessage", message);
+				resolve(message);
+			});
+		});
+		this.finalMessagePromise.catch(() => {});
+	}
+
+	on(event: string, listener: (...args: any[]) => void) {
+		this.listeners[event] = [...(this.listeners[event] ?? []), listener];
+		return this;
+	}
+
+	private emit(event: string, ...args: any[]) {
+		for (const listener of this.listeners[event] ?? []) {
+			listener(...args);
+		}
+	}
+
+	finalMessage() {
+		return this.finalMessagePromise;
+	}
+
+	async *[Symbol.asyncIterator]() {
+		for (const event of this.events) yield event;
+	}
+}
+
+// Mock the Messages class
+class MockMessages {
+	create(args: any) {
+		mockCalls.messages(args);
+
+		return new MockAPIPromise((resolve, reject) => {
+			// Simulate async behavior
+			setImmediate(() => {
+				try {
+					// If test has set a custom response, use it
+					if (mockOverride) {
+						resolve(mockOverride(args));
+						return;
+					}
+
+					if (args?.stream) {
+						const events = getStreamEvents(args);
+						resolve({
+							[Symbol.asyncIterator]: async function* () {
+								for (const event of events) yield event;
+							},
+						});
+						return;
+					}
+
+					resolve(getMessageResponse(args));
+				} catch (error) {
+					reject(error);
+				}
+			});
+		});
+	}
+
+	stream(args: any) {
+		mockCalls.messages(args);
+
+		try {
+			const message = mockOverride
+				? mockOverride(args)
+				: {
+						...getMessageResponse(args),
+						content: [{ type: "text", text: "Hello there" }],
+					};
+			return new MockMessageStream(getStreamEvents(args), message);
+		} catch (error) {
+			return new MockMessageStream([], undefined, error as Error);
+		}
+	}
+}
+
+class MockAnthropic {
+	static Messages = MockMessages;
+
+	messages = new MockMessages();
+}
+
+module.exports = {
+	Anthropic: MockAnthropic,
+	default: MockAnthropic,
+	APIPromise: MockAPIPromise,
+	setAnthropicMockResponse,
+	resetAnthropicMock,
+	getMockCalls,
+};
+module.exports.__esModule = true;
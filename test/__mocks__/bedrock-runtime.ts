@@ -0,0 +1,161 @@
+// Mock AWS SDK Bedrock Runtime client
+const encode = (value: any) => new TextEncoder().encode(JSON.stringify(value));
+
+const getInvokeModelBody = () => ({
+	id: "msg_test",
+	type: "message",
+	role: "assistant",
+	model: "claude-3-haiku-20240307",
+	content: [{ type: "text", text: "This is a test." }],
+	stop_reason: "end_turn",
+	usage: { input_tokens: 10, output_tokens: 5 },
+});
+
+const getConverseResponse = () => ({
+	$metadata: { httpStatusCode: 200, requestId: "request-id" },
+	output: {
+		message: { role: "assistant", content: [{ text: "This is a test." }] },
+	},
+	stopReason: "end_turn",
+	usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+	metrics: { latencyMs: 100 },
+});
+
+const getInvokeModelStreamChunks = () => [
+	{
+		type: "message_start",
+		message: {
+			...getInvokeModelBody(),
+			content: [],
+			stop_reason: null,
+			usage: { input_tokens: 10, output_tokens: 1 },
+		},
+	},
+	{
+		type: "content_block_start",
+		index: 0,
+		content_block: { type: "text", text: "" },
+	},
+	{
+		type: "content_block_delta",
+		index: 0,
+		delta: { type: "text_delta", text: "Hello" },
+	},
+	{
+		type: "content_block_delta",
+		index: 0,
+		delta: { type: "text_delta", text: " there" },
+	},
+	{ type: "content_block_stop", index: 0 },
+	{
+		type: "message_delta",
+		delta: { stop_reason: "end_turn" },
+		usage: { output_tokens: 2 },
+	},
+	{
+		type: "message_stop",
+		"amazon-bedrock-invocationMetrics": {
+			inputTokenCount: 10,
+			outputTokenCount: 2,
+		},
+	},
+];
+
+const getConverseStreamEvents = () => [
+	{ messageStart: { role: "assistant" } },
+	{ contentBlockDelta: { contentBlockIndex: 0, delta: { text: "Hello" } } },
+	{ contentBlockDelta: { contentBlockIndex: 0, delta: { text: " there" } } },
+	{ contentBlockStop: { contentBlockIndex: 0 } },
+	{ messageStop: { stopReason: "end_turn" } },
+	{
+		metadata: { usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 } },
+	},
+];
+
+async function* toAsyncIterable(items: any[]) {
+	for (const item of items) yield item;
+}
+
+const getResponse = (command: any) => {
+	switch (command.constructor.name) {
+		case "InvokeModelCommand":
+			return { body: encode(getInvokeModelBody()) };
+		case "InvokeModelWithResponseStreamCommand":
+			return {
+				body: toAsyncIterable(
+					getInvokeModelStreamChunks().map((chunk) => ({
+						chunk: { bytes: encode(chunk) },
+					})),
+				),
+			};
+		case "ConverseCommand":
+			return getConverseResponse();
+		case "ConverseStreamCommand":
+			return { stream: toAsyncIterable(getConverseStreamEvents()) };
+		default:
+			return {};
+	}
+};
+
+// Allow tests to override the mock behavior
+let mockOverride: ((command: any) => any) | null = null;
+
+// Track calls for test assertions
+const mockCalls = {
+	send: jest.fn(),
+};
+
+export const setBedrockMockResponse = (responseFn: (command: any) => any) => {
+	mockOverride = responseFn;
+};
+
+export const resetBedrockMock = () => {
+	mockOverride = null;
+	mockCalls.send.mockClear();
+};
+
+export const getMockCalls = () => mockCalls;
+
+// Helpers to build the bodies of the InvokeModel commands
+export const encodeBody = encode;
+
+export const toEventStream = (chunks: any[]) =>
+	toAsyncIterable(chunks.map((chunk) => ({ chunk: { bytes: encode(chunk) } })));
+
+class Command {
+	constructor(public input: any) {}
+}
+
+class InvokeModelCommand extends Command {}
+class InvokeModelWithResponseStreamCommand extends Command {}
+class ConverseCommand extends Command {}
+class ConverseStreamCommand extends Command {}
+class ListAsyncInvokesCommand extends Command {}
+
+class BedrockRuntimeClient {
+	constructor(public config: any = {}) {}
+
+	async send(command: any) {
+		mockCalls.send(command);
+		await new Promise((resolve) => setImmediate(resolve));
+		if (mockOverride) {
+			return mockOverride(command);
+		}
+		return getResponse(command);
+	}
+}
+
+module.exports = {
+	BedrockRuntimeClient,
+	InvokeModelCommand,
+	InvokeModelWithResponseStreamCommand,
+	ConverseCommand,
+	ConverseStreamCommand,
+	ListAsyncInvokesCommand,
+	setBedrockMockResponse,
+	resetBedrockMock,
+	getMockCalls,
+	encodeBody,
+	toEventStream,
+};
+module.exports.__esModule = true;
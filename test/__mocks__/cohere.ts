@@ -0,0 +1,122 @@
+// Mock Cohere SDK
+const getV1ChatResponse = (_args: any) => ({
+	text: "This is a test.",
+	generationId: "gen_test",
+	finishReason: "COMPLETE",
+	meta: {
+		billedUnits: { inputTokens: 8, outputTokens: 5 },
+		tokens: { inputTokens: 10, outputTokens: 5 },
+	},
+});
+
+const getV1StreamEvents = (args: any) => [
+	{ eventType: "stream-start", generationId: "gen_test" },
+	{ eventType: "text-generation", text: "Hello" },
+	{ eventType: "text-generation", text: " there" },
+	{
+		eventType: "stream-end",
+		finishReason: "COMPLETE",
+		response: {
+			...getV1ChatResponse(args),
+			text: "Hello there",
+			meta: { tokens: { inputTokens: 10, outputTokens: 2 } },
+		},
+	},
+];
+
+const getV2ChatResponse = (_args: any) => ({
+	id: "chat_test",
+	finishReason: "COMPLETE",
+	message: {
+		role: "assistant",
+		content: [{ type: "text", text: "This is a test." }],
+	},
+	usage: {
+		billedUnits: { inputTokens: 8, outputTokens: 5 },
+		tokens: { inputTokens: 10, outputTokens: 5 },
+	},
+});
+
+const getV2StreamEvents = (_args: any) => [
+	{ type: "message-start", id: "chat_test", delta: { message: {} } },
+	{
+		type: "content-delta",
+		index: 0,
+		delta: { message: { content: { text: "Hello" } } },
+	},
+	{
+		type: "content-delta",
+		index: 0,
+		delta: { message: { content: { text: " there" } } },
+	},
+	{
+		type: "message-end",
+		delta: {
+			finishReason: "COMPLETE",
+			usage: { tokens: { inputTokens: 10, outputTokens: 2 } },
+		},
+	},
+];
+
+// Allow tests to override the mock behavior
+let mockOverride: ((args: any) => any) | null = null;
+
+// Track calls for test assertions
+const mockCalls = {
+	chat: jest.fn(),
+	chatStream: jest.fn(),
+};
+
+export const setCohereMockResponse = (responseFn: (args: any) => any) => {
+	mockOverride = responseFn;
+};
+
+export const resetCohereMock = () => {
+	mockOverride = null;
+	mockCalls.chat.mockClear();
+	mockCalls.chatStream.mockClear();
+};
+
+export const getMockCalls = () => mockCalls;
+
+const chat = async (args: any, getResponse: (args: any) => any) => {
+	mockCalls.chat(args);
+	await new Promise((resolve) => setImmediate(resolve));
+	return mockOverride ? mockOverride(args) : getResponse(args);
+};
+
+const chatStream = async (args: any, getEvents: (args: any) => any[]) => {
+	mockCalls.chatStream(args);
+	await new Promise((resolve) => setImmediate(resolve));
+	const events = mockOverride ? mockOverride(args) : getEvents(args);
+	return (async function* () {
+		for (const event of events) yield event;
+	})();
+};
+
+// The v1 client defines its methods on its prototype
+class MockCohereClient {
+	chat(args: any) {
+		return chat(args, getV1ChatResponse);
+	}
+
+	chatStream(args: any) {
+		return chatStream(args, getV1StreamEvents);
+	}
+}
+
+// The v2 client defines its methods on the client itself
+class MockCohereClientV2 {
+	chat = (args: any) => chat(args, getV2ChatResponse);
+
+	chatStream = (args: any) => chatStream(args, getV2StreamEvents);
+}
+
+module.exports = {
+	CohereClient: MockCohereClient,
+	CohereClientV2: MockCohereClientV2,
+	setCohereMockResponse,
+	resetCohereMock,
+	getMockCalls,
+};
+module.exports.__esModule = true;
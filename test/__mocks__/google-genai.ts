@@ -0,0 +1,138 @@
+// Mock Google Gen AI SDK
+const getGenerateContentResponse = (args: any) => ({
+	candidates: [
+		{
+			content: { role: "model", parts: [{ text: "This is a test." }] },
+			finishReason: "STOP",
+			index: 0,
+			safetyRatings: [
+				{ category: "HARM_CATEGORY_HARASSMENT", probability: "NEGLIGIBLE" },
+			],
+		},
+	],
+	modelVersion: args?.model || "gemini-2.5-flash",
+	usageMetadata: {
+		promptTokenCount: 10,
+		candidatesTokenCount: 5,
+		totalTokenCount: 15,
+	},
+});
+
+const getStreamChunks = (args: any) => [
+	{
+		candidates: [
+			{ content: { role: "model", parts: [{ text: "Hello" }] }, index: 0 },
+		],
+		modelVersion: args?.model || "gemini-2.5-flash",
+	},
+	{
+		candidates: [
+			{
+				content: { role: "model", parts: [{ text: " there" }] },
+				finishReason: "STOP",
+				index: 0,
+			},
+		],
+		modelVersion: args?.model || "gemini-2.5-flash",
+		usageMetadata: {
+			promptTokenCount: 10,
+			candidatesTokenCount: 2,
+			totalTokenCount: 12,
+		},
+	},
+];
+
+// Allow tests to override the mock behavior
+let mockOverride: ((args: any) => any) | null = null;
+
+// Track calls for test assertions
+const mockCalls = {
+	generateContent: jest.fn(),
+	generateContentStream: jest.fn(),
+};
+
+export const setGoogleGenAIMockResponse = (responseFn: (args: any) => any) => {
+	mockOverride = responseFn;
+};
+
+export const resetGoogleGenAIMock = () => {
+	mockOverride = null;
+	mockCalls.generateContent.mockClear();
+	mockCalls.generateContentStream.mockClear();
+};
+
+export const getMockCalls = () => mockCalls;
+
+// Like the real SDK, the methods are instance properties, not prototype methods
+class MockModels {
+	generateContent = async (args: any) => {
+		mockCalls.generateContent(args);
+		await new Promise((resolve) => setImmediate(resolve));
+		if (mockOverride) {
+			return mockOverride(args);
+		}
+		return getGenerateContentResponse(args);
+	};
+
+	generateContentStream = async (args: any) => {
+		mockCalls.generateContentStream(args);
+		await new Promise((resolve) => setImmediate(resolve));
+		const chunks = mockOverride ? mockOverride(args) : getStreamChunks(args);
+		return (async function* () {
+			for (const chunk of chunks) yield chunk;
+		})();
+	};
+}
+
+// Mock chat session, sending the whole history with every message
+class MockChat {
+	private history: any[];
+
+	constructor(
+		private models: MockModels,
+		private model: string,
+		history: any[] = [],
+	) {
+		this.history = [...history];
+	}
+
+	async sendMessage({ message }: { message: string }) {
+		const userContent = { role: "user", parts: [{ text: message }] };
+		const response = await this.models.generateContent({
+			model: this.model,
+			contents: [...this.history, userContent],
+		});
+		this.history.push(userContent, response.candidates[0].content);
+		return response;
+	}
+
+	getHistory() {
+		return this.history;
+	}
+}
+
+class MockChats {
+	constructor(private models: MockModels) {}
+
+	create({ model, history }: { model: string; history?: any[] }) {
+		return new MockChat(this.models, model, history);
+	}
+}
+
+class MockGoogleGenAI {
+	models: MockModels;
+	chats: MockChats;
+
+	constructor(_options: any = {}) {
+		this.models = new MockModels();
+		this.chats = new MockChats(this.models);
+	}
+}
+
+module.exports = {
+	GoogleGenAI: MockGoogleGenAI,
+	setGoogleGenAIMockResponse,
+	resetGoogleGenAIMock,
+	getMockCalls,
+};
+module.exports.__esModule = true;
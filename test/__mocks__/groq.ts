@@ -0,0 +1,87 @@
+// Mock Groq SDK
+const getChatCompletion = (args: any) => ({
+	id: "chatcmpl_test",
+	object: "chat.completion",
+	model: args?.model || "llama-3.3-70b-versatile",
+	choices: [
+		{
+			index: 0,
+			message: { role: "assistant", content: "This is a test." },
+			finish_reason: "stop",
+		},
+	],
+	usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+});
+
+const getStreamChunks = (args: any) => [
+	{
+		id: "chatcmpl_test",
+		model: args?.model || "llama-3.3-70b-versatile",
+		choices: [{ index: 0, delta: { role: "assistant", content: "Hello" } }],
+	},
+	{
+		id: "chatcmpl_test",
+		model: args?.model || "llama-3.3-70b-versatile",
+		choices: [{ index: 0, delta: { content: " there" } }],
+	},
+	{
+		id: "chatcmpl_test",
+		model: args?.model || "llama-3.3-70b-versatile",
+		choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+		x_groq: {
+			usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+		},
+	},
+];
+
+// Allow tests to override the mock behavior
+let mockOverride: ((args: any) => any) | null = null;
+
+// Track calls for test assertions
+const mockCalls = {
+	create: jest.fn(),
+};
+
+export const setGroqMockResponse = (responseFn: (args: any) => any) => {
+	mockOverride = responseFn;
+};
+
+export const resetGroqMock = () => {
+	mockOverride = null;
+	mockCalls.create.mockClear();
+};
+
+export const getMockCalls = () => mockCalls;
+
+class Completions {
+	async create(args: any) {
+		mockCalls.create(args);
+		await new Promise((resolve) => setImmediate(resolve));
+		if (!args?.stream) {
+			return mockOverride ? mockOverride(args) : getChatCompletion(args);
+		}
+		const chunks = mockOverride ? mockOverride(args) : getStreamChunks(args);
+		return (async function* () {
+			for (const chunk of chunks) yield chunk;
+		})();
+	}
+}
+
+class Chat {
+	static Completions = Completions;
+	completions = new Completions();
+}
+
+class Groq {
+	static Chat = Chat;
+	chat = new Chat();
+}
+
+module.exports = {
+	default: Groq,
+	Groq,
+	setGroqMockResponse,
+	resetGroqMock,
+	getMockCalls,
+};
+module.exports.__esModule = true;
@@ -0,0 +1,166 @@
+// Mock LlamaIndex.TS
+import { AsyncLocalStorage } from "node:async_hooks";
+
+type EventCaller = { caller: unknown; parent: EventCaller | null };
+type Handler = (event: { detail: any; reason: EventCaller | null }) => void;
+
+const eventCallers = new AsyncLocalStorage<EventCaller>();
+
+export const getEventCaller = () => eventCallers.getStore() ?? null;
+
+const withEventCaller = <T>(caller: unknown, fn: () => T): T =>
+	eventCallers.run({ caller, parent: getEventCaller() }, fn);
+
+class CallbackManager {
+	private handlers = new Map<string, Handler[]>();
+
+	on(event: string, handler: Handler) {
+		this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+		return this;
+	}
+
+	off(event: string, handler: Handler) {
+		this.handlers.set(
+			event,
+			(this.handlers.get(event) ?? []).filter((h) => h !== handler),
+		);
+		return this;
+	}
+
+	dispatchEvent(event: string, detail: any) {
+		for (const handler of this.handlers.get(event) ?? []) {
+			handler({ detail, reason: getEventCaller() });
+		}
+	}
+
+	listenerCount(event: string) {
+		return (this.handlers.get(event) ?? []).length;
+	}
+}
+
+export const Settings = {
+	callbackManager: new CallbackManager(),
+};
+
+const dispatch = (event: string, detail: any) =>
+	Settings.callbackManager.dispatchEvent(event, detail);
+
+export class BaseEmbedding {
+	model = "text-embedding-3-small";
+
+	async getQueryEmbedding(_query: unknown): Promise<number[]> {
+		return [0.1, 0.2, 0.3];
+	}
+
+	async getTextEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+		return texts.map((_, i) => [i, i + 0.5]);
+	}
+}
+
+export class CohereRerank {
+	model = "rerank-english-v3.0";
+	topN = 1;
+
+	async postprocessNodes(nodes: any[], _query?: unknown): Promise<any[]> {
+		return nodes
+			.map((node, i) => ({ ...node, score: 0.9 - i * 0.1 }))
+			.reverse()
+			.slice(0, this.topN);
+	}
+}
+
+export const getNodes = () => [
+	{
+		node: {
+			id_: "node-1",
+			text: "Paris is the capital of France.",
+			metadata: { file_name: "france.txt" },
+		},
+		score: 0.82,
+	},
+	{
+		node: {
+			id_: "node-2",
+			getContent: () => "Berlin is the capital of Germany.",
+			metadata: {},
+		},
+		score: 0.41,
+	},
+];
+
+export class OpenAI {
+	model = "gpt-4o-mini";
+
+	async chat({ messages }: { messages: any[] }) {
+		const id = `llm-${Math.random()}`;
+		dispatch("llm-start", { id, messages });
+		await new Promise((resolve) => setImmediate(resolve));
+		const response = {
+			message: { role: "assistant", content: "Paris." },
+			raw: {
+				model: this.model,
+				usage: { prompt_tokens: 12, completion_tokens: 2, total_tokens: 14 },
+			},
+		};
+		dispatch("llm-end", { id, response });
+		return response;
+	}
+}
+
+export class RetrieverQueryEngine {
+	embedModel = new BaseEmbedding();
+	llm = new OpenAI();
+
+	query({ query }: { query: string }) {
+		return withEventCaller(this, () => this.runQuery(query));
+	}
+
+	private async runQuery(query: string) {
+		const id = "query-1";
+		dispatch("query-start", { id, query: { query } });
+		dispatch("retrieve-start", { query: { query } });
+		await this.embedModel.getQueryEmbedding({ query });
+		const nodes = getNodes();
+		dispatch("retrieve-end", { query: { query }, nodes });
+		dispatch("synthesize-start", { id: "synthesize-1", query: { query } });
+		const result = await this.llm.chat({
+			messages: [{ role: "user", content: query }],
+		});
+		const response = { response: result.message.content, sourceNodes: nodes };
+		dispatch("synthesize-end", {
+			id: "synthesize-1",
+			query: { query },
+			response,
+		});
+		dispatch("query-end", { id, response });
+		return response;
+	}
+}
+
+export class AgentRunner {
+	run(input: string, { isError = false } = {}) {
+		return withEventCaller(this, async () => this.runAgent(input, isError));
+	}
+
+	private async runAgent(input: string, isError: boolean) {
+		dispatch("agent-start", { startStep: { input } });
+		const toolCall = {
+			id: "call_1",
+			name: "get_weather",
+			input: { city: "Paris" },
+		};
+		dispatch("llm-tool-call", { toolCall });
+		dispatch("llm-tool-result", {
+			toolCall,
+			toolResult: {
+				id: "call_1",
+				input: toolCall.input,
+				output: isError ? "City not found" : "Sunny",
+				isError,
+			},
+		});
+		const output = { message: { role: "assistant", content: "It is sunny." } };
+		dispatch("agent-end", { endStep: { output } });
+		return output;
+	}
+}
@@ -0,0 +1,193 @@
+// Mock Mastra core, whose telemetry traces the components like Mastra does:
+// one span per method, with the arguments and result as JSON attributes
+import {
+	type Span,
+	SpanStatusCode,
+	trace,
+	type Tracer,
+} from "@opentelemetry/api";
+
+export class Telemetry {
+	tracer: Tracer = trace.getTracer("default-service");
+
+	constructor(public name = "default-service") {
+		(globalThis as { __TELEMETRY__?: Telemetry }).__TELEMETRY__ = this;
+	}
+
+	traced<TArgs extends unknown[], TResult>(
+		fn: (...args: TArgs) => Promise<TResult>,
+		{
+			spanName,
+			attributes = {},
+		}: { spanName: string; attributes?: Record<string, string> },
+	): (...args: TArgs) => Promise<TResult> {
+		return (...args) =>
+			this.tracer.startActiveSpan(
+				spanName,
+				{ attributes },
+				async (span: Span) => {
+					for (const [i, arg] of args.entries()) {
+						span.setAttribute(`${spanName}.argument.${i}`, JSON.stringify(arg));
+					}
+					try {
+						const result = await fn(...args);
+						span.setAttribute(`${spanName}.result`, JSON.stringify(result));
+						span.setStatus({ code: SpanStatusCode.OK });
+						return result;
+					} catch (error) {
+						span.recordException(error as Error);
+						span.setStatus({ code: SpanStatusCode.ERROR });
+						throw error;
+					} finally {
+						span.end();
+					}
+				},
+			);
+	}
+}
+
+export const resetMastraMock = () => {
+	delete (globalThis as { __TELEMETRY__?: Telemetry }).__TELEMETRY__;
+};
+
+export interface Tool {
+	id: string;
+	execute: (input: any) => Promise<any>;
+}
+
+export const createTool = (tool: Tool) => tool;
+
+export class Agent {
+	telemetry?: Telemetry;
+
+	constructor(
+		public config: {
+			name: string;
+			model: string;
+			tools?: Record<string, Tool>;
+		},
+	) {}
+
+	get name() {
+		return this.config.name;
+	}
+
+	/**
+	 * Run the agent: look up its memory, call the model through the Vercel AI
+	 * SDK, which calls the tools, and return the text.
+	 */
+	async generate(message: string) {
+		const telemetry = this.telemetry as Telemetry;
+		const attributes = { componentName: this.name, runId: "run-1" };
+		return telemetry.traced(
+			async (_message: string) => {
+				await telemetry.traced(async (_query: unknown) => [], {
+					spanName: "memory.query",
+					attributes,
+				})({ threadId: "thread-1" });
+				return this.callModel(telemetry, message);
+			},
+			{ spanName: "agent.generate", attributes },
+		)(message);
+	}
+
+	private async callModel(telemetry: Telemetry, message: string) {
+		const tracer = telemetry.tracer;
+		return tracer.startActiveSpan(
+			"ai.generateText",
+			{
+				attributes: {
+					"ai.operationId": "ai.generateText",
+					"ai.prompt": JSON.stringify({ prompt: message }),
+				},
+			},
+			async (span: Span) => {
+				tracer
+					.startSpan("ai.generateText.doGenerate", {
+						attributes: {
+							"ai.operationId": "ai.generateText.doGenerate",
+							"ai.model.id": this.config.model,
+							"ai.model.provider": "openai.chat",
+							"ai.prompt.messages": JSON.stringify([
+								{ role: "user", content: [{ type: "text", text: message }] },
+							]),
+							"ai.response.text": "It is sunny.",
+							"ai.usage.promptTokens": 10,
+							"ai.usage.completionTokens": 4,
+						},
+					})
+					.end();
+				for (const tool of Object.values(this.config.tools ?? {})) {
+					await telemetry.traced(tool.execute, {
+						spanName: "tool.execute",
+						attributes: { componentName: this.name, toolId: tool.id },
+					})({ city: "Paris" });
+				}
+				const result = { text: "It is sunny." };
+				span.setAttribute("ai.response.text", result.text);
+				span.end();
+				return result;
+			},
+		);
+	}
+}
+
+export class Workflow {
+	telemetry?: Telemetry;
+
+	constructor(
+		public config: {
+			id: string;
+			steps: { id: string; execute: (input: any) => Promise<any> }[];
+		},
+	) {}
+
+	async start(input: unknown) {
+		const telemetry = this.telemetry as Telemetry;
+		const { id, steps } = this.config;
+		return telemetry.traced(
+			async (data: unknown) => {
+				let result = data;
+				for (const step of steps) {
+					result = await telemetry.traced(step.execute, {
+						spanName: `workflow.${id}.step.${step.id}`,
+					})(result);
+				}
+				return result;
+			},
+			{ spanName: `workflow.${id}.execute`, attributes: { componentName: id } },
+		)(input);
+	}
+}
+
+export class Mastra {
+	#telemetry: Telemetry;
+
+	constructor(
+		private config: {
+			agents?: Record<string, Agent>;
+			workflows?: Record<string, Workflow>;
+			telemetry?: { serviceName?: string };
+		} = {},
+	) {
+		this.#telemetry = new Telemetry(config.telemetry?.serviceName);
+		for (const component of [
+			...Object.values(config.agents ?? {}),
+			...Object.values(config.workflows ?? {}),
+		]) {
+			component.telemetry = this.#telemetry;
+		}
+	}
+
+	getTelemetry() {
+		return this.#telemetry;
+	}
+
+	getAgent(name: string) {
+		return this.config.agents?.[name] as Agent;
+	}
+
+	getWorkflow(name: string) {
+		return this.config.workflows?.[name] as Workflow;
+	}
+}
@@ -0,0 +1,93 @@
+// Mock Mistral SDK
+const getChatCompletionResponse = (args: any) => ({
+	id: "cmpl_test",
+	object: "chat.completion",
+	model: args?.model || "mistral-small-latest",
+	choices: [
+		{
+			index: 0,
+			message: { role: "assistant", content: "This is a test." },
+			finishReason: "stop",
+		},
+	],
+	usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+});
+
+const getStreamEvents = (args: any) => [
+	{
+		data: {
+			id: "cmpl_test",
+			model: args?.model || "mistral-small-latest",
+			choices: [{ index: 0, delta: { role: "assistant", content: "Hello" } }],
+		},
+	},
+	{
+		data: {
+			id: "cmpl_test",
+			model: args?.model || "mistral-small-latest",
+			choices: [
+				{ index: 0, delta: { content: " there" }, finishReason: "stop" },
+			],
+			usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 },
+		},
+	},
+];
+
+// Allow tests to override the mock behavior
+let mockOverride: ((args: any) => any) | null = null;
+
+// Track calls for test assertions
+const mockCalls = {
+	complete: jest.fn(),
+	stream: jest.fn(),
+};
+
+export const setMistralMockResponse = (responseFn: (args: any) => any) => {
+	mockOverride = responseFn;
+};
+
+export const resetMistralMock = () => {
+	mockOverride = null;
+	mockCalls.complete.mockClear();
+	mockCalls.stream.mockClear();
+};
+
+export const getMockCalls = () => mockCalls;
+
+class MockChat {
+	async complete(args: any) {
+		mockCalls.complete(args);
+		await new Promise((resolve) => setImmediate(resolve));
+		if (mockOverride) {
+			return mockOverride(args);
+		}
+		return getChatCompletionResponse(args);
+	}
+
+	async stream(args: any) {
+		mockCalls.stream(args);
+		await new Promise((resolve) => setImmediate(resolve));
+		const events = mockOverride ? mockOverride(args) : getStreamEvents(args);
+		return (async function* () {
+			for (const event of events) yield event;
+		})();
+	}
+}
+
+// Like the real SDK, the chat resource is created lazily
+class MockMistral {
+	private _chat?: MockChat;
+
+	get chat() {
+		this._chat ??= new MockChat();
+		return this._chat;
+	}
+}
+
+module.exports = {
+	Mistral: MockMistral,
+	setMistralMockResponse,
+	resetMistralMock,
+	getMockCalls,
+};
+module.exports.__esModule = true;
@@ -70,8 +70,11 @@ class MockAPIPromise extends Promise<any> {
 
 // Mock the inner Chat.Completions class
 class MockChatCompletions {
+	constructor(private _client?: MockOpenAI) {}
+
 	create(args: any) {
 		mockCalls.chatCompletions(args);
+		this._client?.post("/chat/completions", { body: args });
 
 		return new MockAPIPromise((resolve, reject) => {
 			// Simulate async behavior
@@ -134,8 +137,11 @@ class MockChatCompletions {
 
 // Mock the Completions class
 class MockCompletions {
+	constructor(private _client?: MockOpenAI) {}
+
 	create(args: any) {
 		mockCalls.completions(args);
+		this._client?.post("/completions", { body: args });
 
 		return new MockAPIPromise((resolve, reject) => {
 			setImmediate(() => {
@@ -176,8 +182,11 @@ class MockCompletions {
 
 // Mock the Embeddings class
 class MockEmbeddings {
+	constructor(private _client?: MockOpenAI) {}
+
 	create(args: any) {
 		mockCalls.embeddings(args);
+		this._client?.post("/embeddings", { body: args });
 
 		return new MockAPIPromise((resolve, reject) => {
 			setImmediate(() => {
@@ -216,7 +225,11 @@ class MockEmbeddings {
 // Mock Chat namespace
 class MockChat {
 	static Completions = MockChatCompletions;
-	completions = new MockChatCompletions();
+	completions: MockChatCompletions;
+
+	constructor(client?: MockOpenAI) {
+		this.completions = new MockChatCompletions(client);
+	}
 }
 
 class MockOpenAI {
@@ -226,9 +239,23 @@ class MockOpenAI {
 	static APIPromise = MockAPIPromise;
 
 	APIPromise = MockAPIPromise;
-	chat = new MockChat();
-	completions = new MockCompletions();
-	embeddings = new MockEmbeddings();
+	baseURL: string;
+	chat = new MockChat(this);
+	completions = new MockCompletions(this);
+	embeddings = new MockEmbeddings(this);
+
+	constructor(options: any = {}) {
+		this.baseURL = options.baseURL ?? "https://api.openai.com/v1";
+	}
+
+	// Like the real client, every API call goes through `request`
+	post(path: string, options: any) {
+		return this.request({ method: "post", path, ...options });
+	}
+
+	request(_options: any) {
+		return undefined;
+	}
 }
 
 module.exports = {
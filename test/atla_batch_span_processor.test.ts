@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { TraceFlags } from "@opentelemetry/api";
+import {
+	InMemorySpanExporter,
+	BasicTracerProvider,
+	type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { AtlaBatchSpanProcessor } from "../src/atla_batch_span_processor";
+
+describe("AtlaBatchSpanProcessor", () => {
+	let exporter: InMemorySpanExporter;
+	let processor: AtlaBatchSpanProcessor;
+	let provider: BasicTracerProvider;
+
+	const endSpans = (count: number) => {
+		const tracer = provider.getTracer("test-tracer");
+		for (let i = 0; i < count; i++) {
+			tracer.startSpan(`span-${i}`).end();
+		}
+	};
+
+	beforeEach(() => {
+		exporter = new InMemorySpanExporter();
+		processor = new AtlaBatchSpanProcessor(exporter, {
+			maxQueueSize: 2,
+			maxExportBatchSize: 2,
+			scheduledDelayMillis: 60_000,
+		});
+		provider = new BasicTracerProvider();
+		provider.addSpanProcessor(processor);
+	});
+
+	afterEach(async () => {
+		await provider.shutdown();
+	});
+
+	it("should export spans in batches on flush", async () => {
+		endSpans(1);
+		expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+		await processor.forceFlush();
+
+		expect(exporter.getFinishedSpans()).toHaveLength(1);
+		expect(processor.getDroppedSpanCount()).toBe(0);
+	});
+
+	it("should count spans dropped when the queue is full", async () => {
+		processor = new AtlaBatchSpanProcessor(exporter, {
+			maxQueueSize: 2,
+			maxExportBatchSize: 1,
+			scheduledDelayMillis: 60_000,
+		});
+		provider = new BasicTracerProvider();
+		provider.addSpanProcessor(processor);
+
+		// The first span is exported immediately as it fills a batch, the
+		// second one waits in the queue
+		endSpans(2);
+		// The queue has room for one more span
+		endSpans(1);
+		expect(processor.getDroppedSpanCount()).toBe(0);
+
+		endSpans(3);
+		expect(processor.getDroppedSpanCount()).toBe(3);
+	});
+
+	it("should free up queue space once spans are exported", async () => {
+		endSpans(2);
+		await processor.forceFlush();
+		endSpans(2);
+
+		expect(processor.getDroppedSpanCount()).toBe(0);
+	});
+
+	it("should free up queue space when spans fail before export", async () => {
+		processor = new AtlaBatchSpanProcessor(exporter, {
+			maxQueueSize: 2,
+			maxExportBatchSize: 2,
+			scheduledDelayMillis: 60_000,
+			exportTimeoutMillis: 10,
+		});
+		provider = new BasicTracerProvider();
+		provider.addSpanProcessor(processor);
+
+		// A span whose resource fails to resolve never reaches the exporter
+		const span = {
+			spanContext: () => ({ traceFlags: TraceFlags.SAMPLED }),
+			resource: {
+				asyncAttributesPending: true,
+				waitForAsyncAttributes: () => Promise.reject(new Error("Failed")),
+			},
+		} as unknown as ReadableSpan;
+		processor.onEnd(span);
+		processor.onEnd(span);
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+		endSpans(2);
+
+		expect(processor.getDroppedSpanCount()).toBe(0);
+	});
+
+	it("should queue spans once their resource is resolved", async () => {
+		const resource = {
+			asyncAttributesPending: true,
+			waitForAsyncAttributes: async () => {
+				resource.asyncAttributesPending = false;
+			},
+		};
+		const span = {
+			spanContext: () => ({ traceFlags: TraceFlags.SAMPLED }),
+			resource,
+		} as unknown as ReadableSpan;
+		processor.onEnd(span);
+		expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+		await new Promise((resolve) => setImmediate(resolve));
+		endSpans(2);
+
+		// The resolved span and the first new span fill a batch
+		expect(exporter.getFinishedSpans()).toHaveLength(2);
+		expect(processor.getDroppedSpanCount()).toBe(0);
+	});
+
+	it("should not count spans ended after shutdown", async () => {
+		await processor.shutdown();
+		endSpans(5);
+
+		expect(processor.getDroppedSpanCount()).toBe(0);
+	});
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+	context as otelContext,
+	ROOT_CONTEXT,
+	SpanKind,
+	TraceFlags,
+	trace,
+} from "@opentelemetry/api";
+import { SamplingDecision } from "@opentelemetry/sdk-trace-base";
+import {
+	AtlaSampler,
+	isSampledByRatio,
+	validateSamplingRatio,
+} from "../src/atla_sampler";
+import { setAtlaContext } from "../src/context";
+import {
+	SAMPLING_DECISION_MARK,
+	SAMPLING_RATE_MARK,
+} from "../src/internal/constants";
+
+const LOW_TRACE_ID = "00000000000000000000000000000001";
+const HIGH_TRACE_ID = "000000000000000000000000ffffffff";
+
+describe("isSampledByRatio", () => {
+	it("should keep every trace with a ratio of 1", () => {
+		expect(isSampledByRatio(HIGH_TRACE_ID, 1)).toBe(true);
+	});
+
+	it("should drop every trace with a ratio of 0", () => {
+		expect(isSampledByRatio(LOW_TRACE_ID, 0)).toBe(false);
+	});
+
+	it("should decide deterministically on the trace ID", () => {
+		expect(isSampledByRatio(LOW_TRACE_ID, 0.5)).toBe(true);
+		expect(isSampledByRatio(HIGH_TRACE_ID, 0.5)).toBe(false);
+	});
+});
+
+describe("validateSamplingRatio", () => {
+	it.each([-0.1, 1.1, Number.NaN])("should reject %p", (ratio) => {
+		expect(() => validateSamplingRatio(ratio)).toThrow(
+			"Atla Insights: Sampling ratio must be between 0 and 1",
+		);
+	});
+});
+
+describe("AtlaSampler", () => {
+	const shouldSample = (
+		sampler: AtlaSampler,
+		traceId: string,
+		context = ROOT_CONTEXT,
+	) =>
+		sampler.shouldSample(context, traceId, "span", SpanKind.INTERNAL, {}, []);
+
+	it("should record the decision on sampled root spans", () => {
+		const result = shouldSample(new AtlaSampler(0.5), LOW_TRACE_ID);
+
+		expect(result).toEqual({
+			decision: SamplingDecision.RECORD_AND_SAMPLED,
+			attributes: {
+				[SAMPLING_DECISION_MARK]: "ratio",
+				[SAMPLING_RATE_MARK]: 0.5,
+			},
+		});
+	});
+
+	it("should drop root spans outside of the ratio", () => {
+		const result = shouldSample(new AtlaSampler(0.5), HIGH_TRACE_ID);
+
+		expect(result.decision).toBe(SamplingDecision.NOT_RECORD);
+	});
+
+	it("should always keep experiments", () => {
+		const context = setAtlaContext(otelContext.active(), {
+			experiment: { name: "my-experiment" },
+		});
+
+		const result = shouldSample(new AtlaSampler(0), HIGH_TRACE_ID, context);
+
+		expect(result).toEqual({
+			decision: SamplingDecision.RECORD_AND_SAMPLED,
+			attributes: {
+				[SAMPLING_DECISION_MARK]: "experiment",
+				[SAMPLING_RATE_MARK]: 1,
+			},
+		});
+	});
+
+	it("should not force experiments when disabled", () => {
+		const context = setAtlaContext(otelContext.active(), {
+			experiment: { name: "my-experiment" },
+		});
+
+		const result = shouldSample(
+			new AtlaSampler(0, false),
+			HIGH_TRACE_ID,
+			context,
+		);
+
+		expect(result.decision).toBe(SamplingDecision.NOT_RECORD);
+	});
+
+	it.each([
+		[TraceFlags.SAMPLED, SamplingDecision.RECORD_AND_SAMPLED],
+		[TraceFlags.NONE, SamplingDecision.NOT_RECORD],
+	])("should follow the parent decision (flags %p)", (traceFlags, decision) => {
+		const context = trace.setSpanContext(ROOT_CONTEXT, {
+			traceId: HIGH_TRACE_ID,
+			spanId: "0000000000000001",
+			traceFlags,
+		});
+
+		const result = shouldSample(new AtlaSampler(1), HIGH_TRACE_ID, context);
+
+		expect(result).toEqual({ decision });
+	});
+});
@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { context, SpanStatusCode, trace } from "@opentelemetry/api";
+import {
+	BasicTracerProvider,
+	InMemorySpanExporter,
+	type ReadableSpan,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { AtlaTailSamplingProcessor } from "../src/atla_tail_sampling_processor";
+import {
+	EXPERIMENT_NAMESPACE,
+	SAMPLING_DECISION_MARK,
+	SAMPLING_RATE_MARK,
+	SUCCESS_MARK,
+} from "../src/internal/constants";
+import type { TailSamplingOptions } from "../src/atla_tail_sampling_processor";
+
+describe("AtlaTailSamplingProcessor", () => {
+	let exporter: InMemorySpanExporter;
+	let provider: BasicTracerProvider;
+
+	const setup = (ratio = 0, options: TailSamplingOptions = {}) => {
+		provider = new BasicTracerProvider();
+		provider.addSpanProcessor(
+			new AtlaTailSamplingProcessor(
+				[new SimpleSpanProcessor(exporter)],
+				ratio,
+				true,
+				options,
+			),
+		);
+		return provider.getTracer("test-tracer");
+	};
+
+	beforeEach(() => {
+		exporter = new InMemorySpanExporter();
+	});
+
+	afterEach(async () => {
+		await provider.shutdown();
+	});
+
+	const exportedNames = () =>
+		exporter.getFinishedSpans().map((span) => span.name);
+
+	it("should drop uninteresting traces", () => {
+		const tracer = setup(0);
+		const root = tracer.startSpan("root");
+		tracer.startSpan("child", {}, trace.setSpan(context.active(), root)).end();
+		root.end();
+
+		expect(exporter.getFinishedSpans()).toHaveLength(0);
+	});
+
+	it("should keep traces sampled by ratio", () => {
+		const tracer = setup(1);
+		const root = tracer.startSpan("root");
+		root.end();
+
+		const [span] = exporter.getFinishedSpans();
+		expect(span.attributes[SAMPLING_DECISION_MARK]).toBe("ratio");
+		expect(span.attributes[SAMPLING_RATE_MARK]).toBe(1);
+	});
+
+	it("should hold back spans until the root span ends", () => {
+		const tracer = setup(0);
+		const root = tracer.startSpan("root");
+		const child = tracer.startSpan(
+			"child",
+			{},
+			trace.setSpan(context.active(), root),
+		);
+		child.setStatus({ code: SpanStatusCode.ERROR });
+		child.end();
+
+		expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+		root.end();
+
+		expect(exportedNames()).toEqual(["child", "root"]);
+		expect(
+			exporter.getFinishedSpans()[1].attributes[SAMPLING_DECISION_MARK],
+		).toBe("error");
+	});
+
+	it("should keep traces with recorded exceptions", () => {
+		const tracer = setup(0);
+		const root = tracer.startSpan("root");
+		root.recordException(new Error("boom"));
+		root.end();
+
+		expect(exportedNames()).toEqual(["root"]);
+	});
+
+	it("should keep traces marked as failed", () => {
+		const tracer = setup(0);
+		const root = tracer.startSpan("root");
+		root.setAttribute(SUCCESS_MARK, 0);
+		root.end();
+
+		expect(
+			exporter.getFinishedSpans()[0].attributes[SAMPLING_DECISION_MARK],
+		).toBe("failure");
+	});
+
+	it("should keep experiments", () => {
+		const tracer = setup(0);
+		const root = tracer.startSpan("root");
+		root.setAttribute(`${EXPERIMENT_NAMESPACE}.name`, "my-experiment");
+		root.end();
+
+		expect(
+			exporter.getFinishedSpans()[0].attributes[SAMPLING_DECISION_MARK],
+		).toBe("experiment");
+	});
+
+	it("should keep slow traces", () => {
+		const tracer = setup(0, { latencyThresholdMillis: 100 });
+		const root = tracer.startSpan("root", { startTime: Date.now() - 500 });
+		root.end();
+
+		expect(
+			exporter.getFinishedSpans()[0].attributes[SAMPLING_DECISION_MARK],
+		).toBe("latency");
+	});
+
+	it("should not keep errors when disabled", () => {
+		const tracer = setup(0, { keepErrors: false });
+		const root = tracer.startSpan("root");
+		root.setStatus({ code: SpanStatusCode.ERROR });
+		root.end();
+
+		expect(exporter.getFinishedSpans()).toHaveLength(0);
+	});
+
+	it("should decide early when too many traces are buffered", () => {
+		const tracer = setup(0, { maxBufferedTraces: 1 });
+		const firstRoot = tracer.startSpan("first-root");
+		const firstChild = tracer.startSpan(
+			"first-child",
+			{},
+			trace.setSpan(context.active(), firstRoot),
+		);
+		firstChild.setStatus({ code: SpanStatusCode.ERROR });
+		firstChild.end();
+
+		const secondRoot = tracer.startSpan("second-root");
+		tracer
+			.startSpan(
+				"second-child",
+				{},
+				trace.setSpan(context.active(), secondRoot),
+			)
+			.end();
+
+		expect(exportedNames()).toEqual(["first-child"]);
+	});
+
+	it("should decide traces continuing a remote parent", () => {
+		const tracer = setup(0);
+		const remoteContext = trace.setSpanContext(context.active(), {
+			traceId: "0af7651916cd43dd8448eb211c80319c",
+			spanId: "b7ad6b7169203331",
+			traceFlags: 1,
+			isRemote: true,
+		});
+		const root = tracer.startSpan("server", {}, remoteContext);
+		root.setStatus({ code: SpanStatusCode.ERROR });
+		tracer.startSpan("child", {}, trace.setSpan(remoteContext, root)).end();
+		root.end();
+
+		expect(exportedNames()).toEqual(["child", "server"]);
+		expect(
+			exporter.getFinishedSpans()[1].attributes[SAMPLING_DECISION_MARK],
+		).toBe("error");
+	});
+
+	it("should apply the decision to spans ending after the root span", () => {
+		const tracer = setup(0);
+		const keptRoot = tracer.startSpan("kept-root");
+		const keptChild = tracer.startSpan(
+			"kept-child",
+			{},
+			trace.setSpan(context.active(), keptRoot),
+		);
+		keptRoot.setStatus({ code: SpanStatusCode.ERROR });
+		keptRoot.end();
+		keptChild.end();
+
+		const droppedRoot = tracer.startSpan("dropped-root");
+		const droppedChild = tracer.startSpan(
+			"dropped-child",
+			{},
+			trace.setSpan(context.active(), droppedRoot),
+		);
+		droppedRoot.end();
+		droppedChild.setStatus({ code: SpanStatusCode.ERROR });
+		droppedChild.end();
+
+		expect(exportedNames()).toEqual(["kept-root", "kept-child"]);
+	});
+
+	it("should not change the root span once ended", () => {
+		const tracer = setup(1);
+		const root = tracer.startSpan("root");
+		root.end();
+
+		expect(
+			(root as unknown as ReadableSpan).attributes[SAMPLING_DECISION_MARK],
+		).toBeUndefined();
+		expect(
+			exporter.getFinishedSpans()[0].attributes[SAMPLING_DECISION_MARK],
+		).toBe("ratio");
+	});
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+	getConfigurationFromEnv,
+	mergeConfiguration,
+	parseBooleanEnv,
+} from "../src/env";
+
+describe("env", () => {
+	describe("getConfigurationFromEnv", () => {
+		it("should return no options for an empty environment", () => {
+			expect(getConfigurationFromEnv({})).toEqual({});
+		});
+
+		it("should read every supported variable", () => {
+			expect(
+				getConfigurationFromEnv({
+					ATLA_INSIGHTS_TOKEN: "test-token",
+					ATLA_SERVICE_NAME: "my-service",
+					ATLA_ENVIRONMENT: "staging",
+					ATLA_METADATA: '{"team":"search"}',
+					ATLA_EXPORTERS: "atla, file",
+					ATLA_DEBUG: "true",
+					ATLA_TRACE_DIRECTORY: "/tmp/traces",
+					ATLA_SAMPLING_RATIO: "0.25",
+					ATLA_TAIL_SAMPLING: "1",
+				}),
+			).toEqual({
+				token: "test-token",
+				serviceName: "my-service",
+				environment: "staging",
+				metadata: { team: "search" },
+				exporters: ["atla", "file"],
+				debug: true,
+				file: { directory: "/tmp/traces" },
+				sampling: { ratio: 0.25, tail: true },
+			});
+		});
+
+		it("should throw for invalid metadata", () => {
+			expect(() => getConfigurationFromEnv({ ATLA_METADATA: "team" })).toThrow(
+				"Atla Insights: ATLA_METADATA must be valid JSON",
+			);
+			expect(() => getConfigurationFromEnv({ ATLA_METADATA: "[]" })).toThrow(
+				"Atla Insights: ATLA_METADATA must be a JSON object",
+			);
+		});
+	});
+
+	describe("parseBooleanEnv", () => {
+		it("should parse truthy and falsy values", () => {
+			expect(parseBooleanEnv("TRUE")).toBe(true);
+			expect(parseBooleanEnv("yes")).toBe(true);
+			expect(parseBooleanEnv("0")).toBe(false);
+			expect(parseBooleanEnv("")).toBeUndefined();
+			expect(parseBooleanEnv(undefined)).toBeUndefined();
+		});
+	});
+
+	describe("mergeConfiguration", () => {
+		it("should let explicit options override the environment", () => {
+			expect(
+				mergeConfiguration(
+					{ token: "env-token", serviceName: "env-service" },
+					{ token: "explicit-token", serviceName: undefined },
+				),
+			).toEqual({ token: "explicit-token", serviceName: "env-service" });
+		});
+
+		it("should merge nested sampling options", () => {
+			expect(
+				mergeConfiguration(
+					{ sampling: { ratio: 0.5, tail: true } },
+					{ sampling: { ratio: 0.1 } },
+				),
+			).toEqual({ sampling: { ratio: 0.1, tail: true } });
+		});
+	});
+});
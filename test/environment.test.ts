@@ -0,0 +1,101 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import {
+	BasicTracerProvider,
+	InMemorySpanExporter,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { AtlaRootSpanProcessor } from "../src/atla_root_span_processor";
+import { withEnvironment } from "../src/environment";
+import { runExperiment } from "../src/experiments";
+import { ENVIRONMENT_MARK } from "../src/internal/constants";
+
+describe("environment", () => {
+	let exporter: InMemorySpanExporter;
+	let provider: BasicTracerProvider;
+
+	const setup = (environment?: string) => {
+		provider = new BasicTracerProvider();
+		provider.addSpanProcessor(
+			new AtlaRootSpanProcessor(undefined, environment),
+		);
+		provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+	};
+
+	const startTrace = () => {
+		const tracer = provider.getTracer("test-tracer");
+		tracer.startActiveSpan("root", (root) => {
+			tracer.startSpan("child").end();
+			root.end();
+		});
+	};
+
+	const getEnvironments = () =>
+		Object.fromEntries(
+			exporter
+				.getFinishedSpans()
+				.map((span) => [span.name, span.attributes[ENVIRONMENT_MARK]]),
+		);
+
+	beforeEach(() => {
+		exporter = new InMemorySpanExporter();
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(async () => {
+		await provider.shutdown();
+		jest.restoreAllMocks();
+	});
+
+	it("should stamp the configured environment on root spans", () => {
+		setup("prod");
+		startTrace();
+
+		expect(getEnvironments()).toEqual({ root: "prod", child: undefined });
+	});
+
+	it("should not stamp an environment when none is configured", () => {
+		setup();
+		startTrace();
+
+		expect(getEnvironments().root).toBeUndefined();
+	});
+
+	it("should override the environment with withEnvironment", () => {
+		setup("prod");
+		withEnvironment("staging", startTrace);
+
+		expect(getEnvironments().root).toBe("staging");
+	});
+
+	it("should throw for an empty environment", () => {
+		expect(() => withEnvironment(" ", () => {})).toThrow(
+			"Atla Insights: Environment must be a non-empty string",
+		);
+	});
+
+	it("should force the dev environment for experiments", () => {
+		setup("prod");
+		withEnvironment("staging", () =>
+			runExperiment({ experimentName: "test-experiment" }, startTrace),
+		);
+
+		expect(getEnvironments().root).toBe("dev");
+	});
+
+	it("should keep the environment for experiments that opt out", () => {
+		setup("prod");
+		runExperiment(
+			{ experimentName: "test-experiment", forceDevEnvironment: false },
+			startTrace,
+		);
+
+		expect(getEnvironments().root).toBe("prod");
+	});
+});
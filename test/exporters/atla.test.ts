@@ -0,0 +1,77 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+	buildExportHeaders,
+	parseHeaders,
+	resolveTracesEndpoint,
+} from "../../src/exporters/atla";
+import { OTEL_TRACES_ENDPOINTS } from "../../src/internal/constants";
+
+describe("atla exporter", () => {
+	describe("resolveTracesEndpoint", () => {
+		it("should default to the EU region", () => {
+			expect(resolveTracesEndpoint()).toBe(OTEL_TRACES_ENDPOINTS.eu);
+		});
+
+		it("should resolve the US region", () => {
+			expect(resolveTracesEndpoint(undefined, "us")).toBe(
+				OTEL_TRACES_ENDPOINTS.us,
+			);
+		});
+
+		it("should throw for an unknown region", () => {
+			expect(() => resolveTracesEndpoint(undefined, "ap" as any)).toThrow(
+				'Atla Insights: Unknown region "ap"',
+			);
+		});
+
+		it("should append the traces path to a base URL", () => {
+			expect(resolveTracesEndpoint("http://localhost:4318/")).toBe(
+				"http://localhost:4318/v1/traces",
+			);
+		});
+
+		it("should keep a base URL that already targets traces", () => {
+			expect(
+				resolveTracesEndpoint("https://collector.internal/v1/traces", "us"),
+			).toBe("https://collector.internal/v1/traces");
+		});
+	});
+
+	describe("parseHeaders", () => {
+		it("should return no headers for an empty value", () => {
+			expect(parseHeaders(undefined)).toEqual({});
+			expect(parseHeaders("")).toEqual({});
+		});
+
+		it("should parse comma separated key-value pairs", () => {
+			expect(parseHeaders("x-tenant-id=acme, x-team = ml ")).toEqual({
+				"x-tenant-id": "acme",
+				"x-team": "ml",
+			});
+		});
+
+		it("should decode URL encoded values", () => {
+			expect(parseHeaders("Proxy-Authorization=Basic%20abc%3D")).toEqual({
+				"Proxy-Authorization": "Basic abc=",
+			});
+		});
+
+		it("should ignore malformed entries", () => {
+			expect(parseHeaders("novalue,=nokey,ok=1")).toEqual({ ok: "1" });
+		});
+	});
+
+	describe("buildExportHeaders", () => {
+		it("should always send the token as a bearer header", () => {
+			expect(
+				buildExportHeaders({
+					token: "secret",
+					headers: { Authorization: "other", "x-tenant-id": "acme" },
+				}),
+			).toEqual({
+				Authorization: "Bearer secret",
+				"x-tenant-id": "acme",
+			});
+		});
+	});
+});
@@ -0,0 +1,129 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import { context, SpanStatusCode, TraceFlags, trace } from "@opentelemetry/api";
+import { BasicTracerProvider } from "@opentelemetry/sdk-trace-base";
+import {
+	OpenInferenceSpanKind,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+import {
+	ConsoleSpanProcessor,
+	ConsoleTraceExporter,
+} from "../../src/exporters/console";
+import { SUCCESS_MARK } from "../../src/internal/constants";
+
+describe("ConsoleTraceExporter", () => {
+	let provider: BasicTracerProvider;
+	let log: jest.SpiedFunction<typeof console.log>;
+
+	const getTracer = () => provider.getTracer("test-tracer");
+
+	beforeEach(() => {
+		log = jest.spyOn(console, "log").mockImplementation(() => {});
+		provider = new BasicTracerProvider();
+		provider.addSpanProcessor(
+			new ConsoleSpanProcessor(
+				new ConsoleTraceExporter({ maxValueLength: 10, maxBufferedTraces: 2 }),
+			),
+		);
+	});
+
+	afterEach(async () => {
+		await provider.shutdown();
+		log.mockRestore();
+	});
+
+	it("should print a trace once its root span ends", () => {
+		const tracer = getTracer();
+		tracer.startActiveSpan("agent", (root) => {
+			root.setAttributes({
+				[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+					OpenInferenceSpanKind.AGENT,
+				[SUCCESS_MARK]: 1,
+			});
+
+			const llm = tracer.startSpan("llm");
+			llm.setAttributes({
+				[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+					OpenInferenceSpanKind.LLM,
+				[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 12,
+				[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 3,
+				[SemanticConventions.INPUT_VALUE]: "What is the\ncapital of France?",
+				[SemanticConventions.OUTPUT_VALUE]: "Paris",
+			});
+			llm.end();
+
+			const tool = tracer.startSpan("tool");
+			tool.setStatus({ code: SpanStatusCode.ERROR, message: "boom" });
+			tool.end();
+
+			expect(log).not.toHaveBeenCalled();
+			root.setStatus({ code: SpanStatusCode.OK });
+			root.end();
+		});
+
+		expect(log).toHaveBeenCalledTimes(1);
+		const lines = (log.mock.calls[0][0] as string)
+			.split("\n")
+			.map((line) => line.replace(/\d+ms/, "<duration>"));
+		expect(lines).toEqual([
+			expect.stringMatching(/^Trace [0-9a-f]{32}$/),
+			"└─ agent [AGENT] <duration> OK success=1",
+			"   ├─ llm [LLM] <duration> UNSET tokens prompt=12 completion=3",
+			"   │     input: What is th…",
+			"   │     output: Paris",
+			"   └─ tool <duration> ERROR (boom)",
+		]);
+	});
+
+	it("should print a trace continuing a remote parent once its local root ends", () => {
+		const tracer = getTracer();
+		const remoteContext = trace.setSpanContext(context.active(), {
+			traceId: "0af7651916cd43dd8448eb211c80319c",
+			spanId: "b7ad6b7169203331",
+			traceFlags: TraceFlags.SAMPLED,
+			isRemote: true,
+		});
+
+		const server = tracer.startSpan("tools/call", {}, remoteContext);
+		tracer.startSpan("tool", {}, trace.setSpan(remoteContext, server)).end();
+		expect(log).not.toHaveBeenCalled();
+		server.end();
+
+		expect(log).toHaveBeenCalledTimes(1);
+		expect(log.mock.calls[0][0]).toContain("└─ tools/call");
+		expect(log.mock.calls[0][0]).toContain("   └─ tool");
+	});
+
+	it("should print the oldest unfinished traces when the buffer is full", () => {
+		const tracer = getTracer();
+		for (const name of ["first", "second", "third"]) {
+			const root = tracer.startSpan(name);
+			tracer
+				.startSpan(`${name} child`, {}, trace.setSpan(context.active(), root))
+				.end();
+		}
+
+		expect(log).toHaveBeenCalledTimes(1);
+		expect(log.mock.calls[0][0]).toContain("└─ first child");
+	});
+
+	it("should print unfinished traces on shutdown", async () => {
+		const tracer = getTracer();
+		tracer.startActiveSpan("root", () => {
+			tracer.startSpan("child").end();
+		});
+
+		expect(log).not.toHaveBeenCalled();
+		await provider.shutdown();
+
+		expect(log).toHaveBeenCalledTimes(1);
+		expect(log.mock.calls[0][0]).toContain("└─ child");
+	});
+});
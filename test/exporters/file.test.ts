@@ -0,0 +1,195 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	BasicTracerProvider,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import {
+	FileSpanExporter,
+	type FileExporterOptions,
+	readTraceFile,
+	uploadTraceFile,
+} from "../../src/exporters/file";
+
+describe("FileSpanExporter", () => {
+	let directory: string;
+	let exporter: FileSpanExporter;
+	let provider: BasicTracerProvider;
+
+	const setup = (options: FileExporterOptions = {}) => {
+		exporter = new FileSpanExporter({ directory, ...options });
+		provider = new BasicTracerProvider();
+		provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+	};
+
+	const endSpan = (name: string, attributes: Record<string, any> = {}) => {
+		provider
+			.getTracer("test-tracer", "1.0.0")
+			.startSpan(name, { attributes })
+			.end();
+	};
+
+	const listFiles = () => readdirSync(directory).sort();
+	const flush = () => exporter.forceFlush();
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), "atla-traces-"));
+	});
+
+	afterEach(async () => {
+		await provider?.shutdown();
+		rmSync(directory, { recursive: true, force: true });
+	});
+
+	it("should write spans as OTLP JSON lines", async () => {
+		setup();
+		endSpan("first", {
+			"llm.model_name": "gpt-4o",
+			"llm.token_count.total": 3,
+		});
+		endSpan("second");
+		await flush();
+
+		const files = listFiles();
+		expect(files).toHaveLength(1);
+		expect(files[0]).toMatch(/^atla-traces-.*\.jsonl$/);
+
+		const lines = readTraceFile(join(directory, files[0]));
+		expect(lines).toHaveLength(2);
+
+		const request = JSON.parse(lines[0]);
+		const [resourceSpans] = request.resourceSpans;
+		const [scopeSpans] = resourceSpans.scopeSpans;
+		expect(scopeSpans.scope).toEqual({ name: "test-tracer", version: "1.0.0" });
+
+		const [span] = scopeSpans.spans;
+		expect(span.name).toBe("first");
+		expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+		expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+		expect(span.startTimeUnixNano).toMatch(/^\d{19}$/);
+		expect(span.attributes).toEqual([
+			{ key: "llm.model_name", value: { stringValue: "gpt-4o" } },
+			{ key: "llm.token_count.total", value: { intValue: 3 } },
+		]);
+	});
+
+	it("should rotate files once they exceed the maximum size", async () => {
+		setup({ maxFileSizeBytes: 1 });
+		endSpan("first");
+		endSpan("second");
+		endSpan("third");
+		await flush();
+
+		expect(listFiles()).toHaveLength(3);
+	});
+
+	it("should rotate files once the rotation interval elapses", async () => {
+		const now = jest.spyOn(Date, "now").mockReturnValue(1_000);
+		setup({ rotationIntervalMillis: 100 });
+		endSpan("first");
+		endSpan("second");
+		now.mockReturnValue(1_200);
+		endSpan("third");
+		now.mockRestore();
+		await flush();
+
+		expect(listFiles()).toHaveLength(2);
+	});
+
+	it("should gzip rotated files and the last file on shutdown", async () => {
+		setup({ maxFileSizeBytes: 1, gzip: true });
+		endSpan("first");
+		endSpan("second");
+		await flush();
+
+		expect(
+			listFiles().filter((file) => file.endsWith(".jsonl.gz")),
+		).toHaveLength(1);
+
+		await provider.shutdown();
+
+		const files = listFiles();
+		expect(files.every((file) => file.endsWith(".jsonl.gz"))).toBe(true);
+		const names = files.map(
+			(file) =>
+				JSON.parse(readTraceFile(join(directory, file))[0]).resourceSpans[0]
+					.scopeSpans[0].spans[0].name,
+		);
+		expect(names.sort()).toEqual(["first", "second"]);
+	});
+
+	it("should throw when reading a missing trace file", () => {
+		expect(() => readTraceFile(join(directory, "missing.jsonl"))).toThrow(
+			"Atla Insights: Trace file not found",
+		);
+	});
+
+	describe("uploadTraceFile", () => {
+		const fetchMock = jest.fn<typeof fetch>();
+
+		beforeEach(() => {
+			fetchMock.mockReset();
+			jest.spyOn(global, "fetch").mockImplementation(fetchMock);
+		});
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		it("should replay every request with the configured token", async () => {
+			fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+			setup({ gzip: true });
+			endSpan("first");
+			endSpan("second");
+			await provider.shutdown();
+
+			const sent = await uploadTraceFile(join(directory, listFiles()[0]), {
+				token: "test-token",
+				baseUrl: "http://localhost:4318",
+				headers: { "x-tenant-id": "acme" },
+			});
+
+			expect(sent).toBe(2);
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+			const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+			expect(url).toBe("http://localhost:4318/v1/traces");
+			expect(init.method).toBe("POST");
+			expect(init.headers).toEqual({
+				"x-tenant-id": "acme",
+				Authorization: "Bearer test-token",
+				"Content-Type": "application/json",
+			});
+			expect(
+				JSON.parse(init.body as string).resourceSpans[0].scopeSpans[0].spans[0]
+					.name,
+			).toBe("first");
+		});
+
+		it("should throw when the collector rejects a request", async () => {
+			fetchMock.mockResolvedValue(
+				new Response(null, { status: 401, statusText: "Unauthorized" }),
+			);
+			setup();
+			endSpan("first");
+			await flush();
+
+			await expect(
+				uploadTraceFile(join(directory, listFiles()[0]), {
+					token: "bad-token",
+				}),
+			).rejects.toThrow(
+				"Atla Insights: Failed to upload trace file: 401 Unauthorized",
+			);
+		});
+	});
+});
@@ -0,0 +1,381 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import { SpanStatusCode } from "@opentelemetry/api";
+import {
+	BaseAtlaTest,
+	realInMemorySpanExporter,
+	mockAtlaInsightsWithRealOtel as mockAtlaInsights,
+} from "../../setup";
+import {
+	OpenInferenceSpanKind,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+
+describe("LlamaIndex Framework", () => {
+	let baseTest: BaseAtlaTest;
+
+	// Import after mocking
+	let instrumentLlamaIndex: any;
+	let uninstrumentLlamaIndex: any;
+	let withInstrumentedLlamaIndex: any;
+	let LlamaIndexInstrumentation: any;
+
+	// LlamaIndex is mapped to the mock in the Jest configuration
+	const llamaindex = require("llamaindex");
+
+	const getSpans = () => realInMemorySpanExporter.getFinishedSpans();
+	const getSpan = (kind: OpenInferenceSpanKind) =>
+		getSpans().find(
+			(s) => s.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND] === kind,
+		);
+	const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+	// The mocked client does not manage the registered instrumentations
+	const disableInstrumentations = () => {
+		for (const [, instrumentations] of mockAtlaInsights.registerInstrumentations
+			.mock.calls as [string, { disable(): void }[]][]) {
+			for (const instrumentation of instrumentations) {
+				instrumentation.disable();
+			}
+		}
+	};
+
+	beforeAll(async () => {
+		const llamaIndexModule = await import(
+			"../../../src/frameworks/llamaindex/index"
+		);
+		instrumentLlamaIndex = llamaIndexModule.instrumentLlamaIndex;
+		uninstrumentLlamaIndex = llamaIndexModule.uninstrumentLlamaIndex;
+		withInstrumentedLlamaIndex = llamaIndexModule.withInstrumentedLlamaIndex;
+
+		const instrumentationModule = await import(
+			"../../../src/frameworks/llamaindex/instrumentation"
+		);
+		LlamaIndexInstrumentation = instrumentationModule.LlamaIndexInstrumentation;
+	});
+
+	beforeEach(() => {
+		baseTest = new BaseAtlaTest();
+		baseTest.beforeEach();
+
+		jest.clearAllMocks();
+		realInMemorySpanExporter.reset();
+	});
+
+	afterEach(() => {
+		disableInstrumentations();
+		baseTest.afterEach();
+		uninstrumentLlamaIndex();
+		realInMemorySpanExporter.reset();
+	});
+
+	describe("instrumentLlamaIndex", () => {
+		it("should throw error when not configured", () => {
+			mockAtlaInsights.configured = false;
+
+			expect(() => instrumentLlamaIndex()).toThrow(
+				"Atla Insights must be configured before instrumenting LlamaIndex",
+			);
+
+			mockAtlaInsights.configured = true;
+		});
+
+		it("should register LlamaIndex instrumentation", () => {
+			instrumentLlamaIndex();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalledWith(
+				"llamaindex",
+				expect.arrayContaining([expect.any(Object)]),
+			);
+		});
+
+		it("should not subscribe twice when instrumented twice", () => {
+			const instrumentation = new LlamaIndexInstrumentation();
+			instrumentation.manuallyInstrument(llamaindex);
+			instrumentation.manuallyInstrument(llamaindex);
+
+			expect(
+				llamaindex.Settings.callbackManager.listenerCount("llm-start"),
+			).toBe(1);
+
+			instrumentation.disable();
+			expect(
+				llamaindex.Settings.callbackManager.listenerCount("llm-start"),
+			).toBe(0);
+		});
+	});
+
+	describe("withInstrumentedLlamaIndex", () => {
+		it("should create disposable instrumentation", () => {
+			const disposable = withInstrumentedLlamaIndex();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalled();
+			expect(typeof disposable[Symbol.dispose]).toBe("function");
+
+			disposable[Symbol.dispose]();
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalledWith(
+				"llamaindex",
+			);
+		});
+	});
+
+	describe("query engine", () => {
+		it("should record the query as a tree of spans", async () => {
+			instrumentLlamaIndex(llamaindex);
+			const engine = new llamaindex.RetrieverQueryEngine();
+
+			await engine.query({ query: "What is the capital of France?" });
+			await flush();
+
+			const query = getSpans().find((s) => s.name === "LlamaIndex Query");
+			const synthesize = getSpans().find(
+				(s) => s.name === "LlamaIndex Synthesize",
+			);
+			const retriever = getSpan(OpenInferenceSpanKind.RETRIEVER);
+			const embedding = getSpan(OpenInferenceSpanKind.EMBEDDING);
+			const llm = getSpan(OpenInferenceSpanKind.LLM);
+
+			expect(query?.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.CHAIN,
+					[SemanticConventions.INPUT_VALUE]: "What is the capital of France?",
+					[SemanticConventions.OUTPUT_VALUE]: "Paris.",
+				}),
+			);
+			expect(query?.parentSpanId).toBeUndefined();
+			expect(retriever?.parentSpanId).toBe(query?.spanContext().spanId);
+			expect(embedding?.parentSpanId).toBe(retriever?.spanContext().spanId);
+			expect(synthesize?.parentSpanId).toBe(query?.spanContext().spanId);
+			expect(llm?.parentSpanId).toBe(synthesize?.spanContext().spanId);
+			expect(new Set(getSpans().map((s) => s.spanContext().traceId)).size).toBe(
+				1,
+			);
+		});
+
+		it("should keep concurrent queries in separate trees", async () => {
+			instrumentLlamaIndex(llamaindex);
+			const engine = new llamaindex.RetrieverQueryEngine();
+
+			await Promise.all([
+				engine.query({ query: "What is the capital of France?" }),
+				engine.query({ query: "What is the capital of Germany?" }),
+			]);
+			await flush();
+
+			const queries = getSpans().filter((s) => s.name === "LlamaIndex Query");
+			expect(queries).toHaveLength(2);
+			for (const query of queries) {
+				const children = getSpans().filter(
+					(s) => s.parentSpanId === query.spanContext().spanId,
+				);
+				expect(query.parentSpanId).toBeUndefined();
+				expect(children.map((s) => s.name).sort()).toEqual([
+					"LlamaIndex Retrieve",
+					"LlamaIndex Synthesize",
+				]);
+				for (const child of children) {
+					expect(child.attributes[SemanticConventions.INPUT_VALUE]).toBe(
+						query.attributes[SemanticConventions.INPUT_VALUE],
+					);
+				}
+			}
+			expect(
+				getSpans().filter((s) => s.parentSpanId === undefined),
+			).toHaveLength(2);
+		});
+
+		it("should end the oldest open spans once too many are open", async () => {
+			instrumentLlamaIndex(llamaindex);
+
+			// The end events never come
+			for (let i = 0; i <= 1000; i++) {
+				llamaindex.Settings.callbackManager.dispatchEvent("query-start", {
+					id: `query-${i}`,
+					query: { query: `Question ${i}` },
+				});
+			}
+
+			expect(getSpans()).toHaveLength(1);
+			expect(getSpans()[0]?.attributes[SemanticConventions.INPUT_VALUE]).toBe(
+				"Question 0",
+			);
+			expect(getSpans()[0]?.status).toEqual({
+				code: SpanStatusCode.ERROR,
+				message: "Evicted: too many spans were waiting for their end event",
+			});
+		});
+
+		it("should record the retrieved documents with their scores and ids", async () => {
+			instrumentLlamaIndex(llamaindex);
+			const engine = new llamaindex.RetrieverQueryEngine();
+
+			await engine.query({ query: "What is the capital of France?" });
+			await flush();
+
+			const retriever = getSpan(OpenInferenceSpanKind.RETRIEVER);
+			expect(retriever?.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.INPUT_VALUE]: "What is the capital of France?",
+					"retrieval.documents.0.document.id": "node-1",
+					"retrieval.documents.0.document.content":
+						"Paris is the capital of France.",
+					"retrieval.documents.0.document.score": 0.82,
+					"retrieval.documents.0.document.metadata": JSON.stringify({
+						file_name: "france.txt",
+					}),
+					"retrieval.documents.1.document.id": "node-2",
+					"retrieval.documents.1.document.content":
+						"Berlin is the capital of Germany.",
+					"retrieval.documents.1.document.score": 0.41,
+				}),
+			);
+			expect(retriever?.attributes).not.toHaveProperty(
+				"retrieval.documents.1.document.metadata",
+			);
+		});
+
+		it("should record the LLM messages, model and token counts", async () => {
+			instrumentLlamaIndex(llamaindex);
+			const llm = new llamaindex.OpenAI();
+
+			await llm.chat({
+				messages: [
+					{ role: "system", content: "Be brief." },
+					{ role: "user", content: "Capital of France?" },
+				],
+			});
+
+			const span = getSpan(OpenInferenceSpanKind.LLM);
+			expect(span?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.role": "system",
+					"llm.input_messages.0.message.content": "Be brief.",
+					"llm.input_messages.1.message.role": "user",
+					"llm.input_messages.1.message.content": "Capital of France?",
+					"llm.output_messages.0.message.role": "assistant",
+					"llm.output_messages.0.message.content": "Paris.",
+					[SemanticConventions.LLM_MODEL_NAME]: "gpt-4o-mini",
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 12,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 2,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 14,
+				}),
+			);
+		});
+	});
+
+	describe("embeddings", () => {
+		it("should record batches of embedded texts", async () => {
+			instrumentLlamaIndex(llamaindex);
+			const embedModel = new llamaindex.BaseEmbedding();
+
+			await embedModel.getTextEmbeddingsBatch(["first", "second"]);
+			await flush();
+
+			const span = getSpan(OpenInferenceSpanKind.EMBEDDING);
+			expect(span?.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.EMBEDDING_MODEL_NAME]: "text-embedding-3-small",
+					"embedding.embeddings.0.embedding.text": "first",
+					"embedding.embeddings.0.embedding.vector": [0, 0.5],
+					"embedding.embeddings.1.embedding.text": "second",
+					"embedding.embeddings.1.embedding.vector": [1, 1.5],
+				}),
+			);
+		});
+	});
+
+	describe("rerankers", () => {
+		it("should record the input and output documents", async () => {
+			instrumentLlamaIndex(llamaindex);
+			const reranker = new llamaindex.CohereRerank();
+
+			await reranker.postprocessNodes(llamaindex.getNodes(), "France?");
+			await flush();
+
+			const span = getSpan(OpenInferenceSpanKind.RERANKER);
+			expect(span?.name).toBe("CohereRerank.postprocessNodes");
+			expect(span?.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.RERANKER_QUERY]: "France?",
+					[SemanticConventions.RERANKER_MODEL_NAME]: "rerank-english-v3.0",
+					[SemanticConventions.RERANKER_TOP_K]: 1,
+					"reranker.input_documents.0.document.id": "node-1",
+					"reranker.input_documents.1.document.id": "node-2",
+					"reranker.output_documents.0.document.id": "node-2",
+					"reranker.output_documents.0.document.score": 0.8,
+				}),
+			);
+		});
+	});
+
+	describe("agents", () => {
+		it("should record the agent and its tool calls", async () => {
+			instrumentLlamaIndex(llamaindex);
+			const agent = new llamaindex.AgentRunner();
+
+			await agent.run("Weather in Paris?");
+
+			const agentSpan = getSpan(OpenInferenceSpanKind.AGENT);
+			const toolSpan = getSpan(OpenInferenceSpanKind.TOOL);
+			expect(agentSpan?.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.INPUT_VALUE]: "Weather in Paris?",
+					[SemanticConventions.OUTPUT_VALUE]: "It is sunny.",
+				}),
+			);
+			expect(toolSpan?.name).toBe("get_weather");
+			expect(toolSpan?.parentSpanId).toBe(agentSpan?.spanContext().spanId);
+			expect(toolSpan?.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.TOOL_NAME]: "get_weather",
+					[SemanticConventions.TOOL_PARAMETERS]: '{"city":"Paris"}',
+					[SemanticConventions.OUTPUT_VALUE]: "Sunny",
+				}),
+			);
+		});
+
+		it("should record failed tool calls as errors", async () => {
+			instrumentLlamaIndex(llamaindex);
+			const agent = new llamaindex.AgentRunner();
+
+			await agent.run("Weather in Atlantis?", { isError: true });
+
+			const toolSpan = getSpan(OpenInferenceSpanKind.TOOL);
+			expect(toolSpan?.status.code).toBe(SpanStatusCode.ERROR);
+			expect(toolSpan?.status.message).toBe("City not found");
+		});
+	});
+
+	describe("uninstrumentLlamaIndex", () => {
+		it("should unregister the instrumentation", () => {
+			instrumentLlamaIndex(llamaindex);
+			uninstrumentLlamaIndex();
+
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalledWith(
+				"llamaindex",
+			);
+		});
+
+		it("should stop recording spans once disabled", async () => {
+			instrumentLlamaIndex(llamaindex);
+			disableInstrumentations();
+			const engine = new llamaindex.RetrieverQueryEngine();
+
+			await engine.query({ query: "What is the capital of France?" });
+			await flush();
+
+			expect(getSpans()).toHaveLength(0);
+			expect(
+				llamaindex.Settings.callbackManager.listenerCount("llm-start"),
+			).toBe(0);
+		});
+	});
+});
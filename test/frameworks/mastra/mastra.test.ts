@@ -0,0 +1,242 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import {
+	BasicTracerProvider,
+	InMemorySpanExporter,
+	type ReadableSpan,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import {
+	OpenInferenceSpanKind,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+import { mockAtlaInsightsWithRealOtel as mockAtlaInsights } from "../../setup";
+import { AtlaRootSpanProcessor } from "../../../src/atla_root_span_processor";
+import { runWithContext } from "../../../src/context";
+import {
+	instrumentMastra,
+	uninstrumentMastra,
+	withInstrumentedMastra,
+} from "../../../src/frameworks/mastra/index";
+
+describe("Mastra Framework", () => {
+	// Mastra is mapped to the mock in the Jest configuration
+	const mastraCore = require("@mastra/core");
+
+	let exporter: InMemorySpanExporter;
+	let provider: BasicTracerProvider;
+	let insights: any;
+
+	const getSpan = (name: string) =>
+		exporter.getFinishedSpans().find((s) => s.name === name) as ReadableSpan;
+	const getSpanKind = (name: string) =>
+		getSpan(name)?.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND];
+
+	// Spans are recorded by the client of the instrumented function being run
+	const runAsClient = <T>(fn: () => T): T => runWithContext({ insights }, fn);
+
+	// The mocked client does not manage the registered instrumentations
+	const disableInstrumentations = () => {
+		for (const [, instrumentations] of insights.registerInstrumentations.mock
+			.calls as [string, { disable(): void }[]][]) {
+			for (const instrumentation of instrumentations) {
+				instrumentation.disable();
+			}
+		}
+	};
+
+	const createMastra = () => {
+		const getWeather = mastraCore.createTool({
+			id: "get_weather",
+			execute: async ({ city }: { city: string }) => `Sunny in ${city}`,
+		});
+		const weatherAgent = new mastraCore.Agent({
+			name: "Weather Agent",
+			model: "gpt-4o-mini",
+			tools: { getWeather },
+		});
+		const forecast = new mastraCore.Workflow({
+			id: "forecast",
+			steps: [
+				{ id: "fetch", execute: async (city: string) => ({ city, rain: 0 }) },
+				{ id: "summarize", execute: async () => "Dry" },
+			],
+		});
+		return new mastraCore.Mastra({
+			agents: { weatherAgent },
+			workflows: { forecast },
+		});
+	};
+
+	beforeEach(() => {
+		exporter = new InMemorySpanExporter();
+		provider = new BasicTracerProvider();
+		provider.addSpanProcessor(new AtlaRootSpanProcessor());
+		provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+		insights = { ...mockAtlaInsights, getTracerProvider: () => provider };
+	});
+
+	afterEach(() => {
+		disableInstrumentations();
+		jest.clearAllMocks();
+		mastraCore.resetMastraMock();
+	});
+
+	describe("instrumentMastra", () => {
+		it("should throw error when not configured", () => {
+			mockAtlaInsights.configured = false;
+
+			expect(() => instrumentMastra()).toThrow(
+				"Atla Insights must be configured before instrumenting Mastra",
+			);
+
+			mockAtlaInsights.configured = true;
+		});
+
+		it("should register Mastra instrumentation", () => {
+			instrumentMastra(createMastra(), insights);
+
+			expect(insights.registerInstrumentations).toHaveBeenCalledWith(
+				"mastra",
+				expect.arrayContaining([expect.any(Object)]),
+			);
+		});
+
+		it("should instrument the last Mastra instance created by default", async () => {
+			const mastra = createMastra();
+			instrumentMastra(undefined, insights);
+
+			await runAsClient(() =>
+				mastra.getAgent("weatherAgent").generate("Weather in Paris?"),
+			);
+
+			expect(getSpan("agent.generate")).toBeDefined();
+		});
+
+		it("should restore the Mastra tracer once disabled", async () => {
+			const mastra = createMastra();
+			const tracer = mastra.getTelemetry().tracer;
+			instrumentMastra(mastra, insights);
+
+			expect(mastra.getTelemetry().tracer).not.toBe(tracer);
+
+			disableInstrumentations();
+
+			expect(mastra.getTelemetry().tracer).toBe(tracer);
+			await runAsClient(() =>
+				mastra.getAgent("weatherAgent").generate("Weather in Paris?"),
+			);
+			expect(exporter.getFinishedSpans()).toHaveLength(0);
+		});
+	});
+
+	describe("withInstrumentedMastra", () => {
+		it("should create disposable instrumentation", () => {
+			const disposable = withInstrumentedMastra(createMastra());
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalled();
+			expect(typeof (disposable as any)[Symbol.dispose]).toBe("function");
+
+			(disposable as any)[Symbol.dispose]();
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalledWith(
+				"mastra",
+			);
+			uninstrumentMastra();
+		});
+	});
+
+	describe("agents", () => {
+		it("should record the agent run as an AGENT span", async () => {
+			const mastra = createMastra();
+			instrumentMastra(mastra, insights);
+
+			await runAsClient(() =>
+				mastra.getAgent("weatherAgent").generate("Weather in Paris?"),
+			);
+
+			const span = getSpan("agent.generate");
+			expect(span.instrumentationLibrary.name).toBe(
+				"openinference.instrumentation.mastra",
+			);
+			expect(span.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.AGENT,
+					[SemanticConventions.AGENT_NAME]: "Weather Agent",
+					[SemanticConventions.INPUT_VALUE]: '"Weather in Paris?"',
+					[SemanticConventions.OUTPUT_VALUE]: '{"text":"It is sunny."}',
+					[SemanticConventions.OUTPUT_MIME_TYPE]: "application/json",
+				}),
+			);
+		});
+
+		it("should record the memory lookups, tools and model calls", async () => {
+			const mastra = createMastra();
+			instrumentMastra(mastra, insights);
+
+			await runAsClient(() =>
+				mastra.getAgent("weatherAgent").generate("Weather in Paris?"),
+			);
+
+			expect(getSpanKind("memory.query")).toBe(OpenInferenceSpanKind.CHAIN);
+			expect(getSpanKind("ai.generateText")).toBe(OpenInferenceSpanKind.CHAIN);
+			expect(getSpan("tool.execute").attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.TOOL,
+					[SemanticConventions.TOOL_NAME]: "get_weather",
+					[SemanticConventions.INPUT_VALUE]: '{"city":"Paris"}',
+					[SemanticConventions.OUTPUT_VALUE]: '"Sunny in Paris"',
+				}),
+			);
+			expect(getSpan("ai.generateText.doGenerate").attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.LLM,
+					[SemanticConventions.LLM_MODEL_NAME]: "gpt-4o-mini",
+					"llm.output_messages.0.message.content": "It is sunny.",
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+				}),
+			);
+
+			const agentSpanId = getSpan("agent.generate").spanContext().spanId;
+			expect(getSpan("memory.query").parentSpanId).toBe(agentSpanId);
+			expect(getSpan("ai.generateText").parentSpanId).toBe(agentSpanId);
+		});
+	});
+
+	describe("workflows", () => {
+		it("should record the workflow run and its steps as CHAIN spans", async () => {
+			const mastra = createMastra();
+			instrumentMastra(mastra, insights);
+
+			await runAsClient(() => mastra.getWorkflow("forecast").start("Paris"));
+
+			const run = getSpan("workflow.forecast.execute");
+			const step = getSpan("workflow.forecast.step.fetch");
+			expect(run.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.CHAIN,
+					[SemanticConventions.INPUT_VALUE]: '"Paris"',
+					[SemanticConventions.OUTPUT_VALUE]: '"Dry"',
+				}),
+			);
+			expect(step.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.CHAIN,
+					[SemanticConventions.OUTPUT_VALUE]: '{"city":"Paris","rain":0}',
+				}),
+			);
+			expect(step.parentSpanId).toBe(run.spanContext().spanId);
+		});
+	});
+});
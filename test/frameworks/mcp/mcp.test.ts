@@ -0,0 +1,349 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import {
+	BaseAtlaTest,
+	realInMemorySpanExporter,
+	mockAtlaInsightsWithRealOtel as mockAtlaInsights,
+} from "../../setup";
+import { SemanticConventions } from "@arizeai/openinference-semantic-conventions";
+
+describe("MCP Framework", () => {
+	let baseTest: BaseAtlaTest;
+
+	// Import after mocking
+	let instrumentMCP: any;
+	let uninstrumentMCP: any;
+	let withInstrumentedMCP: any;
+	let MCPInstrumentation: any;
+
+	// The real MCP SDK, with its in-memory transport
+	const { Client } = require("@modelcontextprotocol/sdk/client/index.js");
+	const { Server } = require("@modelcontextprotocol/sdk/server/index.js");
+	const {
+		InMemoryTransport,
+	} = require("@modelcontextprotocol/sdk/inMemory.js");
+	const {
+		CallToolRequestSchema,
+		GetPromptRequestSchema,
+		ListToolsRequestSchema,
+		ReadResourceRequestSchema,
+	} = require("@modelcontextprotocol/sdk/types.js");
+
+	const getSpans = () => realInMemorySpanExporter.getFinishedSpans();
+	const getSpan = (name: string) => getSpans().find((s) => s.name === name);
+	const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+	// The mocked client does not manage the registered instrumentations
+	const disableInstrumentations = () => {
+		for (const [, instrumentations] of mockAtlaInsights.registerInstrumentations
+			.mock.calls as [string, { disable(): void }[]][]) {
+			for (const instrumentation of instrumentations) {
+				instrumentation.disable();
+			}
+		}
+	};
+
+	let receivedRequests: any[];
+
+	/**
+	 * Connect a client to a weather server over the in-memory transport.
+	 */
+	const connect = async () => {
+		const server = new Server(
+			{ name: "weather", version: "1.0.0" },
+			{ capabilities: { tools: {}, resources: {}, prompts: {} } },
+		);
+		server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
+			receivedRequests.push(request);
+			const { city } = request.params.arguments;
+			// Work done by the tool is recorded under the server span
+			mockAtlaInsights
+				.getTracerProvider()
+				.getTracer("weather")
+				.startActiveSpan("fetch forecast", (span: any) => span.end());
+			if (city === "Atlantis") {
+				return {
+					content: [{ type: "text", text: "City not found" }],
+					isError: true,
+				};
+			}
+			if (city === "Nowhere") {
+				throw new Error("Forecast unavailable");
+			}
+			return { content: [{ type: "text", text: `Sunny in ${city}` }] };
+		});
+		server.setRequestHandler(ListToolsRequestSchema, async () => ({
+			tools: [{ name: "get_weather", inputSchema: { type: "object" } }],
+		}));
+		server.setRequestHandler(
+			ReadResourceRequestSchema,
+			async (request: any) => ({
+				contents: [{ uri: request.params.uri, text: "Paris, London" }],
+			}),
+		);
+		server.setRequestHandler(GetPromptRequestSchema, async () => ({
+			messages: [{ role: "user", content: { type: "text", text: "Weather?" } }],
+		}));
+
+		const client = new Client({ name: "agent", version: "1.0.0" });
+		const [clientTransport, serverTransport] =
+			InMemoryTransport.createLinkedPair();
+		await Promise.all([
+			client.connect(clientTransport),
+			server.connect(serverTransport),
+		]);
+		return client;
+	};
+
+	beforeAll(async () => {
+		const mcpModule = await import("../../../src/frameworks/mcp/index");
+		instrumentMCP = mcpModule.instrumentMCP;
+		uninstrumentMCP = mcpModule.uninstrumentMCP;
+		withInstrumentedMCP = mcpModule.withInstrumentedMCP;
+
+		const instrumentationModule = await import(
+			"../../../src/frameworks/mcp/instrumentation"
+		);
+		MCPInstrumentation = instrumentationModule.MCPInstrumentation;
+	});
+
+	beforeEach(() => {
+		baseTest = new BaseAtlaTest();
+		baseTest.beforeEach();
+
+		jest.clearAllMocks();
+		realInMemorySpanExporter.reset();
+		receivedRequests = [];
+	});
+
+	afterEach(() => {
+		disableInstrumentations();
+		baseTest.afterEach();
+		uninstrumentMCP();
+		realInMemorySpanExporter.reset();
+	});
+
+	describe("instrumentMCP", () => {
+		it("should throw error when not configured", () => {
+			mockAtlaInsights.configured = false;
+
+			expect(() => instrumentMCP()).toThrow(
+				"Atla Insights must be configured before instrumenting MCP",
+			);
+
+			mockAtlaInsights.configured = true;
+		});
+
+		it("should register MCP instrumentation", () => {
+			instrumentMCP();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalledWith(
+				"mcp",
+				expect.arrayContaining([expect.any(Object)]),
+			);
+		});
+
+		it("should not wrap twice when instrumented twice", async () => {
+			const instrumentation = new MCPInstrumentation({
+				tracerProvider: mockAtlaInsights.getTracerProvider(),
+			});
+			instrumentation.manuallyInstrument({ Client });
+			instrumentation.manuallyInstrument({ Client });
+			const client = await connect();
+
+			await client.callTool({
+				name: "get_weather",
+				arguments: { city: "Paris" },
+			});
+			await flush();
+
+			expect(
+				getSpans().filter((s) => s.name === "MCP Client tools/call"),
+			).toHaveLength(1);
+			instrumentation.disable();
+		});
+	});
+
+	describe("withInstrumentedMCP", () => {
+		it("should create disposable instrumentation", () => {
+			const disposable = withInstrumentedMCP();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalled();
+			expect(typeof disposable[Symbol.dispose]).toBe("function");
+
+			disposable[Symbol.dispose]();
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalledWith(
+				"mcp",
+			);
+		});
+	});
+
+	describe("tool calls", () => {
+		it("should record the client and server spans in one trace", async () => {
+			instrumentMCP({ Client, Server });
+			const client = await connect();
+
+			await client.callTool({
+				name: "get_weather",
+				arguments: { city: "Paris" },
+			});
+			await flush();
+
+			const clientSpan = getSpan("MCP Client tools/call");
+			const serverSpan = getSpan("MCP Server tools/call");
+			const toolWork = getSpan("fetch forecast");
+
+			expect(clientSpan?.kind).toBe(SpanKind.CLIENT);
+			expect(serverSpan?.kind).toBe(SpanKind.SERVER);
+			expect(serverSpan?.parentSpanId).toBe(clientSpan?.spanContext().spanId);
+			expect(serverSpan?.spanContext().traceId).toBe(
+				clientSpan?.spanContext().traceId,
+			);
+			expect(toolWork?.parentSpanId).toBe(serverSpan?.spanContext().spanId);
+
+			for (const span of [clientSpan, serverSpan]) {
+				expect(span?.attributes).toEqual(
+					expect.objectContaining({
+						[SemanticConventions.OPENINFERENCE_SPAN_KIND]: "TOOL",
+						"mcp.method.name": "tools/call",
+						[SemanticConventions.TOOL_NAME]: "get_weather",
+						[SemanticConventions.TOOL_PARAMETERS]: '{"city":"Paris"}',
+						[SemanticConventions.INPUT_VALUE]: JSON.stringify({
+							name: "get_weather",
+							arguments: { city: "Paris" },
+						}),
+						[SemanticConventions.OUTPUT_VALUE]: JSON.stringify({
+							content: [{ type: "text", text: "Sunny in Paris" }],
+						}),
+					}),
+				);
+				expect(span?.status.code).toBe(SpanStatusCode.OK);
+			}
+		});
+
+		it("should propagate the W3C trace context in the request metadata", async () => {
+			instrumentMCP({ Client, Server });
+			const client = await connect();
+
+			await client.callTool({
+				name: "get_weather",
+				arguments: { city: "Paris" },
+				_meta: { progressToken: 1 },
+			});
+			await flush();
+
+			const clientSpan = getSpan("MCP Client tools/call");
+			const { traceId, spanId } = clientSpan?.spanContext() ?? {};
+			expect(receivedRequests[0].params._meta).toEqual({
+				progressToken: 1,
+				traceparent: `00-${traceId}-${spanId}-01`,
+			});
+		});
+
+		it("should record tool errors", async () => {
+			instrumentMCP({ Client, Server });
+			const client = await connect();
+
+			await client.callTool({
+				name: "get_weather",
+				arguments: { city: "Atlantis" },
+			});
+			await flush();
+
+			for (const name of ["MCP Client tools/call", "MCP Server tools/call"]) {
+				expect(getSpan(name)?.status).toEqual({
+					code: SpanStatusCode.ERROR,
+					message: "City not found",
+				});
+			}
+		});
+
+		it("should record failed requests", async () => {
+			instrumentMCP({ Client, Server });
+			const client = await connect();
+
+			await expect(
+				client.callTool({
+					name: "get_weather",
+					arguments: { city: "Nowhere" },
+				}),
+			).rejects.toThrow("Forecast unavailable");
+			await flush();
+
+			for (const name of ["MCP Client tools/call", "MCP Server tools/call"]) {
+				const span = getSpan(name);
+				expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+				expect(span?.events[0]?.name).toBe("exception");
+			}
+		});
+	});
+
+	describe("other requests", () => {
+		it("should record listTools, readResource and getPrompt", async () => {
+			instrumentMCP({ Client, Server });
+			const client = await connect();
+
+			await client.listTools();
+			await client.readResource({ uri: "weather://cities" });
+			await client.getPrompt({ name: "forecast" });
+			await flush();
+
+			expect(getSpan("MCP Client tools/list")?.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.TOOL_NAME]: "tools/list",
+					[SemanticConventions.OUTPUT_VALUE]:
+						expect.stringContaining("get_weather"),
+				}),
+			);
+			expect(
+				getSpan("MCP Server resources/read")?.attributes[
+					SemanticConventions.TOOL_NAME
+				],
+			).toBe("weather://cities");
+			expect(
+				getSpan("MCP Client prompts/get")?.attributes[
+					SemanticConventions.TOOL_NAME
+				],
+			).toBe("forecast");
+			expect(getSpans().filter((s) => s.name.startsWith("MCP"))).toHaveLength(
+				6,
+			);
+		});
+	});
+
+	describe("uninstrumentMCP", () => {
+		it("should unregister the instrumentation", () => {
+			instrumentMCP({ Client, Server });
+			uninstrumentMCP();
+
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalledWith(
+				"mcp",
+			);
+		});
+
+		it("should stop recording spans and propagating context once disabled", async () => {
+			instrumentMCP({ Client, Server });
+			disableInstrumentations();
+			const client = await connect();
+
+			await client.callTool({
+				name: "get_weather",
+				arguments: { city: "Paris" },
+			});
+			await flush();
+
+			expect(getSpans().filter((s) => s.name.startsWith("MCP"))).toHaveLength(
+				0,
+			);
+			expect(receivedRequests[0].params._meta).toBeUndefined();
+		});
+	});
+});
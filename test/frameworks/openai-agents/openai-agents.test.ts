@@ -1,5 +1,46 @@
-import { OpenAIAgentsProcessor } from "../../../src/frameworks/openai-agents";
-import { describe, expect, test } from "@jest/globals";
+import {
+	instrumentOpenAIAgents,
+	OpenAIAgentsProcessor,
+	uninstrumentOpenAIAgents,
+	withInstrumentedOpenAIAgents,
+} from "../../../src/frameworks/openai-agents";
+import {
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	jest,
+	test,
+} from "@jest/globals";
+import {
+	Agent,
+	createAgentSpan,
+	getGlobalTraceProvider,
+	InputGuardrailTripwireTriggered,
+	Runner,
+	setTraceProcessors,
+	Span,
+	Trace,
+	withAgentSpan,
+	withGuardrailSpan,
+	withResponseSpan,
+	withSpeechGroupSpan,
+	withSpeechSpan,
+	withTrace,
+	withTranscriptionSpan,
+} from "@openai/agents";
+import { SpanStatusCode } from "@opentelemetry/api";
+import {
+	BasicTracerProvider,
+	InMemorySpanExporter,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import {
+	mockAtlaInsightsWithRealOtel,
+	realInMemorySpanExporter,
+} from "../../setup";
+import { instrument } from "../../../src/instrumentation";
 import type { Responses } from "openai/resources/responses";
 import type { ResponseInputItem } from "openai/resources/responses/responses";
 
@@ -9,6 +50,596 @@ describe("OpenAIAgentsProcessor", () => {
 	});
 });
 
+describe("instrumentOpenAIAgents", () => {
+	const getSpanNames = () =>
+		realInMemorySpanExporter.getFinishedSpans().map((span) => span.name);
+	const runAgent = () =>
+		withTrace("Weather workflow", () =>
+			withAgentSpan(async () => {}, { data: { name: "Weather agent" } }),
+		);
+
+	beforeAll(() => {
+		// Remove the default processor, which exports to OpenAI
+		setTraceProcessors([]);
+	});
+
+	afterEach(() => {
+		uninstrumentOpenAIAgents();
+		jest.clearAllMocks();
+		realInMemorySpanExporter.reset();
+	});
+
+	it("should trace the agent runs", async () => {
+		instrumentOpenAIAgents();
+
+		await runAgent();
+
+		expect(getSpanNames()).toEqual(["Weather agent", "Weather workflow"]);
+	});
+
+	it("should nest the runs in the active trace", async () => {
+		instrumentOpenAIAgents();
+
+		await instrument("Weather app")(async () => runAgent())();
+
+		const spans = realInMemorySpanExporter.getFinishedSpans();
+		const appSpan = spans.find((span) => span.name === "Weather app");
+		const runSpan = spans.find((span) => span.name === "Weather workflow");
+		const agentSpan = spans.find((span) => span.name === "Weather agent");
+		expect(runSpan?.parentSpanId).toBe(appSpan?.spanContext().spanId);
+		expect(runSpan?.spanContext().traceId).toBe(appSpan?.spanContext().traceId);
+		expect(agentSpan?.parentSpanId).toBe(runSpan?.spanContext().spanId);
+	});
+
+	it("should register the processor once when instrumented twice", async () => {
+		instrumentOpenAIAgents();
+		instrumentOpenAIAgents();
+
+		await runAgent();
+
+		expect(
+			mockAtlaInsightsWithRealOtel.registerProcessor,
+		).toHaveBeenCalledTimes(1);
+		expect(getSpanNames()).toEqual(["Weather agent", "Weather workflow"]);
+	});
+
+	it("should stop tracing once uninstrumented", async () => {
+		instrumentOpenAIAgents();
+		uninstrumentOpenAIAgents();
+
+		await runAgent();
+
+		expect(
+			mockAtlaInsightsWithRealOtel.unregisterProcessor,
+		).toHaveBeenCalledWith("openai-agents");
+		expect(getSpanNames()).toEqual([]);
+	});
+
+	it("should end the dangling spans when uninstrumented", async () => {
+		instrumentOpenAIAgents();
+		const agentTrace = getGlobalTraceProvider().createTrace({
+			name: "Weather workflow",
+		});
+		await agentTrace.start();
+		const agentSpan = createAgentSpan(
+			{ data: { name: "Weather agent" } },
+			agentTrace,
+		);
+		agentSpan.start();
+
+		uninstrumentOpenAIAgents();
+		expect(getSpanNames()).toEqual(["Weather agent", "Weather workflow"]);
+
+		agentSpan.end();
+		await agentTrace.end();
+		expect(getSpanNames()).toHaveLength(2);
+	});
+
+	it("should trace again once instrumented again", async () => {
+		instrumentOpenAIAgents();
+		uninstrumentOpenAIAgents();
+		instrumentOpenAIAgents();
+
+		await runAgent();
+
+		expect(getSpanNames()).toEqual(["Weather agent", "Weather workflow"]);
+	});
+
+	it("should trace the runs with each instrumenting client", async () => {
+		const otherExporter = new InMemorySpanExporter();
+		const otherClient = {
+			...mockAtlaInsightsWithRealOtel,
+			getTracerProvider: () =>
+				new BasicTracerProvider({
+					spanProcessors: [new SimpleSpanProcessor(otherExporter)],
+				}),
+			registerProcessor: jest.fn(),
+			unregisterProcessor: jest.fn(),
+		} as any;
+		instrumentOpenAIAgents();
+		instrumentOpenAIAgents({}, otherClient);
+
+		await runAgent();
+
+		expect(otherClient.registerProcessor).toHaveBeenCalledTimes(1);
+		expect(getSpanNames()).toEqual(["Weather agent", "Weather workflow"]);
+		expect(otherExporter.getFinishedSpans().map((span) => span.name)).toEqual([
+			"Weather agent",
+			"Weather workflow",
+		]);
+
+		// The runs within the functions of another client start a new trace
+		otherExporter.reset();
+		await instrument("Weather app")(async () => runAgent())();
+
+		const [otherAgentSpan, otherRunSpan] = otherExporter.getFinishedSpans();
+		expect(otherRunSpan.parentSpanId).toBeUndefined();
+		expect(otherRunSpan.links[0]?.context.spanId).toBe(
+			realInMemorySpanExporter
+				.getFinishedSpans()
+				.find((span) => span.name === "Weather app")
+				?.spanContext().spanId,
+		);
+		expect(otherAgentSpan.parentSpanId).toBe(otherRunSpan.spanContext().spanId);
+
+		uninstrumentOpenAIAgents(otherClient);
+		otherExporter.reset();
+		realInMemorySpanExporter.reset();
+		await runAgent();
+
+		expect(otherClient.unregisterProcessor).toHaveBeenCalledWith(
+			"openai-agents",
+		);
+		expect(otherExporter.getFinishedSpans()).toEqual([]);
+		expect(getSpanNames()).toHaveLength(2);
+	});
+
+	it("should record the hosted tool calls as TOOL spans", async () => {
+		instrumentOpenAIAgents();
+
+		await withTrace("Weather workflow", () =>
+			withResponseSpan(async (span) => {
+				span.spanData._response = {
+					model: "gpt-4.1",
+					tools: [{ type: "web_search" }],
+					output: [
+						{
+							id: "ws-123",
+							type: "web_search_call",
+							status: "failed",
+							action: { type: "search", query: "weather in Paris" },
+						},
+						{
+							id: "call-123",
+							call_id: "call-123",
+							type: "function_call",
+							name: "get_weather",
+							arguments: "{}",
+						},
+					],
+				};
+			}),
+		);
+
+		const spans = realInMemorySpanExporter.getFinishedSpans();
+		const responseSpan = spans.find((span) => span.name === "response");
+		const toolSpan = spans.find((span) => span.name === "web_search");
+		expect(spans).toHaveLength(3);
+		expect(toolSpan?.parentSpanId).toBe(responseSpan?.spanContext().spanId);
+		expect(toolSpan?.startTime).toEqual(responseSpan?.startTime);
+		expect(toolSpan?.endTime).toEqual(responseSpan?.endTime);
+		expect(toolSpan?.attributes).toEqual(
+			expect.objectContaining({
+				"openinference.span.kind": "TOOL",
+				"tool.name": "web_search",
+				"input.value": '{"type":"search","query":"weather in Paris"}',
+			}),
+		);
+		expect(toolSpan?.status).toEqual({
+			code: SpanStatusCode.ERROR,
+			message: "Web search failed",
+		});
+	});
+
+	describe("voice", () => {
+		const getSpan = (name: string) =>
+			realInMemorySpanExporter
+				.getFinishedSpans()
+				.find((span) => span.name === name);
+		// 4 and 8 bytes of audio
+		const question = Buffer.from("ping").toString("base64");
+		const answer = Buffer.from("pingpong").toString("base64");
+		const runVoiceTurn = () =>
+			withTrace("Voice workflow", () =>
+				withSpeechGroupSpan(
+					async () => {
+						await withTranscriptionSpan(async () => {}, {
+							data: {
+								model: "gpt-4o-transcribe",
+								input: { data: question, format: "pcm" },
+								output: "Weather in Paris?",
+							},
+						});
+						await withSpeechSpan(async () => {}, {
+							data: {
+								model: "gpt-4o-mini-tts",
+								model_config: { voice: "alloy" },
+								input: "Sunny",
+								output: { data: answer, format: "mpeg" },
+							},
+						});
+					},
+					{ data: { input: "Sunny" } },
+				),
+			);
+
+		it("should record the transcription and speech spans", async () => {
+			instrumentOpenAIAgents();
+
+			await runVoiceTurn();
+
+			expect(getSpan("transcription")?.attributes).toEqual(
+				expect.objectContaining({
+					"openinference.span.kind": "LLM",
+					"llm.model_name": "gpt-4o-transcribe",
+					"audio.mime_type": "audio/pcm",
+					"audio.transcript": "Weather in Paris?",
+					"output.value": "Weather in Paris?",
+				}),
+			);
+			expect(getSpan("speech")?.attributes).toEqual(
+				expect.objectContaining({
+					"openinference.span.kind": "LLM",
+					"llm.model_name": "gpt-4o-mini-tts",
+					"llm.invocation_parameters": '{"voice":"alloy"}',
+					"audio.mime_type": "audio/mpeg",
+					"input.value": "Sunny",
+				}),
+			);
+			expect(getSpan("speech_group")?.attributes).toEqual(
+				expect.objectContaining({
+					"openinference.span.kind": "CHAIN",
+					"input.value": "Sunny",
+				}),
+			);
+			expect(getSpan("speech")?.parentSpanId).toBe(
+				getSpan("speech_group")?.spanContext().spanId,
+			);
+			expect(getSpan("speech")?.attributes["audio.url"]).toBeUndefined();
+		});
+
+		it("should record the audio up to the size cap when enabled", async () => {
+			instrumentOpenAIAgents({ captureAudio: true, maxAudioBytes: 4 });
+
+			await runVoiceTurn();
+
+			expect(getSpan("transcription")?.attributes["audio.url"]).toBe(
+				`data:audio/pcm;base64,${question}`,
+			);
+			expect(getSpan("speech")?.attributes["audio.url"]).toBeUndefined();
+		});
+	});
+
+	describe("guardrails", () => {
+		const getSpan = (name: string) =>
+			realInMemorySpanExporter
+				.getFinishedSpans()
+				.find((span) => span.name === name);
+		const runGuardedAgent = ({
+			inputTriggered = false,
+			outputTriggered = false,
+			callModel = true,
+		}) =>
+			withTrace("Weather workflow", () =>
+				withAgentSpan(
+					async () => {
+						await withGuardrailSpan(
+							async (span) => {
+								span.spanData.triggered = inputTriggered;
+							},
+							{ data: { name: "is_on_topic" } },
+						);
+						if (!callModel) {
+							return;
+						}
+						await withResponseSpan(async (span) => {
+							span.spanData._input = "Weather in Paris?";
+							span.spanData._response = {
+								model: "gpt-4.1",
+								tools: [],
+								output: [
+									{
+										id: "msg-123",
+										type: "message",
+										role: "assistant",
+										status: "completed",
+										content: [
+											{ type: "output_text", text: "Sunny", annotations: [] },
+										],
+									},
+								],
+							};
+						});
+						await withGuardrailSpan(
+							async (span) => {
+								span.spanData.triggered = outputTriggered;
+							},
+							{ data: { name: "no_forecasts" } },
+						);
+					},
+					{ data: { name: "Weather agent" } },
+				),
+			);
+
+		it("should record the guardrails with the input they check", async () => {
+			instrumentOpenAIAgents();
+
+			await runGuardedAgent({});
+
+			expect(getSpan("is_on_topic")?.attributes).toEqual(
+				expect.objectContaining({
+					"openinference.span.kind": "GUARDRAIL",
+					"guardrail.name": "is_on_topic",
+					"guardrail.triggered": false,
+					"input.value": "Weather in Paris?",
+				}),
+			);
+			expect(getSpan("no_forecasts")?.attributes).toEqual(
+				expect.objectContaining({
+					"guardrail.name": "no_forecasts",
+					"input.value": "Sunny",
+				}),
+			);
+			expect(getSpan("is_on_topic")?.parentSpanId).toBe(
+				getSpan("Weather agent")?.spanContext().spanId,
+			);
+			expect(getSpan("Weather workflow")?.status.code).toBe(SpanStatusCode.OK);
+			expect(
+				getSpan("Weather workflow")?.attributes["atla.mark.success"],
+			).toBeUndefined();
+		});
+
+		it("should mark the run as failed when a tripwire is triggered", async () => {
+			instrumentOpenAIAgents();
+
+			await runGuardedAgent({ outputTriggered: true });
+
+			expect(getSpan("no_forecasts")?.status).toEqual({
+				code: SpanStatusCode.ERROR,
+				message: "Guardrail tripwire triggered",
+			});
+			expect(getSpan("Weather workflow")?.attributes).toEqual(
+				expect.objectContaining({
+					"guardrail.triggered": true,
+					"atla.mark.success": 0,
+				}),
+			);
+			expect(getSpan("Weather workflow")?.status).toEqual({
+				code: SpanStatusCode.ERROR,
+				message: "Guardrail tripwire triggered: no_forecasts",
+			});
+		});
+
+		it("should mark the surrounding trace as failed when a tripwire is triggered", async () => {
+			instrumentOpenAIAgents();
+
+			await instrument("Weather app")(async () =>
+				runGuardedAgent({ outputTriggered: true }),
+			)();
+
+			expect(getSpan("Weather app")?.attributes["atla.mark.success"]).toBe(0);
+			expect(getSpan("Weather workflow")?.attributes).toEqual(
+				expect.objectContaining({ "guardrail.triggered": true }),
+			);
+			expect(
+				getSpan("Weather workflow")?.attributes["atla.mark.success"],
+			).toBeUndefined();
+		});
+
+		it("should end the input guardrails of blocked runs", async () => {
+			instrumentOpenAIAgents();
+
+			await runGuardedAgent({ inputTriggered: true, callModel: false });
+
+			const guardrailSpan = getSpan("is_on_topic");
+			expect(guardrailSpan?.attributes["guardrail.triggered"]).toBe(true);
+			expect(guardrailSpan?.attributes["input.value"]).toBeUndefined();
+			expect(guardrailSpan?.status.code).toBe(SpanStatusCode.ERROR);
+			expect(getSpan("Weather workflow")?.attributes["atla.mark.success"]).toBe(
+				0,
+			);
+		});
+
+		it("should record the run input of input guardrails whose tripwire fires", async () => {
+			instrumentOpenAIAgents();
+			const agent = new Agent({
+				name: "Weather agent",
+				inputGuardrails: [
+					{
+						name: "is_on_topic",
+						execute: async () => ({ tripwireTriggered: true, outputInfo: {} }),
+					},
+				],
+			});
+			// The tripwire stops the run before the model is called
+			const runner = new Runner({
+				modelProvider: { getModel: async () => ({}) as any },
+				workflowName: "Weather workflow",
+			});
+
+			await expect(runner.run(agent, "Tell me a joke")).rejects.toThrow(
+				InputGuardrailTripwireTriggered,
+			);
+
+			const guardrailSpan = getSpan("is_on_topic");
+			expect(guardrailSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"guardrail.triggered": true,
+					"input.value": "Tell me a joke",
+				}),
+			);
+			expect(guardrailSpan?.parentSpanId).toBe(
+				getSpan("Weather agent")?.spanContext().spanId,
+			);
+		});
+	});
+
+	it("should create disposable instrumentation", async () => {
+		const disposable = withInstrumentedOpenAIAgents();
+		expect(typeof (disposable as any)[Symbol.dispose]).toBe("function");
+
+		(disposable as any)[Symbol.dispose]();
+		await runAgent();
+
+		expect(
+			mockAtlaInsightsWithRealOtel.unregisterProcessor,
+		).toHaveBeenCalledWith("openai-agents");
+		expect(getSpanNames()).toEqual([]);
+	});
+
+	it("should pass the options to the disposable instrumentation", async () => {
+		const disposable = withInstrumentedOpenAIAgents({ captureAudio: true });
+
+		await withTrace("Voice workflow", () =>
+			withTranscriptionSpan(async () => {}, {
+				data: { input: { data: "AAAA", format: "pcm" } },
+			}),
+		);
+		disposable.dispose();
+
+		const transcription = realInMemorySpanExporter
+			.getFinishedSpans()
+			.find((span) => span.name === "transcription");
+		expect(transcription?.attributes["audio.url"]).toBe(
+			"data:audio/pcm;base64,AAAA",
+		);
+	});
+});
+
+describe("OpenAIAgentsProcessor memory", () => {
+	let processor: OpenAIAgentsProcessor;
+
+	const getSpan = (name: string) =>
+		realInMemorySpanExporter
+			.getFinishedSpans()
+			.find((span) => span.name === name);
+	const getInFlightCounts = () => {
+		const state = processor as any;
+		return [
+			state.rootSpans.size,
+			state.spanMap.size,
+			state.tokens.size,
+			state.traceSpanIds.size,
+		];
+	};
+	const startRun = async () => {
+		const agentTrace = new Trace(
+			{ traceId: "trace_1", name: "Weather workflow" },
+			processor,
+		);
+		await agentTrace.start();
+		const agentSpan = new Span(
+			{ traceId: "trace_1", data: { type: "agent", name: "Weather agent" } },
+			processor,
+		);
+		agentSpan.start();
+		const toolSpan = new Span(
+			{
+				traceId: "trace_1",
+				parentId: agentSpan.spanId,
+				data: { type: "function", name: "get_weather", input: "", output: "" },
+			},
+			processor,
+		);
+		toolSpan.start();
+		return { agentTrace, agentSpan, toolSpan };
+	};
+
+	beforeEach(() => {
+		processor = new OpenAIAgentsProcessor(mockAtlaInsightsWithRealOtel as any, {
+			traceTimeoutMillis: 1000,
+		});
+		realInMemorySpanExporter.reset();
+	});
+
+	afterEach(async () => {
+		await processor.shutdown();
+		realInMemorySpanExporter.reset();
+	});
+
+	it("should forget the spans and traces once ended", async () => {
+		const { agentTrace, agentSpan, toolSpan } = await startRun();
+		expect(getInFlightCounts()).toEqual([1, 2, 2, 1]);
+
+		toolSpan.end();
+		agentSpan.end();
+		await agentTrace.end();
+
+		expect(getInFlightCounts()).toEqual([0, 0, 0, 0]);
+		expect(realInMemorySpanExporter.getFinishedSpans()).toHaveLength(3);
+	});
+
+	it("should end and forget the spans left open when the trace ends", async () => {
+		const { agentTrace, agentSpan, toolSpan } = await startRun();
+		const generationSpan = new Span(
+			{
+				traceId: "trace_1",
+				parentId: agentSpan.spanId,
+				data: { type: "generation", output: [{ content: "Sunny" }] },
+			},
+			processor,
+		);
+		generationSpan.start();
+		generationSpan.end();
+		expect((processor as any).agentOutputs.size).toBe(1);
+
+		// The agent span is never ended
+		toolSpan.end();
+		await agentTrace.end();
+
+		expect((processor as any).agentOutputs.size).toBe(0);
+		expect(getInFlightCounts()).toEqual([0, 0, 0, 0]);
+		expect(getSpan("Weather agent")?.attributes.abandoned).toBe(true);
+		expect(getSpan("Weather agent")?.status).toEqual({
+			code: SpanStatusCode.ERROR,
+			message: "Abandoned: the span never ended before its trace",
+		});
+		expect(getSpan("Weather agent")?.parentSpanId).toBe(
+			getSpan("Weather workflow")?.spanContext().spanId,
+		);
+	});
+
+	it("should end the spans of abandoned traces", async () => {
+		const { agentSpan } = await startRun();
+
+		processor.sweepAbandonedTraces(Date.now() + 1000);
+
+		for (const name of ["get_weather", "Weather agent", "Weather workflow"]) {
+			expect(getSpan(name)?.attributes.abandoned).toBe(true);
+			expect(getSpan(name)?.status).toEqual({
+				code: SpanStatusCode.ERROR,
+				message: "Abandoned: the trace never ended",
+			});
+		}
+		expect(getSpan("get_weather")?.parentSpanId).toBe(
+			getSpan("Weather agent")?.spanContext().spanId,
+		);
+		expect(getInFlightCounts()).toEqual([0, 0, 0, 0]);
+
+		agentSpan.end();
+		expect(realInMemorySpanExporter.getFinishedSpans()).toHaveLength(3);
+	});
+
+	it("should not end the spans of active traces", async () => {
+		await startRun();
+
+		processor.sweepAbandonedTraces(Date.now() + 999);
+
+		expect(realInMemorySpanExporter.getFinishedSpans()).toHaveLength(0);
+		expect(getInFlightCounts()).toEqual([1, 2, 2, 1]);
+	});
+});
+
 describe("getAttributesFromMessageParam", () => {
 	const processor = new OpenAIAgentsProcessor();
 
@@ -460,6 +1091,7 @@ describe("getAttributesFromGenerationSpanData", () => {
 					'{"temperature":0.7,"base_url":"https://api.openai.com/v1"}',
 				"llm.model_name": "gpt-4",
 				"llm.provider": "openai",
+				"llm.system": "openai",
 				"llm.output_messages.0.message.content": "Hi",
 				"llm.output_messages.0.message.role": "assistant",
 				"llm.token_count.completion": 5,
@@ -468,6 +1100,20 @@ describe("getAttributesFromGenerationSpanData", () => {
 				"output.value": '[{"role":"assistant","content":"Hi"}]',
 			},
 		],
+		[
+			"generation_with_compatible_provider",
+			{
+				model: "deepseek-chat",
+				model_config: { base_url: "https://api.deepseek.com/v1" },
+			},
+			{
+				"llm.invocation_parameters":
+					'{"base_url":"https://api.deepseek.com/v1"}',
+				"llm.model_name": "deepseek-chat",
+				"llm.provider": "deepseek",
+				"llm.system": "deepseek",
+			},
+		],
 		[
 			"generation_with_other_provider",
 			{
@@ -506,6 +1152,26 @@ describe("getAttributesFromGenerationSpanData", () => {
 			expect(attributes).toEqual(expectedAttributes);
 		},
 	);
+
+	it("should resolve the configured custom providers", () => {
+		mockAtlaInsightsWithRealOtel.getOpenAICompatibleProviders.mockReturnValueOnce(
+			{ "other-api.com": { provider: "other", system: "llama" } },
+		);
+
+		const attributes = Object.fromEntries([
+			...processor.getAttributesFromGenerationSpanData({
+				model: "llama-3",
+				model_config: { base_url: "https://other-api.com" },
+			}),
+		]);
+
+		expect(attributes).toEqual(
+			expect.objectContaining({
+				"llm.provider": "other",
+				"llm.system": "llama",
+			}),
+		);
+	});
 });
 
 describe("getAttributesFromChatCompletionsInput", () => {
@@ -1976,6 +2642,183 @@ describe("getAttributesFromResponseOutput", () => {
 					"World",
 			},
 		],
+		[
+			"file_search_call",
+			[
+				{
+					id: "fs-123",
+					type: "file_search_call",
+					status: "completed",
+					queries: ["refund policy"],
+					results: [{ file_id: "file-1", filename: "faq.md", text: "30 days" }],
+				} as Responses.ResponseFileSearchToolCall,
+			],
+			{
+				"llm.output_messages.0.message.role": "assistant",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.id": "fs-123",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+					"file_search",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+					'{"queries":["refund policy"]}',
+				"llm.output_messages.1.message.role": "tool",
+				"llm.output_messages.1.message.tool_call_id": "fs-123",
+				"llm.output_messages.1.message.content":
+					'[{"file_id":"file-1","filename":"faq.md","text":"30 days"}]',
+			},
+		],
+		[
+			"web_search_call_with_sources",
+			[
+				{
+					id: "ws-123",
+					type: "web_search_call",
+					status: "completed",
+					action: {
+						type: "search",
+						query: "weather in Paris",
+						sources: [{ type: "url", url: "https://weather.com" }],
+					},
+				} as Responses.ResponseFunctionWebSearch,
+			],
+			{
+				"llm.output_messages.0.message.role": "assistant",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.id": "ws-123",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+					"web_search",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+					'{"type":"search","query":"weather in Paris"}',
+				"llm.output_messages.1.message.role": "tool",
+				"llm.output_messages.1.message.tool_call_id": "ws-123",
+				"llm.output_messages.1.message.content":
+					'{"sources":[{"type":"url","url":"https://weather.com"}]}',
+			},
+		],
+		[
+			"code_interpreter_call",
+			[
+				{
+					id: "ci-123",
+					type: "code_interpreter_call",
+					status: "completed",
+					code: "print(1 + 1)",
+					container_id: "cntr-1",
+					outputs: [{ type: "logs", logs: "2" }],
+				} as Responses.ResponseCodeInterpreterToolCall,
+			],
+			{
+				"llm.output_messages.0.message.role": "assistant",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.id": "ci-123",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+					"code_interpreter",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+					'{"code":"print(1 + 1)","container_id":"cntr-1"}',
+				"llm.output_messages.1.message.role": "tool",
+				"llm.output_messages.1.message.tool_call_id": "ci-123",
+				"llm.output_messages.1.message.content": '[{"type":"logs","logs":"2"}]',
+			},
+		],
+		[
+			"failed_mcp_call",
+			[
+				{
+					id: "mcp-123",
+					type: "mcp_call",
+					server_label: "weather",
+					name: "get_forecast",
+					arguments: '{"city":"Paris"}',
+					error: "Server unavailable",
+				} as Responses.ResponseOutputItem.McpCall,
+			],
+			{
+				"llm.output_messages.0.message.role": "assistant",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.id": "mcp-123",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+					"get_forecast",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+					'{"city":"Paris"}',
+				"llm.output_messages.1.message.role": "tool",
+				"llm.output_messages.1.message.tool_call_id": "mcp-123",
+				"llm.output_messages.1.message.content": "Server unavailable",
+			},
+		],
+		[
+			"computer_call",
+			[
+				{
+					id: "cu-123",
+					call_id: "call-123",
+					type: "computer_call",
+					status: "completed",
+					action: { type: "click", button: "left", x: 10, y: 20 },
+					pending_safety_checks: [],
+				} as Responses.ResponseComputerToolCall,
+			],
+			{
+				"llm.output_messages.0.message.role": "assistant",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.id": "call-123",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+					"computer",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+					'{"type":"click","button":"left","x":10,"y":20}',
+			},
+		],
+		[
+			"reasoning_then_message",
+			[
+				{
+					id: "rs-123",
+					type: "reasoning",
+					summary: [
+						{ type: "summary_text", text: "Checking the forecast." },
+						{ type: "summary_text", text: "It will be sunny." },
+					],
+				} as Responses.ResponseReasoningItem,
+				{
+					id: "msg-123",
+					role: "assistant",
+					content: [{ type: "output_text", text: "Sunny", annotations: [] }],
+					status: "completed",
+					type: "message",
+				} as Responses.ResponseOutputMessage,
+			],
+			{
+				"llm.output_messages.0.message.role": "assistant",
+				"llm.output_messages.0.message.content":
+					"Checking the forecast.\n\nIt will be sunny.",
+				"llm.output_messages.1.message.role": "assistant",
+				"llm.output_messages.1.message.contents.0.message_content.type": "text",
+				"llm.output_messages.1.message.contents.0.message_content.text":
+					"Sunny",
+			},
+		],
+		[
+			"function_call_then_approval_request",
+			[
+				{
+					type: "function_call",
+					call_id: "123",
+					name: "test_func",
+					arguments: "{}",
+				} as Responses.ResponseFunctionToolCall,
+				{
+					id: "apr-123",
+					type: "mcp_approval_request",
+					server_label: "weather",
+					name: "delete_forecast",
+					arguments: "{}",
+				} as Responses.ResponseOutputItem.McpApprovalRequest,
+			],
+			{
+				"llm.output_messages.0.message.role": "assistant",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.id": "123",
+				"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+					"test_func",
+				"llm.output_messages.1.message.role": "assistant",
+				"llm.output_messages.1.message.tool_calls.0.tool_call.id": "apr-123",
+				"llm.output_messages.1.message.tool_calls.0.tool_call.function.name":
+					"delete_forecast",
+			},
+		],
 		["empty_output", [], {}],
 	])(
 		"%s",
@@ -0,0 +1,316 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import type { Attributes } from "@opentelemetry/api";
+import {
+	BasicTracerProvider,
+	InMemorySpanExporter,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import {
+	OpenInferenceSpanKind,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+import { mockAtlaInsightsWithRealOtel as mockAtlaInsights } from "../../setup";
+import { AtlaRootSpanProcessor } from "../../../src/atla_root_span_processor";
+import { getVercelAITelemetry } from "../../../src/frameworks/vercel-ai/index";
+
+describe("Vercel AI SDK", () => {
+	describe("getVercelAITelemetry", () => {
+		afterEach(() => {
+			jest.clearAllMocks();
+		});
+
+		it("should throw error when not configured", () => {
+			mockAtlaInsights.configured = false;
+
+			expect(() => getVercelAITelemetry()).toThrow(
+				"Atla Insights must be configured before instrumenting Vercel AI",
+			);
+
+			mockAtlaInsights.configured = true;
+		});
+
+		it("should enable telemetry with a tracer of the Atla provider", () => {
+			const telemetry = getVercelAITelemetry({
+				functionId: "greeting",
+				metadata: { userId: "user-1" },
+			});
+
+			expect(telemetry).toEqual({
+				isEnabled: true,
+				functionId: "greeting",
+				metadata: { userId: "user-1" },
+				tracer: expect.any(Object),
+			});
+			expect(mockAtlaInsights.getTracerProvider).toHaveBeenCalled();
+		});
+
+		it("should disable telemetry when Atla Insights is disabled", () => {
+			const insights = { ...mockAtlaInsights, disabled: true };
+
+			expect(getVercelAITelemetry({}, insights as never)).toEqual({
+				isEnabled: false,
+			});
+		});
+	});
+
+	describe("attribute translation", () => {
+		let exporter: InMemorySpanExporter;
+		let provider: BasicTracerProvider;
+
+		const recordSpan = (name: string, attributes: Attributes) => {
+			const tracer = provider.getTracer("ai");
+			tracer.startSpan(name, { attributes }).end();
+			return exporter.getFinishedSpans()[0];
+		};
+
+		beforeEach(() => {
+			exporter = new InMemorySpanExporter();
+			provider = new BasicTracerProvider();
+			provider.addSpanProcessor(new AtlaRootSpanProcessor());
+			provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+		});
+
+		afterEach(async () => {
+			await provider.shutdown();
+		});
+
+		it("should translate model calls into LLM spans", () => {
+			const span = recordSpan("ai.generateText.doGenerate", {
+				"ai.operationId": "ai.generateText.doGenerate",
+				"ai.model.id": "gpt-4o-mini",
+				"ai.model.provider": "openai.chat",
+				"ai.settings.temperature": 0.5,
+				"ai.prompt.messages": JSON.stringify([
+					{ role: "system", content: "You are a helpful assistant." },
+					{ role: "user", content: [{ type: "text", text: "Hello!" }] },
+				]),
+				"ai.response.text": "Hi there!",
+				"ai.usage.promptTokens": 10,
+				"ai.usage.completionTokens": 5,
+				"ai.telemetry.metadata.userId": "user-1",
+			});
+
+			expect(span.instrumentationLibrary.name).toBe(
+				"openinference.instrumentation.openai",
+			);
+			expect(span.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.LLM,
+					[SemanticConventions.LLM_MODEL_NAME]: "gpt-4o-mini",
+					[SemanticConventions.LLM_PROVIDER]: "openai",
+					[SemanticConventions.LLM_INVOCATION_PARAMETERS]: JSON.stringify({
+						model: "gpt-4o-mini",
+						temperature: 0.5,
+					}),
+					"llm.input_messages.0.message.role": "system",
+					"llm.input_messages.0.message.content":
+						"You are a helpful assistant.",
+					"llm.input_messages.1.message.role": "user",
+					"llm.input_messages.1.message.contents.0.message_content.text":
+						"Hello!",
+					"llm.output_messages.0.message.role": "assistant",
+					"llm.output_messages.0.message.content": "Hi there!",
+					[SemanticConventions.OUTPUT_VALUE]: "Hi there!",
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 5,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 15,
+					[SemanticConventions.METADATA]: JSON.stringify({ userId: "user-1" }),
+				}),
+			);
+		});
+
+		it("should translate tool calls, tool results and tools", () => {
+			const tool = JSON.stringify({
+				type: "function",
+				name: "get_weather",
+				parameters: { type: "object" },
+			});
+			const span = recordSpan("ai.streamText.doStream", {
+				"ai.operationId": "ai.streamText.doStream",
+				"ai.model.id": "claude-sonnet-4",
+				"ai.model.provider": "anthropic.messages",
+				"ai.prompt.tools": [tool],
+				"ai.prompt.messages": JSON.stringify([
+					{
+						role: "assistant",
+						content: [
+							{
+								type: "tool-call",
+								toolCallId: "call_1",
+								toolName: "get_weather",
+								input: { city: "Paris" },
+							},
+						],
+					},
+					{
+						role: "tool",
+						content: [
+							{
+								type: "tool-result",
+								toolCallId: "call_1",
+								toolName: "get_weather",
+								output: { type: "json", value: "Sunny" },
+							},
+						],
+					},
+				]),
+				"ai.response.toolCalls": JSON.stringify([
+					{
+						toolCallType: "function",
+						toolCallId: "call_2",
+						toolName: "get_weather",
+						args: '{"city":"Rome"}',
+					},
+				]),
+				"ai.usage.inputTokens": 20,
+				"ai.usage.outputTokens": 8,
+				"ai.usage.totalTokens": 28,
+			});
+
+			expect(span.instrumentationLibrary.name).toBe(
+				"openinference.instrumentation.anthropic",
+			);
+			expect(span.attributes).toEqual(
+				expect.objectContaining({
+					"llm.tools.0.tool.json_schema": tool,
+					"llm.input_messages.0.message.role": "assistant",
+					"llm.input_messages.0.message.tool_calls.0.tool_call.id": "call_1",
+					"llm.input_messages.0.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"Paris"}',
+					"llm.input_messages.1.message.role": "tool",
+					"llm.input_messages.1.message.tool_call_id": "call_1",
+					"llm.input_messages.1.message.content":
+						'{"type":"json","value":"Sunny"}',
+					"llm.output_messages.0.message.tool_calls.0.tool_call.id": "call_2",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+						"get_weather",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"Rome"}',
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 28,
+				}),
+			);
+		});
+
+		it("should translate top-level calls into CHAIN spans", () => {
+			const span = recordSpan("ai.generateObject", {
+				"ai.operationId": "ai.generateObject",
+				"ai.model.id": "gpt-4o-mini",
+				"ai.model.provider": "openai.chat",
+				"ai.prompt": JSON.stringify({ prompt: "Invent a user" }),
+				"ai.response.object": JSON.stringify({ name: "Ada" }),
+				"ai.usage.promptTokens": 10,
+			});
+
+			expect(span.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.CHAIN,
+					[SemanticConventions.INPUT_VALUE]: JSON.stringify({
+						prompt: "Invent a user",
+					}),
+					[SemanticConventions.OUTPUT_VALUE]: JSON.stringify({ name: "Ada" }),
+					[SemanticConventions.OUTPUT_MIME_TYPE]: "application/json",
+				}),
+			);
+			// Token counts are only recorded on the model calls
+			expect(
+				span.attributes[SemanticConventions.LLM_TOKEN_COUNT_PROMPT],
+			).toBeUndefined();
+		});
+
+		it("should translate tool executions into TOOL spans", () => {
+			const span = recordSpan("ai.toolCall", {
+				"ai.operationId": "ai.toolCall",
+				"ai.toolCall.name": "get_weather",
+				"ai.toolCall.id": "call_1",
+				"ai.toolCall.args": '{"city":"Paris"}',
+				"ai.toolCall.result": '"Sunny"',
+			});
+
+			expect(span.instrumentationLibrary.name).toBe("ai");
+			expect(span.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.OPENINFERENCE_SPAN_KIND]:
+						OpenInferenceSpanKind.TOOL,
+					[SemanticConventions.TOOL_NAME]: "get_weather",
+					[SemanticConventions.INPUT_VALUE]: '{"city":"Paris"}',
+					[SemanticConventions.OUTPUT_VALUE]: '"Sunny"',
+				}),
+			);
+		});
+
+		it("should translate nested spans of consecutive calls", () => {
+			const tracer = provider.getTracer("ai");
+			const generateText = () =>
+				tracer.startActiveSpan(
+					"ai.generateText",
+					{
+						attributes: {
+							"ai.operationId": "ai.generateText",
+							"ai.model.provider": "openai.chat",
+						},
+					},
+					(span) => {
+						tracer
+							.startSpan("ai.generateText.doGenerate", {
+								attributes: {
+									"ai.operationId": "ai.generateText.doGenerate",
+									"ai.model.provider": "openai.chat",
+								},
+							})
+							.end();
+						span.end();
+					},
+				);
+
+			generateText();
+			generateText();
+
+			const spans = exporter.getFinishedSpans();
+			expect(
+				spans.map((span) => [
+					span.name,
+					span.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND],
+					span.instrumentationLibrary.name,
+				]),
+			).toEqual(
+				Array(2)
+					.fill([
+						[
+							"ai.generateText.doGenerate",
+							OpenInferenceSpanKind.LLM,
+							"openinference.instrumentation.openai",
+						],
+						[
+							"ai.generateText",
+							OpenInferenceSpanKind.CHAIN,
+							"openinference.instrumentation.openai",
+						],
+					])
+					.flat(),
+			);
+			// The scope shared by the spans of the tracer is left as is
+			const nextSpan = tracer.startSpan("ai.embed");
+			expect(nextSpan).toHaveProperty("instrumentationLibrary.name", "ai");
+			nextSpan.end();
+		});
+
+		it("should leave spans without an operation untouched", () => {
+			const tracer = provider.getTracer("other");
+			tracer.startSpan("ai.generateText").end();
+
+			const [span] = exporter.getFinishedSpans();
+			expect(
+				span.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND],
+			).toBeUndefined();
+		});
+	});
+});
@@ -22,17 +22,20 @@ const mockSpan = {
 jest.mock("../src/main", () => ({
 	ATLA_INSIGHTS: {
 		getTracer: () => mockTracer,
+		configured: true,
 	},
 }));
 
 jest.mock("../src/context", () => ({
 	getAtlaContext: jest.fn(),
+	getClientSpanOptions: jest.fn(() => ({})),
 	runWithContext: jest.fn((_context, fn: () => any) => fn()),
 }));
 
 import { getAtlaContext } from "../src/context";
 // Import after mocking
 import { instrument } from "../src/instrumentation";
+import { ATLA_INSIGHTS } from "../src/main";
 
 const mockGetAtlaContext = getAtlaContext as jest.MockedFunction<
 	typeof getAtlaContext
@@ -53,6 +56,7 @@ describe("instrumentation", () => {
 		// Mock tracer to call function with span for sync functions
 		mockTracer.startActiveSpan.mockImplementation(((
 			_name: string,
+			_options: unknown,
 			fn: (span: any) => any,
 		) => {
 			try {
@@ -83,6 +87,7 @@ describe("instrumentation", () => {
 			expect(result).toBe("result");
 			expect(mockTracer.startActiveSpan).toHaveBeenCalledWith(
 				"testFunction",
+				{},
 				expect.any(Function),
 			);
 		});
@@ -96,6 +101,7 @@ describe("instrumentation", () => {
 			expect(result).toBe("result");
 			expect(mockTracer.startActiveSpan).toHaveBeenCalledWith(
 				"CustomName",
+				{},
 				expect.any(Function),
 			);
 		});
@@ -116,6 +122,7 @@ describe("instrumentation", () => {
 			// Mock tracer for async functions - needs to handle async spans
 			mockTracer.startActiveSpan.mockImplementation((async (
 				_name: string,
+				_options: unknown,
 				fn: (span: any) => Promise<any>,
 			) => {
 				try {
@@ -165,5 +172,18 @@ describe("instrumentation", () => {
 			expect(result).toBe("result");
 			expect(mockTracer.startActiveSpan).not.toHaveBeenCalled();
 		});
+
+		it("should run functions untraced before configure", async () => {
+			(ATLA_INSIGHTS as any).configured = false;
+
+			const instrumented = instrument(() => "result");
+			const instrumentedAsync = instrument(async () => "async result");
+
+			expect(instrumented()).toBe("result");
+			await expect(instrumentedAsync()).resolves.toBe("async result");
+			expect(mockTracer.startActiveSpan).not.toHaveBeenCalled();
+
+			(ATLA_INSIGHTS as any).configured = true;
+		});
 	});
 });
@@ -0,0 +1,433 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { type ProxyTracerProvider, trace } from "@opentelemetry/api";
+import {
+	InMemorySpanExporter,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+
+// Test the real SDK singleton rather than the mock from the setup file
+jest.unmock("../src/main");
+
+import { ATLA_INSIGHTS, AtlaInsightsClient } from "../src/main";
+import { instrument } from "../src/instrumentation";
+import { getAtlaContext } from "../src/context";
+import { markFailure, markSuccess } from "../src/marking";
+import { getMetadata, setMetadata, withMetadata } from "../src/metadata";
+import { METADATA_MARK, SUCCESS_MARK } from "../src/internal/constants";
+import { runExperiment } from "../src/experiments";
+import { startAsCurrentSpan } from "../src/span";
+import { instrumentOpenAI } from "../src/providers/openai/index";
+import {
+	instrumentAnthropic,
+	uninstrumentAnthropic,
+} from "../src/providers/anthropic/index";
+
+// The Anthropic SDK is mapped to the mock in the Jest configuration
+const { default: Anthropic } = require("@anthropic-ai/sdk");
+
+describe("AtlaInsights", () => {
+	const configureLocally = (options: Record<string, any> = {}) =>
+		ATLA_INSIGHTS.configure({
+			token: "test-token",
+			endpoint: "http://localhost:4318",
+			spanProcessor: "simple",
+			...options,
+		});
+
+	afterEach(async () => {
+		ATLA_INSIGHTS.unregisterProcessor("test");
+		await ATLA_INSIGHTS.shutdown();
+	});
+
+	describe("configure", () => {
+		it("should throw without a token", () => {
+			expect(() => ATLA_INSIGHTS.configure({ token: "" })).toThrow(
+				"Atla Insights: Token is required",
+			);
+		});
+
+		it("should not require a token when the Atla export is turned off", () => {
+			expect(() =>
+				ATLA_INSIGHTS.configure({ exporters: ["console"] }),
+			).not.toThrow();
+		});
+
+		it("should read the options from the environment", () => {
+			process.env.ATLA_INSIGHTS_TOKEN = "env-token";
+			process.env.ATLA_ENDPOINT = "http://localhost:4318";
+			try {
+				ATLA_INSIGHTS.configure();
+			} finally {
+				delete process.env.ATLA_INSIGHTS_TOKEN;
+				delete process.env.ATLA_ENDPOINT;
+			}
+
+			expect(ATLA_INSIGHTS.getToken()).toBe("env-token");
+			expect(ATLA_INSIGHTS.getExporterOptions()?.baseUrl).toBe(
+				"http://localhost:4318",
+			);
+		});
+
+		it("should throw for an unknown exporter", () => {
+			expect(() => configureLocally({ exporters: ["stdout"] })).toThrow(
+				'Atla Insights: Unknown exporter "stdout"',
+			);
+		});
+
+		it("should resolve the exporter options", () => {
+			configureLocally({ headers: { "x-tenant-id": "acme" } });
+
+			expect(ATLA_INSIGHTS.getExporterOptions()).toEqual({
+				token: "test-token",
+				baseUrl: "http://localhost:4318",
+				region: "eu",
+				headers: { "x-tenant-id": "acme" },
+			});
+		});
+	});
+
+	describe("flush", () => {
+		it("should flush registered processors and the tracer provider", async () => {
+			configureLocally();
+			const processor = {
+				forceFlush: jest.fn(async () => {}),
+				shutdown: jest.fn(async () => {}),
+			};
+			ATLA_INSIGHTS.registerProcessor("test", processor);
+			const providerFlush = jest.spyOn(
+				ATLA_INSIGHTS.getTracerProvider() as any,
+				"forceFlush",
+			);
+
+			await ATLA_INSIGHTS.flush();
+
+			expect(processor.forceFlush).toHaveBeenCalledTimes(1);
+			expect(providerFlush).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("shutdown", () => {
+		it("should shut down registered processors once", async () => {
+			configureLocally();
+			const processor = {
+				forceFlush: jest.fn(async () => {}),
+				shutdown: jest.fn(async () => {}),
+			};
+			ATLA_INSIGHTS.registerProcessor("test", processor);
+
+			await ATLA_INSIGHTS.shutdown();
+			await ATLA_INSIGHTS.shutdown();
+
+			expect(processor.shutdown).toHaveBeenCalledTimes(1);
+		});
+
+		it("should not block for longer than the timeout", async () => {
+			configureLocally();
+			ATLA_INSIGHTS.registerProcessor("test", {
+				forceFlush: async () => {},
+				shutdown: () => new Promise<void>(() => {}),
+			});
+
+			const start = Date.now();
+			await ATLA_INSIGHTS.shutdown(50);
+
+			expect(Date.now() - start).toBeLessThan(1000);
+		});
+	});
+
+	describe("disabled mode", () => {
+		afterEach(() => {
+			delete process.env.ATLA_DISABLED;
+		});
+
+		it("should instrument functions before the SDK is configured", () => {
+			const wrapped = instrument("lazy")(() => "result");
+
+			ATLA_INSIGHTS.configure({ enabled: false });
+
+			expect(wrapped()).toBe("result");
+		});
+
+		it("should turn every public API into a no-op", async () => {
+			ATLA_INSIGHTS.configure({ enabled: false });
+
+			expect(ATLA_INSIGHTS.disabled).toBe(true);
+			expect(() => markSuccess()).not.toThrow();
+			expect(() => markFailure()).not.toThrow();
+			expect(() => setMetadata({ key: "value" })).not.toThrow();
+			expect(() => instrumentOpenAI()).not.toThrow();
+			expect(withMetadata({ key: "value" }, () => "result")).toBe("result");
+			expect(runExperiment({}, () => "result")).toBe("result");
+			await expect(
+				startAsCurrentSpan("span", (span) => {
+					span.recordGeneration({ inputMessages: [], outputMessages: [] });
+					return "result";
+				}),
+			).resolves.toBe("result");
+			await expect(
+				ATLA_INSIGHTS.uploadTraceFile("missing.jsonl"),
+			).resolves.toBe(0);
+		});
+
+		it("should be disabled through the environment", () => {
+			process.env.ATLA_DISABLED = "1";
+
+			expect(() => ATLA_INSIGHTS.configure()).not.toThrow();
+			expect(ATLA_INSIGHTS.disabled).toBe(true);
+		});
+
+		it("should be re-enabled by a later configuration", () => {
+			ATLA_INSIGHTS.configure({ enabled: false });
+			configureLocally();
+
+			expect(ATLA_INSIGHTS.disabled).toBe(false);
+		});
+	});
+
+	describe("reconfiguration", () => {
+		it("should replace the global tracer provider", () => {
+			// Release the global tracer provider registered by the test setup
+			trace.disable();
+			configureLocally();
+			const previous = ATLA_INSIGHTS.getTracerProvider() as any;
+			const previousShutdown = jest.spyOn(previous, "shutdown");
+
+			configureLocally({ serviceName: "replacement" });
+
+			expect(ATLA_INSIGHTS.getTracerProvider()).not.toBe(previous);
+			expect(getGlobalProvider()).toBe(ATLA_INSIGHTS.getTracerProvider());
+			expect(previousShutdown).toHaveBeenCalledTimes(1);
+		});
+
+		it("should record the spans of active instrumentations with the new tracer provider", async () => {
+			configureLocally();
+			instrumentAnthropic(Anthropic);
+			const anthropic = new Anthropic({ apiKey: "test-api-key" });
+
+			configureLocally({ serviceName: "replacement" });
+			const exporter = new InMemorySpanExporter();
+			ATLA_INSIGHTS.getTracerProvider()?.addSpanProcessor(
+				new SimpleSpanProcessor(exporter),
+			);
+			await anthropic.messages.create({ model: "claude", messages: [] });
+
+			expect(exporter.getFinishedSpans().map((span) => span.name)).toEqual([
+				"Anthropic Messages",
+			]);
+			uninstrumentAnthropic();
+		});
+	});
+
+	describe("AtlaInsightsClient", () => {
+		const withInMemoryExporter = (insights: AtlaInsightsClient) => {
+			const exporter = new InMemorySpanExporter();
+			insights
+				.getTracerProvider()
+				?.addSpanProcessor(new SimpleSpanProcessor(exporter));
+			return exporter;
+		};
+
+		it("should record spans with its own tracer provider", async () => {
+			configureLocally();
+			const globalExporter = withInMemoryExporter(ATLA_INSIGHTS);
+			const client = new AtlaInsightsClient({
+				token: "tenant-token",
+				endpoint: "http://localhost:4318",
+				spanProcessor: "simple",
+			});
+			const clientExporter = withInMemoryExporter(client);
+
+			client.instrument("client span")(() => "result")();
+			await client.startAsCurrentSpan("manual span", async () => {});
+
+			expect(
+				clientExporter.getFinishedSpans().map((span) => span.name),
+			).toEqual(["client span", "manual span"]);
+			expect(globalExporter.getFinishedSpans()).toHaveLength(0);
+			expect(getGlobalProvider()).not.toBe(client.getTracerProvider());
+			expect(client.getExporterOptions()?.token).toBe("tenant-token");
+			expect(ATLA_INSIGHTS.getExporterOptions()?.token).toBe("test-token");
+
+			await client.shutdown();
+		});
+
+		it("should record instrumented calls with the client they are made for", async () => {
+			configureLocally();
+			const clientOptions = {
+				token: "tenant-token",
+				endpoint: "http://localhost:4318",
+				spanProcessor: "simple" as const,
+			};
+			const clientA = new AtlaInsightsClient(clientOptions);
+			const clientB = new AtlaInsightsClient(clientOptions);
+			const exporterA = withInMemoryExporter(clientA);
+			const exporterB = withInMemoryExporter(clientB);
+			clientA.instrumentAnthropic(Anthropic);
+			clientB.instrumentAnthropic(Anthropic);
+			const anthropic = new Anthropic({ apiKey: "test-api-key" });
+			const callAnthropic = () =>
+				anthropic.messages.create({ model: "claude", messages: [] });
+
+			await clientA.instrument("agent A")(callAnthropic)();
+			await clientB.instrument("agent B")(callAnthropic)();
+			// Clients only record calls made within their own functions
+			await callAnthropic();
+
+			expect(
+				exporterA
+					.getFinishedSpans()
+					.map((span) => span.name)
+					.sort(),
+			).toEqual(["Anthropic Messages", "agent A"]);
+			expect(
+				exporterB
+					.getFinishedSpans()
+					.map((span) => span.name)
+					.sort(),
+			).toEqual(["Anthropic Messages", "agent B"]);
+
+			// The other client keeps its instrumentation
+			clientB.uninstrumentAnthropic();
+			exporterA.reset();
+			await clientA.instrument("agent A")(callAnthropic)();
+			await clientB.instrument("agent B")(callAnthropic)();
+
+			expect(
+				exporterA
+					.getFinishedSpans()
+					.map((span) => span.name)
+					.sort(),
+			).toEqual(["Anthropic Messages", "agent A"]);
+			expect(
+				exporterB
+					.getFinishedSpans()
+					.map((span) => span.name)
+					.sort(),
+			).toEqual(["Anthropic Messages", "agent B", "agent B"]);
+
+			clientA.uninstrumentAnthropic();
+			await Promise.all([clientA.shutdown(), clientB.shutdown()]);
+		});
+
+		it("should start a new trace within the functions of another client", async () => {
+			configureLocally();
+			const clientOptions = {
+				token: "tenant-token",
+				endpoint: "http://localhost:4318",
+				spanProcessor: "simple" as const,
+			};
+			const clientA = new AtlaInsightsClient(clientOptions);
+			const clientB = new AtlaInsightsClient(clientOptions);
+			const exporterA = withInMemoryExporter(clientA);
+			const exporterB = withInMemoryExporter(clientB);
+
+			clientA.instrument("agent A")(() =>
+				clientB.instrument("agent B")(() => markSuccess())(),
+			)();
+			await clientA.instrument("agent A")(() =>
+				startAsCurrentSpan("manual span", async () => {}, clientB),
+			)();
+
+			const [outerSpan] = exporterA.getFinishedSpans();
+			expect(outerSpan.attributes[SUCCESS_MARK]).toBe(-1);
+			expect(exporterB.getFinishedSpans().map((span) => span.name)).toEqual([
+				"agent B",
+				"manual span",
+			]);
+			for (const innerSpan of exporterB.getFinishedSpans()) {
+				expect(innerSpan.parentSpanId).toBeUndefined();
+				expect(innerSpan.links).toHaveLength(1);
+			}
+			const [innerSpan] = exporterB.getFinishedSpans();
+			expect(innerSpan.attributes[SUCCESS_MARK]).toBe(1);
+			expect(innerSpan.links[0].context.spanId).toBe(
+				outerSpan.spanContext().spanId,
+			);
+
+			await Promise.all([clientA.shutdown(), clientB.shutdown()]);
+		});
+
+		it("should not mark or tag the traces of a disabled client", () => {
+			configureLocally();
+			const client = new AtlaInsightsClient({ enabled: false });
+
+			const wrapped = client.instrument("client span")(() => {
+				markSuccess();
+				return runExperiment({}, () => getAtlaContext()?.experiment);
+			});
+
+			expect(wrapped()).toBeUndefined();
+			expect(
+				client.runExperiment({}, () => getAtlaContext()?.experiment),
+			).toBeUndefined();
+		});
+
+		it("should record manual spans with the client of the instrumented function", async () => {
+			configureLocally();
+			const globalExporter = withInMemoryExporter(ATLA_INSIGHTS);
+			const client = new AtlaInsightsClient({
+				token: "tenant-token",
+				endpoint: "http://localhost:4318",
+				spanProcessor: "simple",
+			});
+			const clientExporter = withInMemoryExporter(client);
+
+			await client.instrument("client span")(() =>
+				startAsCurrentSpan("manual span", async () => {}),
+			)();
+
+			expect(
+				clientExporter
+					.getFinishedSpans()
+					.map((span) => span.name)
+					.sort(),
+			).toEqual(["client span", "manual span"]);
+			expect(globalExporter.getFinishedSpans()).toHaveLength(0);
+
+			await client.shutdown();
+		});
+
+		it("should run manual spans untraced before being configured", async () => {
+			const client = new AtlaInsightsClient();
+
+			await expect(
+				client.startAsCurrentSpan("manual span", async (span) => {
+					span.setAttribute("key", "value");
+					return "result";
+				}),
+			).resolves.toBe("result");
+		});
+
+		it("should not add metadata within the functions of a disabled client", () => {
+			configureLocally();
+			const globalExporter = withInMemoryExporter(ATLA_INSIGHTS);
+			const client = new AtlaInsightsClient({ enabled: false });
+
+			const metadata = instrument("global span")(() =>
+				client.instrument("client span")(() => {
+					setMetadata({ key: "value" });
+					return withMetadata({ key: "value" }, () => getMetadata());
+				})(),
+			)();
+
+			expect(metadata).not.toEqual({ key: "value" });
+			const spans = globalExporter.getFinishedSpans();
+			expect(spans.map((span) => span.name)).toEqual(["global span"]);
+			expect(spans[0]?.attributes[METADATA_MARK]).toBeUndefined();
+		});
+
+		it("should not be configured without options", () => {
+			const client = new AtlaInsightsClient();
+
+			expect(client.configured).toBe(false);
+			expect(() => client.getTracer()).toThrow(
+				"Atla Insights must be configured before use.",
+			);
+		});
+	});
+});
+
+function getGlobalProvider() {
+	return (trace.getTracerProvider() as ProxyTracerProvider).getDelegate();
+}
@@ -0,0 +1,396 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import {
+	BaseAtlaTest,
+	realInMemorySpanExporter,
+	mockAtlaInsightsWithRealOtel as mockAtlaInsights,
+} from "../setup";
+import {
+	OpenInferenceSpanKind,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+
+describe("Anthropic Provider", () => {
+	let baseTest: BaseAtlaTest;
+	let anthropicClient: any;
+
+	// Import after mocking
+	let instrumentAnthropic: any;
+	let uninstrumentAnthropic: any;
+	let withInstrumentedAnthropic: any;
+	let instrument: any;
+
+	// The Anthropic SDK is mapped to the mock in the Jest configuration
+	const {
+		default: Anthropic,
+		setAnthropicMockResponse,
+		resetAnthropicMock,
+	} = require("@anthropic-ai/sdk");
+
+	const getLLMSpan = () =>
+		realInMemorySpanExporter
+			.getFinishedSpans()
+			.find(
+				(s) =>
+					s.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND] ===
+					OpenInferenceSpanKind.LLM,
+			);
+
+	beforeAll(async () => {
+		const anthropicModule = await import("../../src/providers/anthropic/index");
+		instrumentAnthropic = anthropicModule.instrumentAnthropic;
+		uninstrumentAnthropic = anthropicModule.uninstrumentAnthropic;
+		withInstrumentedAnthropic = anthropicModule.withInstrumentedAnthropic;
+
+		const instrumentationModule = await import("../../src/instrumentation");
+		instrument = instrumentationModule.instrument;
+	});
+
+	beforeEach(() => {
+		baseTest = new BaseAtlaTest();
+		baseTest.beforeEach();
+
+		anthropicClient = new Anthropic({ apiKey: "test-api-key" });
+
+		jest.clearAllMocks();
+		realInMemorySpanExporter.reset();
+	});
+
+	afterEach(() => {
+		baseTest.afterEach();
+		resetAnthropicMock();
+		uninstrumentAnthropic();
+		realInMemorySpanExporter.reset();
+	});
+
+	describe("instrumentAnthropic", () => {
+		it("should throw error when not configured", () => {
+			mockAtlaInsights.configured = false;
+
+			expect(() => instrumentAnthropic()).toThrow(
+				"Atla Insights must be configured before instrumenting Anthropic",
+			);
+
+			mockAtlaInsights.configured = true;
+		});
+
+		it("should register Anthropic instrumentation", () => {
+			instrumentAnthropic();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalledWith(
+				"anthropic",
+				expect.arrayContaining([expect.any(Object)]),
+			);
+		});
+	});
+
+	describe("uninstrumentAnthropic", () => {
+		it("should unregister Anthropic instrumentation", () => {
+			instrumentAnthropic();
+			uninstrumentAnthropic();
+
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalledWith(
+				"anthropic",
+			);
+		});
+	});
+
+	describe("withInstrumentedAnthropic", () => {
+		it("should create disposable instrumentation", () => {
+			const disposable = withInstrumentedAnthropic();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalled();
+			expect(typeof disposable[Symbol.dispose]).toBe("function");
+
+			disposable[Symbol.dispose]();
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalled();
+		});
+	});
+
+	describe("integration tests", () => {
+		it("should trace a basic message", async () => {
+			instrumentAnthropic(Anthropic);
+
+			await anthropicClient.messages.create({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 1024,
+				system: "You are a helpful assistant.",
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+
+			const llmSpan = getLLMSpan();
+			expect(llmSpan).toBeDefined();
+			expect(llmSpan?.name).toBe("Anthropic Messages");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.role": "system",
+					"llm.input_messages.0.message.content":
+						"You are a helpful assistant.",
+					"llm.input_messages.1.message.role": "user",
+					"llm.input_messages.1.message.content": "Hello!",
+					"llm.output_messages.0.message.role": "assistant",
+					"llm.output_messages.0.message.content": "This is a test.",
+					[SemanticConventions.LLM_MODEL_NAME]: "claude-sonnet-4-20250514",
+					[SemanticConventions.LLM_INVOCATION_PARAMETERS]: JSON.stringify({
+						model: "claude-sonnet-4-20250514",
+						max_tokens: 1024,
+					}),
+					"llm.provider": "anthropic",
+					"llm.system": "anthropic",
+				}),
+			);
+		});
+
+		it("should keep the API promise helpers", async () => {
+			instrumentAnthropic(Anthropic);
+
+			const { data } = await anthropicClient.messages
+				.create({
+					model: "claude-sonnet-4-20250514",
+					max_tokens: 1024,
+					messages: [{ role: "user", content: "Hello!" }],
+				})
+				.withResponse();
+
+			expect(data.id).toBe("msg_test");
+		});
+
+		it("should record tool calls, tool results and tools", async () => {
+			setAnthropicMockResponse((args: any) => ({
+				id: "msg_tool",
+				type: "message",
+				role: "assistant",
+				model: args.model,
+				content: [
+					{ type: "text", text: "Let me check." },
+					{
+						type: "tool_use",
+						id: "toolu_2",
+						name: "get_weather",
+						input: { city: "London" },
+					},
+				],
+				stop_reason: "tool_use",
+				usage: { input_tokens: 20, output_tokens: 10 },
+			}));
+			instrumentAnthropic(Anthropic);
+			const tool = {
+				name: "get_weather",
+				description: "Get the weather",
+				input_schema: { type: "object" },
+			};
+
+			await anthropicClient.messages.create({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 1024,
+				tools: [tool],
+				messages: [
+					{ role: "user", content: "Weather in Paris?" },
+					{
+						role: "assistant",
+						content: [
+							{
+								type: "tool_use",
+								id: "toolu_1",
+								name: "get_weather",
+								input: { city: "Paris" },
+							},
+						],
+					},
+					{
+						role: "user",
+						content: [
+							{
+								type: "tool_result",
+								tool_use_id: "toolu_1",
+								content: "Sunny",
+							},
+							{ type: "text", text: "And in London?" },
+						],
+					},
+				],
+			});
+
+			expect(getLLMSpan()?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.1.message.role": "assistant",
+					"llm.input_messages.1.message.tool_calls.0.tool_call.id": "toolu_1",
+					"llm.input_messages.1.message.tool_calls.0.tool_call.function.name":
+						"get_weather",
+					"llm.input_messages.1.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"Paris"}',
+					"llm.input_messages.2.message.role": "tool",
+					"llm.input_messages.2.message.tool_call_id": "toolu_1",
+					"llm.input_messages.2.message.content": "Sunny",
+					"llm.input_messages.3.message.role": "user",
+					"llm.input_messages.3.message.contents.0.message_content.text":
+						"And in London?",
+					"llm.tools.0.tool.json_schema": JSON.stringify(tool),
+					"llm.output_messages.0.message.content": "Let me check.",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.id": "toolu_2",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"London"}',
+				}),
+			);
+		});
+
+		it("should record token usage including cache tokens", async () => {
+			setAnthropicMockResponse((args: any) => ({
+				id: "msg_cache",
+				type: "message",
+				role: "assistant",
+				model: args.model,
+				content: [{ type: "text", text: "Cached." }],
+				usage: {
+					input_tokens: 10,
+					output_tokens: 5,
+					cache_read_input_tokens: 100,
+					cache_creation_input_tokens: 20,
+				},
+			}));
+			instrumentAnthropic(Anthropic);
+
+			await anthropicClient.messages.create({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 1024,
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+
+			expect(getLLMSpan()?.attributes).toEqual(
+				expect.objectContaining({
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 130,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 5,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 135,
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ]: 100,
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_WRITE]: 20,
+				}),
+			);
+		});
+
+		it("should trace streamed messages", async () => {
+			instrumentAnthropic(Anthropic);
+
+			const stream = await anthropicClient.messages.create({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 1024,
+				messages: [{ role: "user", content: "Hello!" }],
+				stream: true,
+			});
+			const events: any[] = [];
+			for await (const event of stream) {
+				events.push(event);
+			}
+
+			expect(events).toHaveLength(7);
+			expect(getLLMSpan()?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.output_messages.0.message.content": "Hello there",
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 2,
+				}),
+			);
+		});
+
+		it("should end the span when the stream is not fully consumed", async () => {
+			instrumentAnthropic(Anthropic);
+
+			const stream = await anthropicClient.messages.create({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 1024,
+				messages: [{ role: "user", content: "Hello!" }],
+				stream: true,
+			});
+			for await (const event of stream) {
+				if (event.type === "content_block_delta") {
+					break;
+				}
+			}
+
+			expect(getLLMSpan()?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.output_messages.0.message.content": "Hello",
+				}),
+			);
+		});
+
+		it("should trace messages.stream", async () => {
+			instrumentAnthropic(Anthropic);
+
+			const stream = anthropicClient.messages.stream({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 1024,
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+			await stream.finalMessage();
+
+			const llmSpans = realInMemorySpanExporter.getFinishedSpans();
+			expect(llmSpans).toHaveLength(1);
+			expect(llmSpans[0].attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.content": "Hello!",
+					"llm.output_messages.0.message.content": "Hello there",
+				}),
+			);
+		});
+
+		it("should record failing requests", async () => {
+			setAnthropicMockResponse(() => {
+				throw new Error("Overloaded");
+			});
+			instrumentAnthropic(Anthropic);
+
+			await expect(
+				anthropicClient.messages.create({
+					model: "claude-sonnet-4-20250514",
+					max_tokens: 1024,
+					messages: [{ role: "user", content: "Hello!" }],
+				}),
+			).rejects.toThrow("Overloaded");
+
+			const llmSpan = getLLMSpan();
+			expect(llmSpan?.status).toEqual({ code: 2, message: "Overloaded" });
+		});
+
+		it("should trace nested instrumentation", async () => {
+			instrumentAnthropic(Anthropic);
+
+			await instrument("root_span")(async () =>
+				anthropicClient.messages.create({
+					model: "claude-sonnet-4-20250514",
+					max_tokens: 1024,
+					messages: [{ role: "user", content: "Hello!" }],
+				}),
+			)();
+
+			const spans = realInMemorySpanExporter.getFinishedSpans();
+			const rootSpan = spans.find((s) => s.name === "root_span");
+			expect(getLLMSpan()?.parentSpanId).toBe(rootSpan?.spanContext().spanId);
+		});
+
+		it("should stop tracing once disabled", async () => {
+			const { AnthropicInstrumentation } = await import(
+				"../../src/providers/anthropic/instrumentation"
+			);
+			const instrumentation = new AnthropicInstrumentation({
+				tracerProvider: mockAtlaInsights.getTracerProvider(),
+			});
+			instrumentation.manuallyInstrument(Anthropic);
+			instrumentation.disable();
+
+			await anthropicClient.messages.create({
+				model: "claude-sonnet-4-20250514",
+				max_tokens: 1024,
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+
+			expect(realInMemorySpanExporter.getFinishedSpans()).toHaveLength(0);
+		});
+	});
+});
@@ -0,0 +1,498 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import {
+	BaseAtlaTest,
+	realInMemorySpanExporter,
+	mockAtlaInsightsWithRealOtel as mockAtlaInsights,
+} from "../setup";
+import {
+	OpenInferenceSpanKind,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+
+describe("Bedrock Provider", () => {
+	let baseTest: BaseAtlaTest;
+
+	// Import after mocking
+	let instrumentBedrock: any;
+	let uninstrumentBedrock: any;
+	let withInstrumentedBedrock: any;
+	let BedrockInstrumentation: any;
+
+	// The Bedrock Runtime client is mapped to the mock in the Jest configuration
+	const bedrock = require("@aws-sdk/client-bedrock-runtime");
+	const originalSend = bedrock.BedrockRuntimeClient.prototype.send;
+
+	const getLLMSpans = () =>
+		realInMemorySpanExporter
+			.getFinishedSpans()
+			.filter(
+				(s) =>
+					s.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND] ===
+					OpenInferenceSpanKind.LLM,
+			);
+
+	const invokeModel = (client: any, modelId: string, body: any) =>
+		client.send(
+			new bedrock.InvokeModelCommand({
+				modelId,
+				contentType: "application/json",
+				body: JSON.stringify(body),
+			}),
+		);
+
+	const consume = async (stream: AsyncIterable<any>) => {
+		const events: any[] = [];
+		for await (const event of stream) {
+			events.push(event);
+		}
+		return events;
+	};
+
+	beforeAll(async () => {
+		const bedrockModule = await import("../../src/providers/bedrock/index");
+		instrumentBedrock = bedrockModule.instrumentBedrock;
+		uninstrumentBedrock = bedrockModule.uninstrumentBedrock;
+		withInstrumentedBedrock = bedrockModule.withInstrumentedBedrock;
+
+		const instrumentationModule = await import(
+			"../../src/providers/bedrock/instrumentation"
+		);
+		BedrockInstrumentation = instrumentationModule.BedrockInstrumentation;
+	});
+
+	beforeEach(() => {
+		baseTest = new BaseAtlaTest();
+		baseTest.beforeEach();
+
+		jest.clearAllMocks();
+		realInMemorySpanExporter.reset();
+	});
+
+	afterEach(() => {
+		baseTest.afterEach();
+		bedrock.resetBedrockMock();
+		uninstrumentBedrock();
+		bedrock.BedrockRuntimeClient.prototype.send = originalSend;
+		realInMemorySpanExporter.reset();
+	});
+
+	describe("instrumentBedrock", () => {
+		it("should throw error when not configured", () => {
+			mockAtlaInsights.configured = false;
+
+			expect(() => instrumentBedrock()).toThrow(
+				"Atla Insights must be configured before instrumenting Bedrock",
+			);
+
+			mockAtlaInsights.configured = true;
+		});
+
+		it("should register Bedrock instrumentation", () => {
+			instrumentBedrock();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalledWith(
+				"bedrock",
+				expect.arrayContaining([expect.any(Object)]),
+			);
+		});
+	});
+
+	describe("withInstrumentedBedrock", () => {
+		it("should create disposable instrumentation", () => {
+			const disposable = withInstrumentedBedrock();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalled();
+			disposable[Symbol.dispose]();
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalledWith(
+				"bedrock",
+			);
+		});
+	});
+
+	describe("InvokeModel", () => {
+		it("should decode Anthropic bodies", async () => {
+			instrumentBedrock(bedrock);
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+
+			const response = await invokeModel(
+				client,
+				"us.anthropic.claude-3-haiku-20240307-v1:0",
+				{
+					anthropic_version: "bedrock-2023-05-31",
+					max_tokens: 100,
+					system: "You are a helpful assistant.",
+					messages: [{ role: "user", content: "Hello!" }],
+				},
+			);
+
+			expect(JSON.parse(new TextDecoder().decode(response.body))).toEqual(
+				expect.objectContaining({ id: "msg_test" }),
+			);
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.name).toBe("Bedrock InvokeModel");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.role": "system",
+					"llm.input_messages.0.message.content":
+						"You are a helpful assistant.",
+					"llm.input_messages.1.message.role": "user",
+					"llm.input_messages.1.message.content": "Hello!",
+					"llm.output_messages.0.message.role": "assistant",
+					"llm.output_messages.0.message.content": "This is a test.",
+					[SemanticConventions.LLM_MODEL_NAME]:
+						"us.anthropic.claude-3-haiku-20240307-v1:0",
+					[SemanticConventions.LLM_INVOCATION_PARAMETERS]: JSON.stringify({
+						model: "us.anthropic.claude-3-haiku-20240307-v1:0",
+						anthropic_version: "bedrock-2023-05-31",
+						max_tokens: 100,
+					}),
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 5,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 15,
+					"llm.provider": "aws",
+					"llm.system": "anthropic",
+				}),
+			);
+		});
+
+		it.each([
+			[
+				"meta.llama3-8b-instruct-v1:0",
+				{ prompt: "Hello!", max_gen_len: 100 },
+				{
+					generation: "Hi!",
+					prompt_token_count: 10,
+					generation_token_count: 5,
+					stop_reason: "stop",
+				},
+			],
+			[
+				"amazon.titan-text-express-v1",
+				{ inputText: "Hello!", textGenerationConfig: { maxTokenCount: 100 } },
+				{
+					inputTextTokenCount: 10,
+					results: [
+						{ tokenCount: 5, outputText: "Hi!", completionReason: "FINISH" },
+					],
+				},
+			],
+			[
+				"amazon.nova-lite-v1:0",
+				{ messages: [{ role: "user", content: [{ text: "Hello!" }] }] },
+				{
+					output: {
+						message: { role: "assistant", content: [{ text: "Hi!" }] },
+					},
+					usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+				},
+			],
+			[
+				"mistral.mistral-large-2407-v1:0",
+				{ messages: [{ role: "user", content: "Hello!" }] },
+				{
+					choices: [{ message: { role: "assistant", content: "Hi!" } }],
+					usage: { prompt_tokens: 10, completion_tokens: 5 },
+				},
+			],
+			[
+				"cohere.command-r-v1:0",
+				{ message: "Hello!" },
+				{
+					text: "Hi!",
+					meta: { billed_units: { input_tokens: 10, output_tokens: 5 } },
+				},
+			],
+		])("should decode %s bodies", async (modelId, request, body) => {
+			bedrock.setBedrockMockResponse(() => ({
+				body: bedrock.encodeBody(body),
+			}));
+			instrumentBedrock(bedrock);
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+
+			await invokeModel(client, modelId, request);
+
+			expect(getLLMSpans()[0].attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.role": "user",
+					"llm.output_messages.0.message.role": "assistant",
+					"llm.output_messages.0.message.content": "Hi!",
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 5,
+				}),
+			);
+		});
+
+		it("should trace streamed Anthropic responses", async () => {
+			instrumentBedrock(bedrock);
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+
+			const response = await client.send(
+				new bedrock.InvokeModelWithResponseStreamCommand({
+					modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+					body: JSON.stringify({
+						max_tokens: 100,
+						messages: [{ role: "user", content: "Hello!" }],
+					}),
+				}),
+			);
+			const events = await consume(response.body);
+
+			expect(events).toHaveLength(7);
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.name).toBe("Bedrock InvokeModelWithResponseStream");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.output_messages.0.message.content": "Hello there",
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 2,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 12,
+				}),
+			);
+		});
+
+		it("should fall back to the invocation metrics of streamed responses", async () => {
+			bedrock.setBedrockMockResponse(() => ({
+				body: bedrock.toEventStream([
+					{ outputs: [{ text: "Hello" }] },
+					{
+						outputs: [{ text: " there", stop_reason: "stop" }],
+						"amazon-bedrock-invocationMetrics": {
+							inputTokenCount: 10,
+							outputTokenCount: 2,
+						},
+					},
+				]),
+			}));
+			instrumentBedrock(bedrock);
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+
+			const response = await client.send(
+				new bedrock.InvokeModelWithResponseStreamCommand({
+					modelId: "mistral.mistral-7b-instruct-v0:2",
+					body: JSON.stringify({ prompt: "<s>[INST] Hello! [/INST]" }),
+				}),
+			);
+			await consume(response.body);
+
+			expect(getLLMSpans()[0].attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.content": "<s>[INST] Hello! [/INST]",
+					"llm.output_messages.0.message.content": "Hello there",
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 2,
+					"llm.system": "mistralai",
+				}),
+			);
+		});
+	});
+
+	describe("Converse", () => {
+		it("should record messages, tool calls, tool results and tools", async () => {
+			bedrock.setBedrockMockResponse(() => ({
+				output: {
+					message: {
+						role: "assistant",
+						content: [
+							{
+								toolUse: {
+									toolUseId: "call_2",
+									name: "get_weather",
+									input: { city: "Rome" },
+								},
+							},
+						],
+					},
+				},
+				stopReason: "tool_use",
+				usage: {
+					inputTokens: 20,
+					outputTokens: 8,
+					totalTokens: 28,
+					cacheReadInputTokens: 4,
+				},
+			}));
+			instrumentBedrock(bedrock);
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+			const toolSpec = {
+				name: "get_weather",
+				inputSchema: { json: { type: "object" } },
+			};
+
+			await client.send(
+				new bedrock.ConverseCommand({
+					modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+					system: [{ text: "You are a helpful assistant." }],
+					messages: [
+						{ role: "user", content: [{ text: "Weather in Paris?" }] },
+						{
+							role: "assistant",
+							content: [
+								{
+									toolUse: {
+										toolUseId: "call_1",
+										name: "get_weather",
+										input: { city: "Paris" },
+									},
+								},
+							],
+						},
+						{
+							role: "user",
+							content: [
+								{
+									toolResult: {
+										toolUseId: "call_1",
+										content: [{ json: { weather: "Sunny" } }],
+									},
+								},
+							],
+						},
+					],
+					inferenceConfig: { maxTokens: 100, temperature: 0.5 },
+					toolConfig: { tools: [{ toolSpec }] },
+				}),
+			);
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.name).toBe("Bedrock Converse");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.role": "system",
+					"llm.input_messages.1.message.contents.0.message_content.text":
+						"Weather in Paris?",
+					"llm.input_messages.2.message.tool_calls.0.tool_call.id": "call_1",
+					"llm.input_messages.2.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"Paris"}',
+					"llm.input_messages.3.message.role": "tool",
+					"llm.input_messages.3.message.tool_call_id": "call_1",
+					"llm.input_messages.3.message.content": '{"weather":"Sunny"}',
+					"llm.tools.0.tool.json_schema": JSON.stringify(toolSpec),
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+						"get_weather",
+					[SemanticConventions.LLM_INVOCATION_PARAMETERS]: JSON.stringify({
+						model: "anthropic.claude-3-haiku-20240307-v1:0",
+						maxTokens: 100,
+						temperature: 0.5,
+					}),
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 24,
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ]: 4,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 32,
+				}),
+			);
+		});
+
+		it("should trace streamed responses", async () => {
+			instrumentBedrock(bedrock);
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+
+			const response = await client.send(
+				new bedrock.ConverseStreamCommand({
+					modelId: "meta.llama3-8b-instruct-v1:0",
+					messages: [{ role: "user", content: [{ text: "Hello!" }] }],
+				}),
+			);
+			await consume(response.stream);
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.name).toBe("Bedrock ConverseStream");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.output_messages.0.message.role": "assistant",
+					"llm.output_messages.0.message.content": "Hello there",
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 12,
+				}),
+			);
+		});
+	});
+
+	describe("client instrumentation", () => {
+		it("should only trace the model invocation commands", async () => {
+			instrumentBedrock(bedrock);
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+
+			await client.send(new bedrock.ListAsyncInvokesCommand({}));
+
+			expect(bedrock.getMockCalls().send).toHaveBeenCalledTimes(1);
+			expect(getLLMSpans()).toHaveLength(0);
+		});
+
+		it("should recognise commands renamed by a bundler", async () => {
+			const { name } = bedrock.ConverseCommand;
+			Object.defineProperty(bedrock.ConverseCommand, "name", { value: "a" });
+			instrumentBedrock(bedrock);
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+
+			try {
+				await client.send(
+					new bedrock.ConverseCommand({
+						modelId: "amazon.nova-lite-v1:0",
+						messages: [{ role: "user", content: [{ text: "Hello!" }] }],
+					}),
+				);
+			} finally {
+				Object.defineProperty(bedrock.ConverseCommand, "name", { value: name });
+			}
+
+			expect(getLLMSpans()).toHaveLength(1);
+		});
+
+		it("should trace an existing client", async () => {
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+			instrumentBedrock(client);
+
+			await client.send(
+				new bedrock.ConverseCommand({
+					modelId: "amazon.nova-lite-v1:0",
+					messages: [{ role: "user", content: [{ text: "Hello!" }] }],
+				}),
+			);
+
+			expect(getLLMSpans()).toHaveLength(1);
+		});
+
+		it("should record failing requests", async () => {
+			bedrock.setBedrockMockResponse(() => {
+				throw new Error("ThrottlingException");
+			});
+			instrumentBedrock(bedrock);
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+
+			await expect(
+				client.send(
+					new bedrock.ConverseCommand({
+						modelId: "amazon.nova-lite-v1:0",
+						messages: [],
+					}),
+				),
+			).rejects.toThrow("ThrottlingException");
+
+			expect(getLLMSpans()[0].status).toEqual({
+				code: 2,
+				message: "ThrottlingException",
+			});
+		});
+
+		it("should stop tracing once disabled", async () => {
+			const instrumentation = new BedrockInstrumentation({
+				tracerProvider: mockAtlaInsights.getTracerProvider(),
+			});
+			instrumentation.manuallyInstrument(bedrock);
+			instrumentation.disable();
+			const client = new bedrock.BedrockRuntimeClient({ region: "us-east-1" });
+
+			await invokeModel(client, "meta.llama3-8b-instruct-v1:0", {
+				prompt: "Hello!",
+			});
+
+			expect(bedrock.BedrockRuntimeClient.prototype.send).toBe(originalSend);
+			expect(getLLMSpans()).toHaveLength(0);
+		});
+	});
+});
@@ -0,0 +1,400 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import {
+	BaseAtlaTest,
+	realInMemorySpanExporter,
+	mockAtlaInsightsWithRealOtel as mockAtlaInsights,
+} from "../setup";
+import {
+	OpenInferenceSpanKind,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+
+describe("Cohere Provider", () => {
+	let baseTest: BaseAtlaTest;
+
+	// Import after mocking
+	let instrumentCohere: any;
+	let uninstrumentCohere: any;
+	let withInstrumentedCohere: any;
+	let CohereInstrumentation: any;
+
+	// The Cohere SDK is mapped to the mock in the Jest configuration
+	const cohere = require("cohere-ai");
+	const { CohereClient: OriginalCohereClient, CohereClientV2: OriginalV2 } =
+		cohere;
+
+	const getLLMSpans = () =>
+		realInMemorySpanExporter
+			.getFinishedSpans()
+			.filter(
+				(s) =>
+					s.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND] ===
+					OpenInferenceSpanKind.LLM,
+			);
+
+	beforeAll(async () => {
+		const cohereModule = await import("../../src/providers/cohere/index");
+		instrumentCohere = cohereModule.instrumentCohere;
+		uninstrumentCohere = cohereModule.uninstrumentCohere;
+		withInstrumentedCohere = cohereModule.withInstrumentedCohere;
+
+		const instrumentationModule = await import(
+			"../../src/providers/cohere/instrumentation"
+		);
+		CohereInstrumentation = instrumentationModule.CohereInstrumentation;
+	});
+
+	beforeEach(() => {
+		baseTest = new BaseAtlaTest();
+		baseTest.beforeEach();
+
+		jest.clearAllMocks();
+		realInMemorySpanExporter.reset();
+	});
+
+	afterEach(() => {
+		baseTest.afterEach();
+		cohere.resetCohereMock();
+		uninstrumentCohere();
+		cohere.CohereClient = OriginalCohereClient;
+		cohere.CohereClientV2 = OriginalV2;
+		realInMemorySpanExporter.reset();
+	});
+
+	describe("instrumentCohere", () => {
+		it("should throw error when not configured", () => {
+			mockAtlaInsights.configured = false;
+
+			expect(() => instrumentCohere()).toThrow(
+				"Atla Insights must be configured before instrumenting Cohere",
+			);
+
+			mockAtlaInsights.configured = true;
+		});
+
+		it("should register Cohere instrumentation", () => {
+			instrumentCohere();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalledWith(
+				"cohere",
+				expect.arrayContaining([expect.any(Object)]),
+			);
+		});
+	});
+
+	describe("withInstrumentedCohere", () => {
+		it("should create disposable instrumentation", () => {
+			const disposable = withInstrumentedCohere();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalled();
+			expect(typeof disposable[Symbol.dispose]).toBe("function");
+
+			disposable[Symbol.dispose]();
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalledWith(
+				"cohere",
+			);
+		});
+	});
+
+	describe("v1 client", () => {
+		it("should record the preamble, chat history and message", async () => {
+			instrumentCohere(cohere);
+			const client = new cohere.CohereClient({ token: "test-token" });
+
+			await client.chat({
+				model: "command-r-plus",
+				temperature: 0.5,
+				preamble: "You are a helpful assistant.",
+				chatHistory: [
+					{ role: "USER", message: "Hi!" },
+					{ role: "CHATBOT", message: "Hello! How can I help?" },
+				],
+				message: "How are you?",
+			});
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.name).toBe("Cohere chat");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.role": "system",
+					"llm.input_messages.0.message.content":
+						"You are a helpful assistant.",
+					"llm.input_messages.1.message.role": "user",
+					"llm.input_messages.1.message.content": "Hi!",
+					"llm.input_messages.2.message.role": "assistant",
+					"llm.input_messages.2.message.content": "Hello! How can I help?",
+					"llm.input_messages.3.message.role": "user",
+					"llm.input_messages.3.message.content": "How are you?",
+					"llm.output_messages.0.message.role": "assistant",
+					"llm.output_messages.0.message.content": "This is a test.",
+					[SemanticConventions.LLM_MODEL_NAME]: "command-r-plus",
+					[SemanticConventions.LLM_INVOCATION_PARAMETERS]: JSON.stringify({
+						model: "command-r-plus",
+						temperature: 0.5,
+					}),
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 5,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 15,
+					"llm.provider": "cohere",
+					"llm.system": "cohere",
+				}),
+			);
+		});
+
+		it("should record tool calls and tool results", async () => {
+			cohere.setCohereMockResponse(() => ({
+				text: "",
+				toolCalls: [{ name: "get_weather", parameters: { city: "London" } }],
+			}));
+			instrumentCohere(cohere);
+			const client = new cohere.CohereClient({ token: "test-token" });
+
+			await client.chat({
+				message: "Weather in Paris?",
+				toolResults: [
+					{
+						call: { name: "get_weather", parameters: { city: "Paris" } },
+						outputs: [{ weather: "Sunny" }],
+					},
+				],
+			});
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.1.message.role": "tool",
+					"llm.input_messages.1.message.content": JSON.stringify([
+						{ weather: "Sunny" },
+					]),
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+						"get_weather",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"London"}',
+				}),
+			);
+		});
+
+		it("should trace streamed responses", async () => {
+			instrumentCohere(cohere);
+			const client = new cohere.CohereClient({ token: "test-token" });
+
+			const stream = await client.chatStream({ message: "Hello!" });
+			for await (const _event of stream) {
+				// Consume the stream
+			}
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.name).toBe("Cohere chatStream");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.output_messages.0.message.content": "Hello there",
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 2,
+				}),
+			);
+		});
+	});
+
+	describe("v2 client", () => {
+		it("should record messages, tool calls and tools", async () => {
+			cohere.setCohereMockResponse(() => ({
+				id: "chat_tool",
+				message: {
+					role: "assistant",
+					toolPlan: "I will check the weather.",
+					toolCalls: [
+						{
+							id: "call_2",
+							type: "function",
+							function: {
+								name: "get_weather",
+								arguments: '{"city":"London"}',
+							},
+						},
+					],
+				},
+				usage: { billedUnits: { inputTokens: 20, outputTokens: 10 } },
+			}));
+			instrumentCohere(cohere);
+			const client = new cohere.CohereClientV2({ token: "test-token" });
+			const tool = {
+				type: "function",
+				function: { name: "get_weather", parameters: { type: "object" } },
+			};
+
+			await client.chat({
+				model: "command-r-plus",
+				tools: [tool],
+				messages: [
+					{ role: "user", content: "Weather in Paris?" },
+					{
+						role: "assistant",
+						toolCalls: [
+							{
+								id: "call_1",
+								type: "function",
+								function: {
+									name: "get_weather",
+									arguments: '{"city":"Paris"}',
+								},
+							},
+						],
+					},
+					{
+						role: "tool",
+						toolCallId: "call_1",
+						content: [{ type: "text", text: "Sunny" }],
+					},
+				],
+			});
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.1.message.tool_calls.0.tool_call.id": "call_1",
+					"llm.input_messages.2.message.role": "tool",
+					"llm.input_messages.2.message.tool_call_id": "call_1",
+					"llm.input_messages.2.message.contents.0.message_content.text":
+						"Sunny",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.id": "call_2",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"London"}',
+					"llm.tools.0.tool.json_schema": JSON.stringify(tool),
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 20,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 10,
+				}),
+			);
+		});
+
+		it("should trace streamed responses", async () => {
+			instrumentCohere(cohere);
+			const client = new cohere.CohereClientV2({ token: "test-token" });
+
+			const stream = await client.chatStream({
+				model: "command-r-plus",
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+			for await (const _event of stream) {
+				// Consume the stream
+			}
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.content": "Hello!",
+					"llm.output_messages.0.message.content": "Hello there",
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 2,
+				}),
+			);
+		});
+
+		it("should accumulate streamed tool calls", async () => {
+			cohere.setCohereMockResponse(() => [
+				{ type: "message-start", id: "chat_tool" },
+				{
+					type: "tool-call-start",
+					index: 0,
+					delta: {
+						message: {
+							toolCalls: {
+								id: "call_1",
+								type: "function",
+								function: { name: "get_weather", arguments: "" },
+							},
+						},
+					},
+				},
+				{
+					type: "tool-call-delta",
+					index: 0,
+					delta: {
+						message: { toolCalls: { function: { arguments: '{"city":' } } },
+					},
+				},
+				{
+					type: "tool-call-delta",
+					index: 0,
+					delta: {
+						message: { toolCalls: { function: { arguments: '"Paris"}' } } },
+					},
+				},
+				{ type: "message-end", delta: { finishReason: "TOOL_CALL" } },
+			]);
+			instrumentCohere(cohere);
+			const client = new cohere.CohereClientV2({ token: "test-token" });
+
+			const stream = await client.chatStream({
+				model: "command-r-plus",
+				messages: [{ role: "user", content: "Weather in Paris?" }],
+			});
+			for await (const _event of stream) {
+				// Consume the stream
+			}
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.output_messages.0.message.tool_calls.0.tool_call.id": "call_1",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+						"get_weather",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"Paris"}',
+				}),
+			);
+		});
+	});
+
+	describe("client instrumentation", () => {
+		it("should trace an existing client", async () => {
+			const client = new cohere.CohereClientV2({ token: "test-token" });
+			instrumentCohere(client);
+
+			await client.chat({
+				model: "command-r-plus",
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+
+			expect(getLLMSpans()).toHaveLength(1);
+		});
+
+		it("should record failing requests", async () => {
+			cohere.setCohereMockResponse(() => {
+				throw new Error("Too many requests");
+			});
+			const client = new cohere.CohereClient({ token: "test-token" });
+			instrumentCohere(client);
+
+			await expect(client.chat({ message: "Hello!" })).rejects.toThrow(
+				"Too many requests",
+			);
+
+			expect(getLLMSpans()[0].status).toEqual({
+				code: 2,
+				message: "Too many requests",
+			});
+		});
+
+		it("should stop tracing once disabled", async () => {
+			const instrumentation = new CohereInstrumentation({
+				tracerProvider: mockAtlaInsights.getTracerProvider(),
+			});
+			instrumentation.manuallyInstrument(cohere);
+			const client = new cohere.CohereClient({ token: "test-token" });
+			instrumentation.disable();
+
+			await client.chat({ message: "Hello!" });
+
+			expect(cohere.CohereClient).toBe(OriginalCohereClient);
+			expect(getLLMSpans()).toHaveLength(0);
+		});
+	});
+});
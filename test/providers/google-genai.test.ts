@@ -0,0 +1,344 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import {
+	BaseAtlaTest,
+	realInMemorySpanExporter,
+	mockAtlaInsightsWithRealOtel as mockAtlaInsights,
+} from "../setup";
+import {
+	OpenInferenceSpanKind,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+
+describe("Google GenAI Provider", () => {
+	let baseTest: BaseAtlaTest;
+
+	// Import after mocking
+	let instrumentGoogleGenAI: any;
+	let uninstrumentGoogleGenAI: any;
+	let withInstrumentedGoogleGenAI: any;
+	let GoogleGenAIInstrumentation: any;
+
+	// The Google Gen AI SDK is mapped to the mock in the Jest configuration
+	const genai = require("@google/genai");
+	const OriginalGoogleGenAI = genai.GoogleGenAI;
+
+	const getLLMSpans = () =>
+		realInMemorySpanExporter
+			.getFinishedSpans()
+			.filter(
+				(s) =>
+					s.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND] ===
+					OpenInferenceSpanKind.LLM,
+			);
+
+	beforeAll(async () => {
+		const googleGenAIModule = await import(
+			"../../src/providers/google-genai/index"
+		);
+		instrumentGoogleGenAI = googleGenAIModule.instrumentGoogleGenAI;
+		uninstrumentGoogleGenAI = googleGenAIModule.uninstrumentGoogleGenAI;
+		withInstrumentedGoogleGenAI = googleGenAIModule.withInstrumentedGoogleGenAI;
+
+		const instrumentationModule = await import(
+			"../../src/providers/google-genai/instrumentation"
+		);
+		GoogleGenAIInstrumentation =
+			instrumentationModule.GoogleGenAIInstrumentation;
+	});
+
+	beforeEach(() => {
+		baseTest = new BaseAtlaTest();
+		baseTest.beforeEach();
+
+		jest.clearAllMocks();
+		realInMemorySpanExporter.reset();
+	});
+
+	afterEach(() => {
+		baseTest.afterEach();
+		genai.resetGoogleGenAIMock();
+		uninstrumentGoogleGenAI();
+		genai.GoogleGenAI = OriginalGoogleGenAI;
+		realInMemorySpanExporter.reset();
+	});
+
+	describe("instrumentGoogleGenAI", () => {
+		it("should throw error when not configured", () => {
+			mockAtlaInsights.configured = false;
+
+			expect(() => instrumentGoogleGenAI()).toThrow(
+				"Atla Insights must be configured before instrumenting Google Gen AI",
+			);
+
+			mockAtlaInsights.configured = true;
+		});
+
+		it("should register Google Gen AI instrumentation", () => {
+			instrumentGoogleGenAI();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalledWith(
+				"google-genai",
+				expect.arrayContaining([expect.any(Object)]),
+			);
+		});
+	});
+
+	describe("withInstrumentedGoogleGenAI", () => {
+		it("should create disposable instrumentation", () => {
+			const disposable = withInstrumentedGoogleGenAI();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalled();
+			disposable[Symbol.dispose]();
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalledWith(
+				"google-genai",
+			);
+		});
+	});
+
+	describe("integration tests", () => {
+		it("should trace clients created after instrumenting the module", async () => {
+			instrumentGoogleGenAI(genai);
+			const ai = new genai.GoogleGenAI({ apiKey: "test-api-key" });
+
+			await ai.models.generateContent({
+				model: "gemini-2.5-flash",
+				contents: "Hello!",
+				config: {
+					systemInstruction: "You are a helpful assistant.",
+					temperature: 0.5,
+				},
+			});
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.name).toBe("Google GenAI generateContent");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.role": "system",
+					"llm.input_messages.0.message.content":
+						"You are a helpful assistant.",
+					"llm.input_messages.1.message.role": "user",
+					"llm.input_messages.1.message.contents.0.message_content.text":
+						"Hello!",
+					"llm.output_messages.0.message.role": "assistant",
+					"llm.output_messages.0.message.content": "This is a test.",
+					"llm.safety_ratings": JSON.stringify([
+						{
+							category: "HARM_CATEGORY_HARASSMENT",
+							probability: "NEGLIGIBLE",
+						},
+					]),
+					[SemanticConventions.LLM_MODEL_NAME]: "gemini-2.5-flash",
+					[SemanticConventions.LLM_INVOCATION_PARAMETERS]: JSON.stringify({
+						model: "gemini-2.5-flash",
+						temperature: 0.5,
+					}),
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 5,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 15,
+					"llm.provider": "google",
+				}),
+			);
+		});
+
+		it("should trace an existing client", async () => {
+			const ai = new genai.GoogleGenAI({ apiKey: "test-api-key" });
+			instrumentGoogleGenAI(ai);
+
+			const response = await ai.models.generateContent({
+				model: "gemini-2.5-flash",
+				contents: "Hello!",
+			});
+
+			expect(response.candidates[0].content.parts[0].text).toBe(
+				"This is a test.",
+			);
+			expect(getLLMSpans()).toHaveLength(1);
+		});
+
+		it("should record function calls, function responses and tools", async () => {
+			genai.setGoogleGenAIMockResponse(() => ({
+				candidates: [
+					{
+						content: {
+							role: "model",
+							parts: [
+								{
+									functionCall: { name: "get_weather", args: { city: "Rome" } },
+								},
+							],
+						},
+						finishReason: "STOP",
+					},
+				],
+			}));
+			const ai = new genai.GoogleGenAI({ apiKey: "test-api-key" });
+			instrumentGoogleGenAI(ai);
+			const declaration = {
+				name: "get_weather",
+				description: "Get the weather",
+				parameters: { type: "OBJECT" },
+			};
+
+			await ai.models.generateContent({
+				model: "gemini-2.5-flash",
+				contents: [
+					{ role: "user", parts: [{ text: "Weather in Paris?" }] },
+					{
+						role: "model",
+						parts: [
+							{
+								functionCall: {
+									id: "call_1",
+									name: "get_weather",
+									args: { city: "Paris" },
+								},
+							},
+						],
+					},
+					{
+						role: "user",
+						parts: [
+							{
+								functionResponse: {
+									id: "call_1",
+									name: "get_weather",
+									response: { weather: "Sunny" },
+								},
+							},
+						],
+					},
+				],
+				config: { tools: [{ functionDeclarations: [declaration] }] },
+			});
+
+			expect(getLLMSpans()[0].attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.1.message.role": "assistant",
+					"llm.input_messages.1.message.tool_calls.0.tool_call.id": "call_1",
+					"llm.input_messages.1.message.tool_calls.0.tool_call.function.name":
+						"get_weather",
+					"llm.input_messages.1.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"Paris"}',
+					"llm.input_messages.2.message.role": "tool",
+					"llm.input_messages.2.message.tool_call_id": "call_1",
+					"llm.input_messages.2.message.content": '{"weather":"Sunny"}',
+					"llm.tools.0.tool.json_schema": JSON.stringify(declaration),
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+						"get_weather",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"Rome"}',
+				}),
+			);
+		});
+
+		it("should trace streamed responses", async () => {
+			const ai = new genai.GoogleGenAI({ apiKey: "test-api-key" });
+			instrumentGoogleGenAI(ai);
+
+			const stream = await ai.models.generateContentStream({
+				model: "gemini-2.5-flash",
+				contents: "Hello!",
+			});
+			const chunks: any[] = [];
+			for await (const chunk of stream) {
+				chunks.push(chunk);
+			}
+
+			expect(chunks).toHaveLength(2);
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.name).toBe("Google GenAI generateContentStream");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.output_messages.0.message.content": "Hello there",
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 2,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 12,
+				}),
+			);
+		});
+
+		it("should end the span when the stream is not fully consumed", async () => {
+			const ai = new genai.GoogleGenAI({ apiKey: "test-api-key" });
+			instrumentGoogleGenAI(ai);
+
+			const stream = await ai.models.generateContentStream({
+				model: "gemini-2.5-flash",
+				contents: "Hello!",
+			});
+			for await (const _chunk of stream) {
+				break;
+			}
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.output_messages.0.message.content": "Hello",
+				}),
+			);
+		});
+
+		it("should trace every message of a chat session", async () => {
+			const ai = new genai.GoogleGenAI({ apiKey: "test-api-key" });
+			instrumentGoogleGenAI(ai);
+
+			const chat = ai.chats.create({ model: "gemini-2.5-flash" });
+			await chat.sendMessage({ message: "Hello!" });
+			await chat.sendMessage({ message: "How are you?" });
+
+			const llmSpans = getLLMSpans();
+			expect(llmSpans).toHaveLength(2);
+			expect(llmSpans[1].attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.role": "user",
+					"llm.input_messages.1.message.role": "assistant",
+					"llm.input_messages.2.message.contents.0.message_content.text":
+						"How are you?",
+				}),
+			);
+		});
+
+		it("should record failing requests", async () => {
+			genai.setGoogleGenAIMockResponse(() => {
+				throw new Error("Quota exceeded");
+			});
+			const ai = new genai.GoogleGenAI({ apiKey: "test-api-key" });
+			instrumentGoogleGenAI(ai);
+
+			await expect(
+				ai.models.generateContent({
+					model: "gemini-2.5-flash",
+					contents: "Hello!",
+				}),
+			).rejects.toThrow("Quota exceeded");
+
+			expect(getLLMSpans()[0].status).toEqual({
+				code: 2,
+				message: "Quota exceeded",
+			});
+		});
+
+		it("should stop tracing once disabled", async () => {
+			const instrumentation = new GoogleGenAIInstrumentation({
+				tracerProvider: mockAtlaInsights.getTracerProvider(),
+			});
+			instrumentation.manuallyInstrument(genai);
+			const ai = new genai.GoogleGenAI({ apiKey: "test-api-key" });
+			instrumentation.disable();
+
+			await ai.models.generateContent({
+				model: "gemini-2.5-flash",
+				contents: "Hello!",
+			});
+
+			expect(genai.GoogleGenAI).toBe(OriginalGoogleGenAI);
+			expect(getLLMSpans()).toHaveLength(0);
+		});
+	});
+});
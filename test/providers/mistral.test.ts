@@ -0,0 +1,291 @@
+/** biome-ignore-all lint/suspicious/noExplicitAny: Allow any */
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	jest,
+} from "@jest/globals";
+import {
+	BaseAtlaTest,
+	realInMemorySpanExporter,
+	mockAtlaInsightsWithRealOtel as mockAtlaInsights,
+} from "../setup";
+import {
+	OpenInferenceSpanKind,
+	SemanticConventions,
+} from "@arizeai/openinference-semantic-conventions";
+
+describe("Mistral Provider", () => {
+	let baseTest: BaseAtlaTest;
+
+	// Import after mocking
+	let instrumentMistral: any;
+	let uninstrumentMistral: any;
+	let withInstrumentedMistral: any;
+	let MistralInstrumentation: any;
+
+	// The Mistral SDK is mapped to the mock in the Jest configuration
+	const mistral = require("@mistralai/mistralai");
+	const OriginalMistral = mistral.Mistral;
+
+	const getLLMSpans = () =>
+		realInMemorySpanExporter
+			.getFinishedSpans()
+			.filter(
+				(s) =>
+					s.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND] ===
+					OpenInferenceSpanKind.LLM,
+			);
+
+	beforeAll(async () => {
+		const mistralModule = await import("../../src/providers/mistral/index");
+		instrumentMistral = mistralModule.instrumentMistral;
+		uninstrumentMistral = mistralModule.uninstrumentMistral;
+		withInstrumentedMistral = mistralModule.withInstrumentedMistral;
+
+		const instrumentationModule = await import(
+			"../../src/providers/mistral/instrumentation"
+		);
+		MistralInstrumentation = instrumentationModule.MistralInstrumentation;
+	});
+
+	beforeEach(() => {
+		baseTest = new BaseAtlaTest();
+		baseTest.beforeEach();
+
+		jest.clearAllMocks();
+		realInMemorySpanExporter.reset();
+	});
+
+	afterEach(() => {
+		baseTest.afterEach();
+		mistral.resetMistralMock();
+		uninstrumentMistral();
+		mistral.Mistral = OriginalMistral;
+		realInMemorySpanExporter.reset();
+	});
+
+	describe("instrumentMistral", () => {
+		it("should throw error when not configured", () => {
+			mockAtlaInsights.configured = false;
+
+			expect(() => instrumentMistral()).toThrow(
+				"Atla Insights must be configured before instrumenting Mistral",
+			);
+
+			mockAtlaInsights.configured = true;
+		});
+
+		it("should register Mistral instrumentation", () => {
+			instrumentMistral();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalledWith(
+				"mistral",
+				expect.arrayContaining([expect.any(Object)]),
+			);
+		});
+	});
+
+	describe("withInstrumentedMistral", () => {
+		it("should create disposable instrumentation", () => {
+			const disposable = withInstrumentedMistral();
+
+			expect(mockAtlaInsights.registerInstrumentations).toHaveBeenCalled();
+			expect(typeof disposable[Symbol.dispose]).toBe("function");
+
+			disposable[Symbol.dispose]();
+			expect(mockAtlaInsights.unregisterInstrumentations).toHaveBeenCalledWith(
+				"mistral",
+			);
+		});
+	});
+
+	describe("integration tests", () => {
+		it("should trace clients created after instrumenting the module", async () => {
+			instrumentMistral(mistral);
+			const client = new mistral.Mistral({ apiKey: "test-api-key" });
+
+			await client.chat.complete({
+				model: "mistral-small-latest",
+				temperature: 0.5,
+				messages: [
+					{ role: "system", content: "You are a helpful assistant." },
+					{ role: "user", content: [{ type: "text", text: "Hello!" }] },
+				],
+			});
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.name).toBe("Mistral complete");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.0.message.role": "system",
+					"llm.input_messages.0.message.content":
+						"You are a helpful assistant.",
+					"llm.input_messages.1.message.role": "user",
+					"llm.input_messages.1.message.contents.0.message_content.text":
+						"Hello!",
+					"llm.output_messages.0.message.role": "assistant",
+					"llm.output_messages.0.message.content": "This is a test.",
+					[SemanticConventions.LLM_MODEL_NAME]: "mistral-small-latest",
+					[SemanticConventions.LLM_INVOCATION_PARAMETERS]: JSON.stringify({
+						model: "mistral-small-latest",
+						temperature: 0.5,
+					}),
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 5,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 15,
+					"llm.provider": "mistralai",
+					"llm.system": "mistralai",
+				}),
+			);
+		});
+
+		it("should trace an existing client", async () => {
+			const client = new mistral.Mistral({ apiKey: "test-api-key" });
+			instrumentMistral(client);
+
+			const response = await client.chat.complete({
+				model: "mistral-small-latest",
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+
+			expect(response.choices[0].message.content).toBe("This is a test.");
+			expect(getLLMSpans()).toHaveLength(1);
+		});
+
+		it("should record tool calls, tool results and tools", async () => {
+			mistral.setMistralMockResponse((args: any) => ({
+				model: args.model,
+				choices: [
+					{
+						index: 0,
+						message: {
+							role: "assistant",
+							content: "",
+							toolCalls: [
+								{
+									id: "call_2",
+									function: {
+										name: "get_weather",
+										arguments: { city: "London" },
+									},
+								},
+							],
+						},
+						finishReason: "tool_calls",
+					},
+				],
+			}));
+			const client = new mistral.Mistral({ apiKey: "test-api-key" });
+			instrumentMistral(client);
+			const tool = {
+				type: "function",
+				function: { name: "get_weather", parameters: { type: "object" } },
+			};
+
+			await client.chat.complete({
+				model: "mistral-small-latest",
+				tools: [tool],
+				messages: [
+					{ role: "user", content: "Weather in Paris?" },
+					{
+						role: "assistant",
+						toolCalls: [
+							{
+								id: "call_1",
+								function: {
+									name: "get_weather",
+									arguments: '{"city":"Paris"}',
+								},
+							},
+						],
+					},
+					{ role: "tool", toolCallId: "call_1", content: "Sunny" },
+				],
+			});
+
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.input_messages.1.message.tool_calls.0.tool_call.id": "call_1",
+					"llm.input_messages.1.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"Paris"}',
+					"llm.input_messages.2.message.role": "tool",
+					"llm.input_messages.2.message.tool_call_id": "call_1",
+					"llm.input_messages.2.message.content": "Sunny",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.id": "call_2",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.name":
+						"get_weather",
+					"llm.output_messages.0.message.tool_calls.0.tool_call.function.arguments":
+						'{"city":"London"}',
+					"llm.tools.0.tool.json_schema": JSON.stringify(tool),
+				}),
+			);
+		});
+
+		it("should trace streamed responses", async () => {
+			const client = new mistral.Mistral({ apiKey: "test-api-key" });
+			instrumentMistral(client);
+
+			const stream = await client.chat.stream({
+				model: "mistral-small-latest",
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+			const events = [];
+			for await (const event of stream) {
+				events.push(event);
+			}
+
+			expect(events).toHaveLength(2);
+			const [llmSpan] = getLLMSpans();
+			expect(llmSpan?.name).toBe("Mistral stream");
+			expect(llmSpan?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.output_messages.0.message.content": "Hello there",
+					[SemanticConventions.LLM_TOKEN_COUNT_PROMPT]: 10,
+					[SemanticConventions.LLM_TOKEN_COUNT_COMPLETION]: 2,
+					[SemanticConventions.LLM_TOKEN_COUNT_TOTAL]: 12,
+				}),
+			);
+		});
+
+		it("should record failing requests", async () => {
+			mistral.setMistralMockResponse(() => {
+				throw new Error("Unauthorized");
+			});
+			const client = new mistral.Mistral({ apiKey: "test-api-key" });
+			instrumentMistral(client);
+
+			await expect(
+				client.chat.complete({
+					model: "mistral-small-latest",
+					messages: [{ role: "user", content: "Hello!" }],
+				}),
+			).rejects.toThrow("Unauthorized");
+
+			expect(getLLMSpans()[0].status).toEqual({
+				code: 2,
+				message: "Unauthorized",
+			});
+		});
+
+		it("should stop tracing once disabled", async () => {
+			const instrumentation = new MistralInstrumentation({
+				tracerProvider: mockAtlaInsights.getTracerProvider(),
+			});
+			instrumentation.manuallyInstrument(mistral);
+			const client = new mistral.Mistral({ apiKey: "test-api-key" });
+			instrumentation.disable();
+
+			await client.chat.complete({
+				model: "mistral-small-latest",
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+
+			expect(mistral.Mistral).toBe(OriginalMistral);
+			expect(getLLMSpans()).toHaveLength(0);
+		});
+	});
+});
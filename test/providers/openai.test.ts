@@ -8,6 +8,12 @@ import {
 	jest,
 } from "@jest/globals";
 import OpenAI from "openai";
+import {
+	InMemorySpanExporter,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import { AtlaRootSpanProcessor } from "../../src/atla_root_span_processor";
 import {
 	BaseAtlaTest,
 	realInMemorySpanExporter,
@@ -371,4 +377,128 @@ describe("OpenAI Provider", () => {
 			);
 		});
 	});
+
+	describe("OpenAI-compatible providers", () => {
+		const getLLMSpan = () =>
+			realInMemorySpanExporter
+				.getFinishedSpans()
+				.find(
+					(s) =>
+						s.attributes[SemanticConventions.OPENINFERENCE_SPAN_KIND] ===
+						OpenInferenceSpanKind.LLM,
+				);
+
+		it.each([
+			["https://my-resource.openai.azure.com/openai", "azure", "openai"],
+			["https://ollama.com/v1", "ollama", "ollama"],
+			["http://localhost:11434/v1", "ollama", "ollama"],
+			["https://api.together.xyz/v1", "together", "together"],
+			["https://api.fireworks.ai/inference/v1", "fireworks", "fireworks"],
+			["https://api.deepseek.com", "deepseek", "deepseek"],
+			["https://api.x.ai/v1", "xai", "xai"],
+			["https://openrouter.ai/api/v1", "openrouter", "openrouter"],
+		])("should tag requests to %s", async (baseURL, provider, system) => {
+			const OpenAIModule = require("openai");
+			instrumentOpenAI(OpenAIModule);
+			const client = new OpenAIModule.OpenAI({ apiKey: "test", baseURL });
+
+			await client.chat.completions.create({
+				model: "some-model",
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+
+			expect(getLLMSpan()?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.provider": provider,
+					"llm.system": system,
+				}),
+			);
+		});
+
+		it("should tag requests once the root span processor renamed the scope", async () => {
+			const exporter = new InMemorySpanExporter();
+			const provider = new NodeTracerProvider();
+			provider.addSpanProcessor(new AtlaRootSpanProcessor());
+			provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+			const previous = mockAtlaInsights.getTracerProvider();
+			mockAtlaInsights.getTracerProvider.mockImplementation(() => provider);
+
+			try {
+				const OpenAIModule = require("openai");
+				instrumentOpenAI(OpenAIModule);
+				const client = new OpenAIModule.OpenAI({
+					apiKey: "test",
+					baseURL: "https://api.deepseek.com",
+				});
+
+				await client.chat.completions.create({
+					model: "deepseek-chat",
+					messages: [{ role: "user", content: "Hello!" }],
+				});
+			} finally {
+				mockAtlaInsights.getTracerProvider.mockImplementation(() => previous);
+			}
+
+			const [span] = exporter.getFinishedSpans();
+			expect(span.instrumentationLibrary.name).toBe(
+				"openinference.instrumentation.openai",
+			);
+			expect(span.attributes).toEqual(
+				expect.objectContaining({
+					"llm.provider": "deepseek",
+					"llm.system": "deepseek",
+				}),
+			);
+		});
+
+		it("should tag requests to the configured custom providers", async () => {
+			mockAtlaInsights.getOpenAICompatibleProviders.mockReturnValue({
+				"llm.internal:9000": "internal",
+			});
+			const OpenAIModule = require("openai");
+			instrumentOpenAI(OpenAIModule);
+			const client = new OpenAIModule.OpenAI({
+				apiKey: "test",
+				baseURL: "http://llm.internal:9000/v1",
+			});
+
+			await client.embeddings.create({
+				model: "some-embedding-model",
+				input: "Hello world",
+			});
+
+			const spans = realInMemorySpanExporter.getFinishedSpans();
+			expect(spans[0].attributes).toEqual(
+				expect.objectContaining({
+					"llm.provider": "internal",
+					"llm.system": "internal",
+				}),
+			);
+			mockAtlaInsights.getOpenAICompatibleProviders.mockReturnValue(undefined);
+		});
+
+		it.each([
+			"https://proxy.example.com/v1",
+			"http://gateway.internal:8000/v1",
+			// vLLM servers need a custom provider
+			"http://localhost:8000/v1",
+			"http://ollama-proxy.internal/v1",
+		])("should keep the OpenAI provider for %s", async (baseURL) => {
+			const OpenAIModule = require("openai");
+			instrumentOpenAI(OpenAIModule);
+			const client = new OpenAIModule.OpenAI({ apiKey: "test", baseURL });
+
+			await client.chat.completions.create({
+				model: "gpt-4",
+				messages: [{ role: "user", content: "Hello!" }],
+			});
+
+			expect(getLLMSpan()?.attributes).toEqual(
+				expect.objectContaining({
+					"llm.provider": "openai",
+					"llm.system": "openai",
+				}),
+			);
+		});
+	});
 });
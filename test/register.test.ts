@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { mockAtlaInsightsWithRealOtel } from "./setup";
+
+// Module factories run again in isolated registries, so share the mocks
+const mockInstrumentOpenAI = jest.fn();
+const mockInstrumentAnthropic = jest.fn();
+const mockInstrumentGoogleGenAI = jest.fn();
+const mockInstrumentBedrock = jest.fn();
+const mockInstrumentMistral = jest.fn();
+const mockInstrumentCohere = jest.fn();
+const mockInstrumentGroq = jest.fn();
+const mockInstrumentLangChain = jest.fn();
+const mockInstrumentOpenAIAgents = jest.fn();
+const mockInstrumentLlamaIndex = jest.fn();
+const mockInstrumentMCP = jest.fn();
+
+jest.mock("../src/providers/openai/index", () => ({
+	instrumentOpenAI: mockInstrumentOpenAI,
+}));
+jest.mock("../src/providers/anthropic/index", () => ({
+	instrumentAnthropic: mockInstrumentAnthropic,
+}));
+jest.mock("../src/providers/google-genai/index", () => ({
+	instrumentGoogleGenAI: mockInstrumentGoogleGenAI,
+}));
+jest.mock("../src/providers/bedrock/index", () => ({
+	instrumentBedrock: mockInstrumentBedrock,
+}));
+jest.mock("../src/providers/mistral/index", () => ({
+	instrumentMistral: mockInstrumentMistral,
+}));
+jest.mock("../src/providers/cohere/index", () => ({
+	instrumentCohere: mockInstrumentCohere,
+}));
+jest.mock("../src/providers/groq/index", () => ({
+	instrumentGroq: mockInstrumentGroq,
+}));
+jest.mock("../src/providers/langchain/index", () => ({
+	instrumentLangChain: mockInstrumentLangChain,
+}));
+jest.mock("../src/frameworks/openai-agents/index", () => ({
+	instrumentOpenAIAgents: mockInstrumentOpenAIAgents,
+}));
+jest.mock("../src/frameworks/llamaindex/index", () => ({
+	instrumentLlamaIndex: mockInstrumentLlamaIndex,
+}));
+jest.mock("../src/frameworks/mcp/index", () => ({
+	instrumentMCP: mockInstrumentMCP,
+}));
+
+describe("register", () => {
+	const loadRegister = () => {
+		jest.isolateModules(() => {
+			require("../src/register");
+		});
+	};
+
+	afterEach(() => {
+		delete process.env.ATLA_INSTRUMENT;
+		jest.clearAllMocks();
+	});
+
+	it("should configure the SDK and instrument every library", () => {
+		loadRegister();
+
+		expect(mockAtlaInsightsWithRealOtel.configure).toHaveBeenCalledWith({
+			registerShutdownHooks: true,
+		});
+		expect(mockInstrumentOpenAI).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentAnthropic).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentGoogleGenAI).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentBedrock).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentMistral).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentCohere).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentGroq).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentLangChain).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentOpenAIAgents).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentLlamaIndex).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentMCP).toHaveBeenCalledTimes(1);
+	});
+
+	it("should only instrument the libraries listed in ATLA_INSTRUMENT", () => {
+		process.env.ATLA_INSTRUMENT = "openai";
+
+		loadRegister();
+
+		expect(mockInstrumentOpenAI).toHaveBeenCalledTimes(1);
+		expect(mockInstrumentAnthropic).not.toHaveBeenCalled();
+		expect(mockInstrumentGoogleGenAI).not.toHaveBeenCalled();
+		expect(mockInstrumentBedrock).not.toHaveBeenCalled();
+		expect(mockInstrumentMistral).not.toHaveBeenCalled();
+		expect(mockInstrumentCohere).not.toHaveBeenCalled();
+		expect(mockInstrumentGroq).not.toHaveBeenCalled();
+		expect(mockInstrumentLangChain).not.toHaveBeenCalled();
+		expect(mockInstrumentOpenAIAgents).not.toHaveBeenCalled();
+		expect(mockInstrumentLlamaIndex).not.toHaveBeenCalled();
+		expect(mockInstrumentMCP).not.toHaveBeenCalled();
+	});
+
+	it("should warn instead of throwing when configuration fails", () => {
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+		mockAtlaInsightsWithRealOtel.configure.mockImplementationOnce(() => {
+			throw new Error("Atla Insights: Token is required");
+		});
+
+		expect(loadRegister).not.toThrow();
+
+		expect(warn).toHaveBeenCalledWith(
+			expect.stringContaining("Atla Insights: Token is required"),
+		);
+		expect(mockInstrumentOpenAI).not.toHaveBeenCalled();
+		warn.mockRestore();
+	});
+});
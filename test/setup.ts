@@ -6,6 +6,7 @@ import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
 import { SimpleSpanProcessor } from "@opentelemetry/sdk-trace-base";
 import { Resource } from "@opentelemetry/resources";
 import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import type { OpenAICompatibleProviders } from "../src/providers/openai/compatible";
 
 // Real in-memory exporter + provider for tests
 export const realInMemorySpanExporter = new InMemorySpanExporter();
@@ -22,8 +23,14 @@ export const mockAtlaInsightsWithRealOtel = {
 	configure: jest.fn(),
 	getTracer: jest.fn(() => realTracerProvider.getTracer("test-tracer")),
 	getTracerProvider: jest.fn(() => realTracerProvider),
+	isInstrumented: jest.fn(() => true),
 	registerInstrumentations: jest.fn(),
 	unregisterInstrumentations: jest.fn(),
+	registerProcessor: jest.fn(),
+	unregisterProcessor: jest.fn(),
+	getOpenAICompatibleProviders: jest.fn(
+		(): OpenAICompatibleProviders | undefined => undefined,
+	),
 	configured: true,
 };
 